@@ -164,12 +164,11 @@ const createDatabaseWrapper = (rawDatabase) => {
       const originalAll = stmt.all.bind(stmt);
       const originalEach = stmt.each.bind(stmt);
       
-      stmt.run = function(params, callback) {
-        if (typeof params === 'function') {
-          callback = params;
-          params = [];
-        }
-        
+      // As in sqlite3, parameters may be given as one array or object, or one argument each
+      stmt.run = function(...args) {
+        const callback = typeof args[args.length - 1] === 'function' ? args.pop() : undefined;
+        const params = args.length === 1 ? args[0] : args;
+
         return retryDatabaseOperation((retryCallback) => {
           originalRun(params, retryCallback);
         }).then(result => {
@@ -260,12 +259,43 @@ const createDatabaseWrapper = (rawDatabase) => {
       return retryDatabaseOperation((callback) => {
         rawDatabase.all(sql, params, callback);
       });
+    },
+
+    // Run an async unit of work inside BEGIN/COMMIT, rolling back if it throws.
+    // Transactions are queued so two requests never interleave on the shared connection.
+    runInTransaction: function(work) {
+      const run = transactionQueue.then(async () => {
+        await wrapper.runAsync('BEGIN IMMEDIATE TRANSACTION');
+        try {
+          const result = await work();
+          await wrapper.runAsync('COMMIT');
+          return result;
+        } catch (err) {
+          await wrapper.runAsync('ROLLBACK').catch((rollbackErr) => {
+            console.error('Error rolling back transaction:', rollbackErr.message);
+          });
+          throw err;
+        }
+      });
+      transactionQueue = run.catch(() => {});
+      return run;
     }
   };
-  
+
+  let transactionQueue = Promise.resolve();
+
   return wrapper;
 };
 
+// Add a column to an existing table; a no-op when the column is already there
+const addColumnIfMissing = (table, column, definition) => {
+  rawDb.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, (err) => {
+    if (err && !err.message.includes('duplicate column name')) {
+      console.error(`Error adding ${table}.${column} column:`, err.message);
+    }
+  });
+};
+
 // Create the wrapped database instance
 const db = createDatabaseWrapper(rawDb);
 
@@ -345,6 +375,228 @@ function initializeDatabase() {
         });
       }
     });
+    addColumnIfMissing('inventory_items', 'isLotTracked', 'INTEGER NOT NULL DEFAULT 0');
+    // Optional shelf life; receipts of lot-tracked items default their lot's expiry date from it
+    addColumnIfMissing('inventory_items', 'shelfLifeDays', 'INTEGER');
+    addColumnIfMissing('inventory_items', 'purchaseUnit', 'TEXT');
+    addColumnIfMissing('inventory_items', 'consumptionUnit', 'TEXT');
+    // ABC (consumption value) and XYZ (demand variability) classes from the last stored analysis
+    addColumnIfMissing('inventory_items', 'abcClass', 'TEXT');
+    addColumnIfMissing('inventory_items', 'xyzClass', 'TEXT');
+    addColumnIfMissing('inventory_items', 'classifiedAt', 'TEXT');
+
+    // Create inventory_unit_conversions table (one unit of `unit` = `factor` stock units of the item)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS inventory_unit_conversions (
+        id TEXT PRIMARY KEY,
+        inventoryItemId TEXT NOT NULL,
+        unit TEXT NOT NULL,
+        factor REAL NOT NULL,
+        UNIQUE (inventoryItemId, unit),
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE CASCADE
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating inventory_unit_conversions table:', err.message);
+      } else {
+        console.log('Inventory unit conversions table initialized');
+      }
+    });
+
+    // Create inventory_transactions table (stock ledger, one signed row per movement)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS inventory_transactions (
+        id TEXT PRIMARY KEY,
+        inventoryItemId TEXT NOT NULL,
+        type TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        balanceAfter REAL NOT NULL,
+        unitCost REAL,
+        locationId TEXT,
+        referenceType TEXT,
+        referenceNumber TEXT,
+        notes TEXT,
+        performedBy TEXT,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id)
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating inventory_transactions table:', err.message);
+      } else {
+        console.log('Inventory transactions table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_inventory_transactions_item ON inventory_transactions(inventoryItemId, createdAt)');
+        backfillOpeningBalances();
+      }
+    });
+    addColumnIfMissing('inventory_transactions', 'locationId', 'TEXT');
+    addColumnIfMissing('inventory_transactions', 'lotNumber', 'TEXT');
+    addColumnIfMissing('inventory_transactions', 'enteredQuantity', 'REAL');
+    addColumnIfMissing('inventory_transactions', 'enteredUnit', 'TEXT');
+
+    // Create locations table
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS locations (
+        id TEXT PRIMARY KEY,
+        code TEXT UNIQUE NOT NULL,
+        storeName TEXT NOT NULL,
+        rack TEXT,
+        shelf TEXT,
+        description TEXT,
+        isActive INTEGER NOT NULL DEFAULT 1,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating locations table:', err.message);
+      } else {
+        console.log('Locations table initialized');
+        retryDatabaseOperation((callback) => {
+          rawDb.get('SELECT COUNT(*) as count FROM locations', callback);
+        })
+        .then((row) => {
+          // Serialize so the default locations exist before codes are backfilled from items
+          rawDb.serialize(() => {
+            if (row.count === 0) {
+              seedDefaultLocations();
+            }
+            backfillLocationStock();
+          });
+        })
+        .catch((err) => {
+          console.error('Error checking locations count:', err.message);
+        });
+      }
+    });
+
+    // Create categories table (item categories; sub-categories point at their category through parentId)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        parentId TEXT,
+        description TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT,
+        FOREIGN KEY (parentId) REFERENCES categories(id) ON DELETE CASCADE
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating categories table:', err.message);
+      } else {
+        console.log('Categories table initialized');
+        // Names are unique among siblings, ignoring case
+        rawDb.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_name ON categories(COALESCE(parentId, ''), name COLLATE NOCASE)`);
+        retryDatabaseOperation((callback) => {
+          rawDb.get('SELECT COUNT(*) as count FROM categories', callback);
+        })
+        .then((row) => {
+          rawDb.serialize(() => {
+            if (row.count === 0) {
+              seedDefaultCategories();
+            }
+            backfillCategories();
+          });
+        })
+        .catch((err) => {
+          console.error('Error checking categories count:', err.message);
+        });
+      }
+    });
+
+    // Create inventory_stock table (quantity of each item held at each location)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS inventory_stock (
+        id TEXT PRIMARY KEY,
+        inventoryItemId TEXT NOT NULL,
+        locationId TEXT NOT NULL,
+        quantity REAL NOT NULL DEFAULT 0,
+        UNIQUE (inventoryItemId, locationId),
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (locationId) REFERENCES locations(id)
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating inventory_stock table:', err.message);
+      } else {
+        console.log('Inventory stock table initialized');
+      }
+    });
+
+    // Create inventory_lots table (quantity of each lot/batch of a lot-tracked item at each location)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS inventory_lots (
+        id TEXT PRIMARY KEY,
+        inventoryItemId TEXT NOT NULL,
+        locationId TEXT NOT NULL,
+        lotNumber TEXT NOT NULL,
+        quantity REAL NOT NULL DEFAULT 0,
+        receivedAt TEXT NOT NULL,
+        UNIQUE (inventoryItemId, locationId, lotNumber),
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (locationId) REFERENCES locations(id)
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating inventory_lots table:', err.message);
+      } else {
+        console.log('Inventory lots table initialized');
+      }
+    });
+    addColumnIfMissing('inventory_lots', 'expiryDate', 'TEXT');
+
+    // Create stock_takes table (physical count sessions)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS stock_takes (
+        id TEXT PRIMARY KEY,
+        sessionNumber TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        scopeType TEXT NOT NULL,
+        scopeValues TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'counting',
+        notes TEXT,
+        createdBy TEXT,
+        createdAt TEXT NOT NULL,
+        postedBy TEXT,
+        postedAt TEXT
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating stock_takes table:', err.message);
+      } else {
+        console.log('Stock takes table initialized');
+      }
+    });
+
+    // Create stock_take_lines table (expected quantities frozen when the session opens)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS stock_take_lines (
+        id TEXT PRIMARY KEY,
+        stockTakeId TEXT NOT NULL,
+        inventoryItemId TEXT NOT NULL,
+        locationId TEXT NOT NULL,
+        lotNumber TEXT,
+        expectedQuantity REAL NOT NULL,
+        unitCost REAL NOT NULL,
+        countedQuantity REAL,
+        reasonCode TEXT,
+        approved INTEGER NOT NULL DEFAULT 0,
+        countedBy TEXT,
+        countedAt TEXT,
+        UNIQUE (stockTakeId, inventoryItemId, locationId, lotNumber),
+        FOREIGN KEY (stockTakeId) REFERENCES stock_takes(id) ON DELETE CASCADE,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (locationId) REFERENCES locations(id)
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating stock_take_lines table:', err.message);
+      } else {
+        console.log('Stock take lines table initialized');
+      }
+    });
+    addColumnIfMissing('stock_take_lines', 'lotNumber', 'TEXT');
 
     // Create suppliers table
     rawDb.run(`
@@ -410,6 +662,45 @@ function initializeDatabase() {
         });
       }
     });
+    // User account of the department manager, who decides department manager approval steps
+    addColumnIfMissing('departments', 'managerUsername', 'TEXT REFERENCES users(username)');
+
+    // Create cost_centers table; a department's costCenter holds a cost center code. The manager's
+    // user account is checked by the API rather than a foreign key, as the default cost centers
+    // may be seeded before the default users.
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS cost_centers (
+        id TEXT PRIMARY KEY,
+        code TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        budget REAL NOT NULL DEFAULT 0,
+        budgetPeriod TEXT NOT NULL DEFAULT 'monthly',
+        manager TEXT,
+        managerUsername TEXT,
+        department TEXT,
+        isActive INTEGER NOT NULL DEFAULT 1,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating cost_centers table:', err.message);
+      } else {
+        console.log('Cost centers table initialized');
+        retryDatabaseOperation((callback) => {
+          rawDb.get('SELECT COUNT(*) as count FROM cost_centers', callback);
+        })
+        .then((row) => {
+          if (row.count === 0) {
+            seedDefaultCostCenters();
+          }
+        })
+        .catch((err) => {
+          console.error('Error checking cost centers count:', err.message);
+        });
+      }
+    });
 
     // Create requesters table
     rawDb.run(`
@@ -445,6 +736,185 @@ function initializeDatabase() {
       }
     });
 
+    // Create requisitions table (material requests from the floor, approved before stock is issued)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS requisitions (
+        id TEXT PRIMARY KEY,
+        requestNumber TEXT UNIQUE NOT NULL,
+        requester TEXT NOT NULL,
+        department TEXT NOT NULL,
+        orderNumber TEXT,
+        bomNumber TEXT,
+        requireSingleLot INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'draft',
+        notes TEXT,
+        requestDate TEXT NOT NULL,
+        submittedAt TEXT,
+        approvedBy TEXT,
+        approvalDate TEXT,
+        rejectedBy TEXT,
+        rejectedAt TEXT,
+        rejectionReason TEXT,
+        createdBy TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating requisitions table:', err.message);
+      } else {
+        console.log('Requisitions table initialized');
+      }
+    });
+    addColumnIfMissing('requisitions', 'fulfilledAt', 'TEXT');
+    // Cabinet project whose bill of materials the requisition was generated from
+    addColumnIfMissing('requisitions', 'projectId', 'TEXT');
+
+    // Create requisition_items table (quantities in the unit the line was requested in)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS requisition_items (
+        id TEXT PRIMARY KEY,
+        requisitionId TEXT NOT NULL,
+        inventoryItemId TEXT,
+        itemId TEXT NOT NULL,
+        itemName TEXT NOT NULL,
+        requestedQuantity REAL NOT NULL,
+        approvedQuantity REAL,
+        unitMeasurement TEXT NOT NULL,
+        unitCost REAL NOT NULL,
+        lineNumber INTEGER NOT NULL,
+        FOREIGN KEY (requisitionId) REFERENCES requisitions(id) ON DELETE CASCADE,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE SET NULL
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating requisition_items table:', err.message);
+      } else {
+        console.log('Requisition items table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_requisition_items_requisition ON requisition_items(requisitionId)');
+      }
+    });
+    // Quantity issued so far; the rest of the approved quantity is open as a backorder
+    addColumnIfMissing('requisition_items', 'issuedQuantity', 'REAL NOT NULL DEFAULT 0');
+
+    // Create material_returns table (unused issued material brought back to stock, credited to a cost center)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS material_returns (
+        id TEXT PRIMARY KEY,
+        returnNumber TEXT UNIQUE NOT NULL,
+        referenceType TEXT NOT NULL,
+        referenceId TEXT NOT NULL,
+        referenceNumber TEXT NOT NULL,
+        department TEXT,
+        costCenter TEXT,
+        creditAmount REAL NOT NULL DEFAULT 0,
+        returnedBy TEXT,
+        receivedBy TEXT,
+        notes TEXT,
+        createdAt TEXT NOT NULL
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating material_returns table:', err.message);
+      } else {
+        console.log('Material returns table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_material_returns_reference ON material_returns(referenceType, referenceId)');
+      }
+    });
+
+    // Create material_return_items table (quantity in the unit returned, stockQuantity in stock units)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS material_return_items (
+        id TEXT PRIMARY KEY,
+        returnId TEXT NOT NULL,
+        inventoryItemId TEXT,
+        itemId TEXT NOT NULL,
+        itemName TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        unitMeasurement TEXT NOT NULL,
+        stockQuantity REAL NOT NULL,
+        condition TEXT NOT NULL DEFAULT 'new',
+        locationId TEXT,
+        lotNumber TEXT,
+        unitCost REAL NOT NULL,
+        creditAmount REAL NOT NULL,
+        lineNumber INTEGER NOT NULL,
+        FOREIGN KEY (returnId) REFERENCES material_returns(id) ON DELETE CASCADE,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE SET NULL
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating material_return_items table:', err.message);
+      } else {
+        console.log('Material return items table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_material_return_items_return ON material_return_items(returnId)');
+      }
+    });
+
+    // Create approval_rules table (each matching rule adds one step to a document's approval chain)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS approval_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        documentType TEXT NOT NULL,
+        stepOrder INTEGER NOT NULL,
+        minAmount REAL NOT NULL DEFAULT 0,
+        maxAmount REAL,
+        costCenter TEXT,
+        department TEXT,
+        category TEXT,
+        approverType TEXT NOT NULL,
+        approverValue TEXT,
+        isActive INTEGER NOT NULL DEFAULT 1,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating approval_rules table:', err.message);
+      } else {
+        console.log('Approval rules table initialized');
+        retryDatabaseOperation((callback) => {
+          rawDb.get('SELECT COUNT(*) as count FROM approval_rules', callback);
+        })
+        .then((row) => {
+          if (row.count === 0) {
+            seedDefaultApprovalRules();
+          }
+        })
+        .catch((err) => {
+          console.error('Error checking approval rules count:', err.message);
+        });
+      }
+    });
+
+    // Create approval_steps table (the approval chain of a submitted requisition or purchase order)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS approval_steps (
+        id TEXT PRIMARY KEY,
+        documentType TEXT NOT NULL,
+        documentId TEXT NOT NULL,
+        stepOrder INTEGER NOT NULL,
+        ruleId TEXT,
+        name TEXT NOT NULL,
+        approverType TEXT NOT NULL,
+        approverValue TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        decidedBy TEXT,
+        decidedAt TEXT,
+        comments TEXT
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating approval_steps table:', err.message);
+      } else {
+        console.log('Approval steps table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_approval_steps_document ON approval_steps(documentType, documentId, stepOrder)');
+      }
+    });
+    // Department or cost center a manager step was assigned from, so it follows a change of manager
+    addColumnIfMissing('approval_steps', 'approverScope', 'TEXT');
+
     // Create purchase_orders table
     rawDb.run(`
       CREATE TABLE IF NOT EXISTS purchase_orders (
@@ -500,6 +970,61 @@ function initializeDatabase() {
         console.log('Purchase order items table initialized');
       }
     });
+    addColumnIfMissing('purchase_order_items', 'unit', 'TEXT');
+
+    // Create requisition_purchase_links table (requisition lines ordered on a purchase order, in stock units;
+    // receiving the order allocates the stock to the requisition)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS requisition_purchase_links (
+        id TEXT PRIMARY KEY,
+        requisitionId TEXT NOT NULL,
+        requisitionItemId TEXT NOT NULL,
+        poId TEXT NOT NULL,
+        itemId TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        allocatedQuantity REAL NOT NULL DEFAULT 0,
+        allocatedAt TEXT,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (requisitionId) REFERENCES requisitions(id) ON DELETE CASCADE,
+        FOREIGN KEY (requisitionItemId) REFERENCES requisition_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (poId) REFERENCES purchase_orders(id) ON DELETE CASCADE
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating requisition_purchase_links table:', err.message);
+      } else {
+        console.log('Requisition purchase links table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_requisition_purchase_links_po ON requisition_purchase_links(poId)');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_requisition_purchase_links_line ON requisition_purchase_links(requisitionItemId)');
+      }
+    });
+
+    // Create purchase_history table (one row per received PO line, in stock units, used for valuation)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS purchase_history (
+        id TEXT PRIMARY KEY,
+        inventoryItemId TEXT NOT NULL,
+        itemId TEXT NOT NULL,
+        poId TEXT,
+        poNumber TEXT,
+        supplier TEXT,
+        purchaseDate TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        unitPrice REAL NOT NULL,
+        totalPrice REAL NOT NULL,
+        invoiceNumber TEXT,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE CASCADE
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating purchase_history table:', err.message);
+      } else {
+        console.log('Purchase history table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_purchase_history_item ON purchase_history(inventoryItemId, purchaseDate)');
+        backfillPurchaseHistory();
+      }
+    });
 
     // Create cabinet_templates table
     rawDb.run(`
@@ -584,6 +1109,181 @@ function initializeDatabase() {
         console.log('Cabinet projects table initialized');
       }
     });
+
+    // Create remnants table (sheet offcuts kept for later nesting runs, dimensions in mm)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS remnants (
+        id TEXT PRIMARY KEY,
+        code TEXT UNIQUE NOT NULL,
+        materialType TEXT NOT NULL,
+        thickness REAL NOT NULL,
+        length REAL NOT NULL,
+        width REAL NOT NULL,
+        status TEXT NOT NULL DEFAULT 'available',
+        location TEXT,
+        sourceReference TEXT,
+        notes TEXT,
+        createdBy TEXT,
+        createdAt TEXT NOT NULL,
+        usedAt TEXT,
+        usedReference TEXT
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating remnants table:', err.message);
+      } else {
+        console.log('Remnants table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_remnants_material ON remnants(materialType, thickness, status)');
+      }
+    });
+
+    // Create inventory_reservations table (stock set aside for approved cabinet projects, in stock units)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS inventory_reservations (
+        id TEXT PRIMARY KEY,
+        inventoryItemId TEXT NOT NULL,
+        projectId TEXT NOT NULL,
+        projectName TEXT,
+        requiredQuantity REAL NOT NULL,
+        reservedQuantity REAL NOT NULL,
+        consumedQuantity REAL NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'active',
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE CASCADE
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating inventory_reservations table:', err.message);
+      } else {
+        console.log('Inventory reservations table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_inventory_reservations_item ON inventory_reservations(inventoryItemId, status)');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_inventory_reservations_project ON inventory_reservations(projectId, status)');
+      }
+    });
+    // What holds the stock: a cabinet project, or a requisition allocated stock from a received purchase order.
+    // projectId holds the project or requisition id.
+    addColumnIfMissing('inventory_reservations', 'referenceType', "TEXT NOT NULL DEFAULT 'cabinet_project'");
+
+    // Create inventory_attachments table (photos, spec sheets and safety data sheets stored under uploads)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS inventory_attachments (
+        id TEXT PRIMARY KEY,
+        inventoryItemId TEXT NOT NULL,
+        type TEXT NOT NULL,
+        fileName TEXT NOT NULL,
+        originalName TEXT NOT NULL,
+        mimeType TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        description TEXT,
+        uploadedBy TEXT,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE CASCADE
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating inventory_attachments table:', err.message);
+      } else {
+        console.log('Inventory attachments table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_inventory_attachments_item ON inventory_attachments(inventoryItemId)');
+      }
+    });
+
+    // Create substitution_groups table (interchangeable items, members listed in order of preference)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS substitution_groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        notes TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating substitution_groups table:', err.message);
+      } else {
+        console.log('Substitution groups table initialized');
+      }
+    });
+
+    // Create substitution_group_members table (priority 1 is the preferred item)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS substitution_group_members (
+        groupId TEXT NOT NULL,
+        inventoryItemId TEXT NOT NULL,
+        priority INTEGER NOT NULL,
+        PRIMARY KEY (groupId, inventoryItemId),
+        FOREIGN KEY (groupId) REFERENCES substitution_groups(id) ON DELETE CASCADE,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id) ON DELETE CASCADE
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating substitution_group_members table:', err.message);
+      } else {
+        console.log('Substitution group members table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_substitution_group_members_item ON substitution_group_members(inventoryItemId)');
+      }
+    });
+
+    // Create kits table (pre-packed bundles of inventory items, e.g. the hardware for one base cabinet)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS kits (
+        id TEXT PRIMARY KEY,
+        kitCode TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        templateId TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating kits table:', err.message);
+      } else {
+        console.log('Kits table initialized');
+      }
+    });
+
+    // Create kit_components table (quantity of each item in one kit, in its stock unit)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS kit_components (
+        kitId TEXT NOT NULL,
+        inventoryItemId TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        PRIMARY KEY (kitId, inventoryItemId),
+        FOREIGN KEY (kitId) REFERENCES kits(id) ON DELETE CASCADE,
+        FOREIGN KEY (inventoryItemId) REFERENCES inventory_items(id)
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating kit_components table:', err.message);
+      } else {
+        console.log('Kit components table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_kit_components_item ON kit_components(inventoryItemId)');
+      }
+    });
+
+    // Create notifications table (messages to a user, matched on the email of their login)
+    rawDb.run(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id TEXT PRIMARY KEY,
+        recipientName TEXT,
+        recipientEmail TEXT,
+        title TEXT NOT NULL,
+        message TEXT NOT NULL,
+        referenceType TEXT,
+        referenceId TEXT,
+        readAt TEXT,
+        createdAt TEXT NOT NULL
+      )
+    `, function(err) {
+      if (err) {
+        console.error('Error creating notifications table:', err.message);
+      } else {
+        console.log('Notifications table initialized');
+        rawDb.run('CREATE INDEX IF NOT EXISTS idx_notifications_recipient ON notifications(recipientEmail, readAt)');
+      }
+    });
   });
 }
 
@@ -711,8 +1411,172 @@ function seedDefaultInventoryItems() {
     );
   });
 
-  stmt.finalize();
-  console.log('Default inventory items seeded');
+  stmt.finalize(() => {
+    console.log('Default inventory items seeded');
+    backfillOpeningBalances();
+    backfillLocationStock();
+  });
+}
+
+// Give every item without ledger history an opening-balance row so that
+// the sum of its transactions always matches inventory_items.quantity
+function backfillOpeningBalances() {
+  const createdAt = new Date().toISOString();
+
+  rawDb.run(`
+    INSERT INTO inventory_transactions (
+      id, inventoryItemId, type, quantity, balanceAfter, unitCost,
+      referenceType, referenceNumber, notes, performedBy, createdAt
+    )
+    SELECT
+      'opening-' || i.id, i.id, 'adjustment', i.quantity, i.quantity, i.unitCost,
+      'opening_balance', 'OPENING', 'Opening balance', 'system', ?
+    FROM inventory_items i
+    WHERE NOT EXISTS (
+      SELECT 1 FROM inventory_transactions t WHERE t.inventoryItemId = i.id
+    )
+  `, [createdAt], function(err) {
+    if (err) {
+      console.error('Error backfilling opening balances:', err.message);
+    } else if (this.changes > 0) {
+      console.log(`Opening balances recorded for ${this.changes} inventory items`);
+    }
+  });
+}
+
+// Record purchase history for POs that were received before it was tracked,
+// dated when the PO was last updated
+function backfillPurchaseHistory() {
+  rawDb.run(`
+    INSERT OR IGNORE INTO purchase_history (
+      id, inventoryItemId, itemId, poId, poNumber, supplier, purchaseDate,
+      quantity, unitPrice, totalPrice, createdAt
+    )
+    SELECT
+      'ph-' || poi.id, i.id, i.itemId, po.id, po.poNumber, po.supplier, po.updatedAt,
+      poi.quantity * COALESCE(c.factor, 1), poi.unitCost / COALESCE(c.factor, 1), poi.totalCost, ?
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.poId
+    JOIN inventory_items i ON i.itemId = poi.itemId
+    LEFT JOIN inventory_unit_conversions c ON c.inventoryItemId = i.id AND c.unit = poi.unit
+    WHERE po.status IN ('received', 'completed')
+  `, [new Date().toISOString()], function(err) {
+    if (err) {
+      console.error('Error backfilling purchase history:', err.message);
+    } else if (this.changes > 0) {
+      console.log(`Purchase history recorded for ${this.changes} received PO lines`);
+    }
+  });
+}
+
+// Seed default locations
+function seedDefaultLocations() {
+  const defaultLocations = [
+    { id: '1', code: 'A-1-01', storeName: 'Main Warehouse', rack: 'A1', shelf: '01', description: 'Primary storage for panels' },
+    { id: '2', code: 'B-2-05', storeName: 'Hardware Storage', rack: 'B2', shelf: '05', description: 'Small hardware items' },
+    { id: '3', code: 'RECEIVING', storeName: 'Receiving Area', rack: 'RCV', shelf: 'TEMP', description: 'Temporary storage for incoming items' },
+    { id: '4', code: 'SHIPPING', storeName: 'Shipping Area', rack: 'SHP', shelf: 'OUT', description: 'Items ready for shipment' }
+  ];
+  const createdAt = new Date().toISOString();
+
+  defaultLocations.forEach(location => {
+    rawDb.run(
+      `INSERT OR IGNORE INTO locations (id, code, storeName, rack, shelf, description, isActive, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, 1, ?)`,
+      [location.id, location.code, location.storeName, location.rack, location.shelf, location.description, createdAt]
+    );
+  });
+
+  console.log('Default locations seeded');
+}
+
+function seedDefaultCategories() {
+  const defaultCategories = [
+    { name: 'Panels', subCategories: ['Cabinet Body', 'Door Panels', 'Drawer Fronts', 'Shelving', 'Back Panels'] },
+    { name: 'Hardware', subCategories: ['Door Hardware', 'Drawer Hardware', 'Cabinet Hardware', 'Mounting Hardware', 'Specialty Hardware'] },
+    { name: 'Finishes', subCategories: ['Stains', 'Paints', 'Lacquers', 'Primers', 'Sealers', 'Glazes'] },
+    { name: 'Accessories', subCategories: ['Lighting', 'Organization', 'Decorative', 'Functional', 'Safety'] },
+    { name: 'Tools & Equipment', subCategories: ['Hand Tools', 'Power Tools', 'Measuring Tools', 'Safety Equipment', 'Maintenance'] },
+    { name: 'Fasteners', subCategories: ['Screws', 'Nails', 'Bolts', 'Brackets', 'Adhesives'] }
+  ];
+  const createdAt = new Date().toISOString();
+
+  defaultCategories.forEach((category, index) => {
+    const categoryId = String(index + 1);
+    rawDb.run(
+      'INSERT OR IGNORE INTO categories (id, name, parentId, createdAt) VALUES (?, ?, NULL, ?)',
+      [categoryId, category.name, createdAt]
+    );
+    category.subCategories.forEach((subCategory, subIndex) => {
+      rawDb.run(
+        'INSERT OR IGNORE INTO categories (id, name, parentId, createdAt) VALUES (?, ?, ?, ?)',
+        [`${categoryId}-${subIndex + 1}`, subCategory, categoryId, createdAt]
+      );
+    });
+  });
+
+  console.log('Default categories seeded');
+}
+
+// Register categories and sub-categories already used on items, so existing items stay valid
+function backfillCategories() {
+  const createdAt = new Date().toISOString();
+
+  rawDb.run(`
+    INSERT OR IGNORE INTO categories (id, name, parentId, description, createdAt)
+    SELECT DISTINCT 'cat-' || category, category, NULL, 'Created from existing inventory', ?
+    FROM inventory_items
+    WHERE category IS NOT NULL AND category != ''
+  `, [createdAt], (err) => {
+    if (err) {
+      console.error('Error backfilling categories:', err.message);
+      return;
+    }
+
+    rawDb.run(`
+      INSERT OR IGNORE INTO categories (id, name, parentId, description, createdAt)
+      SELECT DISTINCT 'cat-' || c.id || '-' || i.subCategory, i.subCategory, c.id, 'Created from existing inventory', ?
+      FROM inventory_items i
+      JOIN categories c ON c.parentId IS NULL AND c.name = i.category COLLATE NOCASE
+      WHERE i.subCategory IS NOT NULL AND i.subCategory != ''
+    `, [createdAt], (err) => {
+      if (err) {
+        console.error('Error backfilling sub-categories:', err.message);
+      }
+    });
+  });
+}
+
+// Register any location codes already used on items, then put each item's
+// existing quantity at its location so per-location stock adds up to the total
+function backfillLocationStock() {
+  const createdAt = new Date().toISOString();
+
+  rawDb.run(`
+    INSERT OR IGNORE INTO locations (id, code, storeName, rack, shelf, description, isActive, createdAt)
+    SELECT DISTINCT 'loc-' || location, location, location, '', '', 'Created from existing inventory', 1, ?
+    FROM inventory_items
+    WHERE location IS NOT NULL AND location != ''
+  `, [createdAt], (err) => {
+    if (err) {
+      console.error('Error backfilling locations:', err.message);
+      return;
+    }
+
+    rawDb.run(`
+      INSERT INTO inventory_stock (id, inventoryItemId, locationId, quantity)
+      SELECT 'stock-' || i.id, i.id, l.id, i.quantity
+      FROM inventory_items i
+      JOIN locations l ON l.code = i.location
+      WHERE NOT EXISTS (SELECT 1 FROM inventory_stock s WHERE s.inventoryItemId = i.id)
+    `, function(err) {
+      if (err) {
+        console.error('Error backfilling location stock:', err.message);
+      } else if (this.changes > 0) {
+        console.log(`Location stock recorded for ${this.changes} inventory items`);
+      }
+    });
+  });
 }
 
 // Seed default suppliers
@@ -833,6 +1697,75 @@ function seedDefaultDepartments() {
   console.log('Default departments seeded');
 }
 
+// Seed default cost centers, one for each default department
+function seedDefaultCostCenters() {
+  const now = new Date().toISOString();
+  const defaultCostCenters = [
+    { id: '1', code: 'CC001', name: 'Production Operations', description: 'Manufacturing and production activities', budget: 50000, manager: 'John Smith', managerUsername: 'manager', department: 'Production' },
+    { id: '2', code: 'CC002', name: 'Quality Control', description: 'Quality assurance and testing', budget: 15000, manager: 'Sarah Johnson', managerUsername: null, department: 'Quality Control' },
+    { id: '3', code: 'CC003', name: 'Warehouse Operations', description: 'Inventory and logistics', budget: 25000, manager: 'Mike Wilson', managerUsername: null, department: 'Warehouse' }
+  ];
+
+  const stmt = db.prepare(`
+    INSERT INTO cost_centers (id, code, name, description, budget, budgetPeriod, manager, managerUsername, department, isActive, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, 'monthly', ?, ?, ?, 1, ?, ?)
+  `);
+
+  defaultCostCenters.forEach(costCenter => {
+    stmt.run([
+      costCenter.id,
+      costCenter.code,
+      costCenter.name,
+      costCenter.description,
+      costCenter.budget,
+      costCenter.manager,
+      costCenter.managerUsername,
+      costCenter.department,
+      now,
+      now
+    ]);
+  });
+
+  stmt.finalize();
+  console.log('Default cost centers seeded');
+}
+
+// Seed default approval rules: the department manager approves every requisition, larger ones
+// also need the manager of the department's cost center and above 5,000 an admin; purchase orders
+// need a manager, and an admin above 5,000
+function seedDefaultApprovalRules() {
+  const now = new Date().toISOString();
+  const defaultRules = [
+    { id: '1', name: 'Department manager', documentType: 'requisition', stepOrder: 1, minAmount: 0, approverType: 'department_manager', approverValue: null },
+    { id: '2', name: 'Cost center manager', documentType: 'requisition', stepOrder: 2, minAmount: 500, approverType: 'cost_center_manager', approverValue: null },
+    { id: '3', name: 'Admin', documentType: 'requisition', stepOrder: 3, minAmount: 5000, approverType: 'role', approverValue: 'admin' },
+    { id: '4', name: 'Manager', documentType: 'purchase_order', stepOrder: 1, minAmount: 0, approverType: 'role', approverValue: 'manager' },
+    { id: '5', name: 'Admin', documentType: 'purchase_order', stepOrder: 2, minAmount: 5000, approverType: 'role', approverValue: 'admin' }
+  ];
+
+  const stmt = db.prepare(`
+    INSERT INTO approval_rules (id, name, documentType, stepOrder, minAmount, approverType, approverValue, isActive, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
+  `);
+
+  defaultRules.forEach(rule => {
+    stmt.run([
+      rule.id,
+      rule.name,
+      rule.documentType,
+      rule.stepOrder,
+      rule.minAmount,
+      rule.approverType,
+      rule.approverValue,
+      now,
+      now
+    ]);
+  });
+
+  stmt.finalize();
+  console.log('Default approval rules seeded');
+}
+
 // Seed default requesters
 function seedDefaultRequesters() {
   const defaultRequesters = [
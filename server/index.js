@@ -5,10 +5,15 @@ import compression from 'compression';
 import path from 'path';
 import fs from 'fs';
 import multer from 'multer';
+import { read, write, utils } from 'xlsx';
+import { jsPDF } from 'jspdf';
+import { applyPlugin } from 'jspdf-autotable';
+import bwipjs from 'bwip-js';
 import db from './database.js';
 import dotenv from 'dotenv';
 
 dotenv.config();
+applyPlugin(jsPDF);
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -54,6 +59,56 @@ const upload = multer({
   }
 });
 
+// Item attachments: photos, plus spec sheets and safety data sheets as PDF
+const ATTACHMENT_TYPES = ['photo', 'spec_sheet', 'safety_data_sheet'];
+
+const attachmentUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  fileFilter: function (req, file, cb) {
+    if (!file.mimetype.startsWith('image/') && file.mimetype !== 'application/pdf') {
+      return cb(new Error('Only image and PDF files are allowed!'), false);
+    }
+    cb(null, true);
+  }
+});
+
+// Remove a stored upload; a file that is already gone is not an error
+function removeUploadedFile(fileName) {
+  fs.unlink(path.join(dataDir, 'uploads', path.basename(fileName)), (err) => {
+    if (err && err.code !== 'ENOENT') {
+      console.error('❌ Error removing uploaded file:', fileName, err);
+    }
+  });
+}
+
+// Imports are parsed in memory and never written to disk. A file's extension and its reported
+// content type must agree, so nothing is read as a workbook unless it claims to be one.
+const IMPORT_MAX_ROWS = 5000;
+const IMPORT_FILE_TYPES = {
+  '.csv': ['text/csv', 'application/csv', 'text/plain', 'application/vnd.ms-excel'],
+  '.xlsx': ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  '.xls': ['application/vnd.ms-excel']
+};
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB limit
+  },
+  fileFilter: function (req, file, cb) {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (!IMPORT_FILE_TYPES[extension]) {
+      return cb(new Error('Only .xlsx, .xls and .csv files are allowed!'), false);
+    }
+    if (!IMPORT_FILE_TYPES[extension].includes(file.mimetype)) {
+      return cb(new Error(`A ${extension} file cannot have content type ${file.mimetype}`), false);
+    }
+    cb(null, true);
+  }
+});
+
 // Middleware
 app.use(helmet({
   crossOriginEmbedderPolicy: false,
@@ -374,6 +429,84 @@ app.post('/api/users/:id/change-password', (req, res) => {
   });
 });
 
+// Notification routes
+// Notifications are addressed by email, which ties a requester record to the login of the same person
+async function createNotification({ recipientName, recipientEmail, title, message, referenceType, referenceId }) {
+  await db.runAsync(
+    `INSERT INTO notifications (id, recipientName, recipientEmail, title, message, referenceType, referenceId, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [generateId(), recipientName || null, recipientEmail || null, title, message, referenceType || null, referenceId || null, new Date().toISOString()]
+  );
+}
+
+// Notify whoever asked for a requisition: the requester's email, else that of the user who created it
+async function notifyRequester({ requester, createdBy }, notification) {
+  const person = await db.getAsync('SELECT email FROM requesters WHERE name = ?', [requester]);
+  const creator = !person?.email && createdBy ? await db.getAsync('SELECT email FROM users WHERE username = ?', [createdBy]) : null;
+  await createNotification({ ...notification, recipientName: requester, recipientEmail: person?.email || creator?.email });
+}
+
+app.get('/api/notifications', async (req, res) => {
+  try {
+    if (!req.query.email) {
+      throw createHttpError(400, 'An email is required');
+    }
+    
+    res.json(await db.allAsync(
+      `SELECT * FROM notifications
+      WHERE LOWER(recipientEmail) = LOWER(?) ${req.query.unreadOnly === 'true' ? 'AND readAt IS NULL' : ''}
+      ORDER BY createdAt DESC
+      LIMIT 50`,
+      [req.query.email]
+    ));
+  } catch (err) {
+    console.error('❌ Error fetching notifications:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.patch('/api/notifications/read-all', async (req, res) => {
+  try {
+    if (!req.body.email) {
+      throw createHttpError(400, 'An email is required');
+    }
+    
+    await db.runAsync(
+      'UPDATE notifications SET readAt = ? WHERE LOWER(recipientEmail) = LOWER(?) AND readAt IS NULL',
+      [new Date().toISOString(), req.body.email]
+    );
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error marking notifications read:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.patch('/api/notifications/:id/read', async (req, res) => {
+  try {
+    const notification = await db.getAsync('SELECT * FROM notifications WHERE id = ?', [req.params.id]);
+    if (!notification) {
+      throw createHttpError(404, 'Notification not found');
+    }
+    
+    const readAt = notification.readAt || new Date().toISOString();
+    await db.runAsync('UPDATE notifications SET readAt = ? WHERE id = ?', [readAt, notification.id]);
+    res.json({ ...notification, readAt });
+  } catch (err) {
+    console.error('❌ Error marking notification read:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Dashboard routes
 app.get('/api/dashboard/stats', (req, res) => {
   console.log('📊 Dashboard stats requested');
@@ -392,975 +525,6136 @@ app.get('/api/dashboard/stats', (req, res) => {
         return res.status(500).json({ error: 'Internal server error' });
       }
       
-      // Get pending requisitions count (mock for now)
-      const pendingRequisitions = 8;
-      
-      // Get open purchase orders count
-      db.get('SELECT COUNT(*) as openPurchaseOrders FROM purchase_orders WHERE status IN ("pending", "approved", "ordered")', (err, poResult) => {
+      // Get pending requisitions count
+      db.get("SELECT COUNT(*) as pendingRequisitions FROM requisitions WHERE status = 'pending'", (err, requisitionResult) => {
         if (err) {
-          console.error('❌ Error counting purchase orders:', err);
+          console.error('❌ Error counting pending requisitions:', err);
           return res.status(500).json({ error: 'Internal server error' });
         }
         
-        // Get monthly expenditure (mock for now)
-        const monthlyExpenditure = 67000;
-        
-        // Get inventory value
-        db.get('SELECT SUM(totalCost) as inventoryValue FROM inventory_items', (err, valueResult) => {
+        // Get open purchase orders count
+        db.get('SELECT COUNT(*) as openPurchaseOrders FROM purchase_orders WHERE status IN ("pending", "approved", "ordered")', (err, poResult) => {
           if (err) {
-            console.error('❌ Error calculating inventory value:', err);
+            console.error('❌ Error counting purchase orders:', err);
             return res.status(500).json({ error: 'Internal server error' });
           }
           
-          // Get recent activity (mock for now)
-          const recentActivity = [
-            { id: 1, action: 'Product Added', item: 'Kitchen Cabinet Set A', timestamp: new Date().toISOString() },
-            { id: 2, action: 'Stock Updated', item: 'Bathroom Vanity B', timestamp: new Date(Date.now() - 3600000).toISOString() },
-            { id: 3, action: 'Order Completed', item: 'Living Room Cabinet C', timestamp: new Date(Date.now() - 7200000).toISOString() },
-            { id: 4, action: 'Requisition Approved', item: 'Hardware Supplies', timestamp: new Date(Date.now() - 10800000).toISOString() },
-            { id: 5, action: 'Purchase Order Created', item: 'Plywood 18mm', timestamp: new Date(Date.now() - 14400000).toISOString() },
-          ];
-          
-          const stats = {
-            totalItems: itemsResult.totalItems,
-            lowStockItems: lowStockResult.lowStockItems,
-            pendingRequisitions,
-            openPurchaseOrders: poResult.openPurchaseOrders,
-            monthlyExpenditure,
-            inventoryValue: valueResult.inventoryValue || 0,
-            recentActivity
-          };
+          // Get monthly expenditure (mock for now)
+          const monthlyExpenditure = 67000;
           
-          console.log('✅ Dashboard stats sent:', stats);
-          res.json(stats);
+          // Get inventory value
+          db.get('SELECT SUM(totalCost) as inventoryValue FROM inventory_items', (err, valueResult) => {
+            if (err) {
+              console.error('❌ Error calculating inventory value:', err);
+              return res.status(500).json({ error: 'Internal server error' });
+            }
+            
+            // Get recent activity (mock for now)
+            const recentActivity = [
+              { id: 1, action: 'Product Added', item: 'Kitchen Cabinet Set A', timestamp: new Date().toISOString() },
+              { id: 2, action: 'Stock Updated', item: 'Bathroom Vanity B', timestamp: new Date(Date.now() - 3600000).toISOString() },
+              { id: 3, action: 'Order Completed', item: 'Living Room Cabinet C', timestamp: new Date(Date.now() - 7200000).toISOString() },
+              { id: 4, action: 'Requisition Approved', item: 'Hardware Supplies', timestamp: new Date(Date.now() - 10800000).toISOString() },
+              { id: 5, action: 'Purchase Order Created', item: 'Plywood 18mm', timestamp: new Date(Date.now() - 14400000).toISOString() },
+            ];
+            
+            const stats = {
+              totalItems: itemsResult.totalItems,
+              lowStockItems: lowStockResult.lowStockItems,
+              pendingRequisitions: requisitionResult.pendingRequisitions,
+              openPurchaseOrders: poResult.openPurchaseOrders,
+              monthlyExpenditure,
+              inventoryValue: valueResult.inventoryValue || 0,
+              recentActivity
+            };
+            
+            console.log('✅ Dashboard stats sent:', stats);
+            res.json(stats);
+          });
         });
       });
     });
   });
 });
 
-// Inventory routes
-app.get('/api/inventory/products', (req, res) => {
-  console.log('📦 Inventory products requested');
-  db.all('SELECT * FROM inventory_items', (err, rows) => {
-    if (err) {
-      console.error('❌ Error fetching inventory items:', err);
-      return res.status(500).json({ error: 'Internal server error' });
-    }
-    
-    console.log('✅ Inventory products sent:', rows.length);
-    res.json(rows);
-  });
-});
+// Inventory ledger helpers
+const INVENTORY_TRANSACTION_TYPES = ['receipt', 'issue', 'adjustment', 'transfer', 'return'];
 
-app.get('/api/inventory/products/:id', (req, res) => {
-  db.get('SELECT * FROM inventory_items WHERE id = ?', [req.params.id], (err, item) => {
-    if (err) {
-      console.error('❌ Error fetching inventory item:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+// Errors thrown with a status are reported to the client as-is instead of as a 500
+const createHttpError = (status, message) => Object.assign(new Error(message), { status });
+
+const generateId = () => Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9);
+
+// Next sequential document number for the current year, e.g. ST-2024-0007.
+// Call inside db.runInTransaction so two requests cannot take the same number.
+async function nextDocumentNumber(table, column, prefix) {
+  const yearPrefix = `${prefix}-${new Date().getFullYear()}-`;
+  const row = await db.getAsync(
+    `SELECT MAX(CAST(SUBSTR(${column}, ?) AS INTEGER)) AS lastNumber FROM ${table} WHERE ${column} LIKE ?`,
+    [yearPrefix.length + 1, `${yearPrefix}%`]
+  );
+  return `${yearPrefix}${String((row.lastNumber || 0) + 1).padStart(4, '0')}`;
+}
+
+// Conversions multiply by fractional factors (e.g. mm to m), so trim floating point noise
+const roundQuantity = (quantity) => Math.round(quantity * 1e6) / 1e6;
+
+// Number of stock units in one `unit` of the item
+async function getConversionFactor(item, unit) {
+  const conversion = await db.getAsync(
+    'SELECT factor FROM inventory_unit_conversions WHERE inventoryItemId = ? AND unit = ?',
+    [item.id, unit]
+  );
+  if (!conversion) {
+    throw createHttpError(400, `No conversion from ${unit} to ${item.unitMeasurement} is defined for ${item.itemId}`);
+  }
+  return conversion.factor;
+}
+
+// Resolve the location a movement applies to: an explicit locationId, else the item's default location code
+async function resolveMovementLocation(item, locationId) {
+  const location = locationId
+    ? await db.getAsync('SELECT * FROM locations WHERE id = ?', [locationId])
+    : await db.getAsync('SELECT * FROM locations WHERE code = ?', [item.location]);
+
+  if (!location) {
+    throw createHttpError(400, locationId
+      ? 'Location not found'
+      : `Item ${item.itemId} has no valid default location; specify a location for this movement`);
+  }
+  return location;
+}
+
+// Record one signed stock movement at a location, then update the per-location
+// balance and the item's rolled-up quantity.
+// Must be called inside db.runInTransaction so the ledger row and the balances change together.
+async function postInventoryTransaction(inventoryItemId, movement) {
+  const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [inventoryItemId]);
+  if (!item) {
+    throw createHttpError(404, 'Item not found');
+  }
+
+  const enteredQuantity = Number(movement.quantity);
+  if (!INVENTORY_TRANSACTION_TYPES.includes(movement.type)) {
+    throw createHttpError(400, `Invalid transaction type. Expected one of: ${INVENTORY_TRANSACTION_TYPES.join(', ')}`);
+  }
+  if (!Number.isFinite(enteredQuantity) || enteredQuantity === 0) {
+    throw createHttpError(400, 'Quantity must be a non-zero number');
+  }
+
+  // Quantities may be entered in a purchase or consumption unit; the ledger always holds stock units
+  const enteredUnit = movement.unit && movement.unit !== item.unitMeasurement ? movement.unit : null;
+  const factor = enteredUnit ? await getConversionFactor(item, enteredUnit) : 1;
+  const quantity = roundQuantity(enteredQuantity * factor);
+
+  const location = await resolveMovementLocation(item, movement.locationId);
+  const stock = await db.getAsync(
+    'SELECT * FROM inventory_stock WHERE inventoryItemId = ? AND locationId = ?',
+    [inventoryItemId, location.id]
+  );
+  const locationQuantity = stock ? stock.quantity : 0;
+  if (locationQuantity + quantity < 0) {
+    throw createHttpError(400, `Insufficient stock for ${item.itemId} at ${location.code}: ${locationQuantity} on hand, ${-quantity} requested`);
+  }
+
+  // Lot-tracked items move one lot per ledger row so every issue records the batch consumed
+  const lotNumber = movement.lotNumber ? String(movement.lotNumber).trim().toUpperCase() : null;
+  let lot;
+  if (item.isLotTracked) {
+    if (!lotNumber) {
+      throw createHttpError(400, `A lot number is required for lot-tracked item ${item.itemId}`);
     }
-    
-    if (item) {
-      res.json(item);
-    } else {
-      res.status(404).json({ error: 'Item not found' });
+    lot = await db.getAsync(
+      'SELECT * FROM inventory_lots WHERE inventoryItemId = ? AND locationId = ? AND lotNumber = ?',
+      [inventoryItemId, location.id, lotNumber]
+    );
+    const lotQuantity = lot ? lot.quantity : 0;
+    if (lotQuantity + quantity < 0) {
+      throw createHttpError(400, `Insufficient stock in lot ${lotNumber} of ${item.itemId} at ${location.code}: ${lotQuantity} on hand, ${-quantity} requested`);
     }
-  });
-});
+  }
+  const expiryDate = item.isLotTracked ? parseExpiryDate(movement.expiryDate) : null;
+  if (expiryDate && lot?.expiryDate && lot.expiryDate !== expiryDate) {
+    throw createHttpError(400, `Lot ${lotNumber} of ${item.itemId} already expires on ${lot.expiryDate}`);
+  }
 
-app.post('/api/inventory/products', (req, res) => {
-  const newItem = {
-    id: Date.now().toString(),
-    ...req.body,
-    totalCost: (req.body.quantity || 0) * (req.body.unitCost || 0),
-    lastUpdated: new Date().toISOString()
+  const balanceAfter = item.quantity + quantity;
+
+  const unitCost = movement.unitCost !== undefined ? Number(movement.unitCost) / factor : item.unitCost;
+  const transaction = {
+    id: generateId(),
+    inventoryItemId,
+    type: movement.type,
+    quantity,
+    balanceAfter,
+    unitCost,
+    locationId: location.id,
+    locationCode: location.code,
+    lotNumber: item.isLotTracked ? lotNumber : null,
+    enteredQuantity: enteredUnit ? enteredQuantity : null,
+    enteredUnit,
+    referenceType: movement.referenceType || null,
+    referenceNumber: movement.referenceNumber || null,
+    notes: movement.notes || null,
+    performedBy: movement.performedBy || 'system',
+    createdAt: new Date().toISOString()
   };
-  
-  db.run(
-    `INSERT INTO inventory_items (
-      id, itemId, name, category, subCategory, quantity, unitCost, totalCost,
-      location, supplier, unitMeasurement, minStockLevel, maxStockLevel, lastUpdated
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+
+  await db.runAsync(
+    `INSERT INTO inventory_transactions (
+      id, inventoryItemId, type, quantity, balanceAfter, unitCost, locationId, lotNumber,
+      enteredQuantity, enteredUnit, referenceType, referenceNumber, notes, performedBy, createdAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
-      newItem.id,
-      newItem.itemId,
-      newItem.name,
-      newItem.category,
-      newItem.subCategory,
-      newItem.quantity,
-      newItem.unitCost,
-      newItem.totalCost,
-      newItem.location,
-      newItem.supplier,
-      newItem.unitMeasurement,
-      newItem.minStockLevel,
-      newItem.maxStockLevel,
-      newItem.lastUpdated
-    ],
-    function(err) {
-      if (err) {
-        console.error('❌ Error creating inventory item:', err);
-        return res.status(500).json({ error: 'Internal server error' });
-      }
-      
-      res.status(201).json(newItem);
+      transaction.id,
+      transaction.inventoryItemId,
+      transaction.type,
+      transaction.quantity,
+      transaction.balanceAfter,
+      transaction.unitCost,
+      transaction.locationId,
+      transaction.lotNumber,
+      transaction.enteredQuantity,
+      transaction.enteredUnit,
+      transaction.referenceType,
+      transaction.referenceNumber,
+      transaction.notes,
+      transaction.performedBy,
+      transaction.createdAt
+    ]
+  );
+
+  if (stock) {
+    await db.runAsync('UPDATE inventory_stock SET quantity = quantity + ? WHERE id = ?', [quantity, stock.id]);
+  } else {
+    await db.runAsync(
+      'INSERT INTO inventory_stock (id, inventoryItemId, locationId, quantity) VALUES (?, ?, ?, ?)',
+      [generateId(), inventoryItemId, location.id, quantity]
+    );
+  }
+
+  if (item.isLotTracked) {
+    if (lot) {
+      await db.runAsync(
+        'UPDATE inventory_lots SET quantity = quantity + ?, expiryDate = COALESCE(expiryDate, ?) WHERE id = ?',
+        [quantity, expiryDate, lot.id]
+      );
+    } else {
+      await db.runAsync(
+        'INSERT INTO inventory_lots (id, inventoryItemId, locationId, lotNumber, quantity, receivedAt, expiryDate) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [
+          generateId(), inventoryItemId, location.id, lotNumber, quantity, transaction.createdAt,
+          expiryDate || await getDefaultExpiryDate(item, lotNumber, transaction.createdAt)
+        ]
+      );
     }
+  }
+
+  await db.runAsync(
+    'UPDATE inventory_items SET quantity = ?, totalCost = ? * unitCost, lastUpdated = ? WHERE id = ?',
+    [balanceAfter, balanceAfter, transaction.createdAt, inventoryItemId]
   );
-});
 
-app.put('/api/inventory/products/:id', (req, res) => {
-  const itemId = req.params.id;
-  
-  // Check if item exists
-  db.get('SELECT * FROM inventory_items WHERE id = ?', [itemId], (err, item) => {
-    if (err) {
-      console.error('❌ Error checking inventory item:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+  if (movement.type === 'issue' && movement.referenceType === PROJECT_REFERENCE_TYPE && movement.referenceNumber && quantity < 0) {
+    await consumeReservation(inventoryItemId, movement.referenceNumber, -quantity);
+  }
+
+  return transaction;
+}
+
+// Expiry dates are calendar dates (YYYY-MM-DD); a lot can be used up to and including its expiry date
+function parseExpiryDate(value) {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const date = String(value).slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(new Date(date).getTime())) {
+    throw createHttpError(400, 'Expiry date must be a date in YYYY-MM-DD format');
+  }
+  return date;
+}
+
+const todayDate = () => new Date().toISOString().slice(0, 10);
+
+function addDays(date, days) {
+  return new Date(new Date(date).getTime() + days * 86400000).toISOString().slice(0, 10);
+}
+
+// A lot moved to a new location keeps the expiry date it has elsewhere; a new receipt
+// without an entered date expires after the item's shelf life
+async function getDefaultExpiryDate(item, lotNumber, receivedAt) {
+  const existing = await db.getAsync(
+    'SELECT expiryDate FROM inventory_lots WHERE inventoryItemId = ? AND lotNumber = ? AND expiryDate IS NOT NULL LIMIT 1',
+    [item.id, lotNumber]
+  );
+  if (existing) {
+    return existing.expiryDate;
+  }
+  return item.shelfLifeDays ? addDays(receivedAt, item.shelfLifeDays) : null;
+}
+
+// Lots to issue a quantity from, first-expired-first-out: lots with the earliest expiry date first,
+// then lots without one in receipt order. Expired lots are reported but never suggested.
+async function getFefoPicks(item, quantity, locationId) {
+  const lots = await db.allAsync(
+    `SELECT lt.*, l.code AS locationCode
+    FROM inventory_lots lt
+    JOIN locations l ON l.id = lt.locationId
+    WHERE lt.inventoryItemId = ? AND lt.quantity > 0 ${locationId ? 'AND lt.locationId = ?' : ''}
+    ORDER BY lt.expiryDate IS NULL, lt.expiryDate, lt.receivedAt, lt.lotNumber`,
+    locationId ? [item.id, locationId] : [item.id]
+  );
+
+  const today = todayDate();
+  let remaining = quantity;
+  const picks = [];
+  const expiredLots = [];
+  for (const lot of lots) {
+    if (lot.expiryDate && lot.expiryDate < today) {
+      expiredLots.push(lot);
+      continue;
     }
-    
+    if (remaining <= 0) break;
+    const pickQuantity = roundQuantity(Math.min(remaining, lot.quantity));
+    picks.push({ ...lot, pickQuantity });
+    remaining = roundQuantity(remaining - pickQuantity);
+  }
+
+  return {
+    inventoryItemId: item.id,
+    itemId: item.itemId,
+    quantity,
+    picks,
+    shortQuantity: Math.max(0, remaining),
+    expiredLots
+  };
+}
+
+// Issues posted with this reference type and a project id as reference number draw down that project's reservation
+const PROJECT_REFERENCE_TYPE = 'cabinet_project';
+
+// Project statuses that hold reserved stock
+const RESERVING_PROJECT_STATUSES = ['approved', 'in_production'];
+
+// Inventory item for a calculator line, matched by item code first, then by name
+function findInventoryItemByCodeOrName(code, name) {
+  return db.getAsync(
+    `SELECT * FROM inventory_items
+    WHERE UPPER(itemId) = UPPER(?) OR UPPER(name) = UPPER(?)
+    ORDER BY CASE WHEN UPPER(itemId) = UPPER(?) THEN 0 ELSE 1 END
+    LIMIT 1`,
+    [code || '', name || '', code || '']
+  );
+}
+
+// Material and hardware demand of a cabinet project in stock units, one line per inventory item.
+// Lines are matched to items by item code, then by name; the rest are returned as unmatched.
+async function getProjectDemand(project) {
+  const configurations = typeof project.configurations === 'string'
+    ? JSON.parse(project.configurations)
+    : project.configurations || [];
+  const lines = configurations.flatMap(config => [
+    ...(config.materials || []).map(material => ({
+      code: material.materialId,
+      name: material.materialName,
+      quantity: Number(material.quantity) || 0,
+      unit: material.unit
+    })),
+    ...(config.hardware || []).map(hardware => ({
+      code: hardware.hardwareId,
+      name: hardware.hardwareName,
+      quantity: Number(hardware.quantity) || 0,
+      unit: null
+    }))
+  ]);
+
+  const demand = new Map();
+  const unmatched = [];
+  for (const line of lines) {
+    if (line.quantity <= 0) continue;
+
+    const item = await findInventoryItemByCodeOrName(line.code, line.name);
     if (!item) {
-      return res.status(404).json({ error: 'Item not found' });
+      unmatched.push({ ...line, reason: 'No matching inventory item' });
+      continue;
     }
-    
-    const quantity = req.body.quantity !== undefined ? req.body.quantity : item.quantity;
-    const unitCost = req.body.unitCost !== undefined ? req.body.unitCost : item.unitCost;
-    const totalCost = quantity * unitCost;
-    const lastUpdated = new Date().toISOString();
-    
-    db.run(
-      `UPDATE inventory_items SET
-        itemId = COALESCE(?, itemId),
-        name = COALESCE(?, name),
-        category = COALESCE(?, category),
-        subCategory = COALESCE(?, subCategory),
-        quantity = COALESCE(?, quantity),
-        unitCost = COALESCE(?, unitCost),
-        totalCost = ?,
-        location = COALESCE(?, location),
-        supplier = COALESCE(?, supplier),
-        unitMeasurement = COALESCE(?, unitMeasurement),
-        minStockLevel = COALESCE(?, minStockLevel),
-        maxStockLevel = COALESCE(?, maxStockLevel),
-        lastUpdated = ?
-      WHERE id = ?`,
-      [
-        req.body.itemId,
-        req.body.name,
-        req.body.category,
-        req.body.subCategory,
-        req.body.quantity,
-        req.body.unitCost,
-        totalCost,
-        req.body.location,
-        req.body.supplier,
-        req.body.unitMeasurement,
-        req.body.minStockLevel,
-        req.body.maxStockLevel,
-        lastUpdated,
-        itemId
-      ],
-      function(err) {
-        if (err) {
-          console.error('❌ Error updating inventory item:', err);
-          return res.status(500).json({ error: 'Internal server error' });
-        }
-        
-        // Get the updated item
-        db.get('SELECT * FROM inventory_items WHERE id = ?', [itemId], (err, updatedItem) => {
-          if (err) {
-            console.error('❌ Error fetching updated inventory item:', err);
-            return res.status(500).json({ error: 'Internal server error' });
-          }
-          
-          res.json(updatedItem);
-        });
-      }
-    );
-  });
-});
 
-app.delete('/api/inventory/products/:id', (req, res) => {
-  const itemId = req.params.id;
-  
-  // Check if item exists
-  db.get('SELECT * FROM inventory_items WHERE id = ?', [itemId], (err, item) => {
-    if (err) {
-      console.error('❌ Error checking inventory item:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+    let factor = 1;
+    if (line.unit && line.unit !== item.unitMeasurement) {
+      const conversion = await db.getAsync(
+        'SELECT factor FROM inventory_unit_conversions WHERE inventoryItemId = ? AND unit = ?',
+        [item.id, line.unit]
+      );
+      if (!conversion) {
+        unmatched.push({ ...line, reason: `No conversion from ${line.unit} to ${item.unitMeasurement} for ${item.itemId}` });
+        continue;
+      }
+      factor = conversion.factor;
     }
-    
-    if (!item) {
-      return res.status(404).json({ error: 'Item not found' });
+
+    const entry = demand.get(item.id) || { item, quantity: 0 };
+    entry.quantity = roundQuantity(entry.quantity + line.quantity * factor);
+    demand.set(item.id, entry);
+  }
+
+  return { demand: [...demand.values()], unmatched };
+}
+
+// Reserve a project's demand against stock not already reserved for other projects.
+// Lines that cannot be covered in full are reserved in part and reported as shortages.
+// Must be called inside db.runInTransaction.
+async function reserveProjectStock(project) {
+  await releaseProjectReservations(project.id);
+
+  const { demand, unmatched } = await getProjectDemand(project);
+  const now = new Date().toISOString();
+  const shortages = [];
+  for (const { item, quantity } of demand) {
+    const reserved = await getReservedQuantities([item.id]);
+    const available = Math.max(0, roundQuantity(item.quantity - (reserved[item.id] || 0)));
+    const reservedQuantity = Math.min(quantity, available);
+    if (reservedQuantity < quantity) {
+      shortages.push({ itemId: item.itemId, name: item.name, required: quantity, reserved: reservedQuantity, unitMeasurement: item.unitMeasurement });
     }
-    
-    db.run('DELETE FROM inventory_items WHERE id = ?', [itemId], function(err) {
-      if (err) {
-        console.error('❌ Error deleting inventory item:', err);
-        return res.status(500).json({ error: 'Internal server error' });
-      }
-      
-      res.json({ success: true });
-    });
-  });
-});
 
-// Orders routes
-app.get('/api/orders', (req, res) => {
-  console.log('📋 Orders requested');
-  db.all('SELECT * FROM orders ORDER BY createdAt DESC', (err, rows) => {
-    if (err) {
-      console.error('❌ Error fetching orders:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+    await db.runAsync(
+      `INSERT INTO inventory_reservations (
+        id, inventoryItemId, projectId, projectName, requiredQuantity, reservedQuantity,
+        consumedQuantity, status, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, 0, 'active', ?, ?)`,
+      [generateId(), item.id, project.id, project.name, quantity, reservedQuantity, now, now]
+    );
+  }
+
+  return { reservations: await getProjectReservations(project.id), shortages, unmatched };
+}
+
+// End a project's active reservations, freeing whatever was not issued
+async function releaseProjectReservations(projectId) {
+  await db.runAsync(
+    `UPDATE inventory_reservations SET status = 'released', updatedAt = ?
+    WHERE projectId = ? AND status = 'active'`,
+    [new Date().toISOString(), projectId]
+  );
+}
+
+// Draw down a project's reservation of an item by an issued quantity (stock units)
+async function consumeReservation(inventoryItemId, projectId, quantity) {
+  const reservation = await db.getAsync(
+    `SELECT * FROM inventory_reservations
+    WHERE inventoryItemId = ? AND projectId = ? AND status = 'active'`,
+    [inventoryItemId, projectId]
+  );
+  if (!reservation) {
+    return;
+  }
+
+  const consumedQuantity = roundQuantity(Math.min(reservation.reservedQuantity, reservation.consumedQuantity + quantity));
+  await db.runAsync(
+    'UPDATE inventory_reservations SET consumedQuantity = ?, status = ?, updatedAt = ? WHERE id = ?',
+    [
+      consumedQuantity,
+      consumedQuantity >= reservation.reservedQuantity ? 'consumed' : 'active',
+      new Date().toISOString(),
+      reservation.id
+    ]
+  );
+}
+
+// Reservations of a project; active lines that could not be covered in full carry in-stock substitutes
+async function getProjectReservations(projectId) {
+  const reservations = await db.allAsync(
+    `SELECT r.*, i.itemId, i.name, i.unitMeasurement
+    FROM inventory_reservations r
+    JOIN inventory_items i ON i.id = r.inventoryItemId
+    WHERE r.projectId = ?
+    ORDER BY r.status, i.itemId`,
+    [projectId]
+  );
+
+  for (const reservation of reservations) {
+    const shortQuantity = roundQuantity(reservation.requiredQuantity - reservation.reservedQuantity);
+    if (reservation.status === 'active' && shortQuantity > 0) {
+      reservation.substitutes = await getItemSubstitutes(reservation.inventoryItemId, shortQuantity);
     }
-    
-    // Get order items for each order
-    const promises = rows.map(order => {
-      return new Promise((resolve, reject) => {
-        db.all('SELECT * FROM order_items WHERE orderId = ?', [order.id], (err, items) => {
+  }
+  return reservations;
+}
+
+// Reserve or release stock when a project's status moves into or out of the reserving statuses
+async function syncProjectReservations(previousStatus, project) {
+  const wasReserving = RESERVING_PROJECT_STATUSES.includes(previousStatus);
+  const isReserving = RESERVING_PROJECT_STATUSES.includes(project.status);
+  if (isReserving && !wasReserving) {
+    const result = await db.runInTransaction(() => reserveProjectStock(project));
+    console.log(`📌 Stock reserved for project ${project.id}: ${result.reservations.length} item(s), ${result.shortages.length} short`);
+    return result;
+  }
+  if (!isReserving && wasReserving) {
+    await releaseProjectReservations(project.id);
+    console.log(`📌 Stock reservations released for project ${project.id}`);
+  }
+  return null;
+}
+
+// Item location fields hold a location code, which must exist in the locations table
+async function assertLocationExists(locationCode) {
+  if (!locationCode) {
+    return;
+  }
+
+  const location = await db.getAsync('SELECT id FROM locations WHERE code = ?', [locationCode]);
+  if (!location) {
+    throw createHttpError(400, `Unknown location: ${locationCode}`);
+  }
+}
+
+// Check an item's category and sub-category against the categories table.
+// Returns the names as stored there, so items always use the master data's spelling.
+async function resolveItemCategory(categoryName, subCategoryName) {
+  if (!categoryName) {
+    throw createHttpError(400, 'Category is required');
+  }
+
+  const category = await db.getAsync(
+    'SELECT * FROM categories WHERE parentId IS NULL AND name = ? COLLATE NOCASE',
+    [String(categoryName).trim()]
+  );
+  if (!category) {
+    throw createHttpError(400, `Unknown category: ${categoryName}`);
+  }
+  if (!subCategoryName) {
+    return { category: category.name, subCategory: '' };
+  }
+
+  const subCategory = await db.getAsync(
+    'SELECT * FROM categories WHERE parentId = ? AND name = ? COLLATE NOCASE',
+    [category.id, String(subCategoryName).trim()]
+  );
+  if (!subCategory) {
+    throw createHttpError(400, `Unknown sub-category for ${category.name}: ${subCategoryName}`);
+  }
+  return { category: category.name, subCategory: subCategory.name };
+}
+
+// Convert integer flags from SQLite to booleans for the frontend
+const toInventoryItem = (row) => row && ({ ...row, isLotTracked: row.isLotTracked === 1 });
+
+// Per-location stock rows for the given items, keyed by inventory item id
+async function getStockByLocation(inventoryItemIds) {
+  if (inventoryItemIds.length === 0) {
+    return {};
+  }
+
+  const rows = await db.allAsync(
+    `SELECT s.inventoryItemId, s.locationId, l.code AS locationCode, l.storeName, s.quantity
+    FROM inventory_stock s
+    JOIN locations l ON l.id = s.locationId
+    WHERE s.inventoryItemId IN (${inventoryItemIds.map(() => '?').join(', ')}) AND s.quantity != 0
+    ORDER BY l.code`,
+    inventoryItemIds
+  );
+
+  return rows.reduce((byItem, { inventoryItemId, ...stock }) => {
+    (byItem[inventoryItemId] = byItem[inventoryItemId] || []).push(stock);
+    return byItem;
+  }, {});
+}
+
+// Unit conversions for the given items, keyed by inventory item id
+async function getUnitConversions(inventoryItemIds) {
+  if (inventoryItemIds.length === 0) {
+    return {};
+  }
+
+  const rows = await db.allAsync(
+    `SELECT inventoryItemId, unit, factor FROM inventory_unit_conversions
+    WHERE inventoryItemId IN (${inventoryItemIds.map(() => '?').join(', ')})
+    ORDER BY unit`,
+    inventoryItemIds
+  );
+
+  return rows.reduce((byItem, { inventoryItemId, ...conversion }) => {
+    (byItem[inventoryItemId] = byItem[inventoryItemId] || []).push(conversion);
+    return byItem;
+  }, {});
+}
+
+// Stock held by active project reservations for the given items, keyed by inventory item id
+async function getReservedQuantities(inventoryItemIds) {
+  if (inventoryItemIds.length === 0) {
+    return {};
+  }
+
+  const rows = await db.allAsync(
+    `SELECT inventoryItemId, SUM(reservedQuantity - consumedQuantity) AS reservedQuantity
+    FROM inventory_reservations
+    WHERE status = 'active' AND inventoryItemId IN (${inventoryItemIds.map(() => '?').join(', ')})
+    GROUP BY inventoryItemId`,
+    inventoryItemIds
+  );
+
+  return Object.fromEntries(rows.map(row => [row.inventoryItemId, roundQuantity(row.reservedQuantity)]));
+}
+
+// On-hand quantity split into what is reserved for projects and what is still free to use
+const withAvailability = (item, reservedQuantities) => {
+  const reservedQuantity = reservedQuantities[item.id] || 0;
+  return { ...item, reservedQuantity, availableQuantity: roundQuantity(item.quantity - reservedQuantity) };
+};
+
+// Check an item's conversions and its purchase/consumption units, which must be the stock unit
+// or one of the converted units. Returns the units to store, or null to keep the current ones.
+function validateItemUnits(stockUnit, { unitConversions, purchaseUnit, consumptionUnit }, current = {}) {
+  if (unitConversions === undefined && purchaseUnit === undefined && consumptionUnit === undefined) {
+    return null;
+  }
+
+  const conversions = unitConversions !== undefined ? unitConversions : current.unitConversions || [];
+  if (!Array.isArray(conversions)) {
+    throw createHttpError(400, 'Unit conversions must be a list');
+  }
+  const units = new Set();
+  conversions.forEach(({ unit, factor }) => {
+    if (!unit || unit === stockUnit) {
+      throw createHttpError(400, 'Each unit conversion needs a unit other than the stock unit');
+    }
+    if (units.has(unit)) {
+      throw createHttpError(400, `Duplicate unit conversion for ${unit}`);
+    }
+    if (!(Number(factor) > 0)) {
+      throw createHttpError(400, `Conversion factor for ${unit} must be greater than zero`);
+    }
+    units.add(unit);
+  });
+
+  const resolved = {
+    unitConversions: conversions.map(({ unit, factor }) => ({ unit, factor: Number(factor) })),
+    purchaseUnit: purchaseUnit !== undefined ? purchaseUnit || null : current.purchaseUnit || null,
+    consumptionUnit: consumptionUnit !== undefined ? consumptionUnit || null : current.consumptionUnit || null
+  };
+  [['Purchase', resolved.purchaseUnit], ['Consumption', resolved.consumptionUnit]].forEach(([label, unit]) => {
+    if (unit && unit !== stockUnit && !units.has(unit)) {
+      throw createHttpError(400, `${label} unit ${unit} needs a conversion to ${stockUnit}`);
+    }
+  });
+  return resolved;
+}
+
+async function saveUnitConversions(inventoryItemId, units) {
+  await db.runAsync('DELETE FROM inventory_unit_conversions WHERE inventoryItemId = ?', [inventoryItemId]);
+  for (const conversion of units.unitConversions) {
+    await db.runAsync(
+      'INSERT INTO inventory_unit_conversions (id, inventoryItemId, unit, factor) VALUES (?, ?, ?, ?)',
+      [generateId(), inventoryItemId, conversion.unit, conversion.factor]
+    );
+  }
+  await db.runAsync(
+    'UPDATE inventory_items SET purchaseUnit = ?, consumptionUnit = ? WHERE id = ?',
+    [units.purchaseUnit, units.consumptionUnit, inventoryItemId]
+  );
+}
+
+// Item row with its integer flags converted and its unit conversions attached
+async function getInventoryItem(id) {
+  const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [id]);
+  const unitConversions = await getUnitConversions([id]);
+  return { ...toInventoryItem(item), unitConversions: unitConversions[id] || [] };
+}
+
+// Inventory routes
+app.get('/api/inventory/products', async (req, res) => {
+  console.log('📦 Inventory products requested');
+  try {
+    const rows = await db.allAsync('SELECT * FROM inventory_items');
+    const ids = rows.map(row => row.id);
+    const [stockByLocation, unitConversions, reservedQuantities] = await Promise.all([
+      getStockByLocation(ids),
+      getUnitConversions(ids),
+      getReservedQuantities(ids)
+    ]);
+    const items = rows.map(row => ({
+      ...withAvailability(toInventoryItem(row), reservedQuantities),
+      unitConversions: unitConversions[row.id] || [],
+      stockByLocation: stockByLocation[row.id] || []
+    }));
+    
+    console.log('✅ Inventory products sent:', items.length);
+    res.json(items);
+  } catch (err) {
+    console.error('❌ Error fetching inventory items:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/inventory/products/:id', async (req, res) => {
+  try {
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [req.params.id]);
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+    
+    const [stockByLocation, unitConversions, reservedQuantities] = await Promise.all([
+      getStockByLocation([item.id]),
+      getUnitConversions([item.id]),
+      getReservedQuantities([item.id])
+    ]);
+    res.json({
+      ...withAvailability(toInventoryItem(item), reservedQuantities),
+      unitConversions: unitConversions[item.id] || [],
+      stockByLocation: stockByLocation[item.id] || []
+    });
+  } catch (err) {
+    console.error('❌ Error fetching inventory item:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Shelf life in days, null to clear it, or undefined when the payload leaves it unchanged.
+// Expiry is tracked per lot, so only lot-tracked items can have one.
+function parseShelfLifeDays(value, isLotTracked) {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '' || Number(value) === 0) {
+    return null;
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw createHttpError(400, 'Shelf life must be a whole number of days');
+  }
+  if (!isLotTracked) {
+    throw createHttpError(400, 'Shelf life requires lot tracking, since expiry dates are kept per lot');
+  }
+  return days;
+}
+
+// Insert an inventory item; its initial quantity enters the ledger as a receipt.
+// Must be called inside db.runInTransaction.
+async function createInventoryItem(itemData, { performedBy, referenceType = 'opening_balance', referenceNumber = 'OPENING', notes = 'Initial stock on item creation' } = {}) {
+  const openingQuantity = Number(itemData.quantity) || 0;
+  const newItem = {
+    id: generateId(),
+    ...itemData,
+    quantity: 0,
+    totalCost: 0,
+    isLotTracked: itemData.isLotTracked ? 1 : 0,
+    shelfLifeDays: parseShelfLifeDays(itemData.shelfLifeDays, itemData.isLotTracked) ?? null,
+    lastUpdated: new Date().toISOString()
+  };
+  
+  await assertLocationExists(newItem.location);
+  Object.assign(newItem, await resolveItemCategory(newItem.category, newItem.subCategory));
+  const units = validateItemUnits(newItem.unitMeasurement, itemData);
+  
+  await db.runAsync(
+    `INSERT INTO inventory_items (
+      id, itemId, name, category, subCategory, quantity, unitCost, totalCost,
+      location, supplier, unitMeasurement, minStockLevel, maxStockLevel, isLotTracked, shelfLifeDays, lastUpdated
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      newItem.id,
+      newItem.itemId,
+      newItem.name,
+      newItem.category,
+      newItem.subCategory,
+      newItem.quantity,
+      newItem.unitCost,
+      newItem.totalCost,
+      newItem.location,
+      newItem.supplier,
+      newItem.unitMeasurement,
+      newItem.minStockLevel,
+      newItem.maxStockLevel,
+      newItem.isLotTracked,
+      newItem.shelfLifeDays,
+      newItem.lastUpdated
+    ]
+  );
+  
+  if (units) {
+    await saveUnitConversions(newItem.id, units);
+  }
+  
+  if (openingQuantity !== 0) {
+    await postInventoryTransaction(newItem.id, {
+      type: 'receipt',
+      quantity: openingQuantity,
+      lotNumber: itemData.lotNumber,
+      expiryDate: itemData.expiryDate,
+      referenceType,
+      referenceNumber,
+      notes,
+      performedBy
+    });
+  }
+  
+  return getInventoryItem(newItem.id);
+}
+
+// Update an item's fields; a quantity change is posted to the ledger as an adjustment.
+// Must be called inside db.runInTransaction.
+async function updateInventoryItem(id, itemData, { performedBy, referenceType = 'manual_edit', referenceNumber, notes = 'Quantity changed in item edit form' } = {}) {
+  const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [id]);
+  if (!item) {
+    throw createHttpError(404, 'Item not found');
+  }
+  
+  await assertLocationExists(itemData.location);
+  // A new category can invalidate the current sub-category, so the pair is always checked together
+  if (itemData.category !== undefined || itemData.subCategory !== undefined) {
+    itemData = {
+      ...itemData,
+      ...await resolveItemCategory(
+        itemData.category !== undefined ? itemData.category : item.category,
+        itemData.subCategory !== undefined ? itemData.subCategory : item.subCategory
+      )
+    };
+  }
+  const shelfLifeDays = parseShelfLifeDays(
+    itemData.shelfLifeDays,
+    itemData.isLotTracked !== undefined ? itemData.isLotTracked : item.isLotTracked === 1
+  );
+  const currentConversions = await getUnitConversions([id]);
+  const units = validateItemUnits(itemData.unitMeasurement || item.unitMeasurement, itemData, {
+    ...item,
+    unitConversions: currentConversions[id]
+  });
+  
+  // Quantity is never written directly; a change is posted to the ledger below
+  await db.runAsync(
+    `UPDATE inventory_items SET
+      itemId = COALESCE(?, itemId),
+      name = COALESCE(?, name),
+      category = COALESCE(?, category),
+      subCategory = COALESCE(?, subCategory),
+      unitCost = COALESCE(?, unitCost),
+      totalCost = quantity * COALESCE(?, unitCost),
+      location = COALESCE(?, location),
+      supplier = COALESCE(?, supplier),
+      unitMeasurement = COALESCE(?, unitMeasurement),
+      minStockLevel = COALESCE(?, minStockLevel),
+      maxStockLevel = COALESCE(?, maxStockLevel),
+      isLotTracked = COALESCE(?, isLotTracked),
+      shelfLifeDays = CASE WHEN ? THEN ? ELSE shelfLifeDays END,
+      lastUpdated = ?
+    WHERE id = ?`,
+    [
+      itemData.itemId,
+      itemData.name,
+      itemData.category,
+      itemData.subCategory,
+      itemData.unitCost,
+      itemData.unitCost,
+      itemData.location,
+      itemData.supplier,
+      itemData.unitMeasurement,
+      itemData.minStockLevel,
+      itemData.maxStockLevel,
+      itemData.isLotTracked === undefined ? null : (itemData.isLotTracked ? 1 : 0),
+      shelfLifeDays !== undefined ? 1 : 0,
+      shelfLifeDays ?? null,
+      new Date().toISOString(),
+      id
+    ]
+  );
+  
+  if (units) {
+    await saveUnitConversions(id, units);
+  }
+  
+  // Stock on hand when lot tracking is switched on has no known batch, so it goes into an UNASSIGNED lot
+  if (itemData.isLotTracked !== undefined && Boolean(itemData.isLotTracked) !== (item.isLotTracked === 1)) {
+    if (itemData.isLotTracked) {
+      await db.runAsync(
+        `INSERT INTO inventory_lots (id, inventoryItemId, locationId, lotNumber, quantity, receivedAt)
+        SELECT 'lot-' || id, inventoryItemId, locationId, 'UNASSIGNED', quantity, ?
+        FROM inventory_stock WHERE inventoryItemId = ? AND quantity != 0`,
+        [new Date().toISOString(), id]
+      );
+    } else {
+      await db.runAsync('DELETE FROM inventory_lots WHERE inventoryItemId = ?', [id]);
+      await db.runAsync('UPDATE inventory_items SET shelfLifeDays = NULL WHERE id = ?', [id]);
+    }
+  }
+  
+  if (itemData.quantity !== undefined && Number(itemData.quantity) !== item.quantity) {
+    await postInventoryTransaction(id, {
+      type: 'adjustment',
+      quantity: Number(itemData.quantity) - item.quantity,
+      lotNumber: itemData.lotNumber,
+      expiryDate: itemData.expiryDate,
+      referenceType,
+      referenceNumber,
+      notes,
+      performedBy
+    });
+  }
+  
+  return getInventoryItem(id);
+}
+
+app.post('/api/inventory/products', async (req, res) => {
+  const { performedBy, ...itemData } = req.body;
+  
+  try {
+    const createdItem = await db.runInTransaction(() => createInventoryItem(itemData, { performedBy }));
+    res.status(201).json(createdItem);
+  } catch (err) {
+    console.error('❌ Error creating inventory item:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/api/inventory/products/:id', async (req, res) => {
+  const { performedBy, adjustmentReason, ...itemData } = req.body;
+  
+  try {
+    const updatedItem = await db.runInTransaction(() => updateInventoryItem(req.params.id, itemData, {
+      performedBy,
+      notes: adjustmentReason || undefined
+    }));
+    res.json(updatedItem);
+  } catch (err) {
+    console.error('❌ Error updating inventory item:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/inventory/products/:id', (req, res) => {
+  const itemId = req.params.id;
+  
+  // Check if item exists
+  db.get('SELECT * FROM inventory_items WHERE id = ?', [itemId], (err, item) => {
+    if (err) {
+      console.error('❌ Error checking inventory item:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+    
+    // Kits would silently lose a component, so the item has to be taken out of them first
+    const kitQuery = 'SELECT k.kitCode FROM kit_components c JOIN kits k ON k.id = c.kitId WHERE c.inventoryItemId = ? LIMIT 1';
+    db.get(kitQuery, [itemId], (err, kit) => {
+      if (err) {
+        console.error('❌ Error checking kit components:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      if (kit) {
+        return res.status(409).json({ error: `Item is a component of kit ${kit.kitCode}; remove it from the kit first` });
+      }
+      
+      // The stock ledger and the documents that refer to the item are kept, so only an item
+      // that has never been stocked, moved, reserved or requested can be deleted
+      const usageQuery = `SELECT
+        (SELECT COUNT(*) FROM inventory_transactions WHERE inventoryItemId = ?) AS movements,
+        (SELECT COUNT(*) FROM inventory_reservations WHERE inventoryItemId = ? AND status = 'active') AS reservations,
+        (SELECT COUNT(*) FROM requisition_items WHERE inventoryItemId = ?) AS requisitionLines`;
+      db.get(usageQuery, [itemId, itemId, itemId], (err, usage) => {
+        if (err) {
+          console.error('❌ Error checking inventory item usage:', err);
+          return res.status(500).json({ error: 'Internal server error' });
+        }
+        
+        const reason = item.quantity !== 0 ? `${item.quantity} ${item.unitMeasurement} is in stock`
+          : usage.reservations > 0 ? 'it has active reservations'
+          : usage.requisitionLines > 0 ? 'it is on requisitions'
+          : usage.movements > 0 ? 'it has stock movements in the ledger'
+          : null;
+        if (reason) {
+          return res.status(409).json({ error: `Item ${item.itemId} cannot be deleted because ${reason}` });
+        }
+        
+        db.all('SELECT fileName FROM inventory_attachments WHERE inventoryItemId = ?', [itemId], (err, attachments) => {
           if (err) {
-            reject(err);
-          } else {
-            order.items = items;
-            resolve(order);
+            console.error('❌ Error fetching item attachments:', err);
+            return res.status(500).json({ error: 'Internal server error' });
           }
+          
+          // Attachment rows cascade with the item; their files are removed once the delete succeeds
+          db.run('DELETE FROM inventory_items WHERE id = ?', [itemId], function(err) {
+            if (err) {
+              console.error('❌ Error deleting inventory item:', err);
+              return res.status(500).json({ error: 'Internal server error' });
+            }
+            
+            attachments.forEach(attachment => removeUploadedFile(attachment.fileName));
+            res.json({ success: true });
+          });
         });
       });
     });
+  });
+});
+
+// Inventory transaction (stock ledger) routes
+app.get('/api/inventory/products/:id/transactions', (req, res) => {
+  db.all(
+    `SELECT t.*, l.code AS locationCode
+    FROM inventory_transactions t
+    LEFT JOIN locations l ON l.id = t.locationId
+    WHERE t.inventoryItemId = ?
+    ORDER BY t.createdAt DESC, t.rowid DESC`,
+    [req.params.id],
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error fetching inventory transactions:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+
+      res.json(rows);
+    }
+  );
+});
+
+app.post('/api/inventory/products/:id/transactions', async (req, res) => {
+  try {
+    const transaction = await db.runInTransaction(() => postInventoryTransaction(req.params.id, req.body));
+    console.log('✅ Inventory transaction posted:', transaction.type, transaction.quantity);
+    res.status(201).json(transaction);
+  } catch (err) {
+    console.error('❌ Error posting inventory transaction:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Active project reservations holding stock of an item
+app.get('/api/inventory/products/:id/reservations', (req, res) => {
+  db.all(
+    `SELECT * FROM inventory_reservations
+    WHERE inventoryItemId = ? AND status = 'active'
+    ORDER BY createdAt`,
+    [req.params.id],
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error fetching reservations:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      res.json(rows);
+    }
+  );
+});
+
+// Lots of a lot-tracked item that still hold stock, in issue order (earliest expiry, then oldest receipt)
+app.get('/api/inventory/products/:id/lots', (req, res) => {
+  db.all(
+    `SELECT lt.*, l.code AS locationCode
+    FROM inventory_lots lt
+    JOIN locations l ON l.id = lt.locationId
+    WHERE lt.inventoryItemId = ? AND lt.quantity != 0
+    ORDER BY lt.expiryDate IS NULL, lt.expiryDate, lt.receivedAt, lt.lotNumber`,
+    [req.params.id],
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error fetching inventory lots:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      res.json(rows);
+    }
+  );
+});
+
+// Lots to issue a quantity (stock units) from, first-expired-first-out
+app.get('/api/inventory/products/:id/fefo', async (req, res) => {
+  try {
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [req.params.id]);
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+    if (!item.isLotTracked) {
+      return res.status(400).json({ error: `Item ${item.itemId} is not lot-tracked` });
+    }
+    
+    const quantity = parseFloat(req.query.quantity);
+    if (!(quantity > 0)) {
+      return res.status(400).json({ error: 'Quantity must be a positive number' });
+    }
+    
+    res.json(await getFefoPicks(item, quantity, req.query.locationId || null));
+  } catch (err) {
+    console.error('❌ Error building FEFO suggestion:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Lots in stock that expire within the given number of days, including those already expired
+app.get('/api/inventory/expiring', async (req, res) => {
+  try {
+    const days = Math.max(0, parseInt(req.query.days) || 30);
+    const today = todayDate();
+    const lots = await db.allAsync(
+      `SELECT lt.id, lt.inventoryItemId, lt.locationId, l.code AS locationCode, lt.lotNumber, lt.quantity,
+        lt.receivedAt, lt.expiryDate, i.itemId, i.name, i.unitMeasurement, i.unitCost
+      FROM inventory_lots lt
+      JOIN inventory_items i ON i.id = lt.inventoryItemId
+      JOIN locations l ON l.id = lt.locationId
+      WHERE lt.quantity > 0 AND lt.expiryDate IS NOT NULL AND lt.expiryDate <= ?
+      ORDER BY lt.expiryDate, i.itemId, l.code`,
+      [addDays(today, days)]
+    );
+    
+    res.json(lots.map(lot => ({
+      ...lot,
+      value: roundMoney(lot.quantity * lot.unitCost),
+      daysUntilExpiry: Math.round((new Date(lot.expiryDate).getTime() - new Date(today).getTime()) / 86400000),
+      isExpired: lot.expiryDate < today
+    })));
+  } catch (err) {
+    console.error('❌ Error fetching expiring stock:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Attachments of an item, photos first
+app.get('/api/inventory/products/:id/attachments', (req, res) => {
+  db.all(
+    `SELECT *, '/uploads/' || fileName AS filePath
+    FROM inventory_attachments
+    WHERE inventoryItemId = ?
+    ORDER BY type = 'photo' DESC, createdAt`,
+    [req.params.id],
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error fetching item attachments:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      res.json(rows);
+    }
+  );
+});
+
+app.post('/api/inventory/products/:id/attachments', (req, res) => {
+  attachmentUpload.single('file')(req, res, async (uploadErr) => {
+    if (uploadErr) {
+      return res.status(400).json({ error: uploadErr.message });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    
+    try {
+      const isImage = req.file.mimetype.startsWith('image/');
+      const type = req.body.type || (isImage ? 'photo' : 'spec_sheet');
+      if (!ATTACHMENT_TYPES.includes(type)) {
+        throw createHttpError(400, `Unknown attachment type: ${type}`);
+      }
+      if (type === 'photo' && !isImage) {
+        throw createHttpError(400, 'Photos must be image files');
+      }
+      
+      const item = await db.getAsync('SELECT id FROM inventory_items WHERE id = ?', [req.params.id]);
+      if (!item) {
+        throw createHttpError(404, 'Item not found');
+      }
+      
+      const attachment = {
+        id: generateId(),
+        inventoryItemId: item.id,
+        type,
+        fileName: req.file.filename,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size: req.file.size,
+        description: req.body.description || null,
+        uploadedBy: req.body.uploadedBy || null,
+        createdAt: new Date().toISOString()
+      };
+      await db.runAsync(
+        `INSERT INTO inventory_attachments (id, inventoryItemId, type, fileName, originalName, mimeType, size, description, uploadedBy, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [attachment.id, attachment.inventoryItemId, attachment.type, attachment.fileName, attachment.originalName,
+          attachment.mimeType, attachment.size, attachment.description, attachment.uploadedBy, attachment.createdAt]
+      );
+      
+      console.log('📎 Attachment added:', attachment.originalName, 'to item', item.id);
+      res.status(201).json({ ...attachment, filePath: `/uploads/${attachment.fileName}` });
+    } catch (err) {
+      // Multer has already written the file, so drop it when the attachment is rejected
+      removeUploadedFile(req.file.filename);
+      console.error('❌ Error adding attachment:', err);
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+});
+
+app.delete('/api/inventory/products/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const attachment = await db.getAsync(
+      'SELECT * FROM inventory_attachments WHERE id = ? AND inventoryItemId = ?',
+      [req.params.attachmentId, req.params.id]
+    );
+    if (!attachment) {
+      throw createHttpError(404, 'Attachment not found');
+    }
+    
+    await db.runAsync('DELETE FROM inventory_attachments WHERE id = ?', [attachment.id]);
+    removeUploadedFile(attachment.fileName);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error deleting attachment:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Compare each item's cached quantity with the sum of its ledger movements
+app.get('/api/inventory/reconciliation', (req, res) => {
+  db.all(
+    `SELECT
+      i.id, i.itemId, i.name, i.quantity,
+      COALESCE(SUM(t.quantity), 0) AS ledgerQuantity,
+      i.quantity - COALESCE(SUM(t.quantity), 0) AS difference,
+      (SELECT COALESCE(SUM(s.quantity), 0) FROM inventory_stock s WHERE s.inventoryItemId = i.id) AS locationQuantity
+    FROM inventory_items i
+    LEFT JOIN inventory_transactions t ON t.inventoryItemId = i.id
+    GROUP BY i.id
+    HAVING ABS(difference) > 0.0001 OR ABS(i.quantity - locationQuantity) > 0.0001`,
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error reconciling inventory:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+
+      res.json({ balanced: rows.length === 0, discrepancies: rows });
+    }
+  );
+});
+
+// Move stock between two locations; both legs are posted in one transaction so the total never changes
+app.post('/api/inventory/transfers', async (req, res) => {
+  const { inventoryItemId, fromLocationId, toLocationId, quantity, lotNumber, notes, performedBy } = req.body;
+  const transferQuantity = Number(quantity);
+  
+  if (!inventoryItemId || !fromLocationId || !toLocationId) {
+    return res.status(400).json({ error: 'Item, source and destination locations are required' });
+  }
+  if (fromLocationId === toLocationId) {
+    return res.status(400).json({ error: 'Source and destination locations must differ' });
+  }
+  if (!Number.isFinite(transferQuantity) || transferQuantity <= 0) {
+    return res.status(400).json({ error: 'Transfer quantity must be greater than zero' });
+  }
+  
+  const referenceNumber = `TRF-${Date.now()}`;
+  
+  try {
+    const transactions = await db.runInTransaction(async () => {
+      const destination = await db.getAsync('SELECT * FROM locations WHERE id = ?', [toLocationId]);
+      if (!destination || !destination.isActive) {
+        throw createHttpError(400, 'Destination location not found or inactive');
+      }
+      
+      const outbound = await postInventoryTransaction(inventoryItemId, {
+        type: 'transfer',
+        quantity: -transferQuantity,
+        locationId: fromLocationId,
+        lotNumber,
+        referenceType: 'transfer',
+        referenceNumber,
+        notes,
+        performedBy
+      });
+      const inbound = await postInventoryTransaction(inventoryItemId, {
+        type: 'transfer',
+        quantity: transferQuantity,
+        locationId: toLocationId,
+        lotNumber,
+        referenceType: 'transfer',
+        referenceNumber,
+        notes,
+        performedBy
+      });
+      return [outbound, inbound];
+    });
+    
+    console.log('✅ Stock transfer posted:', referenceNumber);
+    res.status(201).json({ referenceNumber, transactions });
+  } catch (err) {
+    console.error('❌ Error posting stock transfer:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Spreadsheet import
+const UNIT_MEASUREMENTS = [
+  'Each (ea)', 'Pieces (pcs)', 'Square Feet (sq ft)', 'Square Metres (m²)', 'Linear Feet (lin ft)',
+  'Metres (m)', 'Millimetres (mm)', 'Board Feet (bd ft)',
+  'Pounds (lbs)', 'Kilograms (kg)', 'Gallons (gal)', 'Liters (L)', 'Boxes (box)', 'Packages (pkg)',
+  'Sets (set)', 'Pairs (pr)', 'Sheets (sht)', 'Rolls (roll)', 'Tubes (tube)', 'Bottles (btl)'
+];
+
+// Accepted spreadsheet headers per item field, compared after lower-casing and stripping non-alphanumerics
+const IMPORT_COLUMN_ALIASES = {
+  itemId: ['itemid', 'itemcode', 'sku', 'code'],
+  name: ['name', 'itemname', 'description'],
+  category: ['category'],
+  subCategory: ['subcategory'],
+  quantity: ['quantity', 'qty', 'onhand'],
+  unitCost: ['unitcost', 'cost', 'unitprice', 'price'],
+  location: ['location', 'locationcode'],
+  supplier: ['supplier', 'suppliername', 'vendor'],
+  unitMeasurement: ['unitmeasurement', 'unit', 'uom', 'unitofmeasure'],
+  minStockLevel: ['minstocklevel', 'minstock', 'min', 'reorderlevel'],
+  maxStockLevel: ['maxstocklevel', 'maxstock', 'max'],
+  lotNumber: ['lotnumber', 'lot', 'batch', 'batchnumber']
+};
+const IMPORT_NUMERIC_FIELDS = ['quantity', 'unitCost', 'minStockLevel', 'maxStockLevel'];
+
+const normalizeHeader = (header) => String(header).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Map each spreadsheet header to an item field; unrecognised columns are ignored
+function mapImportColumns(headers) {
+  const columns = {};
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+    const field = Object.keys(IMPORT_COLUMN_ALIASES).find(key => IMPORT_COLUMN_ALIASES[key].includes(normalized));
+    if (field && !Object.values(columns).includes(field)) {
+      columns[header] = field;
+    }
+  });
+  return columns;
+}
+
+// Units may be given as the full label or the abbreviation in brackets, e.g. "Sheets (sht)" or "sht"
+function resolveUnitMeasurement(value) {
+  const normalized = value.toLowerCase();
+  return UNIT_MEASUREMENTS.find(unit =>
+    unit.toLowerCase() === normalized || unit.toLowerCase().endsWith(`(${normalized})`)
+  );
+}
+
+// Split CSV text into rows of fields. Quoted fields may contain commas, line breaks and
+// doubled quotes; rows with no content are dropped.
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  
+  return rows.filter(values => values.some(value => value.trim() !== ''));
+}
+
+// Workbooks are only handed to the spreadsheet parser when they start with the signature of their
+// format: a zip archive for .xlsx and an OLE compound file for .xls
+const WORKBOOK_SIGNATURES = {
+  '.xlsx': Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+  '.xls': Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+};
+
+// Read an uploaded file's data rows as objects keyed by header; CSV files and the first sheet of a
+// workbook give the same records
+function readImportRecords(file) {
+  const extension = path.extname(file.originalname).toLowerCase();
+  if (extension === '.csv') {
+    const [headers = [], ...values] = parseCsv(file.buffer.toString('utf8').replace(/^\uFEFF/, ''));
+    return values.map(fields =>
+      Object.fromEntries(headers.map((header, index) => [header.trim(), fields[index] ?? '']))
+    );
+  }
+  
+  const signature = WORKBOOK_SIGNATURES[extension];
+  if (!file.buffer.subarray(0, signature.length).equals(signature)) {
+    throw createHttpError(400, `The file is not a valid ${extension} workbook`);
+  }
+  const workbook = read(file.buffer, { type: 'buffer' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return sheet ? utils.sheet_to_json(sheet, { defval: '', raw: false }) : [];
+}
+
+// Parse and validate an uploaded sheet. Every row is returned with the action it would take
+// ('insert' or 'update') and its errors, so the client can preview before committing.
+async function buildImportPlan(file, { mode }) {
+  const records = readImportRecords(file);
+  if (records.length > IMPORT_MAX_ROWS) {
+    throw createHttpError(400, `The file has more than ${IMPORT_MAX_ROWS} rows`);
+  }
+  
+  const columns = mapImportColumns(records.length > 0 ? Object.keys(records[0]) : []);
+  const missingColumns = ['itemId', 'name'].filter(field => !Object.values(columns).includes(field));
+  if (records.length === 0 || missingColumns.length > 0) {
+    throw createHttpError(400, records.length === 0
+      ? 'The file contains no data rows'
+      : `Missing required column(s): ${missingColumns.join(', ')}`);
+  }
+  
+  const [existingItems, suppliers, locations, allowedCategories] = await Promise.all([
+    db.allAsync('SELECT * FROM inventory_items'),
+    db.allAsync('SELECT name FROM suppliers WHERE isActive = 1'),
+    db.allAsync('SELECT code FROM locations WHERE isActive = 1'),
+    getCategoryTree()
+  ]);
+  const existingByItemId = new Map(existingItems.map(item => [item.itemId.toLowerCase(), item]));
+  
+  const seenItemIds = new Set();
+  const rows = records.map((record, index) => {
+    const data = {};
+    Object.entries(columns).forEach(([header, field]) => {
+      const value = String(record[header]).trim();
+      if (value !== '') {
+        data[field] = value;
+      }
+    });
+    
+    // Spreadsheet row numbers: 1 is the header row
+    const row = { row: index + 2, itemId: data.itemId || '', name: data.name || '', action: 'insert', data, errors: [] };
+    const addError = (field, message) => row.errors.push({ field, message });
+    
+    if (!data.itemId) {
+      addError('itemId', 'Item ID is required');
+    } else if (seenItemIds.has(data.itemId.toLowerCase())) {
+      addError('itemId', `Duplicate item ID ${data.itemId} in file`);
+    } else {
+      seenItemIds.add(data.itemId.toLowerCase());
+    }
+    
+    const existingItem = data.itemId ? existingByItemId.get(data.itemId.toLowerCase()) : undefined;
+    if (existingItem) {
+      row.action = 'update';
+      row.existingId = existingItem.id;
+      data.itemId = existingItem.itemId;
+      if (mode !== 'upsert') {
+        addError('itemId', `Item ${existingItem.itemId} already exists; choose update mode to overwrite it`);
+      }
+    } else {
+      // New items need every column the inventory_items table requires
+      if (!data.name) addError('name', 'Name is required for new items');
+      if (!data.category) addError('category', 'Category is required for new items');
+      if (data.unitCost === undefined) addError('unitCost', 'Unit cost is required for new items');
+    }
+    
+    IMPORT_NUMERIC_FIELDS.forEach(field => {
+      if (data[field] === undefined) return;
+      const value = Number(String(data[field]).replace(/[$,]/g, ''));
+      if (!Number.isFinite(value) || value < 0) {
+        addError(field, `${field} must be a non-negative number`);
+      } else {
+        data[field] = value;
+      }
+    });
+    
+    if (!existingItem && data.quantity > 0 && !data.location) {
+      addError('location', 'Location is required to receive opening stock');
+    }
+    
+    if (existingItem?.isLotTracked && data.quantity !== undefined && data.quantity !== existingItem.quantity && !data.lotNumber) {
+      addError('lotNumber', `Lot number is required to change the quantity of lot-tracked item ${existingItem.itemId}`);
+    }
+    
+    if (data.unitMeasurement) {
+      const unit = resolveUnitMeasurement(data.unitMeasurement);
+      if (unit) {
+        data.unitMeasurement = unit;
+      } else {
+        addError('unitMeasurement', `Unknown unit of measurement: ${data.unitMeasurement}`);
+      }
+    }
+    
+    if (data.category) {
+      const category = allowedCategories.find(cat => cat.name.toLowerCase() === data.category.toLowerCase());
+      if (!category) {
+        addError('category', `Unknown category: ${data.category}`);
+      } else {
+        data.category = category.name;
+        if (data.subCategory) {
+          const subCategory = category.subCategories.find(sub => sub.name.toLowerCase() === data.subCategory.toLowerCase());
+          if (subCategory) {
+            data.subCategory = subCategory.name;
+          } else {
+            addError('subCategory', `Unknown sub-category for ${category.name}: ${data.subCategory}`);
+          }
+        }
+      }
+    }
+    
+    if (data.supplier) {
+      const supplier = suppliers.find(sup => sup.name.toLowerCase() === data.supplier.toLowerCase());
+      if (supplier) {
+        data.supplier = supplier.name;
+      } else {
+        addError('supplier', `Unknown supplier: ${data.supplier}`);
+      }
+    }
+    
+    if (data.location) {
+      const location = locations.find(loc => loc.code === data.location.toUpperCase());
+      if (location) {
+        data.location = location.code;
+      } else {
+        addError('location', `Unknown or inactive location: ${data.location}`);
+      }
+    }
+    
+    const minStockLevel = data.minStockLevel ?? existingItem?.minStockLevel;
+    const maxStockLevel = data.maxStockLevel ?? existingItem?.maxStockLevel;
+    if (typeof minStockLevel === 'number' && typeof maxStockLevel === 'number' && maxStockLevel > 0 && minStockLevel > maxStockLevel) {
+      addError('minStockLevel', 'Minimum stock level exceeds maximum stock level');
+    }
+    
+    return row;
+  });
+  
+  return { columns: Object.values(columns), rows };
+}
+
+app.post('/api/inventory/import', (req, res) => {
+  importUpload.single('file')(req, res, async (uploadErr) => {
+    if (uploadErr) {
+      return res.status(400).json({ error: uploadErr.message });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    
+    const mode = req.body.mode === 'upsert' ? 'upsert' : 'insert';
+    // Anything but an explicit "false" is a preview, so a client cannot commit by accident
+    const dryRun = req.body.dryRun !== 'false';
+    const performedBy = req.body.performedBy;
+    
+    try {
+      const plan = await buildImportPlan(req.file, { mode });
+      const errorCount = plan.rows.reduce((count, row) => count + row.errors.length, 0);
+      const result = {
+        fileName: req.file.originalname,
+        mode,
+        dryRun,
+        committed: false,
+        columns: plan.columns,
+        totalRows: plan.rows.length,
+        insertCount: plan.rows.filter(row => row.action === 'insert').length,
+        updateCount: plan.rows.filter(row => row.action === 'update').length,
+        errorCount,
+        rows: plan.rows
+      };
+      
+      if (dryRun || errorCount > 0) {
+        return res.status(dryRun ? 200 : 422).json(result);
+      }
+      
+      const referenceNumber = `IMP-${Date.now()}`;
+      await db.runInTransaction(async () => {
+        for (const row of plan.rows) {
+          const movement = { performedBy, referenceType: 'import', referenceNumber, notes: `Imported from ${req.file.originalname}` };
+          if (row.action === 'update') {
+            await updateInventoryItem(row.existingId, row.data, movement);
+          } else {
+            await createInventoryItem(row.data, movement);
+          }
+        }
+      });
+      
+      console.log(`✅ Inventory import ${referenceNumber}: ${result.insertCount} inserted, ${result.updateCount} updated`);
+      res.json({ ...result, committed: true, referenceNumber });
+    } catch (err) {
+      console.error('❌ Error importing inventory:', err);
+      if (err.status) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+});
+
+// Stock report export
+const COMPANY_NAME = process.env.COMPANY_NAME || 'Cabinet WMS';
+const COMPANY_ADDRESS = process.env.COMPANY_ADDRESS || '';
+
+// Items matching the report filters, grouped by category with subtotals.
+// With a location filter, quantities are the stock held at that location only.
+async function buildStockReport({ category, location, supplier, lowStockOnly }) {
+  const conditions = [];
+  const params = [];
+  let quantityColumn = 'i.quantity';
+  let locationJoin = '';
+  
+  if (location) {
+    quantityColumn = 's.quantity';
+    locationJoin = 'JOIN inventory_stock s ON s.inventoryItemId = i.id JOIN locations l ON l.id = s.locationId AND l.code = ?';
+    params.push(location);
+    conditions.push('s.quantity != 0');
+  }
+  if (category) {
+    conditions.push('i.category = ?');
+    params.push(category);
+  }
+  if (supplier) {
+    conditions.push('i.supplier = ?');
+    params.push(supplier);
+  }
+  if (lowStockOnly) {
+    conditions.push('i.quantity <= i.minStockLevel');
+  }
+  
+  const items = await db.allAsync(
+    `SELECT i.itemId, i.name, i.category, i.subCategory, i.unitMeasurement, i.unitCost,
+      i.location, i.supplier, i.minStockLevel, i.quantity AS totalQuantity, ${quantityColumn} AS quantity
+    FROM inventory_items i
+    ${locationJoin}
+    ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+    ORDER BY i.category, i.itemId`,
+    params
+  );
+  
+  const groups = [];
+  items.forEach(item => {
+    const value = item.quantity * item.unitCost;
+    let group = groups[groups.length - 1];
+    if (!group || group.category !== item.category) {
+      group = { category: item.category, items: [], quantity: 0, value: 0 };
+      groups.push(group);
+    }
+    group.items.push({ ...item, value, isLowStock: item.totalQuantity <= item.minStockLevel });
+    group.quantity += item.quantity;
+    group.value += value;
+  });
+  
+  return {
+    groups,
+    itemCount: items.length,
+    totalValue: groups.reduce((sum, group) => sum + group.value, 0)
+  };
+}
+
+const describeReportFilters = ({ category, location, supplier, lowStockOnly }) => {
+  const filters = [
+    category && `Category: ${category}`,
+    location && `Location: ${location}`,
+    supplier && `Supplier: ${supplier}`,
+    lowStockOnly && 'Low stock only'
+  ].filter(Boolean);
+  return filters.length > 0 ? filters.join(' | ') : 'All items';
+};
+
+const formatMoney = (value) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+function renderStockReportPdf(report, filters, generatedAt) {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  
+  // Company header
+  doc.setFontSize(16);
+  doc.text(COMPANY_NAME, 14, 16);
+  doc.setFontSize(9);
+  if (COMPANY_ADDRESS) {
+    doc.text(COMPANY_ADDRESS, 14, 21);
+  }
+  doc.setFontSize(13);
+  doc.text('Inventory Stock Report', pageWidth - 14, 16, { align: 'right' });
+  doc.setFontSize(9);
+  doc.text(`Generated ${generatedAt.toLocaleString('en-US')}`, pageWidth - 14, 21, { align: 'right' });
+  doc.text(describeReportFilters(filters), 14, 28);
+  
+  const body = [];
+  report.groups.forEach(group => {
+    body.push([{ content: group.category, colSpan: 8, styles: { fontStyle: 'bold', fillColor: [230, 236, 245] } }]);
+    group.items.forEach(item => {
+      body.push([
+        item.itemId,
+        item.name,
+        item.location || '',
+        item.supplier || '',
+        { content: item.quantity.toLocaleString('en-US'), styles: item.isLowStock ? { textColor: [200, 30, 30] } : {} },
+        item.unitMeasurement || '',
+        formatMoney(item.unitCost),
+        formatMoney(item.value)
+      ]);
+    });
+    body.push([
+      { content: `Subtotal ${group.category} (${group.items.length} items)`, colSpan: 7, styles: { fontStyle: 'bold', halign: 'right' } },
+      { content: formatMoney(group.value), styles: { fontStyle: 'bold' } }
+    ]);
+  });
+  body.push([
+    { content: `Total (${report.itemCount} items)`, colSpan: 7, styles: { fontStyle: 'bold', halign: 'right' } },
+    { content: formatMoney(report.totalValue), styles: { fontStyle: 'bold' } }
+  ]);
+  
+  doc.autoTable({
+    startY: 32,
+    head: [['Item ID', 'Name', 'Location', 'Supplier', 'Quantity', 'Unit', 'Unit Cost', 'Value']],
+    body,
+    theme: 'grid',
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [66, 139, 202] },
+    columnStyles: { 4: { halign: 'right' }, 6: { halign: 'right' }, 7: { halign: 'right' } },
+    didDrawPage: () => {
+      doc.setFontSize(8);
+      doc.text(`Page ${doc.internal.getNumberOfPages()}`, pageWidth - 14, doc.internal.pageSize.getHeight() - 8, { align: 'right' });
+    }
+  });
+  
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+function renderStockReportXlsx(report, filters, generatedAt) {
+  const rows = [
+    [COMPANY_NAME],
+    [COMPANY_ADDRESS],
+    ['Inventory Stock Report'],
+    [`Generated ${generatedAt.toLocaleString('en-US')}`],
+    [describeReportFilters(filters)],
+    [],
+    ['Item ID', 'Name', 'Category', 'Sub Category', 'Location', 'Supplier', 'Quantity', 'Unit', 'Unit Cost', 'Value', 'Low Stock']
+  ];
+  
+  report.groups.forEach(group => {
+    group.items.forEach(item => {
+      rows.push([
+        item.itemId,
+        item.name,
+        item.category,
+        item.subCategory || '',
+        item.location || '',
+        item.supplier || '',
+        item.quantity,
+        item.unitMeasurement || '',
+        item.unitCost,
+        item.value,
+        item.isLowStock ? 'Yes' : ''
+      ]);
+    });
+    rows.push(['', `Subtotal ${group.category}`, '', '', '', '', group.quantity, '', '', group.value, '']);
+    rows.push([]);
+  });
+  rows.push(['', `Total (${report.itemCount} items)`, '', '', '', '', '', '', '', report.totalValue, '']);
+  
+  const sheet = utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [12, 32, 16, 16, 12, 22, 10, 14, 10, 12, 10].map(wch => ({ wch }));
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, sheet, 'Stock Report');
+  return write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+app.get('/api/inventory/export', async (req, res) => {
+  const format = req.query.format || 'pdf';
+  if (!['pdf', 'xlsx'].includes(format)) {
+    return res.status(400).json({ error: 'Unsupported export format. Expected pdf or xlsx' });
+  }
+  
+  const filters = {
+    category: req.query.category || undefined,
+    location: req.query.location || undefined,
+    supplier: req.query.supplier || undefined,
+    lowStockOnly: req.query.lowStockOnly === 'true'
+  };
+  
+  try {
+    const report = await buildStockReport(filters);
+    const generatedAt = new Date();
+    const fileName = `inventory-report-${generatedAt.toISOString().split('T')[0]}.${format}`;
+    
+    const content = format === 'pdf'
+      ? renderStockReportPdf(report, filters, generatedAt)
+      : renderStockReportXlsx(report, filters, generatedAt);
+    
+    console.log(`✅ Inventory ${format} report generated: ${report.itemCount} items`);
+    res.setHeader('Content-Type', format === 'pdf'
+      ? 'application/pdf'
+      : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(content);
+  } catch (err) {
+    console.error('❌ Error exporting inventory report:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const VALUATION_METHODS = ['fifo', 'weighted_average', 'last_price'];
+
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// Value an item's stock from its purchase history (oldest first, in stock units). FIFO treats the oldest
+// purchases as used up, so the stock left is costed from the newest purchases back; any quantity older
+// than the recorded history is costed at the item's unit cost.
+function valueStock(quantity, purchases, itemUnitCost) {
+  const purchasedQuantity = purchases.reduce((sum, purchase) => sum + purchase.quantity, 0);
+  const purchasedValue = purchases.reduce((sum, purchase) => sum + purchase.totalPrice, 0);
+  const lastPurchasePrice = purchases.length > 0 ? purchases[purchases.length - 1].unitPrice : itemUnitCost;
+  const averagePurchasePrice = purchasedQuantity > 0 ? purchasedValue / purchasedQuantity : itemUnitCost;
+
+  let valuationAtFifo = 0;
+  let remaining = quantity;
+  for (let i = purchases.length - 1; i >= 0 && remaining > 0; i--) {
+    const layerQuantity = Math.min(remaining, purchases[i].quantity);
+    valuationAtFifo += layerQuantity * purchases[i].unitPrice;
+    remaining -= layerQuantity;
+  }
+  // Negative stock has no layers to draw from, so it is costed at the last price like the other methods
+  valuationAtFifo += remaining * (remaining > 0 ? itemUnitCost : lastPurchasePrice);
+
+  return {
+    lastPurchasePrice: roundQuantity(lastPurchasePrice),
+    averagePurchasePrice: roundQuantity(averagePurchasePrice),
+    fifoUnitCost: roundQuantity(quantity !== 0 ? valuationAtFifo / quantity : lastPurchasePrice),
+    valuationAtLastPrice: roundMoney(quantity * lastPurchasePrice),
+    valuationAtAveragePrice: roundMoney(quantity * averagePurchasePrice),
+    valuationAtFifo: roundMoney(valuationAtFifo)
+  };
+}
+
+// Report routes
+// Stock value per item under FIFO, weighted average or last purchase price. `asOf` (YYYY-MM-DD) values the
+// ledger quantity and the purchases up to the end of that day, for month-end closing.
+app.get('/api/reports/inventory-valuation', async (req, res) => {
+  const method = req.query.method || 'weighted_average';
+  const asOf = req.query.asOf || null;
+  const includeZeroStock = req.query.includeZeroStock === 'true';
+
+  if (!VALUATION_METHODS.includes(method)) {
+    return res.status(400).json({ error: `Invalid valuation method. Expected one of: ${VALUATION_METHODS.join(', ')}` });
+  }
+  if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    return res.status(400).json({ error: 'asOf must be a date in YYYY-MM-DD format' });
+  }
+
+  console.log(`💰 Inventory valuation requested (${method}${asOf ? `, as of ${asOf}` : ''})`);
+  try {
+    const cutoff = asOf ? `${asOf}T23:59:59.999Z` : new Date().toISOString();
+    const conditions = [];
+    const params = [cutoff];
+    if (req.query.category) {
+      conditions.push('i.category = ?');
+      params.push(req.query.category);
+    }
+    if (req.query.location) {
+      conditions.push('i.location = ?');
+      params.push(req.query.location);
+    }
+
+    const items = await db.allAsync(
+      `SELECT i.*,
+        (SELECT COALESCE(SUM(t.quantity), 0) FROM inventory_transactions t
+          WHERE t.inventoryItemId = i.id AND t.createdAt <= ?) AS ledgerQuantity
+      FROM inventory_items i
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY i.category, i.itemId`,
+      params
+    );
+    const purchases = await db.allAsync(
+      'SELECT * FROM purchase_history WHERE purchaseDate <= ? ORDER BY purchaseDate, id',
+      [cutoff]
+    );
+    const purchasesByItem = purchases.reduce((byItem, purchase) => {
+      (byItem[purchase.inventoryItemId] = byItem[purchase.inventoryItemId] || []).push(purchase);
+      return byItem;
+    }, {});
+
+    const valuationField = {
+      fifo: 'valuationAtFifo',
+      weighted_average: 'valuationAtAveragePrice',
+      last_price: 'valuationAtLastPrice'
+    }[method];
+
+    const rows = items
+      .map(item => {
+        const quantity = asOf ? roundQuantity(item.ledgerQuantity) : item.quantity;
+        const itemPurchases = purchasesByItem[item.id] || [];
+        const values = valueStock(quantity, itemPurchases, item.unitCost);
+        return {
+          id: item.id,
+          itemId: item.itemId,
+          itemName: item.name,
+          category: item.category,
+          currentQuantity: quantity,
+          unitMeasurement: item.unitMeasurement,
+          ...values,
+          totalPurchases: itemPurchases.length,
+          lastPurchaseDate: itemPurchases.length > 0 ? itemPurchases[itemPurchases.length - 1].purchaseDate : null,
+          supplier: item.supplier || '',
+          location: item.location || '',
+          method,
+          valuation: values[valuationField]
+        };
+      })
+      .filter(row => includeZeroStock || row.currentQuantity !== 0);
+
+    console.log('✅ Inventory valuation sent:', rows.length);
+    res.json(rows);
+  } catch (err) {
+    console.error('❌ Error valuing inventory:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Purchase history for one item, newest first; accepts the item code or the inventory item id
+app.get('/api/reports/purchase-history/:itemId', (req, res) => {
+  db.all(
+    `SELECT id, itemId, purchaseDate, quantity, unitPrice, totalPrice, supplier, poNumber, invoiceNumber
+    FROM purchase_history
+    WHERE itemId = ? OR inventoryItemId = ?
+    ORDER BY purchaseDate DESC`,
+    [req.params.itemId, req.params.itemId],
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error fetching purchase history:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+
+      res.json(rows);
+    }
+  );
+});
+
+// ABC classes split items by their cumulative share of annual consumption value, XYZ classes by the
+// coefficient of variation of their monthly issues. Items with no issues in the window are C and Z.
+const XYZ_CLASS_LIMITS = { X: 0.5, Y: 1 };
+// Days between counts for each ABC class; unclassified items are counted like C items
+const COUNT_FREQUENCY_DAYS = { A: 30, B: 90, C: 365 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getCountDueDate(abcClass, lastCountedAt) {
+  if (!lastCountedAt) {
+    return null;
+  }
+  return new Date(new Date(lastCountedAt).getTime() + COUNT_FREQUENCY_DAYS[abcClass || 'C'] * DAY_MS).toISOString();
+}
+
+// Never-counted items are always due
+const isDueForCount = (abcClass, lastCountedAt, now = new Date()) => {
+  const dueDate = getCountDueDate(abcClass, lastCountedAt);
+  return !dueDate || new Date(dueDate) <= now;
+};
+
+// Classify every item from the issues of the last `days` days and list stock that has not moved
+// in `deadStockDays` days. Consumption value uses the current unit cost and is scaled to a year.
+async function buildInventoryAnalysis({ days, deadStockDays, aLimit, bLimit }) {
+  const now = new Date();
+  const since = new Date(now.getTime() - days * DAY_MS);
+  const items = await db.allAsync(
+    `SELECT i.*,
+      (SELECT MAX(t.createdAt) FROM inventory_transactions t WHERE t.inventoryItemId = i.id) AS lastMovementAt,
+      (SELECT MAX(st.postedAt) FROM stock_take_lines l
+        JOIN stock_takes st ON st.id = l.stockTakeId
+        WHERE l.inventoryItemId = i.id AND st.status = 'posted') AS lastCountedAt
+    FROM inventory_items i`
+  );
+  const issues = await db.allAsync(
+    `SELECT inventoryItemId, createdAt, -quantity AS quantity FROM inventory_transactions
+    WHERE type = 'issue' AND createdAt >= ?`,
+    [since.toISOString()]
+  );
+
+  // The window is cut into month-long slices ending now, so no slice is a partial month
+  const slices = Math.max(1, Math.round(days / FORECAST_PERIODS.month.days));
+  const sliceMs = days * DAY_MS / slices;
+  const issuesByItem = {};
+  for (const issue of issues) {
+    const slice = Math.min(slices - 1, Math.floor((new Date(issue.createdAt).getTime() - since.getTime()) / sliceMs));
+    const series = issuesByItem[issue.inventoryItemId] = issuesByItem[issue.inventoryItemId] || Array(slices).fill(0);
+    series[slice] += issue.quantity;
+  }
+
+  const rows = items.map(item => {
+    const series = issuesByItem[item.id] || Array(slices).fill(0);
+    const issuedQuantity = roundQuantity(series.reduce((sum, quantity) => sum + quantity, 0));
+    const average = issuedQuantity / slices;
+    const deviation = Math.sqrt(mean(series.map(quantity => (quantity - average) ** 2)));
+    const coefficientOfVariation = average > 0 ? Math.round(deviation / average * 100) / 100 : null;
+    return {
+      id: item.id,
+      itemId: item.itemId,
+      name: item.name,
+      category: item.category,
+      unitMeasurement: item.unitMeasurement,
+      quantity: item.quantity,
+      unitCost: item.unitCost,
+      issuedQuantity,
+      annualConsumptionValue: roundMoney(issuedQuantity * item.unitCost * 365 / days),
+      coefficientOfVariation,
+      xyzClass: coefficientOfVariation === null ? 'Z'
+        : coefficientOfVariation <= XYZ_CLASS_LIMITS.X ? 'X'
+        : coefficientOfVariation <= XYZ_CLASS_LIMITS.Y ? 'Y' : 'Z',
+      storedAbcClass: item.abcClass,
+      storedXyzClass: item.xyzClass,
+      classifiedAt: item.classifiedAt,
+      lastMovementAt: item.lastMovementAt,
+      lastCountedAt: item.lastCountedAt,
+      nextCountDue: getCountDueDate(item.abcClass, item.lastCountedAt),
+      isDueForCount: isDueForCount(item.abcClass, item.lastCountedAt, now)
+    };
+  });
+
+  // An item is A while the items ranked above it hold less than aLimit% of the value, so the top item is always A
+  const totalValue = rows.reduce((sum, row) => sum + row.annualConsumptionValue, 0);
+  rows.sort((a, b) => b.annualConsumptionValue - a.annualConsumptionValue || a.itemId.localeCompare(b.itemId));
+  let cumulativeValue = 0;
+  for (const row of rows) {
+    const shareBefore = totalValue > 0 ? cumulativeValue / totalValue * 100 : 100;
+    cumulativeValue += row.annualConsumptionValue;
+    row.valueShare = totalValue > 0 ? Math.round(row.annualConsumptionValue / totalValue * 10000) / 100 : 0;
+    row.cumulativeShare = totalValue > 0 ? Math.round(cumulativeValue / totalValue * 10000) / 100 : 0;
+    row.abcClass = row.annualConsumptionValue <= 0 ? 'C' : shareBefore < aLimit ? 'A' : shareBefore < bLimit ? 'B' : 'C';
+  }
+
+  const summary = {};
+  for (const row of rows) {
+    const key = `${row.abcClass}${row.xyzClass}`;
+    summary[key] = summary[key] || { count: 0, annualConsumptionValue: 0 };
+    summary[key].count += 1;
+    summary[key].annualConsumptionValue = roundMoney(summary[key].annualConsumptionValue + row.annualConsumptionValue);
+  }
+
+  const deadStockCutoff = new Date(now.getTime() - deadStockDays * DAY_MS);
+  const deadStock = rows
+    .filter(row => row.quantity > 0 && (!row.lastMovementAt || new Date(row.lastMovementAt) < deadStockCutoff))
+    .map(row => ({
+      id: row.id,
+      itemId: row.itemId,
+      name: row.name,
+      category: row.category,
+      unitMeasurement: row.unitMeasurement,
+      quantity: row.quantity,
+      unitCost: row.unitCost,
+      tiedUpValue: roundMoney(row.quantity * row.unitCost),
+      lastMovementAt: row.lastMovementAt,
+      daysSinceMovement: row.lastMovementAt ? Math.floor((now.getTime() - new Date(row.lastMovementAt).getTime()) / DAY_MS) : null
+    }))
+    .sort((a, b) => b.tiedUpValue - a.tiedUpValue);
+
+  return {
+    generatedAt: now.toISOString(),
+    parameters: { days, deadStockDays, aLimit, bLimit, xyzLimits: XYZ_CLASS_LIMITS, countFrequencyDays: COUNT_FREQUENCY_DAYS },
+    totalAnnualConsumptionValue: roundMoney(totalValue),
+    items: rows,
+    summary,
+    deadStock,
+    deadStockValue: roundMoney(deadStock.reduce((sum, row) => sum + row.tiedUpValue, 0))
+  };
+}
+
+function parseAnalysisParameters(source) {
+  const parameters = {
+    days: parseInt(source.days) || 365,
+    deadStockDays: parseInt(source.deadStockDays) || 180,
+    aLimit: parseFloat(source.aLimit) || 80,
+    bLimit: parseFloat(source.bLimit) || 95
+  };
+  if (parameters.days < 30) {
+    throw createHttpError(400, 'The analysis needs at least 30 days of history');
+  }
+  if (parameters.aLimit <= 0 || parameters.aLimit >= parameters.bLimit || parameters.bLimit > 100) {
+    throw createHttpError(400, 'Class limits must satisfy 0 < A < B <= 100');
+  }
+  return parameters;
+}
+
+// ABC / XYZ classification and dead stock, without changing the stored classes
+app.get('/api/reports/inventory-analysis', async (req, res) => {
+  try {
+    const analysis = await buildInventoryAnalysis(parseAnalysisParameters(req.query));
+    console.log(`📊 Inventory analysis sent: ${analysis.items.length} items, ${analysis.deadStock.length} dead stock`);
+    res.json(analysis);
+  } catch (err) {
+    console.error('❌ Error building inventory analysis:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Store the classes on the items, where they drive inventory filters and count frequency
+app.post('/api/reports/inventory-analysis/classify', async (req, res) => {
+  try {
+    const parameters = parseAnalysisParameters(req.body);
+    const analysis = await db.runInTransaction(async () => {
+      const result = await buildInventoryAnalysis(parameters);
+      for (const row of result.items) {
+        await db.runAsync(
+          'UPDATE inventory_items SET abcClass = ?, xyzClass = ?, classifiedAt = ? WHERE id = ?',
+          [row.abcClass, row.xyzClass, result.generatedAt, row.id]
+        );
+      }
+      return result;
+    });
+    
+    // Report the stored classes and the count dates they now imply
+    for (const row of analysis.items) {
+      row.storedAbcClass = row.abcClass;
+      row.storedXyzClass = row.xyzClass;
+      row.classifiedAt = analysis.generatedAt;
+      row.nextCountDue = getCountDueDate(row.abcClass, row.lastCountedAt);
+      row.isDueForCount = isDueForCount(row.abcClass, row.lastCountedAt);
+    }
+    console.log(`🏷️ Items classified: ${analysis.items.length}`);
+    res.json(analysis);
+  } catch (err) {
+    console.error('❌ Error classifying items:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// A4 label stock, 3 columns x 8 rows of 70 x 37mm labels with no page margins
+const LABEL_SHEET = { columns: 3, rows: 8, width: 70, height: 37 };
+const LABEL_SYMBOLOGIES = ['code128', 'qrcode'];
+
+async function renderLabelsPdf(labels, { symbology, startPosition }) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+  const perPage = LABEL_SHEET.columns * LABEL_SHEET.rows;
+  const barcodes = new Map();
+  
+  // startPosition lets a partly used sheet be fed through again
+  for (let index = 0; index < labels.length; index++) {
+    const position = index + startPosition - 1;
+    if (position > 0 && position % perPage === 0) {
+      doc.addPage();
+    }
+    const slot = position % perPage;
+    const x = (slot % LABEL_SHEET.columns) * LABEL_SHEET.width;
+    const y = Math.floor(slot / LABEL_SHEET.columns) * LABEL_SHEET.height;
+    const label = labels[index];
+    
+    // Copies of a label share one embedded image via its alias
+    const alias = `${symbology}-${label.code}`;
+    const barcode = barcodes.get(alias) || await bwipjs.toBuffer(symbology === 'qrcode'
+      ? { bcid: 'qrcode', text: label.code, scale: 4 }
+      : { bcid: 'code128', text: label.code, scale: 3, height: 10 });
+    barcodes.set(alias, barcode);
+    
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(label.code, x + 4, y + 7);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    if (symbology === 'qrcode') {
+      doc.text(doc.splitTextToSize(label.description, 36).slice(0, 4), x + 4, y + 12);
+      doc.addImage(barcode, 'PNG', x + LABEL_SHEET.width - 30, y + 4, 26, 26, alias);
+    } else {
+      doc.text(doc.splitTextToSize(label.description, LABEL_SHEET.width - 8).slice(0, 2), x + 4, y + 12);
+      doc.addImage(barcode, 'PNG', x + 4, y + 19, LABEL_SHEET.width - 8, 14, alias);
+    }
+  }
+  
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+// Printable barcode labels for inventory items or locations; without ids every item or active location is labelled
+app.get('/api/labels', async (req, res) => {
+  const type = req.query.type || 'item';
+  const symbology = req.query.symbology || 'code128';
+  const ids = req.query.ids ? String(req.query.ids).split(',').filter(Boolean) : [];
+  const copies = Math.max(1, Math.min(Number(req.query.copies) || 1, 100));
+  const startPosition = Math.max(1, Math.min(Number(req.query.startPosition) || 1, LABEL_SHEET.columns * LABEL_SHEET.rows));
+  
+  if (!['item', 'location'].includes(type)) {
+    return res.status(400).json({ error: 'Label type must be item or location' });
+  }
+  if (!LABEL_SYMBOLOGIES.includes(symbology)) {
+    return res.status(400).json({ error: `Unsupported symbology. Expected one of: ${LABEL_SYMBOLOGIES.join(', ')}` });
+  }
+  
+  try {
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = type === 'item'
+      ? await db.allAsync(
+        `SELECT itemId AS code, name AS description FROM inventory_items
+        ${ids.length > 0 ? `WHERE id IN (${placeholders})` : ''} ORDER BY itemId`,
+        ids
+      )
+      : await db.allAsync(
+        `SELECT code, storeName || ' - Rack ' || rack || ', Shelf ' || shelf AS description FROM locations
+        WHERE ${ids.length > 0 ? `id IN (${placeholders})` : 'isActive = 1'} ORDER BY code`,
+        ids
+      );
+    
+    if (rows.length === 0) {
+      return res.status(404).json({ error: `No ${type}s found to label` });
+    }
+    
+    const labels = rows.flatMap(row => Array(copies).fill(row));
+    const content = await renderLabelsPdf(labels, { symbology, startPosition });
+    
+    console.log(`✅ ${labels.length} ${type} labels generated`);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${type}-labels.pdf"`);
+    res.send(content);
+  } catch (err) {
+    console.error('❌ Error generating labels:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Locations routes
+app.get('/api/locations', (req, res) => {
+  console.log('📍 Locations requested');
+  db.all(
+    `SELECT l.*, COALESCE(SUM(s.quantity), 0) AS totalQuantity, COUNT(CASE WHEN s.quantity != 0 THEN 1 END) AS itemCount
+    FROM locations l
+    LEFT JOIN inventory_stock s ON s.locationId = l.id
+    GROUP BY l.id
+    ORDER BY l.code`,
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error fetching locations:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      // Convert isActive from integer to boolean for frontend
+      const locations = rows.map(location => ({
+        ...location,
+        isActive: location.isActive === 1
+      }));
+      
+      console.log('✅ Locations sent:', locations.length);
+      res.json(locations);
+    }
+  );
+});
+
+app.post('/api/locations', (req, res) => {
+  const { code, storeName, rack, shelf, description } = req.body;
+  
+  if (!code || !storeName) {
+    return res.status(400).json({ error: 'Location code and store name are required' });
+  }
+  
+  const newLocation = {
+    id: Date.now().toString(),
+    code: code.trim().toUpperCase(),
+    storeName,
+    rack,
+    shelf,
+    description,
+    isActive: req.body.isActive !== false ? 1 : 0,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+  
+  db.get('SELECT id FROM locations WHERE code = ?', [newLocation.code], (err, existingLocation) => {
+    if (err) {
+      console.error('❌ Error checking existing location:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (existingLocation) {
+      return res.status(409).json({ error: 'Location code already exists' });
+    }
+    
+    db.run(
+      'INSERT INTO locations (id, code, storeName, rack, shelf, description, isActive, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        newLocation.id,
+        newLocation.code,
+        newLocation.storeName,
+        newLocation.rack,
+        newLocation.shelf,
+        newLocation.description,
+        newLocation.isActive,
+        newLocation.createdAt,
+        newLocation.updatedAt
+      ],
+      function(err) {
+        if (err) {
+          console.error('❌ Error creating location:', err);
+          return res.status(500).json({ error: 'Internal server error' });
+        }
+        
+        // Convert isActive back to boolean for frontend
+        newLocation.isActive = newLocation.isActive === 1;
+        res.status(201).json(newLocation);
+      }
+    );
+  });
+});
+
+app.put('/api/locations/:id', async (req, res) => {
+  const locationId = req.params.id;
+  
+  try {
+    const updatedLocation = await db.runInTransaction(async () => {
+      const location = await db.getAsync('SELECT * FROM locations WHERE id = ?', [locationId]);
+      if (!location) {
+        throw createHttpError(404, 'Location not found');
+      }
+      
+      const code = req.body.code ? req.body.code.trim().toUpperCase() : location.code;
+      if (code !== location.code) {
+        const existingLocation = await db.getAsync('SELECT id FROM locations WHERE code = ? AND id != ?', [code, locationId]);
+        if (existingLocation) {
+          throw createHttpError(409, 'Location code already exists');
+        }
+      }
+      
+      const isActive = req.body.isActive !== undefined ? (req.body.isActive ? 1 : 0) : location.isActive;
+      
+      await db.runAsync(
+        `UPDATE locations SET
+          code = ?,
+          storeName = COALESCE(?, storeName),
+          rack = COALESCE(?, rack),
+          shelf = COALESCE(?, shelf),
+          description = COALESCE(?, description),
+          isActive = ?,
+          updatedAt = ?
+        WHERE id = ?`,
+        [code, req.body.storeName, req.body.rack, req.body.shelf, req.body.description, isActive, new Date().toISOString(), locationId]
+      );
+      
+      // Items refer to their default location by code, so keep them pointing at the renamed location
+      if (code !== location.code) {
+        await db.runAsync('UPDATE inventory_items SET location = ? WHERE location = ?', [code, location.code]);
+      }
+      
+      return db.getAsync('SELECT * FROM locations WHERE id = ?', [locationId]);
+    });
+    
+    // Convert isActive from integer to boolean for frontend
+    updatedLocation.isActive = updatedLocation.isActive === 1;
+    res.json(updatedLocation);
+  } catch (err) {
+    console.error('❌ Error updating location:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/locations/:id', (req, res) => {
+  const locationId = req.params.id;
+  
+  db.get('SELECT * FROM locations WHERE id = ?', [locationId], (err, location) => {
+    if (err) {
+      console.error('❌ Error checking location:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (!location) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+    
+    // A location that still holds stock or is an item's default cannot be removed
+    db.get(
+      `SELECT
+        (SELECT COUNT(*) FROM inventory_stock WHERE locationId = ? AND quantity != 0) AS stockCount,
+        (SELECT COUNT(*) FROM inventory_items WHERE location = ?) AS itemCount`,
+      [locationId, location.code],
+      (err, usage) => {
+        if (err) {
+          console.error('❌ Error checking location usage:', err);
+          return res.status(500).json({ error: 'Internal server error' });
+        }
+        
+        if (usage.stockCount > 0 || usage.itemCount > 0) {
+          return res.status(409).json({ error: 'Location still holds stock or is the default location of items' });
+        }
+        
+        db.run('DELETE FROM inventory_stock WHERE locationId = ?', [locationId], function(err) {
+          if (err) {
+            console.error('❌ Error deleting location stock rows:', err);
+            return res.status(500).json({ error: 'Internal server error' });
+          }
+          
+          db.run('DELETE FROM locations WHERE id = ?', [locationId], function(err) {
+            if (err) {
+              console.error('❌ Error deleting location:', err);
+              return res.status(500).json({ error: 'Internal server error' });
+            }
+            
+            res.json({ success: true });
+          });
+        });
+      }
+    );
+  });
+});
+
+// Category routes
+// Categories with their sub-categories nested, each with the number of items using it
+async function getCategoryTree() {
+  const rows = await db.allAsync(
+    `SELECT c.*, (
+      SELECT COUNT(*) FROM inventory_items i
+      WHERE i.category = COALESCE(p.name, c.name) COLLATE NOCASE
+        AND (p.id IS NULL OR i.subCategory = c.name COLLATE NOCASE)
+    ) AS itemCount
+    FROM categories c
+    LEFT JOIN categories p ON p.id = c.parentId
+    ORDER BY c.name COLLATE NOCASE`
+  );
+
+  return rows
+    .filter(row => !row.parentId)
+    .map(category => ({ ...category, subCategories: rows.filter(row => row.parentId === category.id) }));
+}
+
+async function getCategory(id) {
+  const tree = await getCategoryTree();
+  return tree.find(category => category.id === id) ||
+    tree.flatMap(category => category.subCategories).find(subCategory => subCategory.id === id);
+}
+
+async function assertCategoryNameFree(name, parentId, excludeId = '') {
+  const existing = await db.getAsync(
+    `SELECT id FROM categories WHERE COALESCE(parentId, '') = ? AND name = ? COLLATE NOCASE AND id != ?`,
+    [parentId || '', name, excludeId]
+  );
+  if (existing) {
+    throw createHttpError(409, parentId ? 'Sub-category already exists in this category' : 'Category already exists');
+  }
+}
+
+app.get('/api/categories', async (req, res) => {
+  console.log('🏷️ Categories requested');
+  try {
+    const categories = await getCategoryTree();
+    console.log('✅ Categories sent:', categories.length);
+    res.json(categories);
+  } catch (err) {
+    console.error('❌ Error fetching categories:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/categories', async (req, res) => {
+  const name = req.body.name ? String(req.body.name).trim() : '';
+  const parentId = req.body.parentId || null;
+  
+  try {
+    if (!name) {
+      throw createHttpError(400, 'Category name is required');
+    }
+    
+    const category = await db.runInTransaction(async () => {
+      if (parentId) {
+        const parent = await db.getAsync('SELECT * FROM categories WHERE id = ?', [parentId]);
+        if (!parent) {
+          throw createHttpError(404, 'Parent category not found');
+        }
+        if (parent.parentId) {
+          throw createHttpError(400, 'Sub-categories cannot have sub-categories of their own');
+        }
+      }
+      await assertCategoryNameFree(name, parentId);
+      
+      const id = generateId();
+      await db.runAsync(
+        'INSERT INTO categories (id, name, parentId, description, createdAt) VALUES (?, ?, ?, ?, ?)',
+        [id, name, parentId, req.body.description || null, new Date().toISOString()]
+      );
+      return getCategory(id);
+    });
+    
+    console.log('✅ Category created:', name);
+    res.status(201).json(category);
+  } catch (err) {
+    console.error('❌ Error creating category:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/api/categories/:id', async (req, res) => {
+  try {
+    const updatedCategory = await db.runInTransaction(async () => {
+      const category = await db.getAsync('SELECT * FROM categories WHERE id = ?', [req.params.id]);
+      if (!category) {
+        throw createHttpError(404, 'Category not found');
+      }
+      
+      const name = req.body.name !== undefined ? String(req.body.name).trim() : category.name;
+      if (!name) {
+        throw createHttpError(400, 'Category name is required');
+      }
+      if (name !== category.name) {
+        await assertCategoryNameFree(name, category.parentId, category.id);
+      }
+      
+      await db.runAsync(
+        'UPDATE categories SET name = ?, description = COALESCE(?, description), updatedAt = ? WHERE id = ?',
+        [name, req.body.description, new Date().toISOString(), category.id]
+      );
+      
+      // Items hold category names, so renaming carries over to them
+      if (name !== category.name) {
+        if (category.parentId) {
+          const parent = await db.getAsync('SELECT name FROM categories WHERE id = ?', [category.parentId]);
+          await db.runAsync(
+            'UPDATE inventory_items SET subCategory = ? WHERE category = ? COLLATE NOCASE AND subCategory = ? COLLATE NOCASE',
+            [name, parent.name, category.name]
+          );
+        } else {
+          await db.runAsync('UPDATE inventory_items SET category = ? WHERE category = ? COLLATE NOCASE', [name, category.name]);
+        }
+      }
+      
+      return getCategory(category.id);
+    });
+    
+    res.json(updatedCategory);
+  } catch (err) {
+    console.error('❌ Error updating category:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Merge a category into another at the same level: its items move to the target and it is deleted.
+// Merging categories also moves the sub-categories, combining those with the same name.
+app.post('/api/categories/:id/merge', async (req, res) => {
+  try {
+    const result = await db.runInTransaction(async () => {
+      const source = await db.getAsync('SELECT * FROM categories WHERE id = ?', [req.params.id]);
+      const target = await db.getAsync('SELECT * FROM categories WHERE id = ?', [req.body.targetId]);
+      if (!source || !target) {
+        throw createHttpError(404, 'Category not found');
+      }
+      if (source.id === target.id) {
+        throw createHttpError(400, 'A category cannot be merged into itself');
+      }
+      if (Boolean(source.parentId) !== Boolean(target.parentId)) {
+        throw createHttpError(400, 'A category can only be merged into another category, and a sub-category into another sub-category');
+      }
+      
+      const now = new Date().toISOString();
+      let movedItems;
+      if (source.parentId) {
+        const sourceParent = await db.getAsync('SELECT name FROM categories WHERE id = ?', [source.parentId]);
+        const targetParent = await db.getAsync('SELECT name FROM categories WHERE id = ?', [target.parentId]);
+        const condition = 'category = ? COLLATE NOCASE AND subCategory = ? COLLATE NOCASE';
+        movedItems = (await db.getAsync(`SELECT COUNT(*) AS count FROM inventory_items WHERE ${condition}`, [sourceParent.name, source.name])).count;
+        await db.runAsync(
+          `UPDATE inventory_items SET category = ?, subCategory = ?, lastUpdated = ? WHERE ${condition}`,
+          [targetParent.name, target.name, now, sourceParent.name, source.name]
+        );
+      } else {
+        movedItems = (await db.getAsync('SELECT COUNT(*) AS count FROM inventory_items WHERE category = ? COLLATE NOCASE', [source.name])).count;
+        await db.runAsync(
+          'UPDATE inventory_items SET category = ?, lastUpdated = ? WHERE category = ? COLLATE NOCASE',
+          [target.name, now, source.name]
+        );
+        
+        const subCategories = await db.allAsync('SELECT * FROM categories WHERE parentId = ?', [source.id]);
+        for (const subCategory of subCategories) {
+          const existing = await db.getAsync(
+            'SELECT * FROM categories WHERE parentId = ? AND name = ? COLLATE NOCASE',
+            [target.id, subCategory.name]
+          );
+          if (existing) {
+            // Items already carry the target's category name; align the sub-category spelling
+            await db.runAsync(
+              'UPDATE inventory_items SET subCategory = ? WHERE category = ? AND subCategory = ? COLLATE NOCASE',
+              [existing.name, target.name, subCategory.name]
+            );
+            await db.runAsync('DELETE FROM categories WHERE id = ?', [subCategory.id]);
+          } else {
+            await db.runAsync('UPDATE categories SET parentId = ?, updatedAt = ? WHERE id = ?', [target.id, now, subCategory.id]);
+          }
+        }
+      }
+      
+      await db.runAsync('DELETE FROM categories WHERE id = ?', [source.id]);
+      return { movedItems, category: await getCategory(target.id) };
+    });
+    
+    console.log(`✅ Category merged, ${result.movedItems} item(s) moved`);
+    res.json(result);
+  } catch (err) {
+    console.error('❌ Error merging categories:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/categories/:id', async (req, res) => {
+  try {
+    const category = await getCategory(req.params.id);
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+    
+    // A category still used by items cannot be removed; rename or merge it instead
+    if (category.itemCount > 0) {
+      return res.status(409).json({ error: `${category.name} is used by ${category.itemCount} item(s); merge it into another category instead` });
+    }
+    
+    await db.runInTransaction(async () => {
+      await db.runAsync('DELETE FROM categories WHERE parentId = ?', [category.id]);
+      await db.runAsync('DELETE FROM categories WHERE id = ?', [category.id]);
+    });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error deleting category:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Substitution routes
+async function getSubstitutionGroups(id) {
+  const groups = await db.allAsync(
+    `SELECT * FROM substitution_groups ${id ? 'WHERE id = ?' : ''} ORDER BY name COLLATE NOCASE`,
+    id ? [id] : []
+  );
+  const members = await db.allAsync(
+    `SELECT m.groupId, m.inventoryItemId, m.priority, i.itemId, i.name, i.unitMeasurement, i.quantity, i.unitCost
+    FROM substitution_group_members m
+    JOIN inventory_items i ON i.id = m.inventoryItemId
+    ORDER BY m.priority`
+  );
+
+  return groups.map(group => ({ ...group, members: members.filter(member => member.groupId === group.id) }));
+}
+
+// Replace a group's members with the given item ids, first one preferred.
+// Members are swapped quantity for quantity, so they must share a stock unit.
+async function saveSubstitutionGroupMembers(groupId, inventoryItemIds) {
+  if (!Array.isArray(inventoryItemIds) || inventoryItemIds.length < 2) {
+    throw createHttpError(400, 'A substitution group needs at least two items');
+  }
+  if (new Set(inventoryItemIds).size !== inventoryItemIds.length) {
+    throw createHttpError(400, 'An item can only be listed once in a group');
+  }
+
+  const items = await db.allAsync(
+    `SELECT id, itemId, unitMeasurement FROM inventory_items WHERE id IN (${inventoryItemIds.map(() => '?').join(', ')})`,
+    inventoryItemIds
+  );
+  if (items.length !== inventoryItemIds.length) {
+    throw createHttpError(400, 'Unknown inventory item in group');
+  }
+  const [first] = items;
+  const mismatch = items.find(item => item.unitMeasurement !== first.unitMeasurement);
+  if (mismatch) {
+    throw createHttpError(400, `All items in a group must share a stock unit: ${first.itemId} is in ${first.unitMeasurement}, ${mismatch.itemId} in ${mismatch.unitMeasurement}`);
+  }
+
+  await db.runAsync('DELETE FROM substitution_group_members WHERE groupId = ?', [groupId]);
+  for (const [index, inventoryItemId] of inventoryItemIds.entries()) {
+    await db.runAsync(
+      'INSERT INTO substitution_group_members (groupId, inventoryItemId, priority) VALUES (?, ?, ?)',
+      [groupId, inventoryItemId, index + 1]
+    );
+  }
+}
+
+// In-stock substitutes of an item, most preferred first. An item that shares several groups
+// with it is listed once at its best priority. With a quantity, each substitute also reports
+// how much of it that can cover and what the covered part costs more (or less) than the original.
+async function getItemSubstitutes(inventoryItemId, quantity) {
+  const item = await db.getAsync('SELECT id, unitCost FROM inventory_items WHERE id = ?', [inventoryItemId]);
+  if (!item) {
+    throw createHttpError(404, 'Item not found');
+  }
+
+  const rows = await db.allAsync(
+    `SELECT g.id AS groupId, g.name AS groupName, m.priority, i.id, i.itemId, i.name, i.unitMeasurement, i.quantity, i.unitCost
+    FROM substitution_group_members own
+    JOIN substitution_groups g ON g.id = own.groupId
+    JOIN substitution_group_members m ON m.groupId = own.groupId AND m.inventoryItemId != own.inventoryItemId
+    JOIN inventory_items i ON i.id = m.inventoryItemId
+    WHERE own.inventoryItemId = ?
+    ORDER BY m.priority, g.name COLLATE NOCASE`,
+    [inventoryItemId]
+  );
+  const reserved = await getReservedQuantities(rows.map(row => row.id));
+
+  const substitutes = [];
+  for (const row of rows) {
+    if (substitutes.some(substitute => substitute.id === row.id)) {
+      continue;
+    }
+    const substitute = withAvailability(row, reserved);
+    if (substitute.availableQuantity <= 0) {
+      continue;
+    }
+
+    substitute.unitCostDifference = roundMoney(row.unitCost - item.unitCost);
+    if (quantity > 0) {
+      substitute.coveredQuantity = Math.min(quantity, substitute.availableQuantity);
+      substitute.costDifference = roundMoney(substitute.coveredQuantity * substitute.unitCostDifference);
+    }
+    substitutes.push(substitute);
+  }
+  return substitutes;
+}
+
+app.get('/api/substitution-groups', async (req, res) => {
+  try {
+    res.json(await getSubstitutionGroups());
+  } catch (err) {
+    console.error('❌ Error fetching substitution groups:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/substitution-groups', async (req, res) => {
+  try {
+    const { name, notes, members } = req.body;
+    if (!name || !name.trim()) {
+      throw createHttpError(400, 'Group name is required');
+    }
+    
+    const now = new Date().toISOString();
+    const id = generateId();
+    await db.runInTransaction(async () => {
+      await db.runAsync(
+        'INSERT INTO substitution_groups (id, name, notes, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        [id, name.trim(), notes || null, now, now]
+      );
+      await saveSubstitutionGroupMembers(id, members);
+    });
+    
+    const [group] = await getSubstitutionGroups(id);
+    console.log('🔁 Substitution group created:', group.name);
+    res.status(201).json(group);
+  } catch (err) {
+    console.error('❌ Error creating substitution group:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/api/substitution-groups/:id', async (req, res) => {
+  try {
+    const [existing] = await getSubstitutionGroups(req.params.id);
+    if (!existing) {
+      throw createHttpError(404, 'Substitution group not found');
+    }
+    
+    const name = req.body.name !== undefined ? req.body.name.trim() : existing.name;
+    if (!name) {
+      throw createHttpError(400, 'Group name is required');
+    }
+    
+    await db.runInTransaction(async () => {
+      await db.runAsync(
+        'UPDATE substitution_groups SET name = ?, notes = ?, updatedAt = ? WHERE id = ?',
+        [name, req.body.notes !== undefined ? req.body.notes || null : existing.notes, new Date().toISOString(), existing.id]
+      );
+      if (req.body.members !== undefined) {
+        await saveSubstitutionGroupMembers(existing.id, req.body.members);
+      }
+    });
+    
+    const [group] = await getSubstitutionGroups(existing.id);
+    res.json(group);
+  } catch (err) {
+    console.error('❌ Error updating substitution group:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/substitution-groups/:id', async (req, res) => {
+  try {
+    const [existing] = await getSubstitutionGroups(req.params.id);
+    if (!existing) {
+      throw createHttpError(404, 'Substitution group not found');
+    }
+    
+    await db.runAsync('DELETE FROM substitution_groups WHERE id = ?', [existing.id]);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error deleting substitution group:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Substitutes in stock for an item; pass the short quantity (stock units) to get the cost difference
+app.get('/api/inventory/products/:id/substitutes', async (req, res) => {
+  try {
+    const quantity = parseFloat(req.query.quantity) || 0;
+    res.json(await getItemSubstitutes(req.params.id, quantity));
+  } catch (err) {
+    console.error('❌ Error fetching substitutes:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Kit routes
+// A kit is not stocked itself: issuing one issues each component, and the number of kits
+// available is limited by the component with the least available stock.
+async function getKits(id) {
+  const kits = await db.allAsync(
+    `SELECT * FROM kits ${id ? 'WHERE id = ?' : ''} ORDER BY kitCode COLLATE NOCASE`,
+    id ? [id] : []
+  );
+  const components = await db.allAsync(
+    `SELECT c.kitId, c.inventoryItemId, c.quantity, i.itemId, i.name, i.unitMeasurement, i.unitCost, i.isLotTracked,
+      i.quantity AS onHandQuantity
+    FROM kit_components c
+    JOIN inventory_items i ON i.id = c.inventoryItemId
+    ${id ? 'WHERE c.kitId = ?' : ''}
+    ORDER BY i.itemId`,
+    id ? [id] : []
+  );
+  const reservedQuantities = await getReservedQuantities([...new Set(components.map(component => component.inventoryItemId))]);
+
+  return kits.map(kit => {
+    const kitComponents = components
+      .filter(component => component.kitId === kit.id)
+      .map(({ kitId, ...component }) => {
+        const reservedQuantity = reservedQuantities[component.inventoryItemId] || 0;
+        const availableQuantity = roundQuantity(component.onHandQuantity - reservedQuantity);
+        return {
+          ...component,
+          isLotTracked: component.isLotTracked === 1,
+          reservedQuantity,
+          availableQuantity,
+          availableKits: Math.max(0, Math.floor(availableQuantity / component.quantity + 1e-9))
+        };
+      });
+    return {
+      ...kit,
+      components: kitComponents,
+      unitCost: roundMoney(kitComponents.reduce((sum, component) => sum + component.quantity * component.unitCost, 0)),
+      availableKits: kitComponents.length > 0 ? Math.min(...kitComponents.map(component => component.availableKits)) : 0
+    };
+  });
+}
+
+// Replace a kit's components; quantities are per kit, in each item's stock unit
+async function saveKitComponents(kitId, components) {
+  if (!Array.isArray(components) || components.length === 0) {
+    throw createHttpError(400, 'A kit needs at least one component');
+  }
+  const inventoryItemIds = components.map(component => component.inventoryItemId);
+  if (new Set(inventoryItemIds).size !== inventoryItemIds.length) {
+    throw createHttpError(400, 'An item can only be listed once in a kit');
+  }
+  if (components.some(component => !(Number(component.quantity) > 0))) {
+    throw createHttpError(400, 'Component quantities must be greater than zero');
+  }
+
+  const items = await db.allAsync(
+    `SELECT id FROM inventory_items WHERE id IN (${inventoryItemIds.map(() => '?').join(', ')})`,
+    inventoryItemIds
+  );
+  if (items.length !== inventoryItemIds.length) {
+    throw createHttpError(400, 'Unknown inventory item in kit');
+  }
+
+  await db.runAsync('DELETE FROM kit_components WHERE kitId = ?', [kitId]);
+  for (const component of components) {
+    await db.runAsync(
+      'INSERT INTO kit_components (kitId, inventoryItemId, quantity) VALUES (?, ?, ?)',
+      [kitId, component.inventoryItemId, roundQuantity(Number(component.quantity))]
+    );
+  }
+}
+
+async function assertKitCodeAvailable(kitCode, exceptId) {
+  const existing = await db.getAsync(
+    'SELECT id FROM kits WHERE UPPER(kitCode) = UPPER(?) AND id != ?',
+    [kitCode, exceptId || '']
+  );
+  if (existing) {
+    throw createHttpError(409, `Kit code ${kitCode} is already in use`);
+  }
+}
+
+// Issue kits by issuing every component. Lot-tracked components are taken first-expired-first-out,
+// one ledger row per lot. Must be called inside db.runInTransaction.
+async function issueKits(kit, { quantity, locationId, projectId, referenceNumber, notes, performedBy }) {
+  const transactions = [];
+  for (const component of kit.components) {
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [component.inventoryItemId]);
+    const componentQuantity = roundQuantity(component.quantity * quantity);
+    const movement = {
+      type: 'issue',
+      locationId,
+      referenceType: projectId ? PROJECT_REFERENCE_TYPE : 'kit',
+      referenceNumber: projectId || referenceNumber || kit.kitCode,
+      notes: notes || `Kit ${kit.kitCode} x ${quantity}`,
+      performedBy
+    };
+
+    if (!item.isLotTracked) {
+      transactions.push(await postInventoryTransaction(item.id, { ...movement, quantity: -componentQuantity }));
+      continue;
+    }
+
+    const location = await resolveMovementLocation(item, locationId);
+    const { picks, shortQuantity } = await getFefoPicks(item, componentQuantity, location.id);
+    if (shortQuantity > 0) {
+      throw createHttpError(400, `Not enough unexpired stock of ${item.itemId} at ${location.code}: ${shortQuantity} short`);
+    }
+    for (const pick of picks) {
+      transactions.push(await postInventoryTransaction(item.id, {
+        ...movement,
+        locationId: location.id,
+        quantity: -pick.pickQuantity,
+        lotNumber: pick.lotNumber
+      }));
+    }
+  }
+  return transactions;
+}
+
+app.get('/api/kits', async (req, res) => {
+  try {
+    res.json(await getKits());
+  } catch (err) {
+    console.error('❌ Error fetching kits:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/kits/:id', async (req, res) => {
+  try {
+    const [kit] = await getKits(req.params.id);
+    if (!kit) {
+      return res.status(404).json({ error: 'Kit not found' });
+    }
+    res.json(kit);
+  } catch (err) {
+    console.error('❌ Error fetching kit:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/kits', async (req, res) => {
+  try {
+    const { name, description, templateId, components } = req.body;
+    const kitCode = (req.body.kitCode || '').trim().toUpperCase();
+    if (!kitCode || !name || !name.trim()) {
+      throw createHttpError(400, 'Kit code and name are required');
+    }
+    
+    const now = new Date().toISOString();
+    const id = generateId();
+    await db.runInTransaction(async () => {
+      await assertKitCodeAvailable(kitCode);
+      await db.runAsync(
+        'INSERT INTO kits (id, kitCode, name, description, templateId, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [id, kitCode, name.trim(), description || null, templateId || null, now, now]
+      );
+      await saveKitComponents(id, components);
+    });
+    
+    const [kit] = await getKits(id);
+    console.log('🧰 Kit created:', kit.kitCode);
+    res.status(201).json(kit);
+  } catch (err) {
+    console.error('❌ Error creating kit:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/api/kits/:id', async (req, res) => {
+  try {
+    const [existing] = await getKits(req.params.id);
+    if (!existing) {
+      throw createHttpError(404, 'Kit not found');
+    }
+    
+    const kitCode = req.body.kitCode !== undefined ? req.body.kitCode.trim().toUpperCase() : existing.kitCode;
+    const name = req.body.name !== undefined ? req.body.name.trim() : existing.name;
+    if (!kitCode || !name) {
+      throw createHttpError(400, 'Kit code and name are required');
+    }
+    
+    await db.runInTransaction(async () => {
+      await assertKitCodeAvailable(kitCode, existing.id);
+      await db.runAsync(
+        'UPDATE kits SET kitCode = ?, name = ?, description = ?, templateId = ?, updatedAt = ? WHERE id = ?',
+        [
+          kitCode,
+          name,
+          req.body.description !== undefined ? req.body.description || null : existing.description,
+          req.body.templateId !== undefined ? req.body.templateId || null : existing.templateId,
+          new Date().toISOString(),
+          existing.id
+        ]
+      );
+      if (req.body.components !== undefined) {
+        await saveKitComponents(existing.id, req.body.components);
+      }
+    });
+    
+    const [kit] = await getKits(existing.id);
+    res.json(kit);
+  } catch (err) {
+    console.error('❌ Error updating kit:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/kits/:id', async (req, res) => {
+  try {
+    const [existing] = await getKits(req.params.id);
+    if (!existing) {
+      throw createHttpError(404, 'Kit not found');
+    }
+    
+    await db.runAsync('DELETE FROM kits WHERE id = ?', [existing.id]);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error deleting kit:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Issue a number of kits; all components are posted in one transaction or none are
+app.post('/api/kits/:id/issue', async (req, res) => {
+  try {
+    const [kit] = await getKits(req.params.id);
+    if (!kit) {
+      throw createHttpError(404, 'Kit not found');
+    }
+    
+    const quantity = Number(req.body.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw createHttpError(400, 'Kit quantity must be a whole number greater than zero');
+    }
+    
+    const transactions = await db.runInTransaction(() => issueKits(kit, { ...req.body, quantity }));
+    console.log(`🧰 Kit issued: ${kit.kitCode} x ${quantity}`);
+    res.status(201).json({ kit: (await getKits(kit.id))[0], transactions });
+  } catch (err) {
+    console.error('❌ Error issuing kit:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Kit components proposed from a cabinet template's hardware list, matched to inventory by code or name.
+// Templates are kept by the calculator, so the list is sent in the body.
+app.post('/api/kits/match-hardware', async (req, res) => {
+  try {
+    const { hardwareItems } = req.body;
+    if (!Array.isArray(hardwareItems) || hardwareItems.length === 0) {
+      throw createHttpError(400, 'The template has no hardware items');
+    }
+    
+    const components = new Map();
+    const unmatched = [];
+    for (const hardware of hardwareItems) {
+      const item = await findInventoryItemByCodeOrName(hardware.id, hardware.name);
+      if (!item) {
+        unmatched.push({ name: hardware.name, quantity: hardware.quantity, reason: 'No matching inventory item' });
+        continue;
+      }
+      const component = components.get(item.id) || {
+        inventoryItemId: item.id,
+        itemId: item.itemId,
+        name: item.name,
+        unitMeasurement: item.unitMeasurement,
+        quantity: 0
+      };
+      component.quantity = roundQuantity(component.quantity + (Number(hardware.quantity) || 0));
+      components.set(item.id, component);
+    }
+    
+    res.json({ components: [...components.values()].filter(component => component.quantity > 0), unmatched });
+  } catch (err) {
+    console.error('❌ Error matching template hardware:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Stock take routes
+const STOCK_TAKE_REASON_CODES = ['miscount', 'damaged', 'lost', 'theft', 'found', 'expired', 'unrecorded_issue', 'unrecorded_receipt', 'other'];
+
+const mapStockTakeLine = (line) => {
+  const variance = line.countedQuantity === null ? null : line.countedQuantity - line.expectedQuantity;
+  return {
+    ...line,
+    approved: line.approved === 1,
+    variance,
+    varianceValue: variance === null ? null : variance * line.unitCost
+  };
+};
+
+async function getStockTakeWithLines(id) {
+  const stockTake = await db.getAsync('SELECT * FROM stock_takes WHERE id = ?', [id]);
+  if (!stockTake) {
+    throw createHttpError(404, 'Stock take not found');
+  }
+  
+  const lines = await db.allAsync(
+    `SELECT sl.*, i.itemId, i.name, i.category, i.unitMeasurement, l.code AS locationCode
+    FROM stock_take_lines sl
+    JOIN inventory_items i ON i.id = sl.inventoryItemId
+    JOIN locations l ON l.id = sl.locationId
+    WHERE sl.stockTakeId = ?
+    ORDER BY l.code, i.itemId, sl.lotNumber`,
+    [id]
+  );
+  
+  return { ...stockTake, scopeValues: JSON.parse(stockTake.scopeValues), lines: lines.map(mapStockTakeLine) };
+}
+
+app.get('/api/stock-takes', (req, res) => {
+  db.all(
+    `SELECT st.*,
+      COUNT(sl.id) AS lineCount,
+      COUNT(sl.countedQuantity) AS countedCount,
+      COALESCE(SUM((sl.countedQuantity - sl.expectedQuantity) * sl.unitCost), 0) AS varianceValue
+    FROM stock_takes st
+    LEFT JOIN stock_take_lines sl ON sl.stockTakeId = st.id
+    GROUP BY st.id
+    ORDER BY st.createdAt DESC`,
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error fetching stock takes:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      res.json(rows.map(row => ({ ...row, scopeValues: JSON.parse(row.scopeValues) })));
+    }
+  );
+});
+
+app.get('/api/stock-takes/:id', async (req, res) => {
+  try {
+    res.json(await getStockTakeWithLines(req.params.id));
+  } catch (err) {
+    console.error('❌ Error fetching stock take:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Open a count session: the expected quantity of every item/location in scope is frozen now
+app.post('/api/stock-takes', async (req, res) => {
+  const { name, scopeType, scopeValues, notes, createdBy } = req.body;
+  
+  if (!name || !['location', 'category', 'abc_class'].includes(scopeType) || !Array.isArray(scopeValues) || scopeValues.length === 0) {
+    return res.status(400).json({ error: 'Name, scope type (location, category or abc_class) and at least one scope value are required' });
+  }
+  
+  try {
+    const id = await db.runInTransaction(async () => {
+      const placeholders = scopeValues.map(() => '?').join(', ');
+      // Location scope also picks up items defaulting to the location that have no stock row there yet
+      const stockRows = scopeType === 'location'
+        ? await db.allAsync(
+          `SELECT s.inventoryItemId, s.locationId, s.quantity, i.unitCost, i.isLotTracked
+          FROM inventory_stock s
+          JOIN inventory_items i ON i.id = s.inventoryItemId
+          JOIN locations l ON l.id = s.locationId
+          WHERE l.code IN (${placeholders})
+          UNION
+          SELECT i.id, l.id, 0, i.unitCost, i.isLotTracked
+          FROM inventory_items i
+          JOIN locations l ON l.code = i.location
+          WHERE l.code IN (${placeholders})
+            AND NOT EXISTS (SELECT 1 FROM inventory_stock s WHERE s.inventoryItemId = i.id AND s.locationId = l.id)`,
+          [...scopeValues, ...scopeValues]
+        )
+        : scopeType === 'category'
+          ? await db.allAsync(
+            `SELECT s.inventoryItemId, s.locationId, s.quantity, i.unitCost, i.isLotTracked
+            FROM inventory_stock s
+            JOIN inventory_items i ON i.id = s.inventoryItemId
+            WHERE i.category IN (${placeholders})`,
+            scopeValues
+          )
+          // ABC scope counts only the items of those classes that are due under their count frequency
+          : (await db.allAsync(
+            `SELECT s.inventoryItemId, s.locationId, s.quantity, i.unitCost, i.isLotTracked, i.abcClass,
+              (SELECT MAX(st.postedAt) FROM stock_take_lines l
+                JOIN stock_takes st ON st.id = l.stockTakeId
+                WHERE l.inventoryItemId = i.id AND st.status = 'posted') AS lastCountedAt
+            FROM inventory_stock s
+            JOIN inventory_items i ON i.id = s.inventoryItemId
+            WHERE COALESCE(i.abcClass, 'C') IN (${placeholders})`,
+            scopeValues
+          )).filter(row => isDueForCount(row.abcClass, row.lastCountedAt));
+      
+      if (stockRows.length === 0) {
+        throw createHttpError(400, 'No stock found for the selected scope');
+      }
+      
+      // Lot-tracked items are counted lot by lot so variances post against the right batch
+      const countRows = [];
+      for (const row of stockRows) {
+        const lots = row.isLotTracked
+          ? await db.allAsync(
+            'SELECT lotNumber, quantity FROM inventory_lots WHERE inventoryItemId = ? AND locationId = ? AND quantity != 0 ORDER BY receivedAt',
+            [row.inventoryItemId, row.locationId]
+          )
+          : [];
+        if (lots.length === 0) {
+          countRows.push({ ...row, lotNumber: row.isLotTracked ? 'UNASSIGNED' : null });
+        } else {
+          lots.forEach(lot => countRows.push({ ...row, quantity: lot.quantity, lotNumber: lot.lotNumber }));
+        }
+      }
+      
+      const stockTake = {
+        id: generateId(),
+        sessionNumber: await nextDocumentNumber('stock_takes', 'sessionNumber', 'ST'),
+        createdAt: new Date().toISOString()
+      };
+      
+      await db.runAsync(
+        `INSERT INTO stock_takes (id, sessionNumber, name, scopeType, scopeValues, status, notes, createdBy, createdAt)
+        VALUES (?, ?, ?, ?, ?, 'counting', ?, ?, ?)`,
+        [stockTake.id, stockTake.sessionNumber, name, scopeType, JSON.stringify(scopeValues), notes || null, createdBy || null, stockTake.createdAt]
+      );
+      
+      for (const row of countRows) {
+        await db.runAsync(
+          `INSERT INTO stock_take_lines (id, stockTakeId, inventoryItemId, locationId, lotNumber, expectedQuantity, unitCost)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [generateId(), stockTake.id, row.inventoryItemId, row.locationId, row.lotNumber, row.quantity, row.unitCost]
+        );
+      }
+      
+      console.log(`✅ Stock take ${stockTake.sessionNumber} opened with ${countRows.length} lines`);
+      return stockTake.id;
+    });
+    
+    res.status(201).json(await getStockTakeWithLines(id));
+  } catch (err) {
+    console.error('❌ Error creating stock take:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Record a count, reason code or approval for one line while the session is still counting
+app.put('/api/stock-takes/:id/lines/:lineId', async (req, res) => {
+  const { countedQuantity, reasonCode, approved, countedBy } = req.body;
+  
+  try {
+    const line = await db.runInTransaction(async () => {
+      const stockTake = await db.getAsync('SELECT status FROM stock_takes WHERE id = ?', [req.params.id]);
+      if (!stockTake) {
+        throw createHttpError(404, 'Stock take not found');
+      }
+      if (stockTake.status !== 'counting') {
+        throw createHttpError(400, `Stock take is ${stockTake.status} and can no longer be changed`);
+      }
+      
+      const existingLine = await db.getAsync(
+        'SELECT * FROM stock_take_lines WHERE id = ? AND stockTakeId = ?',
+        [req.params.lineId, req.params.id]
+      );
+      if (!existingLine) {
+        throw createHttpError(404, 'Stock take line not found');
+      }
+      
+      const updates = { ...existingLine };
+      if (countedQuantity !== undefined) {
+        if (countedQuantity === null || countedQuantity === '') {
+          updates.countedQuantity = null;
+          updates.countedBy = null;
+          updates.countedAt = null;
+        } else {
+          const quantity = Number(countedQuantity);
+          if (!Number.isFinite(quantity) || quantity < 0) {
+            throw createHttpError(400, 'Counted quantity must be a non-negative number');
+          }
+          updates.countedQuantity = quantity;
+          updates.countedBy = countedBy || null;
+          updates.countedAt = new Date().toISOString();
+        }
+      }
+      if (reasonCode !== undefined) {
+        if (reasonCode && !STOCK_TAKE_REASON_CODES.includes(reasonCode)) {
+          throw createHttpError(400, `Invalid reason code. Expected one of: ${STOCK_TAKE_REASON_CODES.join(', ')}`);
+        }
+        updates.reasonCode = reasonCode || null;
+      }
+      if (approved !== undefined) {
+        updates.approved = approved ? 1 : 0;
+      }
+      if (updates.approved && updates.countedQuantity === null) {
+        throw createHttpError(400, 'Only counted lines can be approved');
+      }
+      
+      await db.runAsync(
+        `UPDATE stock_take_lines SET countedQuantity = ?, reasonCode = ?, approved = ?, countedBy = ?, countedAt = ? WHERE id = ?`,
+        [updates.countedQuantity, updates.reasonCode, updates.approved, updates.countedBy, updates.countedAt, existingLine.id]
+      );
+      return updates;
+    });
+    
+    res.json(mapStockTakeLine(line));
+  } catch (err) {
+    console.error('❌ Error updating stock take line:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Post the variance of every approved line as an adjustment and close the session.
+// Variances are measured against the frozen expected quantity.
+app.post('/api/stock-takes/:id/post', async (req, res) => {
+  const { performedBy } = req.body;
+  
+  try {
+    await db.runInTransaction(async () => {
+      const stockTake = await getStockTakeWithLines(req.params.id);
+      if (stockTake.status !== 'counting') {
+        throw createHttpError(400, `Stock take is already ${stockTake.status}`);
+      }
+      
+      const approvedLines = stockTake.lines.filter(line => line.approved);
+      const missingReasons = approvedLines.filter(line => line.variance !== 0 && !line.reasonCode);
+      if (missingReasons.length > 0) {
+        throw createHttpError(400, `A reason code is required for variances on: ${missingReasons.map(line => `${line.itemId} @ ${line.locationCode}`).join(', ')}`);
+      }
+      
+      for (const line of approvedLines.filter(line => line.variance !== 0)) {
+        await postInventoryTransaction(line.inventoryItemId, {
+          type: 'adjustment',
+          quantity: line.variance,
+          locationId: line.locationId,
+          lotNumber: line.lotNumber,
+          referenceType: 'stock_take',
+          referenceNumber: stockTake.sessionNumber,
+          notes: `Stock take variance (${line.reasonCode})`,
+          performedBy
+        });
+      }
+      
+      await db.runAsync(
+        "UPDATE stock_takes SET status = 'posted', postedBy = ?, postedAt = ? WHERE id = ?",
+        [performedBy || null, new Date().toISOString(), stockTake.id]
+      );
+    });
+    
+    const stockTake = await getStockTakeWithLines(req.params.id);
+    console.log(`✅ Stock take ${stockTake.sessionNumber} posted`);
+    res.json(stockTake);
+  } catch (err) {
+    console.error('❌ Error posting stock take:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/stock-takes/:id/cancel', async (req, res) => {
+  try {
+    await db.runInTransaction(async () => {
+      const stockTake = await db.getAsync('SELECT status FROM stock_takes WHERE id = ?', [req.params.id]);
+      if (!stockTake) {
+        throw createHttpError(404, 'Stock take not found');
+      }
+      if (stockTake.status !== 'counting') {
+        throw createHttpError(400, 'Only open stock takes can be cancelled');
+      }
+      
+      await db.runAsync("UPDATE stock_takes SET status = 'cancelled' WHERE id = ?", [req.params.id]);
+    });
+    
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error cancelling stock take:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Orders routes
+app.get('/api/orders', (req, res) => {
+  console.log('📋 Orders requested');
+  db.all('SELECT * FROM orders ORDER BY createdAt DESC', (err, rows) => {
+    if (err) {
+      console.error('❌ Error fetching orders:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    // Get order items for each order
+    const promises = rows.map(order => {
+      return new Promise((resolve, reject) => {
+        db.all('SELECT * FROM order_items WHERE orderId = ?', [order.id], (err, items) => {
+          if (err) {
+            reject(err);
+          } else {
+            order.items = items;
+            resolve(order);
+          }
+        });
+      });
+    });
+    
+    Promise.all(promises)
+      .then(ordersWithItems => {
+        console.log('✅ Orders sent:', ordersWithItems.length);
+        res.json(ordersWithItems);
+      })
+      .catch(err => {
+        console.error('❌ Error fetching order items:', err);
+        res.status(500).json({ error: 'Internal server error' });
+      });
+  });
+});
+
+app.get('/api/orders/:id', (req, res) => {
+  db.get('SELECT * FROM orders WHERE id = ?', [req.params.id], (err, order) => {
+    if (err) {
+      console.error('❌ Error fetching order:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (order) {
+      // Get order items
+      db.all('SELECT * FROM order_items WHERE orderId = ?', [order.id], (err, items) => {
+        if (err) {
+          console.error('❌ Error fetching order items:', err);
+          return res.status(500).json({ error: 'Internal server error' });
+        }
+        
+        order.items = items;
+        res.json(order);
+      });
+    } else {
+      res.status(404).json({ error: 'Order not found' });
+    }
+  });
+});
+
+app.post('/api/orders', (req, res) => {
+  const { items, ...orderData } = req.body;
+  
+  const newOrder = {
+    id: Date.now().toString(),
+    ...orderData,
+    bomCount: 0,
+    actualCost: 0,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+  
+  db.run(
+    `INSERT INTO orders (
+      id, orderNumber, customerName, customerContact, orderType, status, priority,
+      orderDate, dueDate, deliveryDate, description, notes, estimatedCost, actualCost,
+      assignedTo, department, bomCount, createdAt, updatedAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      newOrder.id,
+      newOrder.orderNumber,
+      newOrder.customerName,
+      newOrder.customerContact,
+      newOrder.orderType,
+      newOrder.status,
+      newOrder.priority,
+      newOrder.orderDate,
+      newOrder.dueDate,
+      newOrder.deliveryDate,
+      newOrder.description,
+      newOrder.notes,
+      newOrder.estimatedCost,
+      newOrder.actualCost,
+      newOrder.assignedTo,
+      newOrder.department,
+      newOrder.bomCount,
+      newOrder.createdAt,
+      newOrder.updatedAt
+    ],
+    function(err) {
+      if (err) {
+        console.error('❌ Error creating order:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      // If there are items, insert them
+      if (items && items.length > 0) {
+        const itemStmt = db.prepare(
+          'INSERT INTO order_items (id, orderId, itemId, itemName, quantity, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?)'
+        );
+        
+        items.forEach(item => {
+          itemStmt.run(
+            Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9),
+            newOrder.id,
+            item.itemId,
+            item.itemName,
+            item.quantity,
+            item.unitCost,
+            item.totalCost
+          );
+        });
+        
+        itemStmt.finalize(err => {
+          if (err) {
+            console.error('❌ Error inserting order items:', err);
+            return res.status(500).json({ error: 'Internal server error' });
+          }
+          
+          newOrder.items = items;
+          res.status(201).json(newOrder);
+        });
+      } else {
+        newOrder.items = [];
+        res.status(201).json(newOrder);
+      }
+    }
+  );
+});
+
+app.put('/api/orders/:id', (req, res) => {
+  const orderId = req.params.id;
+  const { items, ...orderData } = req.body;
+  
+  // Check if order exists
+  db.get('SELECT * FROM orders WHERE id = ?', [orderId], (err, order) => {
+    if (err) {
+      console.error('❌ Error checking order:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    
+    const updatedAt = new Date().toISOString();
+    
+    db.run(
+      `UPDATE orders SET
+        orderNumber = COALESCE(?, orderNumber),
+        customerName = COALESCE(?, customerName),
+        customerContact = COALESCE(?, customerContact),
+        orderType = COALESCE(?, orderType),
+        status = COALESCE(?, status),
+        priority = COALESCE(?, priority),
+        orderDate = COALESCE(?, orderDate),
+        dueDate = COALESCE(?, dueDate),
+        deliveryDate = COALESCE(?, deliveryDate),
+        completedDate = COALESCE(?, completedDate),
+        description = COALESCE(?, description),
+        notes = COALESCE(?, notes),
+        estimatedCost = COALESCE(?, estimatedCost),
+        actualCost = COALESCE(?, actualCost),
+        assignedTo = COALESCE(?, assignedTo),
+        department = COALESCE(?, department),
+        updatedAt = ?
+      WHERE id = ?`,
+      [
+        orderData.orderNumber,
+        orderData.customerName,
+        orderData.customerContact,
+        orderData.orderType,
+        orderData.status,
+        orderData.priority,
+        orderData.orderDate,
+        orderData.dueDate,
+        orderData.deliveryDate,
+        orderData.completedDate,
+        orderData.description,
+        orderData.notes,
+        orderData.estimatedCost,
+        orderData.actualCost,
+        orderData.assignedTo,
+        orderData.department,
+        updatedAt,
+        orderId
+      ],
+      function(err) {
+        if (err) {
+          console.error('❌ Error updating order:', err);
+          return res.status(500).json({ error: 'Internal server error' });
+        }
+        
+        // If there are items, update them
+        if (items && items.length > 0) {
+          // First delete existing items
+          db.run('DELETE FROM order_items WHERE orderId = ?', [orderId], function(err) {
+            if (err) {
+              console.error('❌ Error deleting order items:', err);
+              return res.status(500).json({ error: 'Internal server error' });
+            }
+            
+            // Then insert new items
+            const itemStmt = db.prepare(
+              'INSERT INTO order_items (id, orderId, itemId, itemName, quantity, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?)'
+            );
+            
+            items.forEach(item => {
+              itemStmt.run(
+                item.id || (Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9)),
+                orderId,
+                item.itemId,
+                item.itemName,
+                item.quantity,
+                item.unitCost,
+                item.totalCost
+              );
+            });
+            
+            itemStmt.finalize(err => {
+              if (err) {
+                console.error('❌ Error inserting order items:', err);
+                return res.status(500).json({ error: 'Internal server error' });
+              }
+              
+              // Get the updated order
+              db.get('SELECT * FROM orders WHERE id = ?', [orderId], (err, updatedOrder) => {
+                if (err) {
+                  console.error('❌ Error fetching updated order:', err);
+                  return res.status(500).json({ error: 'Internal server error' });
+                }
+                
+                updatedOrder.items = items;
+                res.json(updatedOrder);
+              });
+            });
+          });
+        } else {
+          // Get the updated order
+          db.get('SELECT * FROM orders WHERE id = ?', [orderId], (err, updatedOrder) => {
+            if (err) {
+              console.error('❌ Error fetching updated order:', err);
+              return res.status(500).json({ error: 'Internal server error' });
+            }
+            
+            // Get order items
+            db.all('SELECT * FROM order_items WHERE orderId = ?', [orderId], (err, items) => {
+              if (err) {
+                console.error('❌ Error fetching order items:', err);
+                return res.status(500).json({ error: 'Internal server error' });
+              }
+              
+              updatedOrder.items = items;
+              res.json(updatedOrder);
+            });
+          });
+        }
+      }
+    );
+  });
+});
+
+app.delete('/api/orders/:id', (req, res) => {
+  const orderId = req.params.id;
+  
+  // Check if order exists
+  db.get('SELECT * FROM orders WHERE id = ?', [orderId], (err, order) => {
+    if (err) {
+      console.error('❌ Error checking order:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    
+    // Delete order items first (foreign key constraint)
+    db.run('DELETE FROM order_items WHERE orderId = ?', [orderId], function(err) {
+      if (err) {
+        console.error('❌ Error deleting order items:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      // Then delete the order
+      db.run('DELETE FROM orders WHERE id = ?', [orderId], function(err) {
+        if (err) {
+          console.error('❌ Error deleting order:', err);
+          return res.status(500).json({ error: 'Internal server error' });
+        }
+        
+        res.json({ success: true });
+      });
+    });
+  });
+});
+
+// Suppliers routes
+app.get('/api/suppliers', (req, res) => {
+  console.log('🏪 Suppliers requested');
+  db.all('SELECT * FROM suppliers', (err, rows) => {
+    if (err) {
+      console.error('❌ Error fetching suppliers:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    console.log('✅ Suppliers sent:', rows.length);
+    res.json(rows);
+  });
+});
+
+app.get('/api/suppliers/:id', (req, res) => {
+  db.get('SELECT * FROM suppliers WHERE id = ?', [req.params.id], (err, supplier) => {
+    if (err) {
+      console.error('❌ Error fetching supplier:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (supplier) {
+      res.json(supplier);
+    } else {
+      res.status(404).json({ error: 'Supplier not found' });
+    }
+  });
+});
+
+app.post('/api/suppliers', (req, res) => {
+  const newSupplier = {
+    id: Date.now().toString(),
+    ...req.body,
+    isActive: req.body.isActive !== false ? 1 : 0,
+    createdAt: new Date().toISOString()
+  };
+  
+  db.run(
+    'INSERT INTO suppliers (id, name, contactPerson, phone, email, address, isActive, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [
+      newSupplier.id,
+      newSupplier.name,
+      newSupplier.contactPerson,
+      newSupplier.phone,
+      newSupplier.email,
+      newSupplier.address,
+      newSupplier.isActive,
+      newSupplier.createdAt
+    ],
+    function(err) {
+      if (err) {
+        console.error('❌ Error creating supplier:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      res.status(201).json(newSupplier);
+    }
+  );
+});
+
+app.put('/api/suppliers/:id', (req, res) => {
+  const supplierId = req.params.id;
+  
+  // Check if supplier exists
+  db.get('SELECT * FROM suppliers WHERE id = ?', [supplierId], (err, supplier) => {
+    if (err) {
+      console.error('❌ Error checking supplier:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (!supplier) {
+      return res.status(404).json({ error: 'Supplier not found' });
+    }
+    
+    const isActive = req.body.isActive !== undefined ? (req.body.isActive ? 1 : 0) : supplier.isActive;
+    
+    db.run(
+      `UPDATE suppliers SET
+        name = COALESCE(?, name),
+        contactPerson = COALESCE(?, contactPerson),
+        phone = COALESCE(?, phone),
+        email = COALESCE(?, email),
+        address = COALESCE(?, address),
+        isActive = ?
+      WHERE id = ?`,
+      [
+        req.body.name,
+        req.body.contactPerson,
+        req.body.phone,
+        req.body.email,
+        req.body.address,
+        isActive,
+        supplierId
+      ],
+      function(err) {
+        if (err) {
+          console.error('❌ Error updating supplier:', err);
+          return res.status(500).json({ error: 'Internal server error' });
+        }
+        
+        // Get the updated supplier
+        db.get('SELECT * FROM suppliers WHERE id = ?', [supplierId], (err, updatedSupplier) => {
+          if (err) {
+            console.error('❌ Error fetching updated supplier:', err);
+            return res.status(500).json({ error: 'Internal server error' });
+          }
+          
+          res.json(updatedSupplier);
+        });
+      }
+    );
+  });
+});
+
+app.delete('/api/suppliers/:id', (req, res) => {
+  const supplierId = req.params.id;
+  
+  // Check if supplier exists
+  db.get('SELECT * FROM suppliers WHERE id = ?', [supplierId], (err, supplier) => {
+    if (err) {
+      console.error('❌ Error checking supplier:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (!supplier) {
+      return res.status(404).json({ error: 'Supplier not found' });
+    }
+    
+    db.run('DELETE FROM suppliers WHERE id = ?', [supplierId], function(err) {
+      if (err) {
+        console.error('❌ Error deleting supplier:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      res.json({ success: true });
+    });
+  });
+});
+
+// Departments routes
+app.get('/api/departments', (req, res) => {
+  console.log('🏢 Departments requested');
+  db.all('SELECT * FROM departments', (err, rows) => {
+    if (err) {
+      console.error('❌ Error fetching departments:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    // Convert isActive from integer to boolean for frontend
+    const departments = rows.map(dept => ({
+      ...dept,
+      isActive: dept.isActive === 1
+    }));
+    
+    console.log('✅ Departments sent:', departments.length);
+    res.json(departments);
+  });
+});
+
+app.get('/api/departments/:id', (req, res) => {
+  db.get('SELECT * FROM departments WHERE id = ?', [req.params.id], (err, department) => {
+    if (err) {
+      console.error('❌ Error fetching department:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (department) {
+      // Convert isActive from integer to boolean for frontend
+      department.isActive = department.isActive === 1;
+      res.json(department);
+    } else {
+      res.status(404).json({ error: 'Department not found' });
+    }
+  });
+});
+
+// The manager's user account must exist; it decides the department's or cost center's manager approval steps
+async function parseManagerUsername(managerUsername) {
+  if (!managerUsername) {
+    return null;
+  }
+  const user = await db.getAsync('SELECT username FROM users WHERE username = ?', [managerUsername]);
+  if (!user) {
+    throw createHttpError(400, `Unknown user ${managerUsername}`);
+  }
+  return user.username;
+}
+
+app.post('/api/departments', async (req, res) => {
+  try {
+    const newDepartment = {
+      id: Date.now().toString(),
+      ...req.body,
+      managerUsername: await parseManagerUsername(req.body.managerUsername),
+      isActive: req.body.isActive !== false ? 1 : 0,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+    
+    await db.runAsync(
+      'INSERT INTO departments (id, name, code, description, manager, managerUsername, costCenter, isActive, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        newDepartment.id,
+        newDepartment.name,
+        newDepartment.code,
+        newDepartment.description,
+        newDepartment.manager,
+        newDepartment.managerUsername,
+        newDepartment.costCenter,
+        newDepartment.isActive,
+        newDepartment.createdAt,
+        newDepartment.updatedAt
+      ]
+    );
+    
+    // Convert isActive back to boolean for frontend
+    newDepartment.isActive = newDepartment.isActive === 1;
+    res.status(201).json(newDepartment);
+  } catch (err) {
+    console.error('❌ Error creating department:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/api/departments/:id', async (req, res) => {
+  const departmentId = req.params.id;
+  
+  try {
+    const department = await db.getAsync('SELECT * FROM departments WHERE id = ?', [departmentId]);
+    if (!department) {
+      throw createHttpError(404, 'Department not found');
+    }
+    
+    const isActive = req.body.isActive !== undefined ? (req.body.isActive ? 1 : 0) : department.isActive;
+    // An empty manager account clears it; leaving it out keeps the current one
+    const managerUsername = req.body.managerUsername !== undefined
+      ? await parseManagerUsername(req.body.managerUsername)
+      : department.managerUsername;
+    const updatedAt = new Date().toISOString();
+    
+    await db.runAsync(
+      `UPDATE departments SET
+        name = COALESCE(?, name),
+        code = COALESCE(?, code),
+        description = COALESCE(?, description),
+        manager = COALESCE(?, manager),
+        managerUsername = ?,
+        costCenter = COALESCE(?, costCenter),
+        isActive = ?,
+        updatedAt = ?
+      WHERE id = ?`,
+      [
+        req.body.name,
+        req.body.code,
+        req.body.description,
+        req.body.manager,
+        managerUsername,
+        req.body.costCenter,
+        isActive,
+        updatedAt,
+        departmentId
+      ]
+    );
+    
+    const updatedDepartment = await db.getAsync('SELECT * FROM departments WHERE id = ?', [departmentId]);
+    // Convert isActive from integer to boolean for frontend
+    updatedDepartment.isActive = updatedDepartment.isActive === 1;
+    res.json(updatedDepartment);
+  } catch (err) {
+    console.error('❌ Error updating department:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/departments/:id', (req, res) => {
+  const departmentId = req.params.id;
+  
+  // Check if department exists
+  db.get('SELECT * FROM departments WHERE id = ?', [departmentId], (err, department) => {
+    if (err) {
+      console.error('❌ Error checking department:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+    
+    if (!department) {
+      return res.status(404).json({ error: 'Department not found' });
+    }
+    
+    db.run('DELETE FROM departments WHERE id = ?', [departmentId], function(err) {
+      if (err) {
+        console.error('❌ Error deleting department:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      
+      res.json({ success: true });
+    });
+  });
+});
+
+// Cost center routes
+// A cost center's actual spend is the value of stock issued to requisitions of its departments,
+// less the credit for material returned to stock
+const COST_CENTER_BUDGET_PERIODS = ['monthly', 'quarterly', 'yearly'];
+
+async function getCostCenters(id) {
+  const rows = await db.allAsync(
+    `SELECT cc.*,
+      COALESCE((
+        SELECT SUM(ri.issuedQuantity * ri.unitCost)
+        FROM requisition_items ri
+        JOIN requisitions r ON r.id = ri.requisitionId
+        JOIN departments d ON d.name = r.department
+        WHERE d.costCenter = cc.code
+      ), 0) - COALESCE((
+        SELECT SUM(mr.creditAmount) FROM material_returns mr WHERE mr.costCenter = cc.code
+      ), 0) AS actualSpent
+    FROM cost_centers cc
+    ${id ? 'WHERE cc.id = ?' : ''}
+    ORDER BY cc.code`,
+    id ? [id] : []
+  );
+  return rows.map(costCenter => ({ ...costCenter, actualSpent: roundMoney(costCenter.actualSpent), isActive: costCenter.isActive === 1 }));
+}
+
+async function getCostCenter(id) {
+  const [costCenter] = await getCostCenters(id);
+  if (!costCenter) {
+    throw createHttpError(404, 'Cost center not found');
+  }
+  return costCenter;
+}
+
+function parseCostCenter({ code, name, description, budget, budgetPeriod, manager, department }) {
+  if (!code || !code.trim() || !name || !name.trim()) {
+    throw createHttpError(400, 'Cost center code and name are required');
+  }
+  const amount = budget === undefined || budget === null || budget === '' ? 0 : Number(budget);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw createHttpError(400, 'Budget must be zero or more');
+  }
+  const period = budgetPeriod || 'monthly';
+  if (!COST_CENTER_BUDGET_PERIODS.includes(period)) {
+    throw createHttpError(400, `Budget period must be one of: ${COST_CENTER_BUDGET_PERIODS.join(', ')}`);
+  }
+  return {
+    code: code.trim(),
+    name: name.trim(),
+    description: description || null,
+    budget: amount,
+    budgetPeriod: period,
+    manager: manager || null,
+    department: department || null
+  };
+}
+
+app.get('/api/cost-centers', async (req, res) => {
+  try {
+    res.json(await getCostCenters());
+  } catch (err) {
+    console.error('❌ Error fetching cost centers:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/cost-centers/:id', async (req, res) => {
+  try {
+    res.json(await getCostCenter(req.params.id));
+  } catch (err) {
+    console.error('❌ Error fetching cost center:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/cost-centers', async (req, res) => {
+  try {
+    const costCenter = parseCostCenter(req.body);
+    const managerUsername = await parseManagerUsername(req.body.managerUsername);
+    const existing = await db.getAsync('SELECT id FROM cost_centers WHERE LOWER(code) = LOWER(?)', [costCenter.code]);
+    if (existing) {
+      throw createHttpError(409, `Cost center ${costCenter.code} already exists`);
+    }
+    
+    const id = generateId();
+    const now = new Date().toISOString();
+    await db.runAsync(
+      `INSERT INTO cost_centers (id, code, name, description, budget, budgetPeriod, manager, managerUsername, department, isActive, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, costCenter.code, costCenter.name, costCenter.description, costCenter.budget, costCenter.budgetPeriod, costCenter.manager,
+        managerUsername, costCenter.department, req.body.isActive === false ? 0 : 1, now, now]
+    );
+    
+    res.status(201).json(await getCostCenter(id));
+  } catch (err) {
+    console.error('❌ Error creating cost center:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The code is kept as it is, since departments refer to their cost center by code
+app.put('/api/cost-centers/:id', async (req, res) => {
+  try {
+    const current = await getCostCenter(req.params.id);
+    const costCenter = parseCostCenter({ ...current, ...req.body, code: current.code });
+    // An empty manager account clears it; leaving it out keeps the current one
+    const managerUsername = req.body.managerUsername !== undefined
+      ? await parseManagerUsername(req.body.managerUsername)
+      : current.managerUsername;
+    const isActive = req.body.isActive !== undefined ? (req.body.isActive ? 1 : 0) : (current.isActive ? 1 : 0);
+    
+    await db.runAsync(
+      `UPDATE cost_centers SET name = ?, description = ?, budget = ?, budgetPeriod = ?, manager = ?, managerUsername = ?,
+        department = ?, isActive = ?, updatedAt = ?
+      WHERE id = ?`,
+      [costCenter.name, costCenter.description, costCenter.budget, costCenter.budgetPeriod, costCenter.manager, managerUsername,
+        costCenter.department, isActive, new Date().toISOString(), current.id]
+    );
+    
+    res.json(await getCostCenter(current.id));
+  } catch (err) {
+    console.error('❌ Error updating cost center:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// A cost center still assigned to a department is deactivated rather than deleted
+app.delete('/api/cost-centers/:id', async (req, res) => {
+  try {
+    const costCenter = await getCostCenter(req.params.id);
+    const department = await db.getAsync('SELECT name FROM departments WHERE costCenter = ?', [costCenter.code]);
+    if (department) {
+      throw createHttpError(409, `Cost center ${costCenter.code} is used by the ${department.name} department`);
+    }
+    
+    await db.runAsync('DELETE FROM cost_centers WHERE id = ?', [costCenter.id]);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error deleting cost center:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Requesters routes
+app.get('/api/requesters', (req, res) => {
+  console.log('👤 Requesters requested');
+  db.all('SELECT * FROM requesters', (err, rows) => {
+    if (err) {
+      console.error('❌ Error fetching requesters:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
     
-    Promise.all(promises)
-      .then(ordersWithItems => {
-        console.log('✅ Orders sent:', ordersWithItems.length);
-        res.json(ordersWithItems);
-      })
-      .catch(err => {
-        console.error('❌ Error fetching order items:', err);
-        res.status(500).json({ error: 'Internal server error' });
-      });
+    // Convert isActive from integer to boolean for frontend
+    const requesters = rows.map(requester => ({
+      ...requester,
+      isActive: requester.isActive === 1
+    }));
+    
+    console.log('✅ Requesters sent:', requesters.length);
+    res.json(requesters);
   });
 });
 
-app.get('/api/orders/:id', (req, res) => {
-  db.get('SELECT * FROM orders WHERE id = ?', [req.params.id], (err, order) => {
+app.get('/api/requesters/:id', (req, res) => {
+  db.get('SELECT * FROM requesters WHERE id = ?', [req.params.id], (err, requester) => {
     if (err) {
-      console.error('❌ Error fetching order:', err);
+      console.error('❌ Error fetching requester:', err);
       return res.status(500).json({ error: 'Internal server error' });
     }
     
-    if (order) {
-      // Get order items
-      db.all('SELECT * FROM order_items WHERE orderId = ?', [order.id], (err, items) => {
-        if (err) {
-          console.error('❌ Error fetching order items:', err);
-          return res.status(500).json({ error: 'Internal server error' });
-        }
-        
-        order.items = items;
-        res.json(order);
-      });
+    if (requester) {
+      // Convert isActive from integer to boolean for frontend
+      requester.isActive = requester.isActive === 1;
+      res.json(requester);
     } else {
-      res.status(404).json({ error: 'Order not found' });
+      res.status(404).json({ error: 'Requester not found' });
     }
   });
 });
 
-app.post('/api/orders', (req, res) => {
-  const { items, ...orderData } = req.body;
-  
-  const newOrder = {
+app.post('/api/requesters', (req, res) => {
+  const newRequester = {
     id: Date.now().toString(),
-    ...orderData,
-    bomCount: 0,
-    actualCost: 0,
+    ...req.body,
+    isActive: req.body.isActive !== false ? 1 : 0,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString()
   };
   
   db.run(
-    `INSERT INTO orders (
-      id, orderNumber, customerName, customerContact, orderType, status, priority,
-      orderDate, dueDate, deliveryDate, description, notes, estimatedCost, actualCost,
-      assignedTo, department, bomCount, createdAt, updatedAt
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    'INSERT INTO requesters (id, name, email, employeeId, department, position, phone, isActive, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
     [
-      newOrder.id,
-      newOrder.orderNumber,
-      newOrder.customerName,
-      newOrder.customerContact,
-      newOrder.orderType,
-      newOrder.status,
-      newOrder.priority,
-      newOrder.orderDate,
-      newOrder.dueDate,
-      newOrder.deliveryDate,
-      newOrder.description,
-      newOrder.notes,
-      newOrder.estimatedCost,
-      newOrder.actualCost,
-      newOrder.assignedTo,
-      newOrder.department,
-      newOrder.bomCount,
-      newOrder.createdAt,
-      newOrder.updatedAt
+      newRequester.id,
+      newRequester.name,
+      newRequester.email,
+      newRequester.employeeId,
+      newRequester.department,
+      newRequester.position,
+      newRequester.phone,
+      newRequester.isActive,
+      newRequester.createdAt,
+      newRequester.updatedAt
     ],
     function(err) {
       if (err) {
-        console.error('❌ Error creating order:', err);
+        console.error('❌ Error creating requester:', err);
         return res.status(500).json({ error: 'Internal server error' });
       }
       
-      // If there are items, insert them
-      if (items && items.length > 0) {
-        const itemStmt = db.prepare(
-          'INSERT INTO order_items (id, orderId, itemId, itemName, quantity, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?)'
-        );
-        
-        items.forEach(item => {
-          itemStmt.run(
-            Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9),
-            newOrder.id,
-            item.itemId,
-            item.itemName,
-            item.quantity,
-            item.unitCost,
-            item.totalCost
-          );
-        });
-        
-        itemStmt.finalize(err => {
-          if (err) {
-            console.error('❌ Error inserting order items:', err);
-            return res.status(500).json({ error: 'Internal server error' });
-          }
-          
-          newOrder.items = items;
-          res.status(201).json(newOrder);
-        });
-      } else {
-        newOrder.items = [];
-        res.status(201).json(newOrder);
-      }
+      // Convert isActive back to boolean for frontend
+      newRequester.isActive = newRequester.isActive === 1;
+      res.status(201).json(newRequester);
     }
   );
 });
 
-app.put('/api/orders/:id', (req, res) => {
-  const orderId = req.params.id;
-  const { items, ...orderData } = req.body;
+app.put('/api/requesters/:id', (req, res) => {
+  const requesterId = req.params.id;
   
-  // Check if order exists
-  db.get('SELECT * FROM orders WHERE id = ?', [orderId], (err, order) => {
+  // Check if requester exists
+  db.get('SELECT * FROM requesters WHERE id = ?', [requesterId], (err, requester) => {
     if (err) {
-      console.error('❌ Error checking order:', err);
+      console.error('❌ Error checking requester:', err);
       return res.status(500).json({ error: 'Internal server error' });
     }
     
-    if (!order) {
-      return res.status(404).json({ error: 'Order not found' });
+    if (!requester) {
+      return res.status(404).json({ error: 'Requester not found' });
     }
     
-    const updatedAt = new Date().toISOString();
-    
-    db.run(
-      `UPDATE orders SET
-        orderNumber = COALESCE(?, orderNumber),
-        customerName = COALESCE(?, customerName),
-        customerContact = COALESCE(?, customerContact),
-        orderType = COALESCE(?, orderType),
-        status = COALESCE(?, status),
-        priority = COALESCE(?, priority),
-        orderDate = COALESCE(?, orderDate),
-        dueDate = COALESCE(?, dueDate),
-        deliveryDate = COALESCE(?, deliveryDate),
-        completedDate = COALESCE(?, completedDate),
-        description = COALESCE(?, description),
-        notes = COALESCE(?, notes),
-        estimatedCost = COALESCE(?, estimatedCost),
-        actualCost = COALESCE(?, actualCost),
-        assignedTo = COALESCE(?, assignedTo),
-        department = COALESCE(?, department),
-        updatedAt = ?
-      WHERE id = ?`,
-      [
-        orderData.orderNumber,
-        orderData.customerName,
-        orderData.customerContact,
-        orderData.orderType,
-        orderData.status,
-        orderData.priority,
-        orderData.orderDate,
-        orderData.dueDate,
-        orderData.deliveryDate,
-        orderData.completedDate,
-        orderData.description,
-        orderData.notes,
-        orderData.estimatedCost,
-        orderData.actualCost,
-        orderData.assignedTo,
-        orderData.department,
-        updatedAt,
-        orderId
-      ],
-      function(err) {
-        if (err) {
-          console.error('❌ Error updating order:', err);
-          return res.status(500).json({ error: 'Internal server error' });
-        }
-        
-        // If there are items, update them
-        if (items && items.length > 0) {
-          // First delete existing items
-          db.run('DELETE FROM order_items WHERE orderId = ?', [orderId], function(err) {
-            if (err) {
-              console.error('❌ Error deleting order items:', err);
-              return res.status(500).json({ error: 'Internal server error' });
-            }
-            
-            // Then insert new items
-            const itemStmt = db.prepare(
-              'INSERT INTO order_items (id, orderId, itemId, itemName, quantity, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?)'
-            );
-            
-            items.forEach(item => {
-              itemStmt.run(
-                item.id || (Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9)),
-                orderId,
-                item.itemId,
-                item.itemName,
-                item.quantity,
-                item.unitCost,
-                item.totalCost
-              );
-            });
-            
-            itemStmt.finalize(err => {
-              if (err) {
-                console.error('❌ Error inserting order items:', err);
-                return res.status(500).json({ error: 'Internal server error' });
-              }
-              
-              // Get the updated order
-              db.get('SELECT * FROM orders WHERE id = ?', [orderId], (err, updatedOrder) => {
-                if (err) {
-                  console.error('❌ Error fetching updated order:', err);
-                  return res.status(500).json({ error: 'Internal server error' });
-                }
-                
-                updatedOrder.items = items;
-                res.json(updatedOrder);
-              });
-            });
-          });
-        } else {
-          // Get the updated order
-          db.get('SELECT * FROM orders WHERE id = ?', [orderId], (err, updatedOrder) => {
-            if (err) {
-              console.error('❌ Error fetching updated order:', err);
-              return res.status(500).json({ error: 'Internal server error' });
-            }
-            
-            // Get order items
-            db.all('SELECT * FROM order_items WHERE orderId = ?', [orderId], (err, items) => {
-              if (err) {
-                console.error('❌ Error fetching order items:', err);
-                return res.status(500).json({ error: 'Internal server error' });
-              }
-              
-              updatedOrder.items = items;
-              res.json(updatedOrder);
-            });
-          });
+    const isActive = req.body.isActive !== undefined ? (req.body.isActive ? 1 : 0) : requester.isActive;
+    const updatedAt = new Date().toISOString();
+    
+    db.run(
+      `UPDATE requesters SET
+        name = COALESCE(?, name),
+        email = COALESCE(?, email),
+        employeeId = COALESCE(?, employeeId),
+        department = COALESCE(?, department),
+        position = COALESCE(?, position),
+        phone = COALESCE(?, phone),
+        isActive = ?,
+        updatedAt = ?
+      WHERE id = ?`,
+      [
+        req.body.name,
+        req.body.email,
+        req.body.employeeId,
+        req.body.department,
+        req.body.position,
+        req.body.phone,
+        isActive,
+        updatedAt,
+        requesterId
+      ],
+      function(err) {
+        if (err) {
+          console.error('❌ Error updating requester:', err);
+          return res.status(500).json({ error: 'Internal server error' });
         }
+        
+        // Get the updated requester
+        db.get('SELECT * FROM requesters WHERE id = ?', [requesterId], (err, updatedRequester) => {
+          if (err) {
+            console.error('❌ Error fetching updated requester:', err);
+            return res.status(500).json({ error: 'Internal server error' });
+          }
+          
+          // Convert isActive from integer to boolean for frontend
+          updatedRequester.isActive = updatedRequester.isActive === 1;
+          res.json(updatedRequester);
+        });
       }
     );
   });
 });
 
-app.delete('/api/orders/:id', (req, res) => {
-  const orderId = req.params.id;
+app.delete('/api/requesters/:id', (req, res) => {
+  const requesterId = req.params.id;
   
-  // Check if order exists
-  db.get('SELECT * FROM orders WHERE id = ?', [orderId], (err, order) => {
+  // Check if requester exists
+  db.get('SELECT * FROM requesters WHERE id = ?', [requesterId], (err, requester) => {
     if (err) {
-      console.error('❌ Error checking order:', err);
+      console.error('❌ Error checking requester:', err);
       return res.status(500).json({ error: 'Internal server error' });
     }
     
-    if (!order) {
-      return res.status(404).json({ error: 'Order not found' });
+    if (!requester) {
+      return res.status(404).json({ error: 'Requester not found' });
     }
     
-    // Delete order items first (foreign key constraint)
-    db.run('DELETE FROM order_items WHERE orderId = ?', [orderId], function(err) {
+    db.run('DELETE FROM requesters WHERE id = ?', [requesterId], function(err) {
       if (err) {
-        console.error('❌ Error deleting order items:', err);
+        console.error('❌ Error deleting requester:', err);
         return res.status(500).json({ error: 'Internal server error' });
       }
       
-      // Then delete the order
-      db.run('DELETE FROM orders WHERE id = ?', [orderId], function(err) {
-        if (err) {
-          console.error('❌ Error deleting order:', err);
-          return res.status(500).json({ error: 'Internal server error' });
-        }
-        
-        res.json({ success: true });
-      });
+      res.json({ success: true });
     });
   });
 });
 
-// Suppliers routes
-app.get('/api/suppliers', (req, res) => {
-  console.log('🏪 Suppliers requested');
-  db.all('SELECT * FROM suppliers', (err, rows) => {
-    if (err) {
-      console.error('❌ Error fetching suppliers:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+// Approval routes
+// Requisitions and purchase orders are approved in steps. On submission every active rule for the
+// document type whose conditions match adds a step, in step order; steps are then decided one at a time.
+// Admins may decide any step.
+const APPROVAL_DOCUMENT_TYPES = ['requisition', 'purchase_order'];
+const APPROVER_TYPES = ['department_manager', 'cost_center_manager', 'role', 'user'];
+// Approver types resolved to the user account managing the document's department or cost center
+const MANAGER_APPROVER_TYPES = ['department_manager', 'cost_center_manager'];
+const USER_ROLES = ['admin', 'manager', 'storekeeper', 'purchaser'];
+
+const mapApprovalRule = (rule) => ({ ...rule, isActive: rule.isActive === 1 });
+
+function parseApprovalRule({ name, documentType, stepOrder, minAmount, maxAmount, costCenter, department, category, approverType, approverValue, isActive }) {
+  if (!name || !name.trim()) {
+    throw createHttpError(400, 'Rule name is required');
+  }
+  if (!APPROVAL_DOCUMENT_TYPES.includes(documentType)) {
+    throw createHttpError(400, `Document type must be one of: ${APPROVAL_DOCUMENT_TYPES.join(', ')}`);
+  }
+  if (!APPROVER_TYPES.includes(approverType)) {
+    throw createHttpError(400, `Approver type must be one of: ${APPROVER_TYPES.join(', ')}`);
+  }
+  if (approverType === 'role' && !USER_ROLES.includes(approverValue)) {
+    throw createHttpError(400, `Approver role must be one of: ${USER_ROLES.join(', ')}`);
+  }
+  if (approverType === 'user' && !(approverValue && approverValue.trim())) {
+    throw createHttpError(400, 'Approver username is required');
+  }
+  // Purchase orders are not raised for a department, so only amount and category apply to them
+  if (documentType === 'purchase_order' && (costCenter || department || MANAGER_APPROVER_TYPES.includes(approverType))) {
+    throw createHttpError(400, 'Purchase order rules cannot use a cost center, a department or a manager approver');
+  }
+  
+  const order = Number(stepOrder);
+  if (!Number.isInteger(order) || order < 1) {
+    throw createHttpError(400, 'Step order must be a whole number of 1 or more');
+  }
+  const min = minAmount === undefined || minAmount === null || minAmount === '' ? 0 : Number(minAmount);
+  const max = maxAmount === undefined || maxAmount === null || maxAmount === '' ? null : Number(maxAmount);
+  if (!Number.isFinite(min) || min < 0 || (max !== null && !(max > min))) {
+    throw createHttpError(400, 'Amounts must be zero or more, with the upper limit above the lower');
+  }
+  
+  return {
+    name: name.trim(),
+    documentType,
+    stepOrder: order,
+    minAmount: min,
+    maxAmount: max,
+    costCenter: costCenter ? costCenter.trim() : null,
+    department: department ? department.trim() : null,
+    category: category || null,
+    approverType,
+    approverValue: MANAGER_APPROVER_TYPES.includes(approverType) ? null : approverValue.trim(),
+    isActive: isActive === false ? 0 : 1
+  };
+}
+
+// User account managing a department (by name) or a cost center (by code), or null when it has none
+async function getManagerUsername(approverType, scope) {
+  const row = approverType === 'department_manager'
+    ? await db.getAsync('SELECT managerUsername FROM departments WHERE name = ?', [scope])
+    : await db.getAsync('SELECT managerUsername FROM cost_centers WHERE code = ?', [scope]);
+  return row ? row.managerUsername || null : null;
+}
+
+// Build a submitted document's approval chain, replacing any earlier one. The amount range includes
+// its lower limit and excludes its upper one; a category rule matches when any line is in that category.
+// A department or cost center manager step is assigned to the user account managing the document's
+// department or its cost center, or to the manager role while there is no such account.
+// Without a matching rule a manager approves. Must be called inside db.runInTransaction.
+async function createApprovalSteps(documentType, documentId, { amount, department = null, categories = [] }) {
+  const departmentRow = department ? await db.getAsync('SELECT * FROM departments WHERE name = ?', [department]) : null;
+  const costCenter = departmentRow ? departmentRow.costCenter : null;
+  const rules = (await db.allAsync(
+    'SELECT * FROM approval_rules WHERE documentType = ? AND isActive = 1 ORDER BY stepOrder, createdAt',
+    [documentType]
+  )).filter(rule =>
+    amount >= rule.minAmount &&
+    (rule.maxAmount === null || amount < rule.maxAmount) &&
+    (!rule.costCenter || rule.costCenter === costCenter) &&
+    (!rule.department || rule.department === department) &&
+    (!rule.category || categories.includes(rule.category))
+  );
+  
+  const steps = rules.length > 0
+    ? rules.map(rule => ({ ruleId: rule.id, name: rule.name, approverType: rule.approverType, approverValue: rule.approverValue }))
+    : [{ ruleId: null, name: 'Manager', approverType: 'role', approverValue: 'manager' }];
+  for (const step of steps.filter(step => MANAGER_APPROVER_TYPES.includes(step.approverType))) {
+    const scope = step.approverType === 'department_manager' ? department : costCenter;
+    const managerUsername = scope ? await getManagerUsername(step.approverType, scope) : null;
+    if (managerUsername) {
+      step.approverValue = managerUsername;
+      step.approverScope = scope;
+    } else {
+      step.approverType = 'role';
+      step.approverValue = 'manager';
+    }
+  }
+  
+  await db.runAsync('DELETE FROM approval_steps WHERE documentType = ? AND documentId = ?', [documentType, documentId]);
+  for (const [index, step] of steps.entries()) {
+    await db.runAsync(
+      `INSERT INTO approval_steps (id, documentType, documentId, stepOrder, ruleId, name, approverType, approverValue, approverScope, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
+      [generateId(), documentType, documentId, index + 1, step.ruleId, step.name, step.approverType, step.approverValue, step.approverScope || null]
+    );
+  }
+}
+
+// Approval steps of the given documents in order, keyed by document id
+async function getApprovalSteps(documentType, documentIds) {
+  if (documentIds.length === 0) {
+    return {};
+  }
+  const steps = await db.allAsync(
+    `SELECT * FROM approval_steps WHERE documentType = ? AND documentId IN (${documentIds.map(() => '?').join(', ')}) ORDER BY stepOrder`,
+    [documentType, ...documentIds]
+  );
+  return steps.reduce((byDocument, step) => {
+    (byDocument[step.documentId] = byDocument[step.documentId] || []).push(step);
+    return byDocument;
+  }, {});
+}
+
+const describeApprover = (step) => step.approverType === 'role'
+  ? `a user with the ${step.approverValue} role`
+  : step.approverType === 'department_manager' ? `${step.approverValue} (department manager)`
+    : step.approverType === 'cost_center_manager' ? `${step.approverValue} (cost center ${step.approverScope} manager)` : step.approverValue;
+
+// A manager step goes to whoever manages its department or cost center when it is decided, so a
+// step waiting on a manager who has since been replaced moves to the new one, and to the manager
+// role if the manager account was cleared. Must be called inside db.runInTransaction.
+async function resolveStepApprover(step) {
+  if (!MANAGER_APPROVER_TYPES.includes(step.approverType) || !step.approverScope) {
+    return step;
+  }
+  const managerUsername = await getManagerUsername(step.approverType, step.approverScope);
+  const resolved = managerUsername
+    ? { ...step, approverValue: managerUsername }
+    : { ...step, approverType: 'role', approverValue: 'manager', approverScope: null };
+  if (resolved.approverType !== step.approverType || resolved.approverValue !== step.approverValue) {
+    await db.runAsync(
+      'UPDATE approval_steps SET approverType = ?, approverValue = ?, approverScope = ? WHERE id = ?',
+      [resolved.approverType, resolved.approverValue, resolved.approverScope, step.id]
+    );
+  }
+  return resolved;
+}
+
+// The first undecided step of a document, checked to be one `username` may decide. The step's
+// approver is resolved first; department and cost center managers and named users are matched on
+// username or email.
+async function getCurrentApprovalStep(documentType, documentId, username) {
+  if (!username) {
+    throw createHttpError(400, 'The approver is required');
+  }
+  const pendingStep = await db.getAsync(
+    "SELECT * FROM approval_steps WHERE documentType = ? AND documentId = ? AND status = 'pending' ORDER BY stepOrder LIMIT 1",
+    [documentType, documentId]
+  );
+  if (!pendingStep) {
+    throw createHttpError(400, 'No approval step is waiting for a decision');
+  }
+  const step = await resolveStepApprover(pendingStep);
+  
+  const user = await db.getAsync('SELECT username, email, role FROM users WHERE username = ?', [username]);
+  if (!user) {
+    throw createHttpError(403, `Unknown approver ${username}`);
+  }
+  const isApprover = step.approverType === 'role'
+    ? user.role === step.approverValue
+    : [user.username, user.email].some(identity => identity && identity.toLowerCase() === (step.approverValue || '').toLowerCase());
+  if (!isApprover && user.role !== 'admin') {
+    throw createHttpError(403, `Step ${step.stepOrder} (${step.name}) must be decided by ${describeApprover(step)}`);
+  }
+  return step;
+}
+
+// Record a decision on a step. Rejecting skips the steps after it. Returns true once every step is approved.
+async function decideApprovalStep(step, decision, username, comments) {
+  await db.runAsync(
+    'UPDATE approval_steps SET status = ?, decidedBy = ?, decidedAt = ?, comments = ? WHERE id = ?',
+    [decision, username, new Date().toISOString(), comments || null, step.id]
+  );
+  if (decision === 'rejected') {
+    await db.runAsync(
+      "UPDATE approval_steps SET status = 'skipped' WHERE documentType = ? AND documentId = ? AND status = 'pending'",
+      [step.documentType, step.documentId]
+    );
+    return false;
+  }
+  
+  const remaining = await db.getAsync(
+    "SELECT COUNT(*) AS count FROM approval_steps WHERE documentType = ? AND documentId = ? AND status = 'pending'",
+    [step.documentType, step.documentId]
+  );
+  return remaining.count === 0;
+}
+
+app.get('/api/approval-rules', async (req, res) => {
+  try {
+    const rules = await db.allAsync('SELECT * FROM approval_rules ORDER BY documentType, stepOrder, minAmount');
+    res.json(rules.map(mapApprovalRule));
+  } catch (err) {
+    console.error('❌ Error fetching approval rules:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/approval-rules', async (req, res) => {
+  try {
+    const rule = { id: generateId(), ...parseApprovalRule(req.body) };
+    const now = new Date().toISOString();
+    
+    await db.runAsync(
+      `INSERT INTO approval_rules (id, name, documentType, stepOrder, minAmount, maxAmount, costCenter, department, category,
+        approverType, approverValue, isActive, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [rule.id, rule.name, rule.documentType, rule.stepOrder, rule.minAmount, rule.maxAmount, rule.costCenter, rule.department,
+        rule.category, rule.approverType, rule.approverValue, rule.isActive, now, now]
+    );
+    
+    console.log(`✅ Approval rule ${rule.name} created`);
+    res.status(201).json(mapApprovalRule(await db.getAsync('SELECT * FROM approval_rules WHERE id = ?', [rule.id])));
+  } catch (err) {
+    console.error('❌ Error creating approval rule:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Changing a rule affects documents submitted afterwards; chains already built keep their steps
+app.put('/api/approval-rules/:id', async (req, res) => {
+  try {
+    const existing = await db.getAsync('SELECT * FROM approval_rules WHERE id = ?', [req.params.id]);
+    if (!existing) {
+      throw createHttpError(404, 'Approval rule not found');
     }
+    const rule = parseApprovalRule({ ...mapApprovalRule(existing), ...req.body });
     
-    console.log('✅ Suppliers sent:', rows.length);
-    res.json(rows);
-  });
+    await db.runAsync(
+      `UPDATE approval_rules SET name = ?, documentType = ?, stepOrder = ?, minAmount = ?, maxAmount = ?, costCenter = ?, department = ?,
+        category = ?, approverType = ?, approverValue = ?, isActive = ?, updatedAt = ?
+      WHERE id = ?`,
+      [rule.name, rule.documentType, rule.stepOrder, rule.minAmount, rule.maxAmount, rule.costCenter, rule.department, rule.category,
+        rule.approverType, rule.approverValue, rule.isActive, new Date().toISOString(), req.params.id]
+    );
+    
+    res.json(mapApprovalRule(await db.getAsync('SELECT * FROM approval_rules WHERE id = ?', [req.params.id])));
+  } catch (err) {
+    console.error('❌ Error updating approval rule:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.get('/api/suppliers/:id', (req, res) => {
-  db.get('SELECT * FROM suppliers WHERE id = ?', [req.params.id], (err, supplier) => {
-    if (err) {
-      console.error('❌ Error fetching supplier:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+app.delete('/api/approval-rules/:id', async (req, res) => {
+  try {
+    const existing = await db.getAsync('SELECT id FROM approval_rules WHERE id = ?', [req.params.id]);
+    if (!existing) {
+      throw createHttpError(404, 'Approval rule not found');
     }
     
-    if (supplier) {
-      res.json(supplier);
-    } else {
-      res.status(404).json({ error: 'Supplier not found' });
+    await db.runAsync('DELETE FROM approval_rules WHERE id = ?', [existing.id]);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error deleting approval rule:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
     }
-  });
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.post('/api/suppliers', (req, res) => {
-  const newSupplier = {
-    id: Date.now().toString(),
-    ...req.body,
-    isActive: req.body.isActive !== false ? 1 : 0,
-    createdAt: new Date().toISOString()
+// Requisition routes
+// A requisition is drafted, submitted for approval (pending) and then approved or rejected through
+// its approval steps. Lines are requested in the item's stock unit or one of its converted units.
+// An approved requisition is picked and issued in one or more goes (partially_issued) until every
+// approved quantity is out (fulfilled); what is not issued yet stays open as a backorder.
+const REQUISITION_ISSUE_STATUSES = ['approved', 'partially_issued'];
+const REQUISITION_REFERENCE_TYPE = 'requisition';
+
+// Approved quantity of a requisition line still to be issued
+const getOutstandingQuantity = (line) => line.approvedQuantity === null
+  ? 0
+  : roundQuantity(Math.max(0, line.approvedQuantity - line.issuedQuantity));
+
+async function getRequisitions({ id, status } = {}) {
+  const conditions = [];
+  const params = [];
+  if (id) {
+    conditions.push('id = ?');
+    params.push(id);
+  }
+  if (status) {
+    conditions.push('status = ?');
+    params.push(status);
+  }
+  const requisitions = await db.allAsync(
+    `SELECT * FROM requisitions ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''} ORDER BY createdAt DESC`,
+    params
+  );
+  if (requisitions.length === 0) {
+    return [];
+  }
+  
+  const lines = await db.allAsync(
+    `SELECT ri.*, i.quantity AS onHandQuantity, i.unitMeasurement AS stockUnit, c.factor
+    FROM requisition_items ri
+    LEFT JOIN inventory_items i ON i.id = ri.inventoryItemId
+    LEFT JOIN inventory_unit_conversions c ON c.inventoryItemId = ri.inventoryItemId AND c.unit = ri.unitMeasurement
+    WHERE ri.requisitionId IN (${requisitions.map(() => '?').join(', ')})
+    ORDER BY ri.lineNumber`,
+    requisitions.map(requisition => requisition.id)
+  );
+  const approvalSteps = await getApprovalSteps('requisition', requisitions.map(requisition => requisition.id));
+  const purchaseLinks = await db.allAsync(
+    `SELECT l.requisitionItemId, l.quantity, l.allocatedQuantity, l.allocatedAt, po.id AS poId, po.poNumber, po.status
+    FROM requisition_purchase_links l
+    JOIN purchase_orders po ON po.id = l.poId
+    WHERE l.requisitionId IN (${requisitions.map(() => '?').join(', ')})
+    ORDER BY l.createdAt`,
+    requisitions.map(requisition => requisition.id)
+  );
+  
+  return requisitions.map(requisition => ({
+    ...requisition,
+    requireSingleLot: requisition.requireSingleLot === 1,
+    approvalSteps: approvalSteps[requisition.id] || [],
+    items: lines
+      .filter(line => line.requisitionId === requisition.id)
+      .map(({ onHandQuantity, stockUnit, factor, ...line }) => {
+        // Stock on hand in the line's unit; unknown once the item or its conversion is deleted
+        const unitFactor = line.unitMeasurement === stockUnit ? 1 : factor;
+        const stockOnHand = onHandQuantity === null || !unitFactor ? null : roundQuantity(onHandQuantity / unitFactor);
+        return {
+          ...line,
+          totalCost: roundMoney((line.approvedQuantity ?? line.requestedQuantity) * line.unitCost),
+          outstandingQuantity: getOutstandingQuantity(line),
+          stockOnHand,
+          isOverStock: stockOnHand !== null && line.requestedQuantity > stockOnHand,
+          // Purchase orders the line was ordered on; quantities in the line's unit
+          purchaseOrders: purchaseLinks
+            .filter(link => link.requisitionItemId === line.id)
+            .map(({ requisitionItemId, quantity, allocatedQuantity, ...link }) => ({
+              ...link,
+              quantity: unitFactor ? roundQuantity(quantity / unitFactor) : quantity,
+              allocatedQuantity: unitFactor ? roundQuantity(allocatedQuantity / unitFactor) : allocatedQuantity
+            }))
+        };
+      })
+  }));
+}
+
+async function getRequisition(id) {
+  const [requisition] = await getRequisitions({ id });
+  if (!requisition) {
+    throw createHttpError(404, 'Requisition not found');
+  }
+  return requisition;
+}
+
+// The stored requisition, which must be in one of the statuses the action is allowed from
+async function getRequisitionInStatus(id, statuses, action) {
+  const requisition = await db.getAsync('SELECT * FROM requisitions WHERE id = ?', [id]);
+  if (!requisition) {
+    throw createHttpError(404, 'Requisition not found');
+  }
+  if (!statuses.includes(requisition.status)) {
+    throw createHttpError(400, `Requisition ${requisition.requestNumber} is ${requisition.status} and cannot be ${action}`);
+  }
+  return requisition;
+}
+
+function parseRequisitionHeader({ requester, department, orderNumber, bomNumber, requireSingleLot, notes }) {
+  if (!requester || !requester.trim() || !department || !department.trim()) {
+    throw createHttpError(400, 'Requester and department are required');
+  }
+  return {
+    requester: requester.trim(),
+    department: department.trim(),
+    orderNumber: orderNumber || null,
+    bomNumber: bomNumber || null,
+    requireSingleLot: requireSingleLot ? 1 : 0,
+    notes: notes || null
   };
+}
+
+// Replace a requisition's lines. Items are given by item code; the unit cost is the item's
+// current cost per requested unit. Must be called inside db.runInTransaction.
+async function saveRequisitionItems(requisitionId, items) {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw createHttpError(400, 'A requisition needs at least one item');
+  }
   
-  db.run(
-    'INSERT INTO suppliers (id, name, contactPerson, phone, email, address, isActive, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-    [
-      newSupplier.id,
-      newSupplier.name,
-      newSupplier.contactPerson,
-      newSupplier.phone,
-      newSupplier.email,
-      newSupplier.address,
-      newSupplier.isActive,
-      newSupplier.createdAt
-    ],
-    function(err) {
-      if (err) {
-        console.error('❌ Error creating supplier:', err);
-        return res.status(500).json({ error: 'Internal server error' });
-      }
-      
-      res.status(201).json(newSupplier);
+  const lines = [];
+  for (const line of items) {
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE itemId = ?', [line.itemId]);
+    if (!item) {
+      throw createHttpError(400, `Unknown inventory item ${line.itemId || ''}`.trim());
+    }
+    const requestedQuantity = Number(line.requestedQuantity);
+    if (!(requestedQuantity > 0)) {
+      throw createHttpError(400, `Requested quantity of ${item.itemId} must be greater than zero`);
+    }
+    const unitMeasurement = line.unitMeasurement || item.unitMeasurement;
+    const factor = unitMeasurement === item.unitMeasurement ? 1 : await getConversionFactor(item, unitMeasurement);
+    lines.push({
+      inventoryItemId: item.id,
+      itemId: item.itemId,
+      itemName: item.name,
+      requestedQuantity: roundQuantity(requestedQuantity),
+      unitMeasurement,
+      unitCost: roundQuantity(item.unitCost * factor)
+    });
+  }
+  
+  await db.runAsync('DELETE FROM requisition_items WHERE requisitionId = ?', [requisitionId]);
+  for (const [index, line] of lines.entries()) {
+    await db.runAsync(
+      `INSERT INTO requisition_items (id, requisitionId, inventoryItemId, itemId, itemName, requestedQuantity, unitMeasurement, unitCost, lineNumber)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [generateId(), requisitionId, line.inventoryItemId, line.itemId, line.itemName, line.requestedQuantity, line.unitMeasurement, line.unitCost, index + 1]
+    );
+  }
+}
+
+// Insert a draft requisition with its lines and return its id. Must be called inside db.runInTransaction.
+async function createRequisition(header, items, { createdBy, projectId } = {}) {
+  const now = new Date().toISOString();
+  const requisition = {
+    id: generateId(),
+    requestNumber: await nextDocumentNumber('requisitions', 'requestNumber', 'REQ')
+  };
+  
+  await db.runAsync(
+    `INSERT INTO requisitions (id, requestNumber, requester, department, orderNumber, bomNumber, requireSingleLot, status, notes,
+      projectId, requestDate, createdBy, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?, ?, ?, ?)`,
+    [requisition.id, requisition.requestNumber, header.requester, header.department, header.orderNumber, header.bomNumber,
+      header.requireSingleLot, header.notes, projectId || null, now, createdBy || null, now, now]
+  );
+  await saveRequisitionItems(requisition.id, items);
+  
+  console.log(`✅ Requisition ${requisition.requestNumber} created`);
+  return requisition.id;
+}
+
+// Stock of an item a requisition may issue, in stock units: on hand less every active reservation
+// except the requisition's own allocation and, for a project's requisition, that project's reservation
+async function getRequisitionAvailableQuantity(requisition, item) {
+  const reserved = await getReservedQuantities([item.id]);
+  const own = await db.getAsync(
+    `SELECT COALESCE(SUM(reservedQuantity - consumedQuantity), 0) AS quantity
+    FROM inventory_reservations
+    WHERE inventoryItemId = ? AND status = 'active' AND projectId IN (?, ?)`,
+    [item.id, requisition.id, requisition.projectId || requisition.id]
+  );
+  return Math.max(0, roundQuantity(item.quantity - (reserved[item.id] || 0) + own.quantity));
+}
+
+// Where to pick each outstanding line from: stock per location in the line's unit with the item's
+// default location first, plus the lots a lot-tracked item would be issued from first-expired-first-out.
+// The available quantity leaves out stock reserved for other projects and requisitions.
+async function getRequisitionPickList(requisition) {
+  const lines = requisition.items.filter(line => line.outstandingQuantity > 0 && line.inventoryItemId);
+  const stockByLocation = await getStockByLocation(lines.map(line => line.inventoryItemId));
+  
+  const pickLines = [];
+  for (const line of lines) {
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [line.inventoryItemId]);
+    const factor = line.unitMeasurement === item.unitMeasurement ? 1 : await getConversionFactor(item, line.unitMeasurement);
+    const locations = (stockByLocation[item.id] || [])
+      .filter(stock => stock.quantity > 0)
+      .map(stock => ({ ...stock, quantity: roundQuantity(stock.quantity / factor) }))
+      .sort((a, b) => Number(b.locationCode === item.location) - Number(a.locationCode === item.location));
+    const availableStock = await getRequisitionAvailableQuantity(requisition, item);
+    const pickQuantity = Math.min(roundQuantity(line.outstandingQuantity * factor), availableStock);
+    const lots = item.isLotTracked && pickQuantity > 0
+      ? (await getFefoPicks(item, pickQuantity)).picks.map(pick => ({
+          lotNumber: pick.lotNumber,
+          locationId: pick.locationId,
+          locationCode: pick.locationCode,
+          expiryDate: pick.expiryDate,
+          quantity: roundQuantity(pick.pickQuantity / factor)
+        }))
+      : [];
+    
+    pickLines.push({
+      lineId: line.id,
+      lineNumber: line.lineNumber,
+      itemId: line.itemId,
+      itemName: line.itemName,
+      unitMeasurement: line.unitMeasurement,
+      outstandingQuantity: line.outstandingQuantity,
+      availableQuantity: Math.min(roundQuantity(locations.reduce((sum, stock) => sum + stock.quantity, 0)), roundQuantity(availableStock / factor)),
+      isLotTracked: item.isLotTracked === 1,
+      locations,
+      lots
+    });
+  }
+  return pickLines;
+}
+
+// Issue part or all of a line's outstanding quantity, in the line's unit, out of stock not reserved
+// for anything else. Lot-tracked items without a lot number are taken first-expired-first-out; a
+// single-lot requisition takes each item from one lot, the lot of its first issue. Must be called
+// inside db.runInTransaction.
+async function issueRequisitionLine(requisition, line, { quantity, locationId, lotNumber, issuedBy }) {
+  const issueQuantity = roundQuantity(Number(quantity));
+  if (!(issueQuantity > 0) || issueQuantity > line.outstandingQuantity) {
+    throw createHttpError(400, `Issue quantity of ${line.itemId} must be greater than zero and at most the ${line.outstandingQuantity} outstanding`);
+  }
+  const item = line.inventoryItemId ? await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [line.inventoryItemId]) : null;
+  if (!item) {
+    throw createHttpError(400, `Item ${line.itemId} is no longer in inventory`);
+  }
+  const factor = line.unitMeasurement === item.unitMeasurement ? 1 : await getConversionFactor(item, line.unitMeasurement);
+  const available = await getRequisitionAvailableQuantity(requisition, item);
+  if (roundQuantity(issueQuantity * factor) > available) {
+    throw createHttpError(400, `Only ${roundQuantity(available / factor)} ${line.unitMeasurement} of ${item.itemId} can be issued; the rest of the stock is reserved`);
+  }
+  
+  const movement = {
+    type: 'issue',
+    locationId,
+    referenceType: REQUISITION_REFERENCE_TYPE,
+    referenceNumber: requisition.requestNumber,
+    notes: `Requisition ${requisition.requestNumber} line ${line.lineNumber}`,
+    performedBy: issuedBy
+  };
+  let lot = lotNumber ? String(lotNumber).trim().toUpperCase() : null;
+  if (item.isLotTracked && requisition.requireSingleLot) {
+    const previous = await db.getAsync(
+      `SELECT lotNumber FROM inventory_transactions
+      WHERE inventoryItemId = ? AND referenceType = ? AND referenceNumber = ? AND lotNumber IS NOT NULL
+      LIMIT 1`,
+      [item.id, REQUISITION_REFERENCE_TYPE, requisition.requestNumber]
+    );
+    if (previous && lot && lot !== previous.lotNumber) {
+      throw createHttpError(400, `Requisition ${requisition.requestNumber} takes ${item.itemId} from a single lot; it was issued from lot ${previous.lotNumber}`);
+    }
+    lot = lot || (previous ? previous.lotNumber : null);
+  }
+  
+  const transactions = [];
+  if (!item.isLotTracked || lot) {
+    transactions.push(await postInventoryTransaction(item.id, { ...movement, quantity: -issueQuantity, unit: line.unitMeasurement, lotNumber: lot }));
+  } else {
+    const location = await resolveMovementLocation(item, locationId);
+    const { picks, shortQuantity } = await getFefoPicks(item, roundQuantity(issueQuantity * factor), location.id);
+    if (shortQuantity > 0) {
+      throw createHttpError(400, `Not enough unexpired stock of ${item.itemId} at ${location.code}: ${roundQuantity(shortQuantity / factor)} ${line.unitMeasurement} short`);
+    }
+    if (requisition.requireSingleLot && picks.length > 1) {
+      throw createHttpError(400, `No single lot of ${item.itemId} at ${location.code} holds ${issueQuantity} ${line.unitMeasurement}; issue less or choose a lot`);
+    }
+    for (const pick of picks) {
+      transactions.push(await postInventoryTransaction(item.id, {
+        ...movement,
+        locationId: location.id,
+        quantity: -pick.pickQuantity,
+        lotNumber: pick.lotNumber
+      }));
+    }
+  }
+  
+  // Stock issued comes out of what was allocated to the requisition from a received purchase order,
+  // and for a project's requisition out of that project's reservation
+  const issuedStockQuantity = roundQuantity(transactions.reduce((sum, transaction) => sum - transaction.quantity, 0));
+  await consumeReservation(item.id, requisition.id, issuedStockQuantity);
+  if (requisition.projectId) {
+    await consumeReservation(item.id, requisition.projectId, issuedStockQuantity);
+  }
+  
+  await db.runAsync(
+    'UPDATE requisition_items SET issuedQuantity = ? WHERE id = ?',
+    [roundQuantity(line.issuedQuantity + issueQuantity), line.id]
+  );
+  return transactions;
+}
+
+// Requisition lines still to issue that stock cannot cover, oldest request first. Stock not reserved
+// goes to the oldest lines; stock already allocated to a requisition and quantities on open purchase
+// orders for a line count as covering it. Quantities are in the line's unit.
+async function getPurchaseCandidates() {
+  const requisitions = (await Promise.all(REQUISITION_ISSUE_STATUSES.map(status => getRequisitions({ status }))))
+    .flat()
+    .sort((a, b) => a.requestDate.localeCompare(b.requestDate));
+  const lines = requisitions.flatMap(requisition => requisition.items
+    .filter(line => line.outstandingQuantity > 0 && line.inventoryItemId)
+    .map(line => ({ requisition, line })));
+  if (lines.length === 0) {
+    return [];
+  }
+  
+  const itemIds = [...new Set(lines.map(({ line }) => line.inventoryItemId))];
+  const items = await db.allAsync(`SELECT * FROM inventory_items WHERE id IN (${itemIds.map(() => '?').join(', ')})`, itemIds);
+  const reserved = await getReservedQuantities(itemIds);
+  const available = Object.fromEntries(items.map(item => [item.id, Math.max(0, roundQuantity(item.quantity - (reserved[item.id] || 0)))]));
+  const allocations = await db.allAsync(
+    `SELECT projectId AS requisitionId, inventoryItemId, reservedQuantity - consumedQuantity AS quantity
+    FROM inventory_reservations
+    WHERE referenceType = ? AND status = 'active'`,
+    [REQUISITION_REFERENCE_TYPE]
+  );
+  const allocated = new Map(allocations.map(row => [`${row.requisitionId}:${row.inventoryItemId}`, row.quantity]));
+  
+  const candidates = [];
+  for (const { requisition, line } of lines) {
+    const item = items.find(candidate => candidate.id === line.inventoryItemId);
+    const factor = line.unitMeasurement === item.unitMeasurement ? 1 : await getConversionFactor(item, line.unitMeasurement);
+    const onOrderQuantity = roundQuantity(line.purchaseOrders
+      .filter(order => OPEN_PURCHASE_ORDER_STATUSES.includes(order.status))
+      .reduce((sum, order) => sum + order.quantity, 0));
+    
+    let needed = roundQuantity((line.outstandingQuantity - onOrderQuantity) * factor);
+    const allocationKey = `${requisition.id}:${item.id}`;
+    const fromAllocation = Math.max(0, Math.min(needed, allocated.get(allocationKey) || 0));
+    allocated.set(allocationKey, roundQuantity((allocated.get(allocationKey) || 0) - fromAllocation));
+    needed = roundQuantity(needed - fromAllocation);
+    const fromStock = Math.max(0, Math.min(needed, available[item.id]));
+    available[item.id] = roundQuantity(available[item.id] - fromStock);
+    const shortQuantity = roundQuantity((needed - fromStock) / factor);
+    if (shortQuantity <= 0) {
+      continue;
     }
-  );
-});
+    
+    candidates.push({
+      requisitionId: requisition.id,
+      requestNumber: requisition.requestNumber,
+      requester: requisition.requester,
+      department: requisition.department,
+      requestDate: requisition.requestDate,
+      lineId: line.id,
+      itemId: line.itemId,
+      itemName: line.itemName,
+      supplier: item.supplier || '',
+      unitMeasurement: line.unitMeasurement,
+      outstandingQuantity: line.outstandingQuantity,
+      onOrderQuantity,
+      shortQuantity
+    });
+  }
+  return candidates;
+}
 
-app.put('/api/suppliers/:id', (req, res) => {
-  const supplierId = req.params.id;
+// Order the given requisition lines on one draft purchase order per supplier, in whole purchase units,
+// keeping each line's link to the order. Quantities default to the line's shortage. Must be called
+// inside db.runInTransaction.
+async function createRequisitionPurchaseOrders(selectedLines) {
+  if (!Array.isArray(selectedLines) || selectedLines.length === 0) {
+    throw createHttpError(400, 'Select at least one requisition line to order');
+  }
   
-  // Check if supplier exists
-  db.get('SELECT * FROM suppliers WHERE id = ?', [supplierId], (err, supplier) => {
-    if (err) {
-      console.error('❌ Error checking supplier:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+  const candidates = await getPurchaseCandidates();
+  const bySupplier = new Map();
+  for (const selected of selectedLines) {
+    const candidate = candidates.find(line => line.lineId === selected.id);
+    if (!candidate) {
+      throw createHttpError(400, 'A selected requisition line is no longer short of stock');
     }
-    
-    if (!supplier) {
-      return res.status(404).json({ error: 'Supplier not found' });
+    const quantity = selected.quantity === undefined ? candidate.shortQuantity : roundQuantity(Number(selected.quantity));
+    const maxQuantity = roundQuantity(candidate.outstandingQuantity - candidate.onOrderQuantity);
+    if (!(quantity > 0) || quantity > maxQuantity) {
+      throw createHttpError(400, `Order quantity of ${candidate.itemId} on ${candidate.requestNumber} must be greater than zero and at most ${maxQuantity}`);
+    }
+    if (!candidate.supplier) {
+      throw createHttpError(400, `Set a supplier on ${candidate.itemId} to order it`);
     }
     
-    const isActive = req.body.isActive !== undefined ? (req.body.isActive ? 1 : 0) : supplier.isActive;
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE itemId = ?', [candidate.itemId]);
+    const factor = candidate.unitMeasurement === item.unitMeasurement ? 1 : await getConversionFactor(item, candidate.unitMeasurement);
+    const lines = bySupplier.get(candidate.supplier) || [];
+    lines.push({ candidate, item, stockQuantity: roundQuantity(quantity * factor) });
+    bySupplier.set(candidate.supplier, lines);
+  }
+  
+  const purchaseOrderIds = [];
+  for (const [supplier, lines] of bySupplier) {
+    const now = new Date().toISOString();
+    const po = {
+      id: generateId(),
+      poNumber: await nextDocumentNumber('purchase_orders', 'poNumber', 'PO')
+    };
     
-    db.run(
-      `UPDATE suppliers SET
-        name = COALESCE(?, name),
-        contactPerson = COALESCE(?, contactPerson),
-        phone = COALESCE(?, phone),
-        email = COALESCE(?, email),
-        address = COALESCE(?, address),
-        isActive = ?
-      WHERE id = ?`,
-      [
-        req.body.name,
-        req.body.contactPerson,
-        req.body.phone,
-        req.body.email,
-        req.body.address,
-        isActive,
-        supplierId
-      ],
-      function(err) {
-        if (err) {
-          console.error('❌ Error updating supplier:', err);
-          return res.status(500).json({ error: 'Internal server error' });
-        }
-        
-        // Get the updated supplier
-        db.get('SELECT * FROM suppliers WHERE id = ?', [supplierId], (err, updatedSupplier) => {
-          if (err) {
-            console.error('❌ Error fetching updated supplier:', err);
-            return res.status(500).json({ error: 'Internal server error' });
-          }
-          
-          res.json(updatedSupplier);
-        });
-      }
+    const orderItems = [];
+    for (const item of [...new Map(lines.map(line => [line.item.id, line.item])).values()]) {
+      const stockQuantity = lines
+        .filter(line => line.item.id === item.id)
+        .reduce((sum, line) => sum + line.stockQuantity, 0);
+      const purchaseUnit = item.purchaseUnit || item.unitMeasurement;
+      const purchaseFactor = purchaseUnit === item.unitMeasurement ? 1 : await getConversionFactor(item, purchaseUnit);
+      const quantity = Math.ceil(roundQuantity(stockQuantity / purchaseFactor));
+      const unitCost = roundQuantity(item.unitCost * purchaseFactor);
+      orderItems.push({ itemId: item.itemId, itemName: item.name, quantity, unit: purchaseUnit, unitCost, totalCost: roundMoney(quantity * unitCost) });
+    }
+    const subtotal = roundMoney(orderItems.reduce((sum, line) => sum + line.totalCost, 0));
+    const tax = roundMoney(subtotal * 0.1); // 10% tax, as on the Purchase Orders page
+    const requestNumbers = [...new Set(lines.map(line => line.candidate.requestNumber))];
+    
+    await db.runAsync(
+      `INSERT INTO purchase_orders (id, poNumber, supplier, status, subtotal, tax, total, orderDate, notes, createdAt, updatedAt)
+      VALUES (?, ?, ?, 'draft', ?, ?, ?, ?, ?, ?, ?)`,
+      [po.id, po.poNumber, supplier, subtotal, tax, roundMoney(subtotal + tax), now, `Ordered for requisitions ${requestNumbers.join(', ')}`, now, now]
     );
-  });
-});
+    for (const line of orderItems) {
+      await db.runAsync(
+        'INSERT INTO purchase_order_items (id, poId, itemId, itemName, quantity, unit, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [generateId(), po.id, line.itemId, line.itemName, line.quantity, line.unit, line.unitCost, line.totalCost]
+      );
+    }
+    for (const { candidate, item, stockQuantity } of lines) {
+      await db.runAsync(
+        `INSERT INTO requisition_purchase_links (id, requisitionId, requisitionItemId, poId, itemId, quantity, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [generateId(), candidate.requisitionId, candidate.lineId, po.id, item.itemId, stockQuantity, now]
+      );
+    }
+    
+    console.log(`🛒 Draft ${po.poNumber} for ${supplier} created from requisitions ${requestNumbers.join(', ')}`);
+    purchaseOrderIds.push(po.id);
+  }
+  return purchaseOrderIds;
+}
 
-app.delete('/api/suppliers/:id', (req, res) => {
-  const supplierId = req.params.id;
+// Allocate a received purchase order's stock to the requisition lines it was ordered for, as a reservation
+// held by the requisition, and notify each requester of what was set aside. `received` is the quantity
+// the receipt brought in per inventory item, in stock units; allocation comes only out of that, limited to
+// what is still outstanding and to stock not reserved elsewhere. Links nothing was allocated to stay open.
+// Must be called inside db.runInTransaction.
+async function allocatePurchaseOrderToRequisitions(po, received) {
+  const links = await db.allAsync(
+    `SELECT l.*, ri.inventoryItemId, ri.itemName, ri.unitMeasurement, ri.approvedQuantity, ri.issuedQuantity,
+      r.requestNumber, r.requester, r.createdBy, r.status
+    FROM requisition_purchase_links l
+    JOIN requisition_items ri ON ri.id = l.requisitionItemId
+    JOIN requisitions r ON r.id = l.requisitionId
+    WHERE l.poId = ? AND l.allocatedAt IS NULL
+    ORDER BY l.createdAt`,
+    [po.id]
+  );
   
-  // Check if supplier exists
-  db.get('SELECT * FROM suppliers WHERE id = ?', [supplierId], (err, supplier) => {
-    if (err) {
-      console.error('❌ Error checking supplier:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+  const now = new Date().toISOString();
+  const remaining = new Map(received);
+  const byRequisition = new Map();
+  for (const link of links) {
+    const item = link.inventoryItemId ? await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [link.inventoryItemId]) : null;
+    if (!item || !REQUISITION_ISSUE_STATUSES.includes(link.status) || !(remaining.get(item.id) > 0)) {
+      continue;
     }
     
-    if (!supplier) {
-      return res.status(404).json({ error: 'Supplier not found' });
+    const factor = link.unitMeasurement === item.unitMeasurement ? 1 : await getConversionFactor(item, link.unitMeasurement);
+    const reservation = await db.getAsync(
+      `SELECT * FROM inventory_reservations
+      WHERE inventoryItemId = ? AND projectId = ? AND referenceType = ? AND status = 'active'`,
+      [item.id, link.requisitionId, REQUISITION_REFERENCE_TYPE]
+    );
+    const alreadyAllocated = reservation ? reservation.reservedQuantity - reservation.consumedQuantity : 0;
+    const outstanding = roundQuantity(getOutstandingQuantity(link) * factor - alreadyAllocated);
+    const reserved = await getReservedQuantities([item.id]);
+    const available = roundQuantity(item.quantity - (reserved[item.id] || 0));
+    const allocatedQuantity = Math.max(0, roundQuantity(Math.min(link.quantity, outstanding, available, remaining.get(item.id))));
+    if (allocatedQuantity <= 0) {
+      continue;
     }
     
-    db.run('DELETE FROM suppliers WHERE id = ?', [supplierId], function(err) {
-      if (err) {
-        console.error('❌ Error deleting supplier:', err);
-        return res.status(500).json({ error: 'Internal server error' });
-      }
-      
-      res.json({ success: true });
+    if (reservation) {
+      await db.runAsync(
+        'UPDATE inventory_reservations SET requiredQuantity = ?, reservedQuantity = ?, updatedAt = ? WHERE id = ?',
+        [roundQuantity(reservation.requiredQuantity + link.quantity), roundQuantity(reservation.reservedQuantity + allocatedQuantity), now, reservation.id]
+      );
+    } else {
+      await db.runAsync(
+        `INSERT INTO inventory_reservations (
+          id, inventoryItemId, projectId, projectName, referenceType, requiredQuantity, reservedQuantity,
+          consumedQuantity, status, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, 'active', ?, ?)`,
+        [generateId(), item.id, link.requisitionId, `Requisition ${link.requestNumber}`, REQUISITION_REFERENCE_TYPE,
+          link.quantity, allocatedQuantity, now, now]
+      );
+    }
+    await db.runAsync(
+      'UPDATE requisition_purchase_links SET allocatedQuantity = ?, allocatedAt = ? WHERE id = ?',
+      [allocatedQuantity, now, link.id]
+    );
+    remaining.set(item.id, roundQuantity(remaining.get(item.id) - allocatedQuantity));
+    
+    const entry = byRequisition.get(link.requisitionId) || { link, lines: [] };
+    entry.lines.push(`${link.itemName}: ${allocatedQuantity} of ${link.quantity} ${item.unitMeasurement} set aside`);
+    byRequisition.set(link.requisitionId, entry);
+  }
+  
+  for (const [requisitionId, { link, lines }] of byRequisition) {
+    await notifyRequester(link, {
+      title: `${po.poNumber} received for ${link.requestNumber}`,
+      message: `Stock ordered for your requisition has arrived.\n${lines.join('\n')}`,
+      referenceType: REQUISITION_REFERENCE_TYPE,
+      referenceId: requisitionId
     });
-  });
+  }
+  if (byRequisition.size > 0) {
+    console.log(`📦 ${po.poNumber} allocated to ${byRequisition.size} requisition(s)`);
+  }
+}
+
+app.get('/api/requisitions', async (req, res) => {
+  try {
+    res.json(await getRequisitions({ status: req.query.status }));
+  } catch (err) {
+    console.error('❌ Error fetching requisitions:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-// Departments routes
-app.get('/api/departments', (req, res) => {
-  console.log('🏢 Departments requested');
-  db.all('SELECT * FROM departments', (err, rows) => {
-    if (err) {
-      console.error('❌ Error fetching departments:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+// Backorders: lines of partly issued requisitions with quantity still to issue, and the stock now on hand
+app.get('/api/requisitions/backorders', async (req, res) => {
+  try {
+    const requisitions = await getRequisitions({ status: 'partially_issued' });
+    res.json(requisitions.flatMap(requisition => requisition.items
+      .filter(line => line.outstandingQuantity > 0)
+      .map(line => ({
+        requisitionId: requisition.id,
+        requestNumber: requisition.requestNumber,
+        requester: requisition.requester,
+        department: requisition.department,
+        lineId: line.id,
+        itemId: line.itemId,
+        itemName: line.itemName,
+        unitMeasurement: line.unitMeasurement,
+        approvedQuantity: line.approvedQuantity,
+        issuedQuantity: line.issuedQuantity,
+        outstandingQuantity: line.outstandingQuantity,
+        stockOnHand: line.stockOnHand,
+        canIssue: line.stockOnHand !== null && line.stockOnHand > 0
+      }))
+    ));
+  } catch (err) {
+    console.error('❌ Error fetching requisition backorders:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/requisitions/purchase-candidates', async (req, res) => {
+  try {
+    res.json(await getPurchaseCandidates());
+  } catch (err) {
+    console.error('❌ Error fetching requisition lines to purchase:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/requisitions/purchase-orders', async (req, res) => {
+  try {
+    const ids = await db.runInTransaction(() => createRequisitionPurchaseOrders(req.body.lines));
+    res.status(201).json(await Promise.all(ids.map(id => getPurchaseOrder(id))));
+  } catch (err) {
+    console.error('❌ Error creating purchase orders from requisitions:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/requisitions/:id', async (req, res) => {
+  try {
+    res.json(await getRequisition(req.params.id));
+  } catch (err) {
+    console.error('❌ Error fetching requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
     }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/requisitions', async (req, res) => {
+  try {
+    const header = parseRequisitionHeader(req.body);
+    const id = await db.runInTransaction(() => createRequisition(header, req.body.items, { createdBy: req.body.createdBy }));
     
-    // Convert isActive from integer to boolean for frontend
-    const departments = rows.map(dept => ({
-      ...dept,
-      isActive: dept.isActive === 1
-    }));
+    res.status(201).json(await getRequisition(id));
+  } catch (err) {
+    console.error('❌ Error creating requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Only drafts can be edited; submitted requisitions are decided on as they were sent
+app.put('/api/requisitions/:id', async (req, res) => {
+  try {
+    await db.runInTransaction(async () => {
+      await getRequisitionInStatus(req.params.id, ['draft'], 'edited');
+      const header = parseRequisitionHeader(req.body);
+      
+      await db.runAsync(
+        `UPDATE requisitions SET requester = ?, department = ?, orderNumber = ?, bomNumber = ?, requireSingleLot = ?, notes = ?, updatedAt = ?
+        WHERE id = ?`,
+        [header.requester, header.department, header.orderNumber, header.bomNumber, header.requireSingleLot, header.notes,
+          new Date().toISOString(), req.params.id]
+      );
+      await saveRequisitionItems(req.params.id, req.body.items);
+    });
     
-    console.log('✅ Departments sent:', departments.length);
-    res.json(departments);
-  });
+    res.json(await getRequisition(req.params.id));
+  } catch (err) {
+    console.error('❌ Error updating requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.get('/api/departments/:id', (req, res) => {
-  db.get('SELECT * FROM departments WHERE id = ?', [req.params.id], (err, department) => {
-    if (err) {
-      console.error('❌ Error fetching department:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+app.delete('/api/requisitions/:id', async (req, res) => {
+  try {
+    await db.runInTransaction(async () => {
+      await getRequisitionInStatus(req.params.id, ['draft', 'rejected'], 'deleted');
+      await db.runAsync("DELETE FROM approval_steps WHERE documentType = 'requisition' AND documentId = ?", [req.params.id]);
+      await db.runAsync('DELETE FROM requisitions WHERE id = ?', [req.params.id]);
+    });
+    
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error deleting requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
     }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Submitting builds the approval chain from the requested value, department and item categories
+app.post('/api/requisitions/:id/submit', async (req, res) => {
+  try {
+    await db.runInTransaction(async () => {
+      const requisition = await getRequisitionInStatus(req.params.id, ['draft'], 'submitted');
+      const lines = await db.allAsync(
+        `SELECT ri.requestedQuantity, ri.unitCost, i.category
+        FROM requisition_items ri
+        LEFT JOIN inventory_items i ON i.id = ri.inventoryItemId
+        WHERE ri.requisitionId = ?`,
+        [requisition.id]
+      );
+      await createApprovalSteps('requisition', requisition.id, {
+        amount: roundMoney(lines.reduce((sum, line) => sum + line.requestedQuantity * line.unitCost, 0)),
+        department: requisition.department,
+        categories: lines.map(line => line.category).filter(Boolean)
+      });
+      
+      const now = new Date().toISOString();
+      await db.runAsync(
+        "UPDATE requisitions SET status = 'pending', submittedAt = ?, updatedAt = ? WHERE id = ?",
+        [now, now, req.params.id]
+      );
+    });
     
-    if (department) {
-      // Convert isActive from integer to boolean for frontend
-      department.isActive = department.isActive === 1;
-      res.json(department);
-    } else {
-      res.status(404).json({ error: 'Department not found' });
+    const requisition = await getRequisition(req.params.id);
+    console.log(`✅ Requisition ${requisition.requestNumber} submitted for approval`);
+    res.json(requisition);
+  } catch (err) {
+    console.error('❌ Error submitting requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
     }
-  });
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.post('/api/departments', (req, res) => {
-  const newDepartment = {
-    id: Date.now().toString(),
-    ...req.body,
-    isActive: req.body.isActive !== false ? 1 : 0,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString()
-  };
+// Approve the requisition's current approval step; it is approved once its last step is.
+// Each step may cut line quantities further, down to zero; lines left out keep their quantity.
+app.post('/api/requisitions/:id/approve', async (req, res) => {
+  const { approvedBy, items = [], comments } = req.body;
   
-  db.run(
-    'INSERT INTO departments (id, name, code, description, manager, costCenter, isActive, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-    [
-      newDepartment.id,
-      newDepartment.name,
-      newDepartment.code,
-      newDepartment.description,
-      newDepartment.manager,
-      newDepartment.costCenter,
-      newDepartment.isActive,
-      newDepartment.createdAt,
-      newDepartment.updatedAt
-    ],
-    function(err) {
-      if (err) {
-        console.error('❌ Error creating department:', err);
-        return res.status(500).json({ error: 'Internal server error' });
+  try {
+    await db.runInTransaction(async () => {
+      await getRequisitionInStatus(req.params.id, ['pending'], 'approved');
+      const step = await getCurrentApprovalStep('requisition', req.params.id, approvedBy);
+      const lines = await db.allAsync('SELECT * FROM requisition_items WHERE requisitionId = ?', [req.params.id]);
+      
+      const approvedQuantities = lines.map(line => {
+        const approval = items.find(item => item.id === line.id);
+        const currentQuantity = line.approvedQuantity ?? line.requestedQuantity;
+        const approvedQuantity = approval ? Number(approval.approvedQuantity) : currentQuantity;
+        if (!Number.isFinite(approvedQuantity) || approvedQuantity < 0 || approvedQuantity > currentQuantity) {
+          throw createHttpError(400, `Approved quantity of ${line.itemId} must be between 0 and ${currentQuantity}`);
+        }
+        return { id: line.id, approvedQuantity: roundQuantity(approvedQuantity) };
+      });
+      if (approvedQuantities.every(line => line.approvedQuantity === 0)) {
+        throw createHttpError(400, 'No quantity approved; reject the requisition instead');
       }
       
-      // Convert isActive back to boolean for frontend
-      newDepartment.isActive = newDepartment.isActive === 1;
-      res.status(201).json(newDepartment);
+      for (const line of approvedQuantities) {
+        await db.runAsync('UPDATE requisition_items SET approvedQuantity = ? WHERE id = ?', [line.approvedQuantity, line.id]);
+      }
+      const now = new Date().toISOString();
+      if (await decideApprovalStep(step, 'approved', approvedBy, comments)) {
+        await db.runAsync(
+          "UPDATE requisitions SET status = 'approved', approvedBy = ?, approvalDate = ?, updatedAt = ? WHERE id = ?",
+          [approvedBy, now, now, req.params.id]
+        );
+      } else {
+        await db.runAsync('UPDATE requisitions SET updatedAt = ? WHERE id = ?', [now, req.params.id]);
+      }
+    });
+    
+    const requisition = await getRequisition(req.params.id);
+    console.log(`✅ Requisition ${requisition.requestNumber} ${requisition.status === 'approved' ? 'approved' : 'approval step completed'}`);
+    res.json(requisition);
+  } catch (err) {
+    console.error('❌ Error approving requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
     }
-  );
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.put('/api/departments/:id', (req, res) => {
-  const departmentId = req.params.id;
+// Rejecting at any step rejects the requisition
+app.post('/api/requisitions/:id/reject', async (req, res) => {
+  const { rejectedBy, reason } = req.body;
   
-  // Check if department exists
-  db.get('SELECT * FROM departments WHERE id = ?', [departmentId], (err, department) => {
-    if (err) {
-      console.error('❌ Error checking department:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+  try {
+    if (!reason || !reason.trim()) {
+      throw createHttpError(400, 'A reason is required to reject a requisition');
     }
     
-    if (!department) {
-      return res.status(404).json({ error: 'Department not found' });
-    }
+    await db.runInTransaction(async () => {
+      await getRequisitionInStatus(req.params.id, ['pending'], 'rejected');
+      const step = await getCurrentApprovalStep('requisition', req.params.id, rejectedBy);
+      await decideApprovalStep(step, 'rejected', rejectedBy, reason.trim());
+      
+      const now = new Date().toISOString();
+      await db.runAsync(
+        "UPDATE requisitions SET status = 'rejected', rejectedBy = ?, rejectedAt = ?, rejectionReason = ?, updatedAt = ? WHERE id = ?",
+        [rejectedBy, now, reason.trim(), now, req.params.id]
+      );
+    });
     
-    const isActive = req.body.isActive !== undefined ? (req.body.isActive ? 1 : 0) : department.isActive;
-    const updatedAt = new Date().toISOString();
+    const requisition = await getRequisition(req.params.id);
+    console.log(`✅ Requisition ${requisition.requestNumber} rejected`);
+    res.json(requisition);
+  } catch (err) {
+    console.error('❌ Error rejecting requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Pick task of an approved or partly issued requisition
+app.get('/api/requisitions/:id/pick-list', async (req, res) => {
+  try {
+    await getRequisitionInStatus(req.params.id, REQUISITION_ISSUE_STATUSES, 'picked');
+    const requisition = await getRequisition(req.params.id);
+    res.json({
+      requisitionId: requisition.id,
+      requestNumber: requisition.requestNumber,
+      requireSingleLot: requisition.requireSingleLot,
+      lines: await getRequisitionPickList(requisition)
+    });
+  } catch (err) {
+    console.error('❌ Error fetching requisition pick list:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Issue picked quantities (`items`: `[{ id, quantity, locationId, lotNumber }]`), all or none. Lines left
+// out keep their outstanding quantity; the requisition is fulfilled once nothing is outstanding.
+app.post('/api/requisitions/:id/issue', async (req, res) => {
+  const { issuedBy, items } = req.body;
+  
+  try {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw createHttpError(400, 'No quantities to issue');
+    }
+    if (new Set(items.map(item => item.id)).size !== items.length) {
+      throw createHttpError(400, 'Each line can only be issued once per request');
+    }
     
-    db.run(
-      `UPDATE departments SET
-        name = COALESCE(?, name),
-        code = COALESCE(?, code),
-        description = COALESCE(?, description),
-        manager = COALESCE(?, manager),
-        costCenter = COALESCE(?, costCenter),
-        isActive = ?,
-        updatedAt = ?
-      WHERE id = ?`,
-      [
-        req.body.name,
-        req.body.code,
-        req.body.description,
-        req.body.manager,
-        req.body.costCenter,
-        isActive,
-        updatedAt,
-        departmentId
-      ],
-      function(err) {
-        if (err) {
-          console.error('❌ Error updating department:', err);
-          return res.status(500).json({ error: 'Internal server error' });
+    const transactions = await db.runInTransaction(async () => {
+      await getRequisitionInStatus(req.params.id, REQUISITION_ISSUE_STATUSES, 'issued');
+      const requisition = await getRequisition(req.params.id);
+      const issued = [];
+      for (const issue of items) {
+        const line = requisition.items.find(line => line.id === issue.id);
+        if (!line) {
+          throw createHttpError(400, `Line ${issue.id} is not on requisition ${requisition.requestNumber}`);
         }
-        
-        // Get the updated department
-        db.get('SELECT * FROM departments WHERE id = ?', [departmentId], (err, updatedDepartment) => {
-          if (err) {
-            console.error('❌ Error fetching updated department:', err);
-            return res.status(500).json({ error: 'Internal server error' });
-          }
-          
-          // Convert isActive from integer to boolean for frontend
-          updatedDepartment.isActive = updatedDepartment.isActive === 1;
-          res.json(updatedDepartment);
-        });
+        issued.push(...await issueRequisitionLine(requisition, line, { ...issue, issuedBy }));
       }
-    );
+      
+      const lines = await db.allAsync('SELECT approvedQuantity, issuedQuantity FROM requisition_items WHERE requisitionId = ?', [req.params.id]);
+      const isFulfilled = lines.every(line => getOutstandingQuantity(line) === 0);
+      const now = new Date().toISOString();
+      await db.runAsync(
+        'UPDATE requisitions SET status = ?, fulfilledAt = ?, updatedAt = ? WHERE id = ?',
+        [isFulfilled ? 'fulfilled' : 'partially_issued', isFulfilled ? now : null, now, req.params.id]
+      );
+      return issued;
+    });
+    
+    const requisition = await getRequisition(req.params.id);
+    console.log(`📦 Requisition ${requisition.requestNumber} ${requisition.status === 'fulfilled' ? 'fulfilled' : 'partially issued'}`);
+    res.status(201).json({ requisition, transactions });
+  } catch (err) {
+    console.error('❌ Error issuing requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Material return routes
+// Unused material issued on a requisition or to a cabinet project is returned on a return document.
+// It goes back into stock and its issue cost is credited to the cost center of the department that
+// had it. Returns are posted stock movements, so they are never edited or deleted.
+const MATERIAL_RETURN_REFERENCE_TYPES = ['requisition', 'project'];
+const RETURN_CONDITIONS = ['new', 'used', 'damaged'];
+
+// The requisition or project a return refers to, with the ledger reference its issues were posted under
+async function getReturnReference(referenceType, referenceId) {
+  if (!MATERIAL_RETURN_REFERENCE_TYPES.includes(referenceType)) {
+    throw createHttpError(400, `Reference type must be one of: ${MATERIAL_RETURN_REFERENCE_TYPES.join(', ')}`);
+  }
+  
+  if (referenceType === 'requisition') {
+    const requisition = await db.getAsync('SELECT * FROM requisitions WHERE id = ?', [referenceId]);
+    if (!requisition) {
+      throw createHttpError(404, 'Requisition not found');
+    }
+    return {
+      referenceNumber: requisition.requestNumber,
+      transactionReferenceType: REQUISITION_REFERENCE_TYPE,
+      transactionReferenceNumber: requisition.requestNumber,
+      department: requisition.department
+    };
+  }
+  
+  const project = await db.getAsync('SELECT * FROM cabinet_projects WHERE id = ?', [referenceId]);
+  if (!project) {
+    throw createHttpError(404, 'Project not found');
+  }
+  return {
+    referenceNumber: project.name,
+    transactionReferenceType: PROJECT_REFERENCE_TYPE,
+    transactionReferenceNumber: project.id,
+    department: null
+  };
+}
+
+// Items issued against a reference in stock units, less what was returned against it already, with the
+// average cost they were issued at and the lots they came from
+async function getReturnableItems(referenceType, referenceId, reference) {
+  const issued = await db.allAsync(
+    `SELECT t.inventoryItemId, i.itemId, i.name AS itemName, i.unitMeasurement, i.isLotTracked,
+      SUM(-t.quantity) AS issuedQuantity, SUM(-t.quantity * t.unitCost) AS issuedCost,
+      GROUP_CONCAT(DISTINCT t.lotNumber) AS lotNumbers
+    FROM inventory_transactions t
+    JOIN inventory_items i ON i.id = t.inventoryItemId
+    WHERE t.type = 'issue' AND t.referenceType = ? AND t.referenceNumber = ?
+    GROUP BY t.inventoryItemId
+    ORDER BY i.itemId`,
+    [reference.transactionReferenceType, reference.transactionReferenceNumber]
+  );
+  const returned = await db.allAsync(
+    `SELECT ri.inventoryItemId, SUM(ri.stockQuantity) AS returnedQuantity
+    FROM material_return_items ri
+    JOIN material_returns r ON r.id = ri.returnId
+    WHERE r.referenceType = ? AND r.referenceId = ?
+    GROUP BY ri.inventoryItemId`,
+    [referenceType, referenceId]
+  );
+  
+  return issued.map(({ issuedCost, lotNumbers, ...item }) => {
+    const returnedQuantity = roundQuantity(returned.find(row => row.inventoryItemId === item.inventoryItemId)?.returnedQuantity || 0);
+    return {
+      ...item,
+      isLotTracked: item.isLotTracked === 1,
+      issuedQuantity: roundQuantity(item.issuedQuantity),
+      returnedQuantity,
+      returnableQuantity: roundQuantity(Math.max(0, item.issuedQuantity - returnedQuantity)),
+      unitCost: item.issuedQuantity > 0 ? roundQuantity(issuedCost / item.issuedQuantity) : 0,
+      lotNumbers: lotNumbers ? lotNumbers.split(',') : []
+    };
   });
-});
+}
 
-app.delete('/api/departments/:id', (req, res) => {
-  const departmentId = req.params.id;
+async function getMaterialReturns({ id, referenceType, referenceId, costCenter } = {}) {
+  const conditions = [];
+  const params = [];
+  for (const [column, value] of Object.entries({ id, referenceType, referenceId, costCenter })) {
+    if (value) {
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+  const returns = await db.allAsync(
+    `SELECT * FROM material_returns ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''} ORDER BY createdAt DESC`,
+    params
+  );
+  if (returns.length === 0) {
+    return [];
+  }
   
-  // Check if department exists
-  db.get('SELECT * FROM departments WHERE id = ?', [departmentId], (err, department) => {
-    if (err) {
-      console.error('❌ Error checking department:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+  const lines = await db.allAsync(
+    `SELECT ri.*, l.code AS locationCode
+    FROM material_return_items ri
+    LEFT JOIN locations l ON l.id = ri.locationId
+    WHERE ri.returnId IN (${returns.map(() => '?').join(', ')})
+    ORDER BY ri.lineNumber`,
+    returns.map(materialReturn => materialReturn.id)
+  );
+  return returns.map(materialReturn => ({
+    ...materialReturn,
+    items: lines.filter(line => line.returnId === materialReturn.id)
+  }));
+}
+
+// Post a return: every line goes back into stock at its location and the return is credited with the
+// cost the material was issued at. Must be called inside db.runInTransaction.
+async function createMaterialReturn({ referenceType, referenceId, department, returnedBy, receivedBy, notes, items }) {
+  const reference = await getReturnReference(referenceType, referenceId);
+  if (!Array.isArray(items) || items.length === 0) {
+    throw createHttpError(400, 'A return needs at least one item');
+  }
+  // A project has no department of its own, so the returning department is named on the return
+  const returnDepartment = reference.department || (department && department.trim()) || null;
+  if (!returnDepartment) {
+    throw createHttpError(400, 'The department to credit is required');
+  }
+  const departmentRow = await db.getAsync('SELECT costCenter FROM departments WHERE name = ?', [returnDepartment]);
+  
+  const returnable = await getReturnableItems(referenceType, referenceId, reference);
+  const returnNumber = await nextDocumentNumber('material_returns', 'returnNumber', 'RET');
+  const lines = [];
+  for (const line of items) {
+    const issuedItem = returnable.find(item => item.itemId === line.itemId);
+    if (!issuedItem) {
+      throw createHttpError(400, `${line.itemId || 'The item'} was not issued on ${reference.referenceNumber}`);
+    }
+    const quantity = roundQuantity(Number(line.quantity));
+    if (!(quantity > 0)) {
+      throw createHttpError(400, `Return quantity of ${issuedItem.itemId} must be greater than zero`);
+    }
+    const condition = line.condition || 'new';
+    if (!RETURN_CONDITIONS.includes(condition)) {
+      throw createHttpError(400, `Condition must be one of: ${RETURN_CONDITIONS.join(', ')}`);
     }
     
-    if (!department) {
-      return res.status(404).json({ error: 'Department not found' });
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [issuedItem.inventoryItemId]);
+    const unitMeasurement = line.unitMeasurement || item.unitMeasurement;
+    const factor = unitMeasurement === item.unitMeasurement ? 1 : await getConversionFactor(item, unitMeasurement);
+    const stockQuantity = roundQuantity(quantity * factor);
+    // Several lines may return the same item, e.g. to different locations
+    const alreadyReturned = lines.filter(other => other.inventoryItemId === item.id).reduce((sum, other) => sum + other.stockQuantity, 0);
+    const remaining = roundQuantity(issuedItem.returnableQuantity - alreadyReturned);
+    if (stockQuantity > remaining) {
+      throw createHttpError(400, `Only ${remaining} ${item.unitMeasurement} of ${item.itemId} issued on ${reference.referenceNumber} can still be returned`);
+    }
+    const lotNumber = line.lotNumber ? String(line.lotNumber).trim().toUpperCase() : null;
+    if (item.isLotTracked && lotNumber && !issuedItem.lotNumbers.includes(lotNumber)) {
+      throw createHttpError(400, `Lot ${lotNumber} of ${item.itemId} was not issued on ${reference.referenceNumber}`);
     }
     
-    db.run('DELETE FROM departments WHERE id = ?', [departmentId], function(err) {
-      if (err) {
-        console.error('❌ Error deleting department:', err);
-        return res.status(500).json({ error: 'Internal server error' });
-      }
-      
-      res.json({ success: true });
+    const unitCost = roundQuantity(issuedItem.unitCost * factor);
+    const transaction = await postInventoryTransaction(item.id, {
+      type: 'return',
+      quantity,
+      unit: unitMeasurement,
+      unitCost,
+      locationId: line.locationId,
+      lotNumber,
+      referenceType: 'material_return',
+      referenceNumber: returnNumber,
+      notes: `Returned from ${reference.referenceNumber} (${condition})`,
+      performedBy: receivedBy
     });
-  });
+    lines.push({
+      inventoryItemId: item.id,
+      itemId: item.itemId,
+      itemName: item.name,
+      quantity,
+      unitMeasurement,
+      stockQuantity,
+      condition,
+      locationId: transaction.locationId,
+      lotNumber: transaction.lotNumber,
+      unitCost,
+      creditAmount: roundMoney(quantity * unitCost)
+    });
+  }
+  
+  const id = generateId();
+  await db.runAsync(
+    `INSERT INTO material_returns (id, returnNumber, referenceType, referenceId, referenceNumber, department, costCenter,
+      creditAmount, returnedBy, receivedBy, notes, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id, returnNumber, referenceType, referenceId, reference.referenceNumber, returnDepartment,
+      departmentRow ? departmentRow.costCenter || null : null,
+      roundMoney(lines.reduce((sum, line) => sum + line.creditAmount, 0)),
+      returnedBy || null, receivedBy || null, notes || null, new Date().toISOString()
+    ]
+  );
+  for (const [index, line] of lines.entries()) {
+    await db.runAsync(
+      `INSERT INTO material_return_items (id, returnId, inventoryItemId, itemId, itemName, quantity, unitMeasurement, stockQuantity,
+        condition, locationId, lotNumber, unitCost, creditAmount, lineNumber)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        generateId(), id, line.inventoryItemId, line.itemId, line.itemName, line.quantity, line.unitMeasurement, line.stockQuantity,
+        line.condition, line.locationId, line.lotNumber, line.unitCost, line.creditAmount, index + 1
+      ]
+    );
+  }
+  return id;
+}
+
+app.get('/api/material-returns', async (req, res) => {
+  try {
+    const { referenceType, referenceId, costCenter } = req.query;
+    res.json(await getMaterialReturns({ referenceType, referenceId, costCenter }));
+  } catch (err) {
+    console.error('❌ Error fetching material returns:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-// Requesters routes
-app.get('/api/requesters', (req, res) => {
-  console.log('👤 Requesters requested');
-  db.all('SELECT * FROM requesters', (err, rows) => {
-    if (err) {
-      console.error('❌ Error fetching requesters:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+// What can still be returned against a requisition or project
+app.get('/api/material-returns/returnable', async (req, res) => {
+  try {
+    const { referenceType, referenceId } = req.query;
+    const reference = await getReturnReference(referenceType, referenceId);
+    res.json({
+      referenceType,
+      referenceId,
+      referenceNumber: reference.referenceNumber,
+      department: reference.department,
+      items: await getReturnableItems(referenceType, referenceId, reference)
+    });
+  } catch (err) {
+    console.error('❌ Error fetching returnable materials:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
     }
-    
-    // Convert isActive from integer to boolean for frontend
-    const requesters = rows.map(requester => ({
-      ...requester,
-      isActive: requester.isActive === 1
-    }));
-    
-    console.log('✅ Requesters sent:', requesters.length);
-    res.json(requesters);
-  });
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.get('/api/requesters/:id', (req, res) => {
-  db.get('SELECT * FROM requesters WHERE id = ?', [req.params.id], (err, requester) => {
-    if (err) {
-      console.error('❌ Error fetching requester:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+// Return credits per cost center and department, optionally for returns made between two dates
+app.get('/api/material-returns/credits', async (req, res) => {
+  try {
+    const { from, to } = req.query;
+    const conditions = [];
+    const params = [];
+    if (from) {
+      conditions.push('createdAt >= ?');
+      params.push(from);
     }
-    
-    if (requester) {
-      // Convert isActive from integer to boolean for frontend
-      requester.isActive = requester.isActive === 1;
-      res.json(requester);
-    } else {
-      res.status(404).json({ error: 'Requester not found' });
+    if (to) {
+      conditions.push('createdAt < ?');
+      params.push(addDays(to, 1));
     }
-  });
+    res.json(await db.allAsync(
+      `SELECT costCenter, department, COUNT(*) AS returnCount, ROUND(SUM(creditAmount), 2) AS creditAmount
+      FROM material_returns
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      GROUP BY costCenter, department
+      ORDER BY costCenter, department`,
+      params
+    ));
+  } catch (err) {
+    console.error('❌ Error fetching return credits:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.post('/api/requesters', (req, res) => {
-  const newRequester = {
-    id: Date.now().toString(),
-    ...req.body,
-    isActive: req.body.isActive !== false ? 1 : 0,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString()
-  };
-  
-  db.run(
-    'INSERT INTO requesters (id, name, email, employeeId, department, position, phone, isActive, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-    [
-      newRequester.id,
-      newRequester.name,
-      newRequester.email,
-      newRequester.employeeId,
-      newRequester.department,
-      newRequester.position,
-      newRequester.phone,
-      newRequester.isActive,
-      newRequester.createdAt,
-      newRequester.updatedAt
-    ],
-    function(err) {
-      if (err) {
-        console.error('❌ Error creating requester:', err);
-        return res.status(500).json({ error: 'Internal server error' });
-      }
-      
-      // Convert isActive back to boolean for frontend
-      newRequester.isActive = newRequester.isActive === 1;
-      res.status(201).json(newRequester);
+app.get('/api/material-returns/:id', async (req, res) => {
+  try {
+    const [materialReturn] = await getMaterialReturns({ id: req.params.id });
+    if (!materialReturn) {
+      throw createHttpError(404, 'Material return not found');
     }
-  );
+    res.json(materialReturn);
+  } catch (err) {
+    console.error('❌ Error fetching material return:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.put('/api/requesters/:id', (req, res) => {
-  const requesterId = req.params.id;
-  
-  // Check if requester exists
-  db.get('SELECT * FROM requesters WHERE id = ?', [requesterId], (err, requester) => {
-    if (err) {
-      console.error('❌ Error checking requester:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+app.post('/api/material-returns', async (req, res) => {
+  try {
+    const id = await db.runInTransaction(() => createMaterialReturn(req.body));
+    const [materialReturn] = await getMaterialReturns({ id });
+    console.log(`↩️ Material return ${materialReturn.returnNumber} posted: ${materialReturn.creditAmount} credited to ${materialReturn.costCenter || materialReturn.department}`);
+    res.status(201).json(materialReturn);
+  } catch (err) {
+    console.error('❌ Error posting material return:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
     }
-    
-    if (!requester) {
-      return res.status(404).json({ error: 'Requester not found' });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Purchase orders still to be received; their quantities count towards the stock position
+const OPEN_PURCHASE_ORDER_STATUSES = ['draft', 'pending', 'approved', 'ordered'];
+const PURCHASE_ORDER_REFERENCE_TYPE = 'purchase_order';
+
+// Post a receipt into stock for every line of a purchase order that is an inventory item, in the line's
+// unit and at its cost. `receipts` may give a line (by `lineId`) a location, lot and expiry date; a
+// lot-tracked item received without a lot takes the PO number as its lot. Returns the quantity received
+// per inventory item id, in stock units. Must be called inside db.runInTransaction.
+async function postPurchaseOrderReceipts(po, receipts, performedBy) {
+  const received = new Map();
+  for (const line of po.items) {
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE itemId = ?', [line.itemId]);
+    if (!item || !(Number(line.quantity) > 0)) {
+      continue;
     }
-    
-    const isActive = req.body.isActive !== undefined ? (req.body.isActive ? 1 : 0) : requester.isActive;
-    const updatedAt = new Date().toISOString();
-    
-    db.run(
-      `UPDATE requesters SET
-        name = COALESCE(?, name),
-        email = COALESCE(?, email),
-        employeeId = COALESCE(?, employeeId),
-        department = COALESCE(?, department),
-        position = COALESCE(?, position),
-        phone = COALESCE(?, phone),
-        isActive = ?,
-        updatedAt = ?
-      WHERE id = ?`,
-      [
-        req.body.name,
-        req.body.email,
-        req.body.employeeId,
-        req.body.department,
-        req.body.position,
-        req.body.phone,
-        isActive,
-        updatedAt,
-        requesterId
-      ],
-      function(err) {
-        if (err) {
-          console.error('❌ Error updating requester:', err);
-          return res.status(500).json({ error: 'Internal server error' });
+    const details = receipts.find(receipt => receipt.lineId === line.id) || {};
+    const transaction = await postInventoryTransaction(item.id, {
+      type: 'receipt',
+      quantity: line.quantity,
+      unit: line.unit || undefined,
+      unitCost: line.unitCost === null ? undefined : line.unitCost,
+      locationId: details.locationId,
+      lotNumber: details.lotNumber || (item.isLotTracked ? po.poNumber : undefined),
+      expiryDate: details.expiryDate,
+      referenceType: PURCHASE_ORDER_REFERENCE_TYPE,
+      referenceNumber: po.poNumber,
+      notes: `Received on ${po.poNumber}`,
+      performedBy
+    });
+    received.set(item.id, roundQuantity((received.get(item.id) || 0) + transaction.quantity));
+  }
+  console.log(`📥 ${po.poNumber} received into stock`);
+  return received;
+}
+
+// Copy a received PO's lines into purchase history in stock units. Lines for items that are not in
+// inventory are skipped, and a PO received twice keeps its first history rows.
+async function recordPurchaseHistory(po, invoiceNumber) {
+  await db.runAsync(
+    `INSERT OR IGNORE INTO purchase_history (
+      id, inventoryItemId, itemId, poId, poNumber, supplier, purchaseDate,
+      quantity, unitPrice, totalPrice, invoiceNumber, createdAt
+    )
+    SELECT
+      'ph-' || poi.id, i.id, i.itemId, ?, ?, ?, ?,
+      poi.quantity * COALESCE(c.factor, 1), poi.unitCost / COALESCE(c.factor, 1), poi.totalCost, ?, ?
+    FROM purchase_order_items poi
+    JOIN inventory_items i ON i.itemId = poi.itemId
+    LEFT JOIN inventory_unit_conversions c ON c.inventoryItemId = i.id AND c.unit = poi.unit
+    WHERE poi.poId = ?`,
+    [po.id, po.poNumber, po.supplier, po.updatedAt, invoiceNumber || null, new Date().toISOString(), po.id]
+  );
+  console.log('🧾 Purchase history recorded for', po.poNumber);
+}
+
+// Demand forecasting
+// Consumption is the quantity issued per period, in stock units. Months are seasonal over a year
+// of 12 periods, weeks over a year of 52; history covers three and two years respectively.
+const FORECAST_PERIODS = {
+  month: { days: 30.4375, seasonLength: 12, historyPeriods: 36 },
+  week: { days: 7, seasonLength: 52, historyPeriods: 104 }
+};
+const FORECAST_BAND_Z = 1.96; // 95% band around the forecast
+const SAFETY_STOCK_Z = 1.65; // 95% cycle service level
+const DEFAULT_LEAD_TIME_DAYS = 14;
+
+// First day (UTC) of the month or Monday-based week containing a date, shifted by whole periods
+function periodStart(date, period, offset = 0) {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), period === 'month' ? 1 : date.getUTCDate()));
+  if (period === 'month') {
+    start.setUTCMonth(start.getUTCMonth() + offset);
+  } else {
+    start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7 + offset * 7);
+  }
+  return start;
+}
+
+const periodLabel = (start, period) => start.toISOString().slice(0, period === 'month' ? 7 : 10);
+
+const mean = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const rootMeanSquare = (errors) => errors.length > 0 ? Math.sqrt(mean(errors.map(error => error * error))) : 0;
+
+// Flat forecast at the mean of the last `window` periods; fit error from one-step-ahead forecasts
+function movingAverageForecast(series, horizon, window) {
+  if (series.length < window + 1) {
+    return null;
+  }
+  const errors = [];
+  for (let t = window; t < series.length; t++) {
+    errors.push(series[t] - mean(series.slice(t - window, t)));
+  }
+  const level = mean(series.slice(-window));
+  return { forecast: Array(horizon).fill(level), rmse: rootMeanSquare(errors) };
+}
+
+// Additive Holt-Winters with level, trend and seasonal components, started from the first two seasons
+function holtWinters(series, seasonLength, horizon, alpha, beta, gamma) {
+  const seasons = Math.floor(series.length / seasonLength);
+  const seasonAverages = Array.from({ length: seasons }, (_, season) =>
+    mean(series.slice(season * seasonLength, (season + 1) * seasonLength)));
+  const seasonals = Array.from({ length: seasonLength }, (_, i) =>
+    mean(seasonAverages.map((average, season) => series[season * seasonLength + i] - average)));
+  let level = seasonAverages[0];
+  let trend = (seasonAverages[1] - seasonAverages[0]) / seasonLength;
+
+  const errors = [];
+  series.forEach((actual, t) => {
+    const seasonal = seasonals[t % seasonLength];
+    // The first season only initialises the components, so it does not count towards the fit
+    if (t >= seasonLength) {
+      errors.push(actual - (level + trend + seasonal));
+    }
+    const previousLevel = level;
+    level = alpha * (actual - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals[t % seasonLength] = gamma * (actual - level) + (1 - gamma) * seasonal;
+  });
+
+  const forecast = Array.from({ length: horizon }, (_, h) =>
+    level + (h + 1) * trend + seasonals[(series.length + h) % seasonLength]);
+  return { forecast, rmse: rootMeanSquare(errors), alpha, beta, gamma };
+}
+
+// Holt-Winters with the smoothing factors that fit the history best; needs two full seasons
+function seasonalSmoothingForecast(series, seasonLength, horizon) {
+  if (series.length < seasonLength * 2) {
+    return null;
+  }
+  const factors = [0.1, 0.3, 0.5, 0.7, 0.9];
+  let best = null;
+  for (const alpha of factors) {
+    for (const beta of factors) {
+      for (const gamma of factors) {
+        const fit = holtWinters(series, seasonLength, horizon, alpha, beta, gamma);
+        if (!best || fit.rmse < best.rmse) {
+          best = fit;
         }
-        
-        // Get the updated requester
-        db.get('SELECT * FROM requesters WHERE id = ?', [requesterId], (err, updatedRequester) => {
-          if (err) {
-            console.error('❌ Error fetching updated requester:', err);
-            return res.status(500).json({ error: 'Internal server error' });
-          }
-          
-          // Convert isActive from integer to boolean for frontend
-          updatedRequester.isActive = updatedRequester.isActive === 1;
-          res.json(updatedRequester);
-        });
       }
-    );
-  });
-});
+    }
+  }
+  return best;
+}
 
-app.delete('/api/requesters/:id', (req, res) => {
-  const requesterId = req.params.id;
-  
-  // Check if requester exists
-  db.get('SELECT * FROM requesters WHERE id = ?', [requesterId], (err, requester) => {
-    if (err) {
-      console.error('❌ Error checking requester:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+// Average days from order to receipt over an item's recent purchase orders
+async function getItemLeadTimeDays(inventoryItemId) {
+  const row = await db.getAsync(
+    `SELECT AVG(julianday(ph.purchaseDate) - julianday(po.orderDate)) AS leadTimeDays, COUNT(*) AS receipts
+    FROM (
+      SELECT * FROM purchase_history WHERE inventoryItemId = ? ORDER BY purchaseDate DESC LIMIT 5
+    ) ph
+    JOIN purchase_orders po ON po.id = ph.poId
+    WHERE julianday(ph.purchaseDate) >= julianday(po.orderDate)`,
+    [inventoryItemId]
+  );
+  return row && row.receipts > 0 ? Math.max(1, Math.round(row.leadTimeDays)) : null;
+}
+
+// Forecast an item's consumption with both methods and derive a min/max from the better fit:
+// min covers forecast demand over the lead time plus safety stock, max adds one period of demand.
+async function buildDemandForecast(item, { period, horizon, window, leadTimeDays }) {
+  const settings = FORECAST_PERIODS[period];
+  const currentPeriod = periodStart(new Date(), period);
+  const firstMovement = await db.getAsync(
+    'SELECT MIN(createdAt) AS createdAt FROM inventory_transactions WHERE inventoryItemId = ?',
+    [item.id]
+  );
+  // Whole periods only: history ends before the current, unfinished period
+  const historyStart = new Date(Math.max(
+    periodStart(new Date(firstMovement?.createdAt || Date.now()), period).getTime(),
+    periodStart(new Date(), period, -settings.historyPeriods).getTime()
+  ));
+
+  const issues = await db.allAsync(
+    `SELECT createdAt, -quantity AS quantity FROM inventory_transactions
+    WHERE inventoryItemId = ? AND type = 'issue' AND createdAt >= ? AND createdAt < ?`,
+    [item.id, historyStart.toISOString(), currentPeriod.toISOString()]
+  );
+  const history = [];
+  for (let start = historyStart; start < currentPeriod; start = periodStart(start, period, 1)) {
+    history.push({ period: periodLabel(start, period), quantity: 0 });
+  }
+  for (const issue of issues) {
+    const entry = history.find(bucket => bucket.period === periodLabel(periodStart(new Date(issue.createdAt), period), period));
+    if (entry) {
+      entry.quantity = roundQuantity(entry.quantity + issue.quantity);
+    }
+  }
+
+  const series = history.map(entry => entry.quantity);
+  const fits = {
+    moving_average: movingAverageForecast(series, horizon, window),
+    seasonal_smoothing: seasonalSmoothingForecast(series, settings.seasonLength, horizon)
+  };
+  const methods = Object.entries(fits).map(([method, fit]) => ({
+    method,
+    available: !!fit,
+    note: fit ? null : method === 'moving_average'
+      ? `Needs at least ${window + 1} ${period}s of history`
+      : `Needs at least ${settings.seasonLength * 2} ${period}s (two seasons) of history`,
+    rmse: fit ? roundQuantity(fit.rmse) : null,
+    smoothing: fit && method === 'seasonal_smoothing' ? { alpha: fit.alpha, beta: fit.beta, gamma: fit.gamma } : undefined,
+    forecast: fit ? fit.forecast.map((quantity, h) => ({
+      period: periodLabel(periodStart(currentPeriod, period, h), period),
+      quantity: roundQuantity(Math.max(0, quantity)),
+      lower: roundQuantity(Math.max(0, quantity - FORECAST_BAND_Z * fit.rmse)),
+      upper: roundQuantity(Math.max(0, quantity + FORECAST_BAND_Z * fit.rmse))
+    })) : []
+  }));
+
+  const recommendedMethod = methods
+    .filter(entry => entry.available)
+    .sort((a, b) => a.rmse - b.rmse)[0]?.method || null;
+
+  let leadTimeSource = 'request';
+  if (!leadTimeDays) {
+    leadTimeDays = await getItemLeadTimeDays(item.id);
+    leadTimeSource = leadTimeDays ? 'purchase_orders' : 'default';
+    leadTimeDays = leadTimeDays || DEFAULT_LEAD_TIME_DAYS;
+  }
+
+  let recommendation = null;
+  if (recommendedMethod && series.some(quantity => quantity > 0)) {
+    const { forecast } = methods.find(entry => entry.method === recommendedMethod);
+    const leadTimePeriods = leadTimeDays / settings.days;
+    // Demand over the lead time, taking a fraction of the last period it reaches into
+    let leadTimeDemand = 0;
+    for (let h = 0; h < Math.ceil(leadTimePeriods); h++) {
+      const quantity = forecast[Math.min(h, forecast.length - 1)].quantity;
+      leadTimeDemand += quantity * Math.min(1, leadTimePeriods - h);
+    }
+    const safetyStock = SAFETY_STOCK_Z * fits[recommendedMethod].rmse * Math.sqrt(leadTimePeriods);
+    const minStockLevel = Math.ceil(leadTimeDemand + safetyStock);
+    recommendation = {
+      method: recommendedMethod,
+      leadTimeDemand: roundQuantity(leadTimeDemand),
+      safetyStock: roundQuantity(safetyStock),
+      minStockLevel,
+      maxStockLevel: Math.ceil(minStockLevel + forecast[0].quantity)
+    };
+  }
+
+  return {
+    inventoryItemId: item.id,
+    itemId: item.itemId,
+    name: item.name,
+    unitMeasurement: item.unitMeasurement,
+    period,
+    history,
+    methods,
+    leadTimeDays,
+    leadTimeSource,
+    currentMinStockLevel: item.minStockLevel,
+    currentMaxStockLevel: item.maxStockLevel,
+    recommendation
+  };
+}
+
+app.get('/api/inventory/products/:id/forecast', async (req, res) => {
+  try {
+    const item = await db.getAsync('SELECT * FROM inventory_items WHERE id = ?', [req.params.id]);
+    if (!item) {
+      throw createHttpError(404, 'Item not found');
     }
     
-    if (!requester) {
-      return res.status(404).json({ error: 'Requester not found' });
+    const period = req.query.period || 'month';
+    if (!FORECAST_PERIODS[period]) {
+      throw createHttpError(400, 'Period must be month or week');
     }
+    const horizon = Math.min(Math.max(parseInt(req.query.horizon) || 6, 1), FORECAST_PERIODS[period].seasonLength);
+    const window = Math.max(parseInt(req.query.window) || 3, 1);
+    const leadTimeDays = parseFloat(req.query.leadTimeDays) > 0 ? parseFloat(req.query.leadTimeDays) : null;
     
-    db.run('DELETE FROM requesters WHERE id = ?', [requesterId], function(err) {
-      if (err) {
-        console.error('❌ Error deleting requester:', err);
-        return res.status(500).json({ error: 'Internal server error' });
+    const forecast = await buildDemandForecast(item, { period, horizon, window, leadTimeDays });
+    console.log(`📈 Forecast for ${item.itemId}: ${forecast.history.length} ${period}s of history, recommended ${forecast.recommendation?.method || 'none'}`);
+    res.json(forecast);
+  } catch (err) {
+    console.error('❌ Error building forecast:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replenishment routes
+// Items whose stock plus open PO quantities is at or below their minimum, with the quantity that brings
+// them back up to their maximum. Quantities are in stock units; the order quantity is rounded up to
+// whole purchase units.
+app.get('/api/replenishment/suggestions', async (req, res) => {
+  console.log('🔁 Replenishment suggestions requested');
+  try {
+    const items = await db.allAsync(
+      'SELECT * FROM inventory_items WHERE minStockLevel IS NOT NULL AND minStockLevel > 0 ORDER BY supplier, itemId'
+    );
+    const openLines = await db.allAsync(
+      `SELECT poi.itemId, poi.quantity, poi.unit
+      FROM purchase_order_items poi
+      JOIN purchase_orders po ON po.id = poi.poId
+      WHERE po.status IN (${OPEN_PURCHASE_ORDER_STATUSES.map(() => '?').join(', ')})`,
+      OPEN_PURCHASE_ORDER_STATUSES
+    );
+    const ids = items.map(item => item.id);
+    const [unitConversions, reservedQuantities] = await Promise.all([getUnitConversions(ids), getReservedQuantities(ids)]);
+
+    const suggestions = [];
+    for (const item of items) {
+      const conversions = unitConversions[item.id] || [];
+      const factorFor = (unit) => {
+        if (!unit || unit === item.unitMeasurement) return 1;
+        const conversion = conversions.find(c => c.unit === unit);
+        return conversion ? conversion.factor : 1;
+      };
+
+      const openQuantity = roundQuantity(openLines
+        .filter(line => line.itemId === item.itemId)
+        .reduce((sum, line) => sum + line.quantity * factorFor(line.unit), 0));
+      // Stock reserved for projects is already spoken for, so only the available quantity counts
+      const reservedQuantity = reservedQuantities[item.id] || 0;
+      const availableQuantity = roundQuantity(item.quantity - reservedQuantity);
+      if (availableQuantity + openQuantity > item.minStockLevel) {
+        continue;
       }
-      
-      res.json({ success: true });
-    });
-  });
+
+      const targetLevel = Math.max(item.maxStockLevel || 0, item.minStockLevel);
+      const shortfall = targetLevel - availableQuantity - openQuantity;
+      if (shortfall <= 0) {
+        continue;
+      }
+
+      const purchaseUnit = item.purchaseUnit || item.unitMeasurement;
+      const purchaseFactor = factorFor(purchaseUnit);
+      const orderQuantity = Math.ceil(roundQuantity(shortfall / purchaseFactor));
+      suggestions.push({
+        inventoryItemId: item.id,
+        itemId: item.itemId,
+        name: item.name,
+        supplier: item.supplier || '',
+        unitMeasurement: item.unitMeasurement,
+        quantity: item.quantity,
+        reservedQuantity,
+        minStockLevel: item.minStockLevel,
+        maxStockLevel: item.maxStockLevel,
+        openQuantity,
+        suggestedQuantity: roundQuantity(orderQuantity * purchaseFactor),
+        orderQuantity,
+        purchaseUnit,
+        unitCost: roundQuantity(item.unitCost * purchaseFactor)
+      });
+    }
+
+    console.log('✅ Replenishment suggestions sent:', suggestions.length);
+    res.json(suggestions);
+  } catch (err) {
+    console.error('❌ Error computing replenishment suggestions:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
 // Purchase Orders routes
@@ -1387,7 +6681,11 @@ app.get('/api/purchase-orders', (req, res) => {
     });
     
     Promise.all(promises)
-      .then(posWithItems => {
+      .then(async posWithItems => {
+        const approvalSteps = await getApprovalSteps('purchase_order', posWithItems.map(po => po.id));
+        posWithItems.forEach(po => {
+          po.approvalSteps = approvalSteps[po.id] || [];
+        });
         console.log('✅ Purchase orders sent:', posWithItems.length);
         res.json(posWithItems);
       })
@@ -1414,7 +6712,15 @@ app.get('/api/purchase-orders/:id', (req, res) => {
         }
         
         po.items = items;
-        res.json(po);
+        getApprovalSteps('purchase_order', [po.id])
+          .then(approvalSteps => {
+            po.approvalSteps = approvalSteps[po.id] || [];
+            res.json(po);
+          })
+          .catch(err => {
+            console.error('❌ Error fetching purchase order approval steps:', err);
+            res.status(500).json({ error: 'Internal server error' });
+          });
       });
     } else {
       res.status(404).json({ error: 'Purchase order not found' });
@@ -1425,6 +6731,24 @@ app.get('/api/purchase-orders/:id', (req, res) => {
 app.post('/api/purchase-orders', (req, res) => {
   const { items, ...poData } = req.body;
   
+  if (poData.status && !['draft', 'pending'].includes(poData.status)) {
+    return res.status(400).json({ error: 'New purchase orders start as draft or pending; they are approved through their approval steps' });
+  }
+  
+  // A purchase order created as pending goes straight into approval
+  const sendCreatedPO = async (createdPO) => {
+    try {
+      if (createdPO.status === 'pending') {
+        await submitPurchaseOrderForApproval(createdPO);
+      }
+      createdPO.approvalSteps = (await getApprovalSteps('purchase_order', [createdPO.id]))[createdPO.id] || [];
+      res.status(201).json(createdPO);
+    } catch (err) {
+      console.error('❌ Error submitting purchase order for approval:', err);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+  
   const newPO = {
     id: Date.now().toString(),
     ...poData,
@@ -1460,19 +6784,20 @@ app.post('/api/purchase-orders', (req, res) => {
       // If there are items, insert them
       if (items && items.length > 0) {
         const itemStmt = db.prepare(
-          'INSERT INTO purchase_order_items (id, poId, itemId, itemName, quantity, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?)'
+          'INSERT INTO purchase_order_items (id, poId, itemId, itemName, quantity, unit, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
         );
         
         items.forEach(item => {
-          itemStmt.run(
+          itemStmt.run([
             item.id || (Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9)),
             newPO.id,
             item.itemId,
             item.itemName,
             item.quantity,
+            item.unit || null,
             item.unitCost,
             item.totalCost
-          );
+          ]);
         });
         
         itemStmt.finalize(err => {
@@ -1482,214 +6807,256 @@ app.post('/api/purchase-orders', (req, res) => {
           }
           
           newPO.items = items;
-          res.status(201).json(newPO);
+          sendCreatedPO(newPO);
         });
       } else {
         newPO.items = [];
-        res.status(201).json(newPO);
+        sendCreatedPO(newPO);
       }
     }
   );
 });
 
-app.put('/api/purchase-orders/:id', (req, res) => {
+// Status changes an update may make; approval itself only happens through the approval steps
+const PURCHASE_ORDER_TRANSITIONS = {
+  draft: ['pending', 'cancelled'],
+  pending: ['draft', 'cancelled'],
+  approved: ['draft', 'ordered', 'cancelled'],
+  ordered: ['received', 'cancelled'],
+  received: ['completed'],
+  completed: [],
+  cancelled: []
+};
+
+// Submitting a PO, or changing the total of one awaiting approval, (re)builds its approval chain.
+// Ordering or receiving needs every approval step decided. Receiving posts the lines into stock,
+// records them as purchase history for inventory valuation and allocates the received stock to the
+// requisitions it was ordered for.
+// The update and everything it triggers commit together.
+app.put('/api/purchase-orders/:id', async (req, res) => {
   const poId = req.params.id;
   const { items, ...poData } = req.body;
   
-  // Check if purchase order exists
-  db.get('SELECT * FROM purchase_orders WHERE id = ?', [poId], (err, po) => {
-    if (err) {
-      console.error('❌ Error checking purchase order:', err);
-      return res.status(500).json({ error: 'Internal server error' });
-    }
-    
-    if (!po) {
-      return res.status(404).json({ error: 'Purchase order not found' });
-    }
-    
-    const updatedAt = new Date().toISOString();
-    
-    db.run(
-      `UPDATE purchase_orders SET
-        poNumber = COALESCE(?, poNumber),
-        supplier = COALESCE(?, supplier),
-        status = COALESCE(?, status),
-        subtotal = COALESCE(?, subtotal),
-        tax = COALESCE(?, tax),
-        total = COALESCE(?, total),
-        orderDate = COALESCE(?, orderDate),
-        expectedDelivery = COALESCE(?, expectedDelivery),
-        notes = COALESCE(?, notes),
-        updatedAt = ?
-      WHERE id = ?`,
-      [
-        poData.poNumber,
-        poData.supplier,
-        poData.status,
-        poData.subtotal,
-        poData.tax,
-        poData.total,
-        poData.orderDate,
-        poData.expectedDelivery,
-        poData.notes,
-        updatedAt,
-        poId
-      ],
-      function(err) {
-        if (err) {
-          console.error('❌ Error updating purchase order:', err);
-          return res.status(500).json({ error: 'Internal server error' });
+  try {
+    // The order is read and checked inside the transaction so that overlapping updates see each
+    // other's status and an order is only ever received once
+    await db.runInTransaction(async () => {
+      const po = await db.getAsync('SELECT * FROM purchase_orders WHERE id = ?', [poId]);
+      if (!po) {
+        throw createHttpError(404, 'Purchase order not found');
+      }
+      
+      const status = poData.status || po.status;
+      if (status !== po.status) {
+        if (status === 'approved') {
+          throw createHttpError(400, 'Purchase orders are approved through their approval steps');
         }
-        
-        // If there are items, update them
-        if (items && items.length > 0) {
-          // First delete existing items
-          db.run('DELETE FROM purchase_order_items WHERE poId = ?', [poId], function(err) {
-            if (err) {
-              console.error('❌ Error deleting purchase order items:', err);
-              return res.status(500).json({ error: 'Internal server error' });
-            }
-            
-            // Then insert new items
-            const itemStmt = db.prepare(
-              'INSERT INTO purchase_order_items (id, poId, itemId, itemName, quantity, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?)'
-            );
-            
-            items.forEach(item => {
-              itemStmt.run(
-                item.id || (Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9)),
-                poId,
-                item.itemId,
-                item.itemName,
-                item.quantity,
-                item.unitCost,
-                item.totalCost
-              );
-            });
-            
-            itemStmt.finalize(err => {
-              if (err) {
-                console.error('❌ Error inserting purchase order items:', err);
-                return res.status(500).json({ error: 'Internal server error' });
-              }
-              
-              // Get the updated purchase order
-              db.get('SELECT * FROM purchase_orders WHERE id = ?', [poId], (err, updatedPO) => {
-                if (err) {
-                  console.error('❌ Error fetching updated purchase order:', err);
-                  return res.status(500).json({ error: 'Internal server error' });
-                }
-                
-                updatedPO.items = items;
-                res.json(updatedPO);
-              });
-            });
-          });
-        } else {
-          // Get the updated purchase order
-          db.get('SELECT * FROM purchase_orders WHERE id = ?', [poId], (err, updatedPO) => {
-            if (err) {
-              console.error('❌ Error fetching updated purchase order:', err);
-              return res.status(500).json({ error: 'Internal server error' });
-            }
-            
-            // Get purchase order items
-            db.all('SELECT * FROM purchase_order_items WHERE poId = ?', [poId], (err, items) => {
-              if (err) {
-                console.error('❌ Error fetching purchase order items:', err);
-                return res.status(500).json({ error: 'Internal server error' });
-              }
-              
-              updatedPO.items = items;
-              res.json(updatedPO);
-            });
-          });
+        if (!(PURCHASE_ORDER_TRANSITIONS[po.status] || []).includes(status)) {
+          throw createHttpError(400, `Purchase order ${po.poNumber} is ${po.status} and cannot be set to ${status}`);
         }
       }
-    );
-  });
+      if (['ordered', 'received'].includes(status) && status !== po.status) {
+        const steps = (await getApprovalSteps('purchase_order', [poId]))[poId] || [];
+        const undecided = steps.find(step => !['approved', 'skipped'].includes(step.status));
+        if (undecided) {
+          throw createHttpError(400, `Purchase order ${po.poNumber} cannot be ${status} before step ${undecided.stepOrder} (${undecided.name}) is approved`);
+        }
+      }
+      
+      await db.runAsync(
+        `UPDATE purchase_orders SET
+          poNumber = COALESCE(?, poNumber),
+          supplier = COALESCE(?, supplier),
+          status = COALESCE(?, status),
+          subtotal = COALESCE(?, subtotal),
+          tax = COALESCE(?, tax),
+          total = COALESCE(?, total),
+          orderDate = COALESCE(?, orderDate),
+          expectedDelivery = COALESCE(?, expectedDelivery),
+          notes = COALESCE(?, notes),
+          updatedAt = ?
+        WHERE id = ?`,
+        [
+          poData.poNumber,
+          poData.supplier,
+          poData.status,
+          poData.subtotal,
+          poData.tax,
+          poData.total,
+          poData.orderDate,
+          poData.expectedDelivery,
+          poData.notes,
+          new Date().toISOString(),
+          poId
+        ]
+      );
+      
+      if (items && items.length > 0) {
+        await db.runAsync('DELETE FROM purchase_order_items WHERE poId = ?', [poId]);
+        for (const item of items) {
+          await db.runAsync(
+            'INSERT INTO purchase_order_items (id, poId, itemId, itemName, quantity, unit, unitCost, totalCost) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+            [
+              item.id || (Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9)),
+              poId,
+              item.itemId,
+              item.itemName,
+              item.quantity,
+              item.unit || null,
+              item.unitCost,
+              item.totalCost
+            ]
+          );
+        }
+      }
+      
+      const updatedPO = await db.getAsync('SELECT * FROM purchase_orders WHERE id = ?', [poId]);
+      updatedPO.items = await db.allAsync('SELECT * FROM purchase_order_items WHERE poId = ?', [poId]);
+      if (updatedPO.status === 'pending' && (po.status !== 'pending' || updatedPO.total !== po.total)) {
+        await buildPurchaseOrderApprovalChain(updatedPO);
+      }
+      if (updatedPO.status === 'received' && po.status !== 'received') {
+        const receipts = Array.isArray(poData.receipts) ? poData.receipts : [];
+        const received = await postPurchaseOrderReceipts(updatedPO, receipts, poData.receivedBy);
+        await recordPurchaseHistory(updatedPO, poData.invoiceNumber);
+        await allocatePurchaseOrderToRequisitions(updatedPO, received);
+      }
+    });
+    
+    res.json(await getPurchaseOrder(poId));
+  } catch (err) {
+    console.error('❌ Error updating purchase order:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.delete('/api/purchase-orders/:id', (req, res) => {
+// Only orders that have not been approved can be deleted; later ones are cancelled instead so
+// their receipts, history and requisition allocations stay traceable
+app.delete('/api/purchase-orders/:id', async (req, res) => {
   const poId = req.params.id;
   
-  // Check if purchase order exists
-  db.get('SELECT * FROM purchase_orders WHERE id = ?', [poId], (err, po) => {
-    if (err) {
-      console.error('❌ Error checking purchase order:', err);
-      return res.status(500).json({ error: 'Internal server error' });
-    }
-    
-    if (!po) {
-      return res.status(404).json({ error: 'Purchase order not found' });
-    }
-    
-    // Delete purchase order items first (foreign key constraint)
-    db.run('DELETE FROM purchase_order_items WHERE poId = ?', [poId], function(err) {
-      if (err) {
-        console.error('❌ Error deleting purchase order items:', err);
-        return res.status(500).json({ error: 'Internal server error' });
+  try {
+    await db.runInTransaction(async () => {
+      const po = await db.getAsync('SELECT * FROM purchase_orders WHERE id = ?', [poId]);
+      if (!po) {
+        throw createHttpError(404, 'Purchase order not found');
+      }
+      if (!['draft', 'pending'].includes(po.status)) {
+        throw createHttpError(409, `Purchase order ${po.poNumber} is ${po.status} and cannot be deleted; cancel it instead`);
       }
       
-      // Then delete the purchase order
-      db.run('DELETE FROM purchase_orders WHERE id = ?', [poId], function(err) {
-        if (err) {
-          console.error('❌ Error deleting purchase order:', err);
-          return res.status(500).json({ error: 'Internal server error' });
-        }
-        
-        res.json({ success: true });
-      });
+      await db.runAsync('DELETE FROM purchase_order_items WHERE poId = ?', [poId]);
+      await db.runAsync("DELETE FROM approval_steps WHERE documentType = 'purchase_order' AND documentId = ?", [poId]);
+      await db.runAsync('DELETE FROM requisition_purchase_links WHERE poId = ?', [poId]);
+      await db.runAsync('DELETE FROM purchase_orders WHERE id = ?', [poId]);
     });
-  });
+    
+    res.json({ success: true });
+  } catch (err) {
+    console.error('❌ Error deleting purchase order:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.patch('/api/purchase-orders/:id/approve', (req, res) => {
-  const poId = req.params.id;
+async function getPurchaseOrder(id) {
+  const po = await db.getAsync('SELECT * FROM purchase_orders WHERE id = ?', [id]);
+  if (!po) {
+    throw createHttpError(404, 'Purchase order not found');
+  }
+  po.items = await db.allAsync('SELECT * FROM purchase_order_items WHERE poId = ?', [id]);
+  po.approvalSteps = (await getApprovalSteps('purchase_order', [id]))[id] || [];
+  return po;
+}
+
+// Build a purchase order's approval chain from its total and the categories of its inventory items
+async function buildPurchaseOrderApprovalChain(po) {
+  const categories = await db.allAsync(
+    `SELECT DISTINCT i.category
+    FROM purchase_order_items poi
+    JOIN inventory_items i ON i.itemId = poi.itemId
+    WHERE poi.poId = ?`,
+    [po.id]
+  );
+  await createApprovalSteps('purchase_order', po.id, {
+    amount: Number(po.total) || 0,
+    categories: categories.map(row => row.category)
+  });
+}
+
+async function submitPurchaseOrderForApproval(po) {
+  await db.runInTransaction(() => buildPurchaseOrderApprovalChain(po));
+}
+
+// Approve the current approval step of a pending purchase order; it is approved once its last step is.
+// Orders submitted before approval rules existed get their chain on the first approval.
+app.patch('/api/purchase-orders/:id/approve', async (req, res) => {
+  const { approvedBy, comments } = req.body;
   
-  // Check if purchase order exists
-  db.get('SELECT * FROM purchase_orders WHERE id = ?', [poId], (err, po) => {
-    if (err) {
-      console.error('❌ Error checking purchase order:', err);
-      return res.status(500).json({ error: 'Internal server error' });
+  try {
+    const po = await getPurchaseOrder(req.params.id);
+    if (po.status !== 'pending') {
+      throw createHttpError(400, `Purchase order ${po.poNumber} is ${po.status}; only pending orders can be approved`);
+    }
+    if (po.approvalSteps.length === 0) {
+      await submitPurchaseOrderForApproval(po);
     }
     
-    if (!po) {
-      return res.status(404).json({ error: 'Purchase order not found' });
+    await db.runInTransaction(async () => {
+      const step = await getCurrentApprovalStep('purchase_order', po.id, approvedBy);
+      const status = await decideApprovalStep(step, 'approved', approvedBy, comments) ? 'approved' : 'pending';
+      await db.runAsync('UPDATE purchase_orders SET status = ?, updatedAt = ? WHERE id = ?', [status, new Date().toISOString(), po.id]);
+    });
+    
+    const updatedPO = await getPurchaseOrder(po.id);
+    console.log(`✅ Purchase order ${updatedPO.poNumber} ${updatedPO.status === 'approved' ? 'approved' : 'approval step completed'}`);
+    res.json(updatedPO);
+  } catch (err) {
+    console.error('❌ Error approving purchase order:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// A rejected purchase order returns to draft so it can be revised and submitted again
+app.patch('/api/purchase-orders/:id/reject', async (req, res) => {
+  const { rejectedBy, reason } = req.body;
+  
+  try {
+    if (!reason || !reason.trim()) {
+      throw createHttpError(400, 'A reason is required to reject a purchase order');
+    }
+    const po = await getPurchaseOrder(req.params.id);
+    if (po.status !== 'pending') {
+      throw createHttpError(400, `Purchase order ${po.poNumber} is ${po.status}; only pending orders can be rejected`);
+    }
+    if (po.approvalSteps.length === 0) {
+      await submitPurchaseOrderForApproval(po);
     }
     
-    const updatedAt = new Date().toISOString();
+    await db.runInTransaction(async () => {
+      const step = await getCurrentApprovalStep('purchase_order', po.id, rejectedBy);
+      await decideApprovalStep(step, 'rejected', rejectedBy, reason.trim());
+      await db.runAsync("UPDATE purchase_orders SET status = 'draft', updatedAt = ? WHERE id = ?", [new Date().toISOString(), po.id]);
+    });
     
-    db.run(
-      'UPDATE purchase_orders SET status = ?, updatedAt = ? WHERE id = ?',
-      ['approved', updatedAt, poId],
-      function(err) {
-        if (err) {
-          console.error('❌ Error approving purchase order:', err);
-          return res.status(500).json({ error: 'Internal server error' });
-        }
-        
-        // Get the updated purchase order
-        db.get('SELECT * FROM purchase_orders WHERE id = ?', [poId], (err, updatedPO) => {
-          if (err) {
-            console.error('❌ Error fetching updated purchase order:', err);
-            return res.status(500).json({ error: 'Internal server error' });
-          }
-          
-          // Get purchase order items
-          db.all('SELECT * FROM purchase_order_items WHERE poId = ?', [poId], (err, items) => {
-            if (err) {
-              console.error('❌ Error fetching purchase order items:', err);
-              return res.status(500).json({ error: 'Internal server error' });
-            }
-            
-            updatedPO.items = items;
-            res.json(updatedPO);
-          });
-        });
-      }
-    );
-  });
+    const updatedPO = await getPurchaseOrder(po.id);
+    console.log(`✅ Purchase order ${updatedPO.poNumber} rejected`);
+    res.json(updatedPO);
+  } catch (err) {
+    console.error('❌ Error rejecting purchase order:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
 // File upload endpoint
@@ -2185,7 +7552,13 @@ app.post('/api/cabinet-calculator/projects', (req, res) => {
         return res.status(500).json({ error: 'Internal server error' });
       }
       
-      res.status(201).json(newProject);
+      // Projects created already approved reserve their stock straight away
+      syncProjectReservations(null, newProject)
+        .then(reservationSummary => res.status(201).json(reservationSummary ? { ...newProject, reservationSummary } : newProject))
+        .catch(err => {
+          console.error('❌ Error reserving stock for cabinet project:', err);
+          res.status(500).json({ error: 'Internal server error' });
+        });
     }
   );
 });
@@ -2267,7 +7640,13 @@ app.put('/api/cabinet-calculator/projects/:id', (req, res) => {
           // Parse JSON fields
           updatedProject.configurations = JSON.parse(updatedProject.configurations);
           
-          res.json(updatedProject);
+          // Approving reserves the project's materials and hardware; cancelling or completing releases them
+          syncProjectReservations(project.status, updatedProject)
+            .then(reservationSummary => res.json(reservationSummary ? { ...updatedProject, reservationSummary } : updatedProject))
+            .catch(err => {
+              console.error('❌ Error updating stock reservations for cabinet project:', err);
+              res.status(500).json({ error: 'Internal server error' });
+            });
         });
       }
     );
@@ -2294,11 +7673,122 @@ app.delete('/api/cabinet-calculator/projects/:id', (req, res) => {
         return res.status(500).json({ error: 'Internal server error' });
       }
       
-      res.json({ success: true });
+      releaseProjectReservations(projectId)
+        .then(() => res.json({ success: true }))
+        .catch(err => {
+          console.error('❌ Error releasing stock reservations:', err);
+          res.status(500).json({ error: 'Internal server error' });
+        });
     });
   });
 });
 
+app.get('/api/cabinet-calculator/projects/:id/reservations', async (req, res) => {
+  try {
+    const project = await db.getAsync('SELECT id FROM cabinet_projects WHERE id = ?', [req.params.id]);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    
+    res.json(await getProjectReservations(project.id));
+  } catch (err) {
+    console.error('❌ Error fetching project reservations:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// BOM number a project's requisitions are filed under when the requester gives none
+function getProjectBomNumber(project) {
+  return `BOM-${project.id.replace(/^project-/, '')}`;
+}
+
+// Stock still to request for a project: its bill of materials, aggregated per inventory item in stock units,
+// less what its earlier requisitions that were not rejected already ask for
+async function getProjectRequestLines(project) {
+  const { demand, unmatched } = await getProjectDemand(project);
+  const requested = await db.allAsync(
+    `SELECT ri.inventoryItemId, ri.unitMeasurement, COALESCE(ri.approvedQuantity, ri.requestedQuantity) AS quantity
+    FROM requisition_items ri
+    JOIN requisitions r ON r.id = ri.requisitionId
+    WHERE r.projectId = ? AND r.status != 'rejected'`,
+    [project.id]
+  );
+  
+  const lines = [];
+  for (const { item, quantity } of demand) {
+    let alreadyRequested = 0;
+    for (const line of requested.filter(line => line.inventoryItemId === item.id)) {
+      const factor = line.unitMeasurement === item.unitMeasurement ? 1 : await getConversionFactor(item, line.unitMeasurement);
+      alreadyRequested += line.quantity * factor;
+    }
+    lines.push({
+      itemId: item.itemId,
+      itemName: item.name,
+      unitMeasurement: item.unitMeasurement,
+      requiredQuantity: quantity,
+      alreadyRequested: roundQuantity(alreadyRequested),
+      requestedQuantity: Math.max(0, roundQuantity(quantity - alreadyRequested))
+    });
+  }
+  return { lines, unmatched };
+}
+
+// Preview of the requisition "Request materials" would raise for a project
+app.get('/api/cabinet-calculator/projects/:id/requisition', async (req, res) => {
+  try {
+    const project = await db.getAsync('SELECT * FROM cabinet_projects WHERE id = ?', [req.params.id]);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    
+    res.json({ bomNumber: getProjectBomNumber(project), ...await getProjectRequestLines(project) });
+  } catch (err) {
+    console.error('❌ Error previewing project requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Raise a draft requisition for the project's materials and hardware not yet requested.
+// Issues against it draw down the project's reservation.
+app.post('/api/cabinet-calculator/projects/:id/requisition', async (req, res) => {
+  try {
+    const project = await db.getAsync('SELECT * FROM cabinet_projects WHERE id = ?', [req.params.id]);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    const header = parseRequisitionHeader({
+      ...req.body,
+      bomNumber: req.body.bomNumber || getProjectBomNumber(project),
+      notes: req.body.notes || `Materials for project ${project.name}`
+    });
+    
+    const { id, unmatched } = await db.runInTransaction(async () => {
+      const { lines, unmatched } = await getProjectRequestLines(project);
+      const items = lines
+        .filter(line => line.requestedQuantity > 0)
+        .map(line => ({ itemId: line.itemId, requestedQuantity: line.requestedQuantity, unitMeasurement: line.unitMeasurement }));
+      if (items.length === 0) {
+        throw createHttpError(400, lines.length > 0
+          ? `All materials of project ${project.name} have already been requested`
+          : `No materials of project ${project.name} match inventory items`);
+      }
+      
+      return { id: await createRequisition(header, items, { createdBy: req.body.createdBy, projectId: project.id }), unmatched };
+    });
+    
+    res.status(201).json({ requisition: await getRequisition(id), unmatched });
+  } catch (err) {
+    console.error('❌ Error creating project requisition:', err);
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 app.post('/api/cabinet-calculator/nesting', (req, res) => {
   console.log('🧩 Nesting optimization requested');
   // Mock nesting optimization response
@@ -2323,6 +7813,150 @@ app.post('/api/cabinet-calculator/nesting', (req, res) => {
   res.json(mockNestingResult);
 });
 
+// Remnant routes
+const REMNANT_STATUSES = ['available', 'used', 'scrapped'];
+
+app.get('/api/remnants', (req, res) => {
+  const conditions = [];
+  const params = [];
+  if (req.query.status) {
+    conditions.push('status = ?');
+    params.push(req.query.status);
+  }
+  if (req.query.materialType) {
+    conditions.push('materialType = ?');
+    params.push(req.query.materialType);
+  }
+  if (req.query.thickness) {
+    conditions.push('thickness = ?');
+    params.push(Number(req.query.thickness));
+  }
+
+  db.all(
+    `SELECT * FROM remnants ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY materialType, thickness, length * width`,
+    params,
+    (err, rows) => {
+      if (err) {
+        console.error('❌ Error fetching remnants:', err);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+
+      res.json(rows);
+    }
+  );
+});
+
+// Register offcuts from a nesting run; every piece gets its own REM number for labelling
+app.post('/api/remnants', async (req, res) => {
+  const { remnants, sourceReference, location, createdBy } = req.body;
+
+  if (!Array.isArray(remnants) || remnants.length === 0) {
+    return res.status(400).json({ error: 'At least one remnant is required' });
+  }
+
+  try {
+    const ids = await db.runInTransaction(async () => {
+      const created = [];
+      for (const [index, remnant] of remnants.entries()) {
+        const length = Number(remnant.length);
+        const width = Number(remnant.width);
+        const thickness = Number(remnant.thickness);
+        if (!remnant.materialType || !(length > 0) || !(width > 0) || !(thickness > 0)) {
+          throw createHttpError(400, `Remnant ${index + 1} needs a material type, thickness, length and width`);
+        }
+
+        const id = generateId();
+        await db.runAsync(
+          `INSERT INTO remnants (
+            id, code, materialType, thickness, length, width, status,
+            location, sourceReference, notes, createdBy, createdAt
+          ) VALUES (?, ?, ?, ?, ?, ?, 'available', ?, ?, ?, ?, ?)`,
+          [
+            id,
+            await nextDocumentNumber('remnants', 'code', 'REM'),
+            remnant.materialType,
+            thickness,
+            // Length runs along the grain of the sheet the piece was cut from
+            length,
+            width,
+            remnant.location || location || null,
+            remnant.sourceReference || sourceReference || null,
+            remnant.notes || null,
+            createdBy || null,
+            new Date().toISOString()
+          ]
+        );
+        created.push(id);
+      }
+      return created;
+    });
+
+    const rows = await db.allAsync(
+      `SELECT * FROM remnants WHERE id IN (${ids.map(() => '?').join(', ')}) ORDER BY code`,
+      ids
+    );
+    console.log(`✅ ${rows.length} remnants registered`);
+    res.status(201).json(rows);
+  } catch (err) {
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error('❌ Error registering remnants:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark a remnant used (it was cut into parts) or scrapped, or update where it is kept
+app.put('/api/remnants/:id', async (req, res) => {
+  const { status, location, notes, usedReference } = req.body;
+
+  if (status !== undefined && !REMNANT_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Invalid remnant status. Expected one of: ${REMNANT_STATUSES.join(', ')}` });
+  }
+
+  try {
+    const remnant = await db.getAsync('SELECT * FROM remnants WHERE id = ?', [req.params.id]);
+    if (!remnant) {
+      return res.status(404).json({ error: 'Remnant not found' });
+    }
+
+    const usedAt = status === undefined || status === remnant.status
+      ? remnant.usedAt
+      : status === 'available' ? null : new Date().toISOString();
+    await db.runAsync(
+      `UPDATE remnants SET
+        status = COALESCE(?, status),
+        location = COALESCE(?, location),
+        notes = COALESCE(?, notes),
+        usedReference = COALESCE(?, usedReference),
+        usedAt = ?
+      WHERE id = ?`,
+      [status, location, notes, usedReference, usedAt, req.params.id]
+    );
+
+    res.json(await db.getAsync('SELECT * FROM remnants WHERE id = ?', [req.params.id]));
+  } catch (err) {
+    console.error('❌ Error updating remnant:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/remnants/:id', async (req, res) => {
+  try {
+    const remnant = await db.getAsync('SELECT id FROM remnants WHERE id = ?', [req.params.id]);
+    if (!remnant) {
+      return res.status(404).json({ error: 'Remnant not found' });
+    }
+
+    await db.runAsync('DELETE FROM remnants WHERE id = ?', [req.params.id]);
+    res.json({ message: 'Remnant deleted successfully' });
+  } catch (err) {
+    console.error('❌ Error deleting remnant:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Catch-all for other API routes
 app.use('/api/*', (req, res) => {
   console.log('❓ Unknown API endpoint:', req.method, req.url);
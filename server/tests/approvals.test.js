@@ -0,0 +1,67 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequisition, request, startServer, stopServer } from './helpers.js';
+
+// Cost center manager steps: decided by the manager account of the department's cost center,
+// as it stands when the step is decided
+
+before(startServer);
+after(stopServer);
+
+describe('cost center manager approval', () => {
+  let requisition;
+  let costCenter;
+
+  before(async () => {
+    const user = await request('POST', '/api/users', {
+      username: 'cc.lead',
+      email: 'cc.lead@cabinet-wms.com',
+      password: 'lead123',
+      role: 'user'
+    });
+    assert.equal(user.status, 201, user.body.error);
+
+    costCenter = (await request('GET', '/api/cost-centers')).body.find(center => center.code === 'CC001');
+    assert.equal(costCenter.managerUsername, 'manager');
+
+    // 10 sheets of plywood come to more than the 500 above which the cost center manager approves
+    const created = await createRequisition([{ itemId: 'PLY-18-4X8', requestedQuantity: 10 }]);
+    requisition = (await request('POST', `/api/requisitions/${created.id}/submit`)).body;
+    assert.equal(requisition.status, 'pending');
+    const approved = await request('POST', `/api/requisitions/${requisition.id}/approve`, { approvedBy: 'manager' });
+    assert.equal(approved.status, 200, approved.body.error);
+    requisition = approved.body;
+  });
+
+  test('the step goes to the cost center manager account', () => {
+    const step = requisition.approvalSteps.find(approvalStep => approvalStep.approverType === 'cost_center_manager');
+    assert.ok(step, 'the requisition has a cost center manager step');
+    assert.equal(step.approverValue, 'manager');
+    assert.equal(step.approverScope, 'CC001');
+    assert.equal(step.status, 'pending');
+  });
+
+  test('only the current manager may decide the step', async () => {
+    const outsider = await request('POST', `/api/requisitions/${requisition.id}/approve`, { approvedBy: 'cc.lead' });
+    assert.equal(outsider.status, 403);
+
+    const reassigned = await request('PUT', `/api/cost-centers/${costCenter.id}`, { managerUsername: 'cc.lead' });
+    assert.equal(reassigned.status, 200, reassigned.body.error);
+
+    const formerManager = await request('POST', `/api/requisitions/${requisition.id}/approve`, { approvedBy: 'manager' });
+    assert.equal(formerManager.status, 403);
+    assert.match(formerManager.body.error, /cc\.lead/);
+
+    const approved = await request('POST', `/api/requisitions/${requisition.id}/approve`, { approvedBy: 'cc.lead' });
+    assert.equal(approved.status, 200, approved.body.error);
+    assert.equal(approved.body.status, 'approved');
+    const step = approved.body.approvalSteps.find(approvalStep => approvalStep.approverType === 'cost_center_manager');
+    assert.equal(step.approverValue, 'cc.lead');
+    assert.equal(step.decidedBy, 'cc.lead');
+  });
+
+  test('an unknown manager account is refused', async () => {
+    const unknown = await request('PUT', `/api/cost-centers/${costCenter.id}`, { managerUsername: 'nobody' });
+    assert.equal(unknown.status, 400);
+  });
+});
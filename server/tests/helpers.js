@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Shared by the server tests: each test file runs the server against its own fresh, seeded
+// database and drives it over HTTP.
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+const STARTUP_TIMEOUT_MS = 20000;
+
+let server;
+let tempDir;
+let baseUrl;
+
+function getFreePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+export async function request(method, url, body) {
+  const response = await fetch(baseUrl + url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+// Post a file as multipart form data, with any other form `fields` alongside it
+export async function upload(url, { name, type, content }, fields = {}) {
+  const form = new FormData();
+  Object.entries(fields).forEach(([field, value]) => form.append(field, value));
+  form.append('file', new Blob([content], { type }), name);
+  const response = await fetch(baseUrl + url, { method: 'POST', body: form });
+  return { status: response.status, body: await response.json() };
+}
+
+// The server listens before its seed data is written, so wait for the seeded rows too
+async function waitForSeedData() {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (server.exitCode !== null) {
+      throw new Error(`Server exited with code ${server.exitCode}`);
+    }
+    try {
+      const [items, requesters, rules] = await Promise.all(
+        ['/api/inventory/products', '/api/requesters', '/api/approval-rules'].map(url => request('GET', url))
+      );
+      if ([items, requesters, rules].every(result => result.status === 200 && result.body.length > 0)) {
+        return;
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  throw new Error('Server did not start in time');
+}
+
+export async function startServer() {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cabinet-wms-test-'));
+  const port = await getFreePort();
+  baseUrl = `http://127.0.0.1:${port}`;
+  server = spawn(process.execPath, ['server/index.js'], {
+    cwd: rootDir,
+    env: { ...process.env, DB_PATH: path.join(tempDir, 'test.db'), PORT: String(port) },
+    stdio: 'ignore'
+  });
+  await waitForSeedData();
+}
+
+export async function stopServer() {
+  if (server && server.exitCode === null) {
+    const exited = new Promise(resolve => server.once('exit', resolve));
+    server.kill();
+    await exited;
+  }
+  fs.rmSync(tempDir, { recursive: true, force: true });
+}
+
+export async function getItem(itemId) {
+  const { body } = await request('GET', '/api/inventory/products');
+  return body.find(item => item.itemId === itemId);
+}
+
+export async function getTransactions(item) {
+  return (await request('GET', `/api/inventory/products/${item.id}/transactions`)).body;
+}
+
+export async function createRequisition(items) {
+  const created = await request('POST', '/api/requisitions', {
+    requester: 'John Smith',
+    department: 'Production',
+    items,
+    createdBy: 'admin'
+  });
+  assert.equal(created.status, 201, created.body.error);
+  return created.body;
+}
+
+// Submit a requisition and approve every step as admin, who may decide any step
+export async function createApprovedRequisition(items) {
+  const created = await createRequisition(items);
+  let requisition = (await request('POST', `/api/requisitions/${created.id}/submit`)).body;
+  while (requisition.status === 'pending') {
+    const approved = await request('POST', `/api/requisitions/${requisition.id}/approve`, { approvedBy: 'admin' });
+    assert.equal(approved.status, 200, approved.body.error);
+    requisition = approved.body;
+  }
+  assert.equal(requisition.status, 'approved');
+  return requisition;
+}
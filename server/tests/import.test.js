@@ -0,0 +1,124 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { utils, write } from 'xlsx';
+import { getItem, getTransactions, startServer, stopServer, upload } from './helpers.js';
+
+// Inventory import: files are previewed before they are committed, opening stock and quantity
+// changes go through the ledger, and oversized or mislabelled files are refused
+
+before(startServer);
+after(stopServer);
+
+const HEADER = 'Item ID,Name,Category,Quantity,Unit Cost,Location,Unit';
+
+function csv(lines) {
+  return { name: 'items.csv', type: 'text/csv', content: [HEADER, ...lines].join('\n') };
+}
+
+function importFile(file, fields = {}) {
+  return upload('/api/inventory/import', file, fields);
+}
+
+describe('importing inventory from a file', () => {
+  test('a preview validates the rows and writes nothing', async () => {
+    const preview = await importFile(csv(['IMP-001,Import hinge,Hardware,30,1.25,B-2-05,Pieces (pcs)']));
+    assert.equal(preview.status, 200, preview.body.error);
+    assert.equal(preview.body.dryRun, true);
+    assert.equal(preview.body.committed, false);
+    assert.equal(preview.body.insertCount, 1);
+    assert.equal(preview.body.errorCount, 0);
+    assert.equal(await getItem('IMP-001'), undefined);
+  });
+
+  test('committing creates the items and posts their opening stock to the ledger', async () => {
+    const committed = await importFile(csv(['IMP-001,Import hinge,Hardware,30,1.25,B-2-05,Pieces (pcs)']), { dryRun: 'false' });
+    assert.equal(committed.status, 200, committed.body.error);
+    assert.equal(committed.body.committed, true);
+
+    const item = await getItem('IMP-001');
+    assert.equal(item.quantity, 30);
+    const [receipt, ...others] = await getTransactions(item);
+    assert.equal(others.length, 0);
+    assert.equal(receipt.type, 'receipt');
+    assert.equal(receipt.quantity, 30);
+    assert.equal(receipt.referenceType, 'import');
+    assert.equal(receipt.referenceNumber, committed.body.referenceNumber);
+  });
+
+  test('an existing item is only changed in update mode, as a ledger adjustment', async () => {
+    const file = csv(['IMP-001,Import hinge,Hardware,24,1.25,B-2-05,Pieces (pcs)']);
+    const refused = await importFile(file, { dryRun: 'false' });
+    assert.equal(refused.status, 422);
+    assert.match(refused.body.rows[0].errors[0].message, /already exists/);
+    assert.equal((await getItem('IMP-001')).quantity, 30);
+
+    const updated = await importFile(file, { dryRun: 'false', mode: 'upsert' });
+    assert.equal(updated.status, 200, updated.body.error);
+    assert.equal(updated.body.updateCount, 1);
+    const item = await getItem('IMP-001');
+    assert.equal(item.quantity, 24);
+    const adjustment = (await getTransactions(item)).find(transaction => transaction.type === 'adjustment');
+    assert.equal(adjustment.quantity, -6);
+    assert.equal(adjustment.referenceNumber, updated.body.referenceNumber);
+  });
+
+  test('a file with an invalid row commits none of its rows', async () => {
+    const result = await importFile(csv([
+      'IMP-002,Import screw,Hardware,100,0.05,B-2-05,Pieces (pcs)',
+      'IMP-003,Import bracket,Nonsense,5,0.80,B-2-05,Pieces (pcs)'
+    ]), { dryRun: 'false' });
+    assert.equal(result.status, 422);
+    assert.equal(result.body.errorCount, 1);
+    assert.equal(result.body.rows[1].errors[0].field, 'category');
+    assert.equal(await getItem('IMP-002'), undefined);
+  });
+
+  test('a spreadsheet is read like a CSV file', async () => {
+    const sheet = utils.aoa_to_sheet([HEADER.split(','), ['IMP-004', 'Import runner', 'Hardware', 12, 4.5, 'B-2-05', 'Pieces (pcs)']]);
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, sheet, 'Items');
+    const preview = await importFile({
+      name: 'items.xlsx',
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content: write(workbook, { type: 'buffer', bookType: 'xlsx' })
+    });
+    assert.equal(preview.status, 200, preview.body.error);
+    assert.equal(preview.body.insertCount, 1);
+    assert.equal(preview.body.rows[0].data.quantity, 12);
+  });
+});
+
+describe('import limits', () => {
+  test('a file with more than 5000 rows is refused', async () => {
+    const lines = Array.from({ length: 5001 }, (_, index) => `BULK-${index},Bulk item,Hardware,0,1,B-2-05,Pieces (pcs)`);
+    const result = await importFile(csv(lines));
+    assert.equal(result.status, 400);
+    assert.match(result.body.error, /more than 5000 rows/);
+  });
+
+  test('a file over 5MB is refused', async () => {
+    const result = await importFile({ name: 'items.csv', type: 'text/csv', content: HEADER + '\n' + 'x'.repeat(5 * 1024 * 1024) });
+    assert.equal(result.status, 400);
+  });
+
+  test('only CSV and Excel files whose content type matches are accepted', async () => {
+    const wrongExtension = await importFile({ name: 'items.json', type: 'application/json', content: '[]' });
+    assert.equal(wrongExtension.status, 400);
+    assert.match(wrongExtension.body.error, /Only \.xlsx, \.xls and \.csv/);
+
+    const wrongType = await importFile({ name: 'items.csv', type: 'application/zip', content: HEADER });
+    assert.equal(wrongType.status, 400);
+    assert.match(wrongType.body.error, /cannot have content type/);
+  });
+
+  test('a file named as a workbook must be one', async () => {
+    const result = await importFile({
+      name: 'items.xlsx',
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content: HEADER
+    });
+    assert.equal(result.status, 400);
+    assert.match(result.body.error, /not a valid \.xlsx workbook/);
+    assert.equal(await getItem('IMP-004'), undefined);
+  });
+});
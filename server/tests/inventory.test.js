@@ -0,0 +1,79 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getItem, getTransactions, request, startServer, stopServer } from './helpers.js';
+
+// Stock ledger: every quantity change is a ledger row, and items with stock history are kept
+
+before(startServer);
+after(stopServer);
+
+async function createItem(itemId, quantity) {
+  const created = await request('POST', '/api/inventory/products', {
+    itemId,
+    name: `Test hinge ${itemId}`,
+    category: 'Hardware',
+    quantity,
+    unitCost: 2.5,
+    location: 'B-2-05',
+    supplier: 'Hardware Plus',
+    unitMeasurement: 'Pieces (pcs)',
+    minStockLevel: 0,
+    maxStockLevel: 100,
+    performedBy: 'admin'
+  });
+  assert.equal(created.status, 201, created.body.error);
+  return created.body;
+}
+
+describe('the stock ledger and the item delete guard', () => {
+  test('opening stock and issues are posted as ledger rows that add up to the quantity', async () => {
+    const item = await createItem('TST-LEDGER', 20);
+    const issued = await request('POST', `/api/inventory/products/${item.id}/transactions`, {
+      type: 'issue',
+      quantity: -8,
+      referenceType: 'manual',
+      performedBy: 'admin'
+    });
+    assert.equal(issued.status, 201, issued.body.error);
+
+    const overdrawn = await request('POST', `/api/inventory/products/${item.id}/transactions`, { type: 'issue', quantity: -13 });
+    assert.equal(overdrawn.status, 400);
+    assert.match(overdrawn.body.error, /Insufficient stock/);
+
+    assert.equal((await getItem('TST-LEDGER')).quantity, 12);
+    const transactions = await getTransactions(item);
+    assert.deepEqual(transactions.map(transaction => [transaction.type, transaction.quantity]).sort(), [['issue', -8], ['receipt', 20]]);
+    assert.ok(transactions.every(transaction => transaction.locationCode === 'B-2-05'));
+
+    const reconciliation = (await request('GET', '/api/inventory/reconciliation')).body;
+    assert.equal(reconciliation.balanced, true);
+  });
+
+  test('an item in stock cannot be deleted', async () => {
+    const item = await getItem('TST-LEDGER');
+    const deleted = await request('DELETE', `/api/inventory/products/${item.id}`);
+    assert.equal(deleted.status, 409);
+    assert.match(deleted.body.error, /12 Pieces \(pcs\) is in stock/);
+    assert.ok(await getItem('TST-LEDGER'));
+  });
+
+  test('an item with ledger history cannot be deleted once its stock is gone', async () => {
+    const item = await getItem('TST-LEDGER');
+    const issued = await request('POST', `/api/inventory/products/${item.id}/transactions`, { type: 'issue', quantity: -12 });
+    assert.equal(issued.status, 201, issued.body.error);
+
+    const deleted = await request('DELETE', `/api/inventory/products/${item.id}`);
+    assert.equal(deleted.status, 409);
+    assert.match(deleted.body.error, /stock movements in the ledger/);
+    assert.equal((await getTransactions(item)).length, 3);
+  });
+
+  test('an item that never held stock can be deleted', async () => {
+    const item = await createItem('TST-UNUSED', 0);
+    assert.equal((await getTransactions(item)).length, 0);
+
+    const deleted = await request('DELETE', `/api/inventory/products/${item.id}`);
+    assert.equal(deleted.status, 200, deleted.body.error);
+    assert.equal(await getItem('TST-UNUSED'), undefined);
+  });
+});
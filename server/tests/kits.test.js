@@ -0,0 +1,94 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getItem, getTransactions, request, startServer, stopServer } from './helpers.js';
+
+// Kits are issued as their components: one ledger row per component, or per lot for lot-tracked
+// components, and either every component is issued or none is
+
+before(startServer);
+after(stopServer);
+
+const dateInDays = (days) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+describe('issuing hardware kits', () => {
+  let hinges;
+  let screws;
+  let kit;
+
+  before(async () => {
+    hinges = await getItem('HNG-CONC-35');
+    const created = await request('POST', '/api/inventory/products', {
+      itemId: 'SCR-MNT-4X16',
+      name: 'Mounting screws 4x16',
+      category: 'Hardware',
+      quantity: 0,
+      unitCost: 0.1,
+      location: 'B-2-05',
+      supplier: 'Hardware Plus',
+      unitMeasurement: 'Pieces (pcs)',
+      minStockLevel: 0,
+      maxStockLevel: 1000,
+      isLotTracked: true
+    });
+    assert.equal(created.status, 201, created.body.error);
+    screws = created.body;
+    for (const receipt of [
+      { lotNumber: 'SCR-LATE', quantity: 10, expiryDate: dateInDays(90) },
+      { lotNumber: 'SCR-SOON', quantity: 6, expiryDate: dateInDays(30) }
+    ]) {
+      const received = await request('POST', `/api/inventory/products/${screws.id}/transactions`, { type: 'receipt', ...receipt });
+      assert.equal(received.status, 201, received.body.error);
+    }
+
+    const kitCreated = await request('POST', '/api/kits', {
+      kitCode: 'door-kit',
+      name: 'Door hardware kit',
+      components: [
+        { inventoryItemId: hinges.id, quantity: 2 },
+        { inventoryItemId: screws.id, quantity: 4 }
+      ]
+    });
+    assert.equal(kitCreated.status, 201, kitCreated.body.error);
+    kit = kitCreated.body;
+    assert.equal(kit.kitCode, 'DOOR-KIT');
+    assert.equal(kit.availableKits, 4);
+  });
+
+  test('an issue posts every component, taking lots first-expired-first-out', async () => {
+    const issued = await request('POST', `/api/kits/${kit.id}/issue`, { quantity: 2, performedBy: 'admin' });
+    assert.equal(issued.status, 201, issued.body.error);
+    assert.equal(issued.body.transactions.length, 3);
+    assert.equal(issued.body.kit.availableKits, 2);
+
+    assert.equal((await getItem('HNG-CONC-35')).quantity, hinges.quantity - 4);
+    assert.equal((await getItem('SCR-MNT-4X16')).quantity, 8);
+
+    const hingeRows = (await getTransactions(hinges)).filter(transaction => transaction.referenceNumber === 'DOOR-KIT');
+    assert.deepEqual(hingeRows.map(row => [row.type, row.referenceType, row.quantity]), [['issue', 'kit', -4]]);
+    const screwRows = (await getTransactions(screws)).filter(transaction => transaction.referenceNumber === 'DOOR-KIT');
+    assert.deepEqual(screwRows.map(row => [row.lotNumber, row.quantity]).sort(), [['SCR-LATE', -2], ['SCR-SOON', -6]]);
+  });
+
+  test('a shortage of one component issues none of them', async () => {
+    const hingeRows = (await getTransactions(hinges)).length;
+    const issued = await request('POST', `/api/kits/${kit.id}/issue`, { quantity: 3 });
+    assert.equal(issued.status, 400);
+    assert.match(issued.body.error, /SCR-MNT-4X16/);
+
+    assert.equal((await getItem('HNG-CONC-35')).quantity, hinges.quantity - 4);
+    assert.equal((await getItem('SCR-MNT-4X16')).quantity, 8);
+    assert.equal((await getTransactions(hinges)).length, hingeRows);
+  });
+
+  test('kits are issued in whole numbers', async () => {
+    const issued = await request('POST', `/api/kits/${kit.id}/issue`, { quantity: 1.5 });
+    assert.equal(issued.status, 400);
+    assert.equal((await getItem('SCR-MNT-4X16')).quantity, 8);
+  });
+
+  test('an item in a kit cannot be deleted', async () => {
+    const deleted = await request('DELETE', `/api/inventory/products/${screws.id}`);
+    assert.equal(deleted.status, 409);
+    assert.match(deleted.body.error, /component of kit DOOR-KIT/);
+  });
+});
@@ -0,0 +1,106 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getItem, getTransactions, request, startServer, stopServer } from './helpers.js';
+
+// Stock per location: transfers move stock between locations in two ledger legs without changing the total
+
+before(startServer);
+after(stopServer);
+
+async function getLocation(code) {
+  const { body } = await request('GET', '/api/locations');
+  return body.find(location => location.code === code);
+}
+
+function quantityAt(item, locationCode) {
+  const stock = item.stockByLocation.find(entry => entry.locationCode === locationCode);
+  return stock ? stock.quantity : 0;
+}
+
+describe('stock transfers between locations', () => {
+  let plywood;
+  let shelf;
+  let receiving;
+
+  before(async () => {
+    plywood = await getItem('PLY-18-4X8');
+    shelf = await getLocation('A-1-01');
+    receiving = await getLocation('RECEIVING');
+    assert.equal(quantityAt(plywood, 'A-1-01'), 45);
+  });
+
+  test('a transfer posts an outbound and an inbound leg under one reference', async () => {
+    const transfer = await request('POST', '/api/inventory/transfers', {
+      inventoryItemId: plywood.id,
+      fromLocationId: shelf.id,
+      toLocationId: receiving.id,
+      quantity: 10,
+      performedBy: 'admin'
+    });
+    assert.equal(transfer.status, 201, transfer.body.error);
+
+    const moved = await getItem('PLY-18-4X8');
+    assert.equal(moved.quantity, 45);
+    assert.equal(quantityAt(moved, 'A-1-01'), 35);
+    assert.equal(quantityAt(moved, 'RECEIVING'), 10);
+
+    const legs = (await getTransactions(plywood)).filter(transaction => transaction.referenceNumber === transfer.body.referenceNumber);
+    assert.deepEqual(
+      legs.map(leg => [leg.type, leg.locationCode, leg.quantity]).sort(),
+      [['transfer', 'A-1-01', -10], ['transfer', 'RECEIVING', 10]]
+    );
+    assert.equal((await getLocation('RECEIVING')).totalQuantity, 10);
+  });
+
+  test('a transfer of more than the source holds posts nothing', async () => {
+    const ledgerRows = (await getTransactions(plywood)).length;
+    const transfer = await request('POST', '/api/inventory/transfers', {
+      inventoryItemId: plywood.id,
+      fromLocationId: receiving.id,
+      toLocationId: shelf.id,
+      quantity: 11
+    });
+    assert.equal(transfer.status, 400);
+    assert.match(transfer.body.error, /Insufficient stock/);
+
+    assert.equal((await getTransactions(plywood)).length, ledgerRows);
+    assert.equal(quantityAt(await getItem('PLY-18-4X8'), 'RECEIVING'), 10);
+  });
+
+  test('stock cannot be moved to an inactive location', async () => {
+    const shipping = await getLocation('SHIPPING');
+    const deactivated = await request('PUT', `/api/locations/${shipping.id}`, { isActive: false });
+    assert.equal(deactivated.status, 200, deactivated.body.error);
+
+    const transfer = await request('POST', '/api/inventory/transfers', {
+      inventoryItemId: plywood.id,
+      fromLocationId: shelf.id,
+      toLocationId: shipping.id,
+      quantity: 1
+    });
+    assert.equal(transfer.status, 400);
+    assert.equal(quantityAt(await getItem('PLY-18-4X8'), 'A-1-01'), 35);
+  });
+
+  test('a location holding stock cannot be deleted', async () => {
+    const deleted = await request('DELETE', `/api/locations/${receiving.id}`);
+    assert.equal(deleted.status, 409);
+    assert.ok(await getLocation('RECEIVING'));
+
+    const created = await request('POST', '/api/locations', { code: 'tmp-1', storeName: 'Overflow' });
+    assert.equal(created.status, 201, created.body.error);
+    assert.equal(created.body.code, 'TMP-1');
+    const emptyDeleted = await request('DELETE', `/api/locations/${created.body.id}`);
+    assert.equal(emptyDeleted.status, 200, emptyDeleted.body.error);
+    assert.equal(await getLocation('TMP-1'), undefined);
+  });
+
+  test('renaming a location keeps its items pointing at it', async () => {
+    const renamed = await request('PUT', `/api/locations/${shelf.id}`, { code: 'A-1-09' });
+    assert.equal(renamed.status, 200, renamed.body.error);
+
+    const moved = await getItem('PLY-18-4X8');
+    assert.equal(moved.location, 'A-1-09');
+    assert.equal(quantityAt(moved, 'A-1-09'), 35);
+  });
+});
@@ -0,0 +1,114 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getItem, getTransactions, request, startServer, stopServer } from './helpers.js';
+
+// Lot-tracked stock: every movement names its lot, lots carry an expiry date, and issues are
+// suggested first-expired-first-out, skipping expired lots
+
+before(startServer);
+after(stopServer);
+
+const dateInDays = (days) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+describe('lots and first-expired-first-out issues', () => {
+  let glue;
+
+  function post(movement) {
+    return request('POST', `/api/inventory/products/${glue.id}/transactions`, { performedBy: 'admin', ...movement });
+  }
+
+  async function getLots() {
+    return (await request('GET', `/api/inventory/products/${glue.id}/lots`)).body;
+  }
+
+  before(async () => {
+    const created = await request('POST', '/api/inventory/products', {
+      itemId: 'GLU-PVA-1L',
+      name: 'PVA wood glue 1L',
+      category: 'Hardware',
+      quantity: 0,
+      unitCost: 8,
+      location: 'B-2-05',
+      supplier: 'Hardware Plus',
+      unitMeasurement: 'Pieces (pcs)',
+      minStockLevel: 0,
+      maxStockLevel: 100,
+      isLotTracked: true,
+      shelfLifeDays: 180
+    });
+    assert.equal(created.status, 201, created.body.error);
+    glue = created.body;
+
+    for (const receipt of [
+      { lotNumber: 'LOT-B', quantity: 10, expiryDate: dateInDays(60) },
+      { lotNumber: 'LOT-A', quantity: 10, expiryDate: dateInDays(20) },
+      { lotNumber: 'LOT-X', quantity: 5, expiryDate: dateInDays(-1) },
+      { lotNumber: 'LOT-N', quantity: 8 }
+    ]) {
+      const received = await post({ type: 'receipt', ...receipt });
+      assert.equal(received.status, 201, received.body.error);
+    }
+  });
+
+  test('each receipt is a ledger row for its lot and a lot without a date expires after the shelf life', async () => {
+    assert.equal((await getItem('GLU-PVA-1L')).quantity, 33);
+    const receipts = await getTransactions(glue);
+    assert.deepEqual(receipts.map(receipt => [receipt.lotNumber, receipt.quantity]).sort(), [['LOT-A', 10], ['LOT-B', 10], ['LOT-N', 8], ['LOT-X', 5]]);
+
+    const lots = await getLots();
+    assert.deepEqual(lots.map(lot => lot.lotNumber), ['LOT-X', 'LOT-A', 'LOT-B', 'LOT-N']);
+    const noDate = lots.find(lot => lot.lotNumber === 'LOT-N');
+    assert.equal(noDate.expiryDate, new Date(new Date(noDate.receivedAt).getTime() + 180 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10));
+  });
+
+  test('a movement without a lot, or with a conflicting expiry date, is refused', async () => {
+    const withoutLot = await post({ type: 'receipt', quantity: 3 });
+    assert.equal(withoutLot.status, 400);
+    assert.match(withoutLot.body.error, /lot number is required/);
+
+    const otherExpiry = await post({ type: 'receipt', lotNumber: 'LOT-A', quantity: 3, expiryDate: dateInDays(90) });
+    assert.equal(otherExpiry.status, 400);
+    assert.match(otherExpiry.body.error, /already expires/);
+    assert.equal((await getItem('GLU-PVA-1L')).quantity, 33);
+  });
+
+  test('the suggestion takes the earliest expiry first and never an expired lot', async () => {
+    const suggestion = (await request('GET', `/api/inventory/products/${glue.id}/fefo?quantity=15`)).body;
+    assert.deepEqual(suggestion.picks.map(pick => [pick.lotNumber, pick.pickQuantity]), [['LOT-A', 10], ['LOT-B', 5]]);
+    assert.equal(suggestion.shortQuantity, 0);
+    assert.deepEqual(suggestion.expiredLots.map(lot => lot.lotNumber), ['LOT-X']);
+
+    const short = (await request('GET', `/api/inventory/products/${glue.id}/fefo?quantity=40`)).body;
+    assert.deepEqual(short.picks.map(pick => pick.lotNumber), ['LOT-A', 'LOT-B', 'LOT-N']);
+    assert.equal(short.shortQuantity, 12);
+  });
+
+  test('an issue draws down only its own lot', async () => {
+    const issued = await post({ type: 'issue', lotNumber: 'LOT-A', quantity: -4 });
+    assert.equal(issued.status, 201, issued.body.error);
+    assert.equal(issued.body.lotNumber, 'LOT-A');
+
+    const overdrawn = await post({ type: 'issue', lotNumber: 'LOT-A', quantity: -7 });
+    assert.equal(overdrawn.status, 400);
+    assert.match(overdrawn.body.error, /Insufficient stock in lot LOT-A/);
+
+    const lots = await getLots();
+    assert.equal(lots.find(lot => lot.lotNumber === 'LOT-A').quantity, 6);
+    assert.equal(lots.find(lot => lot.lotNumber === 'LOT-B').quantity, 10);
+    assert.equal((await getItem('GLU-PVA-1L')).quantity, 29);
+
+    const suggestion = (await request('GET', `/api/inventory/products/${glue.id}/fefo?quantity=8`)).body;
+    assert.deepEqual(suggestion.picks.map(pick => [pick.lotNumber, pick.pickQuantity]), [['LOT-A', 6], ['LOT-B', 2]]);
+  });
+
+  test('expiring stock lists expired lots and those expiring within the window', async () => {
+    const expiring = (await request('GET', '/api/inventory/expiring?days=30')).body.filter(lot => lot.itemId === 'GLU-PVA-1L');
+    assert.deepEqual(expiring.map(lot => [lot.lotNumber, lot.isExpired]), [['LOT-X', true], ['LOT-A', false]]);
+  });
+
+  test('only lot-tracked items have a suggestion', async () => {
+    const plywood = await getItem('PLY-18-4X8');
+    const suggestion = await request('GET', `/api/inventory/products/${plywood.id}/fefo?quantity=1`);
+    assert.equal(suggestion.status, 400);
+  });
+});
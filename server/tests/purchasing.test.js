@@ -0,0 +1,120 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createApprovedRequisition, getItem, getTransactions, request, startServer, stopServer } from './helpers.js';
+
+// Requisition shortage -> purchase order approval -> receipt -> allocation -> issue
+
+before(startServer);
+after(stopServer);
+
+describe('purchasing for a requisition shortage', () => {
+  let requisition;
+  let purchaseOrder;
+
+  before(async () => {
+    const plywood = await getItem('PLY-18-4X8');
+    requisition = await createApprovedRequisition([{ itemId: 'PLY-18-4X8', requestedQuantity: plywood.quantity + 15 }]);
+
+    const issued = await request('POST', `/api/requisitions/${requisition.id}/issue`, {
+      issuedBy: 'admin',
+      items: [{ id: requisition.items[0].id, quantity: plywood.quantity }]
+    });
+    assert.equal(issued.status, 201, issued.body.error);
+    requisition = (await request('GET', `/api/requisitions/${requisition.id}`)).body;
+    assert.equal(requisition.status, 'partially_issued');
+    assert.equal((await getItem('PLY-18-4X8')).quantity, 0);
+
+    const ordered = await request('POST', '/api/requisitions/purchase-orders', {
+      lines: [{ id: requisition.items[0].id }]
+    });
+    assert.equal(ordered.status, 201, ordered.body.error);
+    purchaseOrder = ordered.body[0];
+    assert.equal(purchaseOrder.status, 'draft');
+  });
+
+  test('a purchase order cannot be ordered or received before it is approved', async () => {
+    const skipped = await request('PUT', `/api/purchase-orders/${purchaseOrder.id}`, { status: 'ordered' });
+    assert.equal(skipped.status, 400);
+    assert.match(skipped.body.error, /is draft and cannot be set to ordered/);
+
+    const selfApproved = await request('PUT', `/api/purchase-orders/${purchaseOrder.id}`, { status: 'approved' });
+    assert.equal(selfApproved.status, 400);
+
+    const submitted = await request('PUT', `/api/purchase-orders/${purchaseOrder.id}`, { status: 'pending' });
+    assert.equal(submitted.status, 200, submitted.body.error);
+    assert.ok(submitted.body.approvalSteps.length > 0);
+
+    const earlyOrder = await request('PUT', `/api/purchase-orders/${purchaseOrder.id}`, { status: 'ordered' });
+    assert.equal(earlyOrder.status, 400);
+    const earlyReceipt = await request('PUT', `/api/purchase-orders/${purchaseOrder.id}`, { status: 'received' });
+    assert.equal(earlyReceipt.status, 400);
+
+    const notApprover = await request('PATCH', `/api/purchase-orders/${purchaseOrder.id}/approve`, { approvedBy: 'nobody' });
+    assert.equal(notApprover.status, 403);
+    assert.equal((await getItem('PLY-18-4X8')).quantity, 0);
+  });
+
+  test('receiving an approved order posts the receipt and allocates it to the requisition', async () => {
+    let approved = (await request('GET', `/api/purchase-orders/${purchaseOrder.id}`)).body;
+    while (approved.status === 'pending') {
+      const result = await request('PATCH', `/api/purchase-orders/${purchaseOrder.id}/approve`, { approvedBy: 'admin' });
+      assert.equal(result.status, 200, result.body.error);
+      approved = result.body;
+    }
+    assert.equal(approved.status, 'approved');
+
+    const ordered = await request('PUT', `/api/purchase-orders/${purchaseOrder.id}`, { status: 'ordered' });
+    assert.equal(ordered.status, 200, ordered.body.error);
+    // Two overlapping receipts: the second finds the order already received and posts nothing
+    const receipts = await Promise.all([1, 2].map(() =>
+      request('PUT', `/api/purchase-orders/${purchaseOrder.id}`, { status: 'received', receivedBy: 'admin' })
+    ));
+    receipts.forEach(received => assert.equal(received.status, 200, received.body.error));
+
+    const plywood = await getItem('PLY-18-4X8');
+    assert.equal(plywood.quantity, 15);
+
+    const transactions = await getTransactions(plywood);
+    const receiptRows = transactions.filter(transaction => transaction.referenceNumber === purchaseOrder.poNumber);
+    assert.equal(receiptRows.length, 1);
+    assert.equal(receiptRows[0].quantity, 15);
+
+    const reservations = (await request('GET', `/api/inventory/products/${plywood.id}/reservations`)).body;
+    const allocation = reservations.find(reservation => reservation.projectId === requisition.id);
+    assert.ok(allocation, 'the receipt is reserved for the requisition');
+    assert.equal(allocation.reservedQuantity, 15);
+
+    const notifications = (await request('GET', '/api/notifications?email=john.smith@cabinet-wms.com')).body;
+    assert.ok(notifications.some(notification => notification.referenceId === requisition.id));
+
+    const reopened = await request('PUT', `/api/purchase-orders/${purchaseOrder.id}`, { status: 'ordered' });
+    assert.equal(reopened.status, 400);
+
+    const deleted = await request('DELETE', `/api/purchase-orders/${purchaseOrder.id}`);
+    assert.equal(deleted.status, 409);
+    assert.equal((await request('GET', `/api/purchase-orders/${purchaseOrder.id}`)).status, 200);
+  });
+
+  test('stock allocated to a requisition cannot be issued to another', async () => {
+    const other = await createApprovedRequisition([{ itemId: 'PLY-18-4X8', requestedQuantity: 10 }]);
+
+    const pickList = (await request('GET', `/api/requisitions/${other.id}/pick-list`)).body;
+    assert.equal(pickList.lines[0].availableQuantity, 0);
+
+    const blocked = await request('POST', `/api/requisitions/${other.id}/issue`, {
+      issuedBy: 'admin',
+      items: [{ id: other.items[0].id, quantity: 10 }]
+    });
+    assert.equal(blocked.status, 400);
+    assert.match(blocked.body.error, /reserved/);
+    assert.equal((await getItem('PLY-18-4X8')).quantity, 15);
+
+    const issued = await request('POST', `/api/requisitions/${requisition.id}/issue`, {
+      issuedBy: 'admin',
+      items: [{ id: requisition.items[0].id, quantity: 15 }]
+    });
+    assert.equal(issued.status, 201, issued.body.error);
+    assert.equal((await request('GET', `/api/requisitions/${requisition.id}`)).body.status, 'fulfilled');
+    assert.equal((await getItem('PLY-18-4X8')).quantity, 0);
+  });
+});
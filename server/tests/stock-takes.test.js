@@ -0,0 +1,145 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getItem, getTransactions, request, startServer, stopServer } from './helpers.js';
+
+// Stock takes: expected quantities are frozen when a session opens, and only approved variances
+// are posted to the ledger. An item's ABC class sets how often it comes up for counting.
+
+before(startServer);
+after(stopServer);
+
+describe('a stock take count session', () => {
+  let stockTake;
+  let plywoodLine;
+  let mdfLine;
+
+  before(async () => {
+    const opened = await request('POST', '/api/stock-takes', {
+      name: 'Panel store count',
+      scopeType: 'location',
+      scopeValues: ['A-1-01', 'A-1-02'],
+      createdBy: 'admin'
+    });
+    assert.equal(opened.status, 201, opened.body.error);
+    stockTake = opened.body;
+    plywoodLine = stockTake.lines.find(line => line.itemId === 'PLY-18-4X8');
+    mdfLine = stockTake.lines.find(line => line.itemId === 'MDF-18-4X8');
+    assert.equal(plywoodLine.expectedQuantity, 45);
+    assert.ok(mdfLine);
+  });
+
+  test('a session needs stock in its scope', async () => {
+    const empty = await request('POST', '/api/stock-takes', { name: 'Empty', scopeType: 'location', scopeValues: ['SHIPPING'] });
+    assert.equal(empty.status, 400);
+  });
+
+  test('only counted lines can be approved', async () => {
+    const approved = await request('PUT', `/api/stock-takes/${stockTake.id}/lines/${plywoodLine.id}`, { approved: true });
+    assert.equal(approved.status, 400);
+  });
+
+  test('a variance needs a reason code before it is posted', async () => {
+    const counted = await request('PUT', `/api/stock-takes/${stockTake.id}/lines/${plywoodLine.id}`, {
+      countedQuantity: 38,
+      approved: true,
+      countedBy: 'admin'
+    });
+    assert.equal(counted.status, 200, counted.body.error);
+    assert.equal(counted.body.variance, -7);
+
+    const posted = await request('POST', `/api/stock-takes/${stockTake.id}/post`, { performedBy: 'admin' });
+    assert.equal(posted.status, 400);
+    assert.match(posted.body.error, /reason code is required/);
+    assert.equal((await getItem('PLY-18-4X8')).quantity, 45);
+  });
+
+  test('posting adjusts approved lines by their variance from the frozen quantity', async () => {
+    const plywood = await getItem('PLY-18-4X8');
+    // Issued after the session opened: the count is still compared with the 45 frozen at the start
+    const issued = await request('POST', `/api/inventory/products/${plywood.id}/transactions`, { type: 'issue', quantity: -5 });
+    assert.equal(issued.status, 201, issued.body.error);
+
+    const reasoned = await request('PUT', `/api/stock-takes/${stockTake.id}/lines/${plywoodLine.id}`, { reasonCode: 'damaged' });
+    assert.equal(reasoned.status, 200, reasoned.body.error);
+    // Counted short but not approved, so nothing is posted for it
+    const mdfCounted = await request('PUT', `/api/stock-takes/${stockTake.id}/lines/${mdfLine.id}`, { countedQuantity: 0 });
+    assert.equal(mdfCounted.status, 200, mdfCounted.body.error);
+
+    const posted = await request('POST', `/api/stock-takes/${stockTake.id}/post`, { performedBy: 'admin' });
+    assert.equal(posted.status, 200, posted.body.error);
+    assert.equal(posted.body.status, 'posted');
+    assert.equal((await getItem('PLY-18-4X8')).quantity, 33);
+
+    const adjustments = (await getTransactions(plywood)).filter(transaction => transaction.referenceNumber === stockTake.sessionNumber);
+    assert.equal(adjustments.length, 1);
+    assert.equal(adjustments[0].type, 'adjustment');
+    assert.equal(adjustments[0].referenceType, 'stock_take');
+    assert.equal(adjustments[0].quantity, -7);
+    assert.equal(adjustments[0].locationCode, 'A-1-01');
+
+    const mdf = await getItem('MDF-18-4X8');
+    assert.equal(mdf.quantity, mdfLine.expectedQuantity);
+    assert.ok((await getTransactions(mdf)).every(transaction => transaction.referenceNumber !== stockTake.sessionNumber));
+  });
+
+  test('a posted session can no longer be changed or posted again', async () => {
+    const changed = await request('PUT', `/api/stock-takes/${stockTake.id}/lines/${plywoodLine.id}`, { countedQuantity: 45 });
+    assert.equal(changed.status, 400);
+
+    const reposted = await request('POST', `/api/stock-takes/${stockTake.id}/post`, { performedBy: 'admin' });
+    assert.equal(reposted.status, 400);
+    assert.equal((await getItem('PLY-18-4X8')).quantity, 33);
+  });
+});
+
+describe('ABC classes and count frequency', () => {
+  test('the analysis report leaves the stored classes alone', async () => {
+    const analysis = await request('GET', '/api/reports/inventory-analysis');
+    assert.equal(analysis.status, 200, analysis.body.error);
+    const plywood = analysis.body.items.find(item => item.itemId === 'PLY-18-4X8');
+    // The only plywood issue in the window makes it the top item by consumption value
+    assert.equal(plywood.abcClass, 'A');
+    assert.equal(plywood.storedAbcClass, null);
+  });
+
+  test('classifying stores the classes and counted items are not due again within their frequency', async () => {
+    const classified = await request('POST', '/api/reports/inventory-analysis/classify', {});
+    assert.equal(classified.status, 200, classified.body.error);
+
+    const plywood = classified.body.items.find(item => item.itemId === 'PLY-18-4X8');
+    assert.equal(plywood.storedAbcClass, 'A');
+    assert.ok(plywood.lastCountedAt, 'the plywood was counted in the posted stock take');
+    assert.equal(plywood.isDueForCount, false);
+    const daysToNextCount = (new Date(plywood.nextCountDue) - new Date(plywood.lastCountedAt)) / (24 * 60 * 60 * 1000);
+    assert.equal(daysToNextCount, classified.body.parameters.countFrequencyDays.A);
+
+    const hinges = classified.body.items.find(item => item.itemId === 'HNG-CONC-35');
+    assert.equal(hinges.lastCountedAt, null);
+    assert.equal(hinges.isDueForCount, true);
+  });
+
+  test('a class-scoped stock take only counts the items that are due', async () => {
+    const opened = await request('POST', '/api/stock-takes', {
+      name: 'Cycle count',
+      scopeType: 'abc_class',
+      scopeValues: ['A', 'B', 'C'],
+      createdBy: 'admin'
+    });
+    assert.equal(opened.status, 201, opened.body.error);
+
+    const itemIds = opened.body.lines.map(line => line.itemId);
+    assert.ok(itemIds.includes('HNG-CONC-35'));
+    assert.ok(!itemIds.includes('PLY-18-4X8'));
+    assert.ok(!itemIds.includes('MDF-18-4X8'));
+    const hinges = await getItem('HNG-CONC-35');
+    assert.equal(opened.body.lines.find(line => line.itemId === 'HNG-CONC-35').expectedQuantity, hinges.quantity);
+
+    const cancelled = await request('POST', `/api/stock-takes/${opened.body.id}/cancel`);
+    assert.equal(cancelled.status, 200, cancelled.body.error);
+  });
+
+  test('a class with nothing due opens no session', async () => {
+    const opened = await request('POST', '/api/stock-takes', { name: 'A count', scopeType: 'abc_class', scopeValues: ['A'] });
+    assert.equal(opened.status, 400);
+  });
+});
@@ -11,6 +11,11 @@ import Requisitions from './pages/Requisitions';
 import ReportManagement from './pages/ReportManagement';
 import PurchaseOrderManagement from './pages/PurchaseOrderManagement';
 import CabinetCalculator from './pages/CabinetCalculator';
+import StockTake from './pages/StockTake';
+import Replenishment from './pages/Replenishment';
+import InventoryAnalysis from './pages/InventoryAnalysis';
+import Kits from './pages/Kits';
+import MaterialReturns from './pages/MaterialReturns';
 import LoadingSpinner from './components/Common/LoadingSpinner';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -39,9 +44,14 @@ const AppRoutes: React.FC = () => {
               <Routes>
                 <Route path="/" element={<Dashboard />} />
                 <Route path="/inventory" element={<Inventory />} />
+                <Route path="/kits" element={<Kits />} />
+                <Route path="/stock-take" element={<StockTake />} />
                 <Route path="/requisitions" element={<Requisitions />} />
+                <Route path="/returns" element={<MaterialReturns />} />
                 <Route path="/reports" element={<ReportManagement />} />
+                <Route path="/inventory-analysis" element={<InventoryAnalysis />} />
                 <Route path="/purchase-orders" element={<PurchaseOrderManagement />} />
+                <Route path="/replenishment" element={<Replenishment />} />
                 <Route path="/cabinet-calculator" element={<CabinetCalculator />} />
                 <Route path="/settings" element={<Settings />} />
               </Routes>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { CabinetTemplate, CabinetConfiguration } from '../../types/cabinet';
 import { CabinetCalculatorService } from '../../services/cabinetCalculator';
+import { UnitConversion } from '../../services/unitConversion';
 import { Ruler, Package, DollarSign, Settings, Save, Download, Eye, FileText } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -95,6 +96,16 @@ const CabinetConfigurator: React.FC<CabinetConfiguratorProps> = ({
     }).format(amount);
   };
 
+  // Consumption units such as millimetres of edgeband cost fractions of a cent
+  const formatUnitCost = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 5
+    }).format(amount);
+  };
+
   const handleExportCuttingList = () => {
     if (configuration) {
       onExportCuttingList(configuration);
@@ -452,10 +463,10 @@ const CabinetConfigurator: React.FC<CabinetConfiguratorProps> = ({
                   </div>
                   <div className="text-right">
                     <div className="text-lg font-semibold text-gray-900">
-                      {material.quantity} sheets
+                      {material.quantity.toLocaleString()} {UnitConversion.abbreviation(material.unit || 'Sheets (sht)')}
                     </div>
                     <div className="text-sm text-gray-600">
-                      {formatCurrency(material.unitCost)} each
+                      {formatUnitCost(material.unitCost)} / {UnitConversion.abbreviation(material.unit || 'Sheets (sht)')}
                     </div>
                     <div className="text-lg font-bold text-green-600">
                       {formatCurrency(material.totalCost)}
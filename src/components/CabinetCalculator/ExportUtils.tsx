@@ -70,7 +70,7 @@ export const exportBOMExcel = (config: CabinetConfiguration) => {
   
   // Create materials worksheet
   const materialsData = [
-    ['Material ID', 'Material Name', 'Type', 'Thickness', 'Dimensions', 'Quantity', 'Unit Cost', 'Total Cost', 'Supplier']
+    ['Material ID', 'Material Name', 'Type', 'Thickness', 'Dimensions', 'Quantity', 'Unit', 'Unit Cost', 'Total Cost', 'Supplier']
   ];
   
   config.materials.forEach(material => {
@@ -81,6 +81,7 @@ export const exportBOMExcel = (config: CabinetConfiguration) => {
       `${material.thickness}mm`,
       `${material.dimensions.length} × ${material.dimensions.width}mm`,
       material.quantity,
+      material.unit || 'Sheets (sht)',
       material.unitCost,
       material.totalCost,
       material.supplier
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { NestingResult } from '../../types/cabinet';
-import { Package, Maximize, BarChart3, RefreshCw, Download, Settings, Info } from 'lucide-react';
+import { NestingResult, NestingOffcut } from '../../types/cabinet';
+import { CutOptimizer } from '../../services/cutOptimizer';
+import { Package, Maximize, BarChart3, RefreshCw, Download, Settings, Info, Layers, CheckCircle } from 'lucide-react';
 
 interface NestingViewerProps {
   nestingResults: NestingResult[];
   onOptimize: () => void;
   onExportNesting: (result: NestingResult) => void;
+  onRegisterRemnants?: (result: NestingResult, offcuts: NestingOffcut[]) => Promise<boolean>;
+  onConsumeRemnants?: (result: NestingResult) => Promise<boolean>;
   isOptimizing: boolean;
   selectedTechnology?: string;
   onTechnologyChange?: (technology: string) => void;
@@ -15,6 +18,8 @@ const NestingViewer: React.FC<NestingViewerProps> = ({
   nestingResults, 
   onOptimize, 
   onExportNesting,
+  onRegisterRemnants,
+  onConsumeRemnants,
   isOptimizing,
   selectedTechnology = 'rectpack2d',
   onTechnologyChange
@@ -23,6 +28,17 @@ const NestingViewer: React.FC<NestingViewerProps> = ({
   const [selectedSheetSize, setSelectedSheetSize] = useState<string>('2440x1220');
   const [selectedMaterial, setSelectedMaterial] = useState<string>('all');
   const [showTechInfo, setShowTechInfo] = useState<boolean>(false);
+  // Smallest offcut worth keeping, in mm (longer side × shorter side)
+  const [minOffcutLength, setMinOffcutLength] = useState<number>(300);
+  const [minOffcutWidth, setMinOffcutWidth] = useState<number>(200);
+  // Results whose offcuts were registered or whose remnants were marked used, so neither is done twice
+  const [registeredResults, setRegisteredResults] = useState<string[]>([]);
+  const [consumedResults, setConsumedResults] = useState<string[]>([]);
+
+  useEffect(() => {
+    setRegisteredResults([]);
+    setConsumedResults([]);
+  }, [nestingResults]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -78,6 +94,18 @@ const NestingViewer: React.FC<NestingViewerProps> = ({
     ? nestingResults.reduce((sum, result) => sum + result.efficiency, 0) / nestingResults.length
     : 0;
 
+  const handleRegisterRemnants = async (result: NestingResult, offcuts: NestingOffcut[]) => {
+    if (onRegisterRemnants && await onRegisterRemnants(result, offcuts)) {
+      setRegisteredResults(prev => [...prev, result.id]);
+    }
+  };
+
+  const handleConsumeRemnants = async (result: NestingResult) => {
+    if (onConsumeRemnants && await onConsumeRemnants(result)) {
+      setConsumedResults(prev => [...prev, result.id]);
+    }
+  };
+
   const handleOptimizeWithSettings = () => {
     // Pass the selected technology to the parent component
     if (onTechnologyChange) {
@@ -115,6 +143,26 @@ const NestingViewer: React.FC<NestingViewerProps> = ({
               ))}
             </select>
           </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">Min Offcut:</label>
+            <input
+              type="number"
+              min="0"
+              value={minOffcutLength}
+              onChange={(e) => setMinOffcutLength(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-20 px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              title="Minimum length of a kept offcut (mm)"
+            />
+            <span className="text-sm text-gray-500">×</span>
+            <input
+              type="number"
+              min="0"
+              value={minOffcutWidth}
+              onChange={(e) => setMinOffcutWidth(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-20 px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              title="Minimum width of a kept offcut (mm)"
+            />
+          </div>
           <div className="flex items-center space-x-2">
             <label className="text-sm font-medium text-gray-700">Technology:</label>
             <div className="relative">
@@ -229,7 +277,10 @@ const NestingViewer: React.FC<NestingViewerProps> = ({
 
       {/* Nesting Results */}
       <div className="space-y-6">
-        {nestingResults.map((result) => (
+        {nestingResults.map((result) => {
+          const remnantSheets = result.remnantSheets || [];
+          const offcuts = CutOptimizer.findOffcuts(result, minOffcutLength, minOffcutWidth);
+          return (
           <div key={result.id} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
             <div className="p-6">
               <div className="flex items-center justify-between mb-4">
@@ -248,6 +299,11 @@ const NestingViewer: React.FC<NestingViewerProps> = ({
                   <div className="text-sm text-gray-600">
                     {result.efficiency.toFixed(1)}% efficiency
                   </div>
+                  {remnantSheets.length > 0 && (
+                    <div className="text-sm text-gray-600">
+                      + {remnantSheets.length} remnant(s)
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -382,6 +438,76 @@ const NestingViewer: React.FC<NestingViewerProps> = ({
                 </button>
               </div>
 
+              {/* Remnants used and offcuts to keep */}
+              {(remnantSheets.length > 0 || offcuts.length > 0) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 text-sm">
+                  {remnantSheets.length > 0 && (
+                    <div className="bg-amber-50 rounded-lg p-3">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="font-medium text-amber-800 flex items-center">
+                          <Layers className="w-4 h-4 mr-1" />
+                          Remnants Used
+                        </div>
+                        {onConsumeRemnants && (
+                          consumedResults.includes(result.id) ? (
+                            <span className="flex items-center text-green-700">
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Marked used
+                            </span>
+                          ) : (
+                            <button
+                              onClick={() => handleConsumeRemnants(result)}
+                              className="px-3 py-1 bg-amber-600 text-white text-sm rounded hover:bg-amber-700 transition-colors"
+                            >
+                              Mark Remnants Used
+                            </button>
+                          )
+                        )}
+                      </div>
+                      <ul className="space-y-1 text-amber-700">
+                        {remnantSheets.map(sheet => (
+                          <li key={sheet.remnantId}>
+                            <span className="font-mono">{sheet.code}</span> ({sheet.length} × {sheet.width}mm) - {sheet.parts.length} part(s), {sheet.efficiency.toFixed(1)}% used
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {offcuts.length > 0 && (
+                    <div className="bg-teal-50 rounded-lg p-3">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="font-medium text-teal-800 flex items-center">
+                          <Layers className="w-4 h-4 mr-1" />
+                          Usable Offcuts
+                        </div>
+                        {onRegisterRemnants && (
+                          registeredResults.includes(result.id) ? (
+                            <span className="flex items-center text-green-700">
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Registered
+                            </span>
+                          ) : (
+                            <button
+                              onClick={() => handleRegisterRemnants(result, offcuts)}
+                              className="px-3 py-1 bg-teal-600 text-white text-sm rounded hover:bg-teal-700 transition-colors"
+                            >
+                              Register as Remnants
+                            </button>
+                          )
+                        )}
+                      </div>
+                      <ul className="space-y-1 text-teal-700">
+                        {offcuts.map((offcut, index) => (
+                          <li key={index}>
+                            {offcut.length} × {offcut.width}mm from {offcut.remnantCode ? `remnant ${offcut.remnantCode}` : `sheet ${(offcut.sheetIndex ?? 0) + 1}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Expanded Details */}
               {expandedResult === result.id && (
                 <>
@@ -454,7 +580,8 @@ const NestingViewer: React.FC<NestingViewerProps> = ({
               )}
             </div>
           </div>
-        ))}
+          );
+        })}
       </div>
 
       {nestingResults.length === 0 && (
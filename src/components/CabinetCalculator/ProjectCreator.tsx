@@ -1,9 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { CabinetConfiguration, CabinetProject } from '../../types/cabinet';
+import { CabinetConfiguration, CabinetProject, ProjectRequisitionPreview } from '../../types/cabinet';
+import { StockReservation, Requester, Department } from '../../types';
 import { CabinetCalculatorService, CabinetStorageService } from '../../services/cabinetCalculator';
-import { Plus, Trash2, Edit, Save, Download, FileText, User, Phone, DollarSign } from 'lucide-react';
+import { cabinetService, requesterService, departmentService, getApiErrorMessage, getApiErrorStatus } from '../../services/api';
+import { UnitConversion } from '../../services/unitConversion';
+import { useAuth } from '../../context/AuthContext';
+import { Plus, Trash2, Edit, Save, Download, FileText, User, Phone, DollarSign, Lock, ClipboardList } from 'lucide-react';
 import toast from 'react-hot-toast';
 import LoadingSpinner from '../Common/LoadingSpinner';
+import Modal from '../Common/Modal';
 
 interface ProjectCreatorProps {
   savedConfigurations: CabinetConfiguration[];
@@ -12,12 +17,23 @@ interface ProjectCreatorProps {
   onExportProject: (project: CabinetProject) => void;
 }
 
+const projectStatuses: CabinetProject['status'][] = ['draft', 'quoted', 'approved', 'in_production', 'completed', 'cancelled'];
+
+const emptyRequestForm = {
+  requester: '',
+  department: '',
+  orderNumber: '',
+  bomNumber: '',
+  notes: ''
+};
+
 const ProjectCreator: React.FC<ProjectCreatorProps> = ({
   savedConfigurations,
   onCreateProject,
   onEditConfiguration,
   onExportProject
 }) => {
+  const { user, hasPermission } = useAuth();
   const [projects, setProjects] = useState<CabinetProject[]>([]);
   const [selectedConfigurations, setSelectedConfigurations] = useState<string[]>([]);
   const [projectName, setProjectName] = useState('');
@@ -28,6 +44,16 @@ const ProjectCreator: React.FC<ProjectCreatorProps> = ({
   const [isCreatingProject, setIsCreatingProject] = useState(false);
   const [selectedProject, setSelectedProject] = useState<CabinetProject | null>(null);
   const [loading, setLoading] = useState(true);
+  // Reservations of the project whose reservation panel is open
+  const [reservationProjectId, setReservationProjectId] = useState<string | null>(null);
+  const [reservations, setReservations] = useState<StockReservation[]>([]);
+  // Project whose "Request materials" dialog is open, with the lines its requisition would carry
+  const [requestProject, setRequestProject] = useState<CabinetProject | null>(null);
+  const [requestPreview, setRequestPreview] = useState<ProjectRequisitionPreview | null>(null);
+  const [requestForm, setRequestForm] = useState(emptyRequestForm);
+  const [requesters, setRequesters] = useState<Requester[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [requesting, setRequesting] = useState(false);
 
   useEffect(() => {
     loadProjects();
@@ -98,6 +124,7 @@ const ProjectCreator: React.FC<ProjectCreatorProps> = ({
     if (!confirm('Are you sure you want to delete this project?')) return;
     
     try {
+      await cabinetService.deleteProject(projectId);
       await CabinetStorageService.deleteProject(projectId);
       await loadProjects();
       toast.success('Project deleted successfully');
@@ -107,6 +134,114 @@ const ProjectCreator: React.FC<ProjectCreatorProps> = ({
     }
   };
 
+  const handleStatusChange = async (project: CabinetProject, status: CabinetProject['status']) => {
+    if (status === 'cancelled' && !confirm('Cancel this project and release its reserved stock?')) return;
+
+    try {
+      // The server reserves stock on approval and releases it on cancellation or completion
+      const { reservationSummary } = await cabinetService.saveProject({ ...project, status });
+      await CabinetStorageService.saveProject({ ...project, status });
+      await loadProjects();
+      if (reservationProjectId === project.id) {
+        setReservations(await cabinetService.getProjectReservations(project.id));
+      }
+
+      if (reservationSummary && (reservationSummary.shortages.length > 0 || reservationSummary.unmatched.length > 0)) {
+        const problems = [
+          ...reservationSummary.shortages.map(shortage => {
+            const substitutes = reservationSummary.reservations.find(reservation => reservation.itemId === shortage.itemId)?.substitutes || [];
+            const alternatives = substitutes.length > 0 ? ` (substitutes in stock: ${substitutes.map(substitute => substitute.itemId).join(', ')})` : '';
+            return `${shortage.itemId}: ${shortage.reserved} of ${shortage.required} reserved${alternatives}`;
+          }),
+          ...reservationSummary.unmatched.map(line => `${line.name || line.code}: ${line.reason}`)
+        ];
+        toast.error(`Stock could not be fully reserved:\n${problems.join('\n')}`, { duration: 8000 });
+      } else {
+        toast.success(`Project marked ${status.replace('_', ' ')}`);
+      }
+    } catch (error) {
+      console.error('Error updating project status:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to update project status'));
+    }
+  };
+
+  const toggleReservations = async (projectId: string) => {
+    if (reservationProjectId === projectId) {
+      setReservationProjectId(null);
+      return;
+    }
+    try {
+      setReservations(await cabinetService.getProjectReservations(projectId));
+      setReservationProjectId(projectId);
+    } catch (error) {
+      // Projects that were never sent to the server have no reservations
+      if (getApiErrorStatus(error) === 404) {
+        setReservations([]);
+        setReservationProjectId(projectId);
+        return;
+      }
+      console.error('Error loading reservations:', error);
+      toast.error('Failed to load reservations');
+    }
+  };
+
+  const openRequestMaterials = async (project: CabinetProject) => {
+    try {
+      // The server builds the requisition from its copy of the project, so send the current one first
+      await cabinetService.saveProject(project);
+      const [preview, requesterData, departmentData] = await Promise.all([
+        cabinetService.getRequisitionPreview(project.id),
+        requesterService.getAll(),
+        departmentService.getAll()
+      ]);
+      setRequesters(requesterData.filter(requester => requester.isActive));
+      setDepartments(departmentData.filter(department => department.isActive));
+      setRequestPreview(preview);
+      setRequestForm({ ...emptyRequestForm, bomNumber: preview.bomNumber, notes: `Materials for project ${project.name}` });
+      setRequestProject(project);
+    } catch (error) {
+      console.error('Error loading project materials:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load project materials'));
+    }
+  };
+
+  const closeRequestMaterials = () => {
+    setRequestProject(null);
+    setRequestPreview(null);
+  };
+
+  const handleRequesterChange = (name: string) => {
+    const requester = requesters.find(candidate => candidate.name === name);
+    setRequestForm({ ...requestForm, requester: name, department: requestForm.department || requester?.department || '' });
+  };
+
+  const handleRequestMaterials = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!requestProject) return;
+    if (!requestForm.requester || !requestForm.department) {
+      toast.error('Please select a requester and department');
+      return;
+    }
+
+    setRequesting(true);
+    try {
+      const { requisition, unmatched } = await cabinetService.requestMaterials(requestProject.id, {
+        ...requestForm,
+        createdBy: user?.username
+      });
+      toast.success(`Draft requisition ${requisition.requestNumber} created with ${requisition.items.length} item(s)`);
+      if (unmatched.length > 0) {
+        toast.error(`Not requested:\n${unmatched.map(line => `${line.name || line.code}: ${line.reason}`).join('\n')}`, { duration: 8000 });
+      }
+      closeRequestMaterials();
+    } catch (error) {
+      console.error('Error requesting project materials:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to create requisition'));
+    } finally {
+      setRequesting(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -121,7 +256,8 @@ const ProjectCreator: React.FC<ProjectCreatorProps> = ({
       quoted: 'bg-blue-100 text-blue-800',
       approved: 'bg-green-100 text-green-800',
       in_production: 'bg-yellow-100 text-yellow-800',
-      completed: 'bg-purple-100 text-purple-800'
+      completed: 'bg-purple-100 text-purple-800',
+      cancelled: 'bg-red-100 text-red-800'
     };
     return colors[status as keyof typeof colors] || 'bg-gray-100 text-gray-800';
   };
@@ -341,9 +477,21 @@ const ProjectCreator: React.FC<ProjectCreatorProps> = ({
                   <h3 className="text-xl font-semibold text-gray-900">{project.name}</h3>
                   <p className="text-sm text-gray-600 mt-1">{project.description}</p>
                 </div>
-                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(project.status || 'draft')}`}>
-                  {(project.status || 'draft').replace('_', ' ')}
-                </span>
+                <div className="flex items-center space-x-2">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(project.status || 'draft')}`}>
+                    {(project.status || 'draft').replace('_', ' ')}
+                  </span>
+                  <select
+                    value={project.status || 'draft'}
+                    onChange={(e) => handleStatusChange(project, e.target.value as CabinetProject['status'])}
+                    className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    title="Change status"
+                  >
+                    {projectStatuses.map(status => (
+                      <option key={status} value={status}>{status.replace('_', ' ')}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
@@ -430,15 +578,81 @@ const ProjectCreator: React.FC<ProjectCreatorProps> = ({
                 </div>
               </div>
               
+              {/* Stock Reservations */}
+              {reservationProjectId === project.id && (
+                <div className="mb-6">
+                  <h4 className="font-medium text-gray-900 mb-3">Stock Reservations</h4>
+                  {reservations.length === 0 ? (
+                    <p className="text-sm text-gray-600">
+                      No stock reserved. Stock is reserved when the project is approved.
+                    </p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-100">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Required</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reserved</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Issued</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {reservations.map(reservation => (
+                            <tr key={reservation.id}>
+                              <td className="px-3 py-2 text-gray-900">
+                                <div className="font-medium">{reservation.name}</div>
+                                <div className="text-xs text-gray-500">{reservation.itemId}</div>
+                                {(reservation.substitutes || []).map(substitute => (
+                                  <div key={substitute.id} className="text-xs text-yellow-700">
+                                    Substitute {substitute.itemId}: covers {(substitute.coveredQuantity ?? 0).toLocaleString()} of {substitute.availableQuantity.toLocaleString()} available,
+                                    {' '}{(substitute.costDifference ?? 0) >= 0 ? '+' : '-'}${Math.abs(substitute.costDifference ?? 0).toFixed(2)}
+                                  </div>
+                                ))}
+                              </td>
+                              <td className="px-3 py-2 text-right text-gray-900">{reservation.requiredQuantity.toLocaleString()}</td>
+                              <td className={`px-3 py-2 text-right ${reservation.reservedQuantity < reservation.requiredQuantity ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                                {reservation.reservedQuantity.toLocaleString()}
+                              </td>
+                              <td className="px-3 py-2 text-right text-gray-900">{reservation.consumedQuantity.toLocaleString()}</td>
+                              <td className="px-3 py-2 text-gray-600 capitalize">{reservation.status}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+              
               {/* Action Buttons */}
               <div className="flex justify-between">
-                <button
-                  onClick={() => handleDeleteProject(project.id)}
-                  className="flex items-center px-3 py-1 text-red-600 hover:text-red-800"
-                >
-                  <Trash2 className="w-4 h-4 mr-1" />
-                  Delete
-                </button>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => handleDeleteProject(project.id)}
+                    className="flex items-center px-3 py-1 text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => toggleReservations(project.id)}
+                    className="flex items-center px-3 py-1 text-blue-600 hover:text-blue-800"
+                  >
+                    <Lock className="w-4 h-4 mr-1" />
+                    {reservationProjectId === project.id ? 'Hide Reservations' : 'Reservations'}
+                  </button>
+                  {hasPermission('requisitions.create') && (
+                    <button
+                      onClick={() => openRequestMaterials(project)}
+                      className="flex items-center px-3 py-1 text-blue-600 hover:text-blue-800"
+                    >
+                      <ClipboardList className="w-4 h-4 mr-1" />
+                      Request Materials
+                    </button>
+                  )}
+                </div>
                 
                 <button
                   onClick={() => onExportProject(project)}
@@ -452,6 +666,133 @@ const ProjectCreator: React.FC<ProjectCreatorProps> = ({
           ))
         )}
       </div>
+
+      {/* Request Materials Modal */}
+      <Modal
+        isOpen={!!requestProject}
+        onClose={closeRequestMaterials}
+        title={requestProject ? `Request Materials - ${requestProject.name}` : 'Request Materials'}
+        size="lg"
+      >
+        {requestPreview && (
+          <form onSubmit={handleRequestMaterials} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Requester *</label>
+                <select
+                  value={requestForm.requester}
+                  onChange={(e) => handleRequesterChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select requester</option>
+                  {requesters.map(requester => (
+                    <option key={requester.id} value={requester.name}>
+                      {requester.name} ({requester.employeeId})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Department *</label>
+                <select
+                  value={requestForm.department}
+                  onChange={(e) => setRequestForm({ ...requestForm, department: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select department</option>
+                  {departments.map(department => (
+                    <option key={department.id} value={department.name}>{department.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Order Number</label>
+                <input
+                  type="text"
+                  value={requestForm.orderNumber}
+                  onChange={(e) => setRequestForm({ ...requestForm, orderNumber: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">BOM Number</label>
+                <input
+                  type="text"
+                  value={requestForm.bomNumber}
+                  onChange={(e) => setRequestForm({ ...requestForm, bomNumber: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {requestPreview.lines.length === 0 ? (
+              <p className="text-sm text-gray-600">None of the project's materials match an inventory item.</p>
+            ) : (
+              <table className="w-full text-sm border border-gray-200 rounded-lg">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Required</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Already Requested</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">To Request</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {requestPreview.lines.map(line => (
+                    <tr key={line.itemId}>
+                      <td className="px-3 py-2 text-gray-900">
+                        <div className="font-medium">{line.itemName}</div>
+                        <div className="text-xs text-gray-500">{line.itemId}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">{line.requiredQuantity.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">{line.alreadyRequested.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right font-medium text-gray-900">
+                        {line.requestedQuantity.toLocaleString()} {UnitConversion.abbreviation(line.unitMeasurement)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {requestPreview.unmatched.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                <div className="font-medium mb-1">Not in inventory, will not be requested:</div>
+                {requestPreview.unmatched.map((line, index) => (
+                  <div key={index}>{line.name || line.code}: {line.reason}</div>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={requestForm.notes}
+                onChange={(e) => setRequestForm({ ...requestForm, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={closeRequestMaterials}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={requesting || !requestPreview.lines.some(line => line.requestedQuantity > 0)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {requesting ? 'Creating...' : 'Create Draft Requisition'}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import React from 'react';
+import { CheckCircle, Clock, XCircle, MinusCircle } from 'lucide-react';
+import { ApprovalStep, ApprovalStepStatus } from '../../types';
+
+interface ApprovalStepsProps {
+  steps: ApprovalStep[];
+}
+
+const STATUS_STYLES: Record<ApprovalStepStatus, { icon: React.ElementType; color: string; label: string }> = {
+  pending: { icon: Clock, color: 'text-yellow-600', label: 'Waiting' },
+  approved: { icon: CheckCircle, color: 'text-green-600', label: 'Approved' },
+  rejected: { icon: XCircle, color: 'text-red-600', label: 'Rejected' },
+  skipped: { icon: MinusCircle, color: 'text-gray-400', label: 'Not needed' }
+};
+
+const describeApprover = (step: ApprovalStep) => {
+  switch (step.approverType) {
+    case 'role': return `${step.approverValue} role`;
+    case 'department_manager': return `${step.approverValue} (department manager)`;
+    case 'cost_center_manager': return `${step.approverValue} (cost center ${step.approverScope} manager)`;
+    default: return step.approverValue || '-';
+  }
+};
+
+// Approval chain of a requisition or purchase order, one row per step with who decided it and when
+const ApprovalSteps: React.FC<ApprovalStepsProps> = ({ steps }) => {
+  if (steps.length === 0) {
+    return <p className="text-sm text-gray-500">Not submitted for approval yet.</p>;
+  }
+
+  // Only the first waiting step can be decided
+  const currentStepId = steps.find(step => step.status === 'pending')?.id;
+
+  return (
+    <ol className="space-y-2">
+      {steps.map(step => {
+        const { icon: Icon, color, label } = STATUS_STYLES[step.status];
+        return (
+          <li
+            key={step.id}
+            className={`flex items-start justify-between p-3 rounded-lg border ${step.id === currentStepId ? 'border-yellow-300 bg-yellow-50' : 'border-gray-200'}`}
+          >
+            <div className="flex items-start space-x-3">
+              <Icon className={`w-5 h-5 mt-0.5 ${color}`} />
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {step.stepOrder}. {step.name}
+                </div>
+                <div className="text-xs text-gray-500">Approver: {describeApprover(step)}</div>
+                {step.comments && <div className="text-xs text-gray-700 mt-1 whitespace-pre-wrap">{step.comments}</div>}
+              </div>
+            </div>
+            <div className="text-right text-xs">
+              <div className={`font-medium ${color}`}>{label}</div>
+              {step.decidedAt && (
+                <div className="text-gray-500">
+                  {step.decidedBy} · {new Date(step.decidedAt).toLocaleString()}
+                </div>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ApprovalSteps;
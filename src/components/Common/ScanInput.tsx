@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { ScanLine } from 'lucide-react';
+
+interface ScanInputProps {
+  onScan: (code: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// USB barcode scanners type the code and press Enter, so a scan is submitted on Enter
+// and the field is cleared for the next one
+const ScanInput: React.FC<ScanInputProps> = ({ onScan, placeholder = 'Scan barcode...', className = '' }) => {
+  const [value, setValue] = useState('');
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    // Keep Enter from submitting the surrounding form
+    e.preventDefault();
+    const code = value.trim();
+    if (code) {
+      onScan(code);
+    }
+    setValue('');
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <ScanLine className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoComplete="off"
+        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+    </div>
+  );
+};
+
+export default ScanInput;
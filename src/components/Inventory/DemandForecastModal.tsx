@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { TrendingUp, RefreshCw } from 'lucide-react';
+import { InventoryItem, DemandForecast, ForecastMethod, ForecastPeriod } from '../../types';
+import { inventoryService, getApiErrorMessage } from '../../services/api';
+import { UnitConversion } from '../../services/unitConversion';
+import Modal from '../Common/Modal';
+import LoadingSpinner from '../Common/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface DemandForecastModalProps {
+  item: InventoryItem | null;
+  onClose: () => void;
+  onApplied: () => void;
+  performedBy?: string;
+}
+
+const METHOD_LABELS: Record<ForecastMethod, string> = {
+  moving_average: 'Moving Average',
+  seasonal_smoothing: 'Seasonal Exponential Smoothing'
+};
+
+const LEAD_TIME_SOURCES: Record<DemandForecast['leadTimeSource'], string> = {
+  request: 'entered',
+  purchase_orders: 'from recent purchase orders',
+  default: 'default, no received purchase orders'
+};
+
+interface ForecastSettings {
+  period: ForecastPeriod;
+  horizon: number;
+  window: number;
+  leadTimeDays?: number;
+}
+
+const DEFAULT_SETTINGS: ForecastSettings = { period: 'month', horizon: 6, window: 3 };
+
+const DemandForecastModal: React.FC<DemandForecastModalProps> = ({ item, onClose, onApplied, performedBy }) => {
+  const [forecast, setForecast] = useState<DemandForecast | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [period, setPeriod] = useState<ForecastPeriod>(DEFAULT_SETTINGS.period);
+  const [horizon, setHorizon] = useState(DEFAULT_SETTINGS.horizon);
+  const [averageWindow, setAverageWindow] = useState(DEFAULT_SETTINGS.window);
+  // Blank uses the lead time measured from purchase orders
+  const [leadTimeDays, setLeadTimeDays] = useState('');
+  const [selectedMethod, setSelectedMethod] = useState<ForecastMethod | null>(null);
+
+  const loadForecast = useCallback(async (forecastItem: InventoryItem, settings: ForecastSettings) => {
+    setLoading(true);
+    try {
+      const data = await inventoryService.getForecast(forecastItem.id, settings);
+      setForecast(data);
+      setSelectedMethod(data.recommendation?.method || data.methods.find(method => method.available)?.method || null);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to load forecast'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Each item opens with the default settings and the lead time measured from its purchase orders
+  useEffect(() => {
+    setPeriod(DEFAULT_SETTINGS.period);
+    setHorizon(DEFAULT_SETTINGS.horizon);
+    setAverageWindow(DEFAULT_SETTINGS.window);
+    setLeadTimeDays('');
+    if (item) {
+      loadForecast(item, DEFAULT_SETTINGS);
+    } else {
+      setForecast(null);
+      setSelectedMethod(null);
+    }
+  }, [item, loadForecast]);
+
+  const getSettings = (overrides: Partial<ForecastSettings> = {}): ForecastSettings => ({
+    period,
+    horizon,
+    window: averageWindow,
+    leadTimeDays: parseFloat(leadTimeDays) || undefined,
+    ...overrides
+  });
+
+  const handlePeriodChange = (value: ForecastPeriod) => {
+    setPeriod(value);
+    if (item) {
+      loadForecast(item, getSettings({ period: value }));
+    }
+  };
+
+  const handleApply = async () => {
+    if (!item || !forecast?.recommendation) return;
+    try {
+      await inventoryService.update(item.id, {
+        minStockLevel: forecast.recommendation.minStockLevel,
+        maxStockLevel: forecast.recommendation.maxStockLevel,
+        performedBy
+      });
+      toast.success(`Min/max for ${item.itemId} set to ${forecast.recommendation.minStockLevel}/${forecast.recommendation.maxStockLevel}`);
+      onApplied();
+      await loadForecast(item, getSettings());
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to update stock levels'));
+    }
+  };
+
+  const methodResult = forecast?.methods.find(method => method.method === selectedMethod);
+  // History and forecast share one axis; the band is a [lower, upper] range for the area
+  const chartData = forecast ? [
+    ...forecast.history.map(entry => ({ period: entry.period, issued: entry.quantity })),
+    ...(methodResult?.forecast || []).map(point => ({
+      period: point.period,
+      forecast: point.quantity,
+      band: [point.lower, point.upper]
+    }))
+  ] : [];
+  const unit = UnitConversion.abbreviation(forecast?.unitMeasurement);
+
+  return (
+    <Modal
+      isOpen={!!item}
+      onClose={onClose}
+      title={item ? `Demand Forecast - ${item.name} (${item.itemId})` : 'Demand Forecast'}
+      size="xl"
+    >
+      <div className="space-y-6">
+        <div className="grid grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Period</label>
+            <select
+              value={period}
+              onChange={(e) => handlePeriodChange(e.target.value as ForecastPeriod)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="month">Monthly</option>
+              <option value="week">Weekly</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Periods Ahead</label>
+            <input
+              type="number"
+              min="1"
+              max={period === 'month' ? 12 : 52}
+              value={horizon}
+              onChange={(e) => setHorizon(parseInt(e.target.value) || 1)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Average Window</label>
+            <input
+              type="number"
+              min="1"
+              value={averageWindow}
+              onChange={(e) => setAverageWindow(parseInt(e.target.value) || 1)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Lead Time (days)</label>
+            <input
+              type="number"
+              min="1"
+              value={leadTimeDays}
+              onChange={(e) => setLeadTimeDays(e.target.value)}
+              placeholder={forecast ? String(forecast.leadTimeDays) : 'Auto'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            onClick={() => item && loadForecast(item, getSettings())}
+            disabled={loading}
+            className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Recalculate
+          </button>
+        </div>
+
+        {loading && !forecast ? (
+          <LoadingSpinner />
+        ) : forecast && (
+          <>
+            <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+              {forecast.methods.map(method => (
+                <button
+                  key={method.method}
+                  onClick={() => setSelectedMethod(method.method)}
+                  disabled={!method.available}
+                  title={method.note || undefined}
+                  className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors disabled:opacity-50 ${
+                    selectedMethod === method.method
+                      ? 'bg-white text-blue-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {METHOD_LABELS[method.method]}
+                  {method.available && (
+                    <span className="ml-2 text-xs text-gray-500">RMSE {method.rmse?.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+            {forecast.methods.filter(method => !method.available).map(method => (
+              <p key={method.method} className="text-xs text-gray-500">
+                {METHOD_LABELS[method.method]}: {method.note}
+              </p>
+            ))}
+
+            {forecast.history.length === 0 ? (
+              <div className="text-center py-8 border-2 border-dashed border-gray-300 rounded-lg">
+                <TrendingUp className="w-12 h-12 text-gray-400 mx-auto mb-2" />
+                <p className="text-gray-500">No completed {period}s of issue history yet.</p>
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" />
+                  <YAxis />
+                  <Tooltip
+                    formatter={(value: number | number[], name: string) => [
+                      Array.isArray(value)
+                        ? `${value[0].toLocaleString()} - ${value[1].toLocaleString()} ${unit}`
+                        : `${value.toLocaleString()} ${unit}`,
+                      name
+                    ]}
+                  />
+                  <Legend />
+                  <Area dataKey="band" fill="#BFDBFE" stroke="none" name="95% band" />
+                  <Line dataKey="issued" stroke="#10B981" strokeWidth={2} dot={false} name="Issued" />
+                  <Line dataKey="forecast" stroke="#3B82F6" strokeWidth={2} strokeDasharray="5 5" name="Forecast" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
+
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <h3 className="text-lg font-medium text-gray-900 mb-3">Recommended Stock Levels</h3>
+              {forecast.recommendation ? (
+                <div className="flex items-end justify-between">
+                  <div className="grid grid-cols-4 gap-6 text-sm">
+                    <div>
+                      <div className="text-gray-500">Min / Max</div>
+                      <div className="text-xl font-semibold text-gray-900">
+                        {forecast.recommendation.minStockLevel.toLocaleString()} / {forecast.recommendation.maxStockLevel.toLocaleString()} {unit}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Current {forecast.currentMinStockLevel.toLocaleString()} / {forecast.currentMaxStockLevel.toLocaleString()}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">Lead Time Demand</div>
+                      <div className="font-medium text-gray-900">{forecast.recommendation.leadTimeDemand.toLocaleString(undefined, { maximumFractionDigits: 2 })} {unit}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">Safety Stock</div>
+                      <div className="font-medium text-gray-900">{forecast.recommendation.safetyStock.toLocaleString(undefined, { maximumFractionDigits: 2 })} {unit}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-500">Lead Time</div>
+                      <div className="font-medium text-gray-900">{forecast.leadTimeDays} days</div>
+                      <div className="text-xs text-gray-500">{LEAD_TIME_SOURCES[forecast.leadTimeSource]}</div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleApply}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    Apply Min/Max
+                  </button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">Not enough issue history to recommend stock levels.</p>
+              )}
+              {forecast.recommendation && (
+                <p className="mt-3 text-xs text-gray-500">
+                  Based on {METHOD_LABELS[forecast.recommendation.method]}, the better fit over the history.
+                  Min covers the lead time demand plus safety stock for a 95% service level; max adds one {period} of demand.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default DemandForecastModal;
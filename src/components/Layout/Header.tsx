@@ -1,7 +1,65 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Bell, Search } from 'lucide-react';
+import { UserNotification } from '../../types';
+import { notificationService } from '../../services/api';
+import { useAuth } from '../../context/AuthContext';
+
+// Notifications are checked again every minute while the app is open
+const NOTIFICATION_POLL_MS = 60000;
 
 const Header: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [showNotifications, setShowNotifications] = useState(false);
+
+  const email = user?.email;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!email) return;
+    try {
+      setNotifications(await notificationService.getAll(email));
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  }, [email]);
+
+  useEffect(() => {
+    if (!email) return;
+
+    fetchNotifications();
+    const timer = window.setInterval(fetchNotifications, NOTIFICATION_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [email, fetchNotifications]);
+
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  const handleOpenNotification = async (notification: UserNotification) => {
+    try {
+      if (!notification.readAt) {
+        const updated = await notificationService.markRead(notification.id);
+        setNotifications(notifications.map(candidate => candidate.id === updated.id ? updated : candidate));
+      }
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+    }
+    if (notification.referenceType === 'requisition') {
+      setShowNotifications(false);
+      navigate('/requisitions');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!email) return;
+    try {
+      await notificationService.markAllRead(email);
+      await fetchNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
   return (
     <header className="bg-white border-b border-gray-200 px-6 py-4">
       <div className="flex items-center justify-between">
@@ -16,17 +74,53 @@ const Header: React.FC = () => {
           </div>
         </div>
 
-        <div className="flex items-center space-x-4">
-          <button className="relative p-2 text-gray-400 hover:text-gray-600 transition-colors">
+        <div className="relative flex items-center space-x-4">
+          <button
+            onClick={() => setShowNotifications(!showNotifications)}
+            className="relative p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Notifications"
+          >
             <Bell className="w-5 h-5" />
-            <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
-              3
-            </span>
+            {unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+                {unreadCount > 9 ? '9+' : unreadCount}
+              </span>
+            )}
           </button>
+
+          {showNotifications && (
+            <div className="absolute right-0 top-full mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+                {unreadCount > 0 && (
+                  <button onClick={handleMarkAllRead} className="text-xs text-blue-600 hover:text-blue-800">
+                    Mark all read
+                  </button>
+                )}
+              </div>
+              <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.length === 0 ? (
+                  <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications</p>
+                ) : (
+                  notifications.map(notification => (
+                    <button
+                      key={notification.id}
+                      onClick={() => handleOpenNotification(notification)}
+                      className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-blue-50'}`}
+                    >
+                      <div className="text-sm font-medium text-gray-900">{notification.title}</div>
+                      <div className="text-xs text-gray-600 whitespace-pre-wrap mt-1">{notification.message}</div>
+                      <div className="text-xs text-gray-400 mt-1">{new Date(notification.createdAt).toLocaleString()}</div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </header>
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
@@ -3,12 +3,17 @@ import { NavLink, useNavigate } from 'react-router-dom';
 import { 
   LayoutDashboard, 
   Package, 
+  ClipboardCheck,
   FileText, 
   ShoppingCart, 
+  PackagePlus,
   Calculator,
   LogOut,
   Settings,
-  BarChart3
+  BarChart3,
+  PieChart,
+  Boxes,
+  Undo2
 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
 
@@ -24,9 +29,14 @@ const Sidebar: React.FC = () => {
   const navItems = [
     { icon: LayoutDashboard, label: 'Dashboard', path: '/', permission: 'dashboard.view' },
     { icon: Package, label: 'Inventory', path: '/inventory', permission: 'inventory.view' },
+    { icon: Boxes, label: 'Kits', path: '/kits', permission: 'inventory.view' },
+    { icon: ClipboardCheck, label: 'Stock Take', path: '/stock-take', permission: 'inventory.update' },
     { icon: FileText, label: 'Requisitions', path: '/requisitions', permission: 'requisitions.view' },
+    { icon: Undo2, label: 'Returns', path: '/returns', permission: 'inventory.view' },
     { icon: BarChart3, label: 'Reports', path: '/reports', permission: 'inventory.view' },
+    { icon: PieChart, label: 'ABC Analysis', path: '/inventory-analysis', permission: 'inventory.view' },
     { icon: ShoppingCart, label: 'Purchase Orders', path: '/purchase-orders', permission: 'purchase_orders.view' },
+    { icon: PackagePlus, label: 'Replenishment', path: '/replenishment', permission: 'purchase_orders.view' },
     { icon: Calculator, label: 'Cabinet Calculator', path: '/cabinet-calculator', permission: 'cabinet_calc.view' },
     { icon: Settings, label: 'Settings', path: '/settings', permission: 'users.view,requisitions.create' },
   ];
@@ -1,4 +1,4 @@
-import { CabinetTemplate, MaterialSheet, LaborRate } from '../types/cabinet';
+import { CabinetTemplate, MaterialSheet, LaborRate, EdgebandRoll } from '../types/cabinet';
 
 export const cabinetTemplates: CabinetTemplate[] = [
   // Base Cabinets
@@ -399,6 +399,20 @@ export const materialSheets = [
   }
 ];
 
+// Bought by the roll (rollLength in metres), consumed in millimetres from the cutting list
+export const edgebandRolls: EdgebandRoll[] = [
+  {
+    id: 'eb-pvc-22-1',
+    name: 'PVC Edgeband 22×1mm',
+    thickness: 1,
+    width: 22,
+    rollLength: 50,
+    costPerRoll: 27.50,
+    costPerMetre: 0.55,
+    supplier: 'Wood Supply Co.'
+  }
+];
+
 export const laborRates = [
   {
     id: 'cutting',
@@ -0,0 +1,544 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, ShieldCheck, ToggleLeft, ToggleRight } from 'lucide-react';
+import { ApprovalRule, ApprovalDocumentType, ApproverType, Department, InventoryCategory } from '../types';
+import { approvalRuleService, departmentService, categoryService, getApiErrorMessage } from '../services/api';
+import { useAuth } from '../context/AuthContext';
+import Modal from '../components/Common/Modal';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface ApprovalRuleFormData {
+  name: string;
+  documentType: ApprovalDocumentType;
+  stepOrder: number;
+  minAmount: string;
+  maxAmount: string;
+  costCenter: string;
+  department: string;
+  category: string;
+  approverType: ApproverType;
+  approverValue: string;
+  isActive: boolean;
+}
+
+const emptyForm: ApprovalRuleFormData = {
+  name: '',
+  documentType: 'requisition',
+  stepOrder: 1,
+  minAmount: '0',
+  maxAmount: '',
+  costCenter: '',
+  department: '',
+  category: '',
+  approverType: 'role',
+  approverValue: 'manager',
+  isActive: true
+};
+
+const documentTypeLabels: Record<ApprovalDocumentType, string> = {
+  requisition: 'Requisitions',
+  purchase_order: 'Purchase Orders'
+};
+
+const roleOptions = ['admin', 'manager', 'storekeeper', 'purchaser'];
+
+// Manager approvers are resolved on the server, so their rules carry no approver value
+const isManagerApprover = (approverType: ApproverType) =>
+  approverType === 'department_manager' || approverType === 'cost_center_manager';
+
+const ApprovalRules: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [categories, setCategories] = useState<InventoryCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [documentFilter, setDocumentFilter] = useState<ApprovalDocumentType>('requisition');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<ApprovalRule | null>(null);
+  const [formData, setFormData] = useState<ApprovalRuleFormData>(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [rulesData, departmentsData, categoriesData] = await Promise.all([
+        approvalRuleService.getAll(),
+        departmentService.getAll(),
+        categoryService.getAll()
+      ]);
+      setRules(rulesData);
+      setDepartments(departmentsData);
+      setCategories(categoriesData);
+    } catch (error) {
+      console.error('Failed to fetch approval rules:', error);
+      toast.error('Failed to load approval rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Cost centers are the codes assigned to departments
+  const costCenters = Array.from(new Set(departments.map(d => d.costCenter).filter(Boolean))).sort();
+
+  // Listed in the order their steps are taken
+  const filteredRules = rules
+    .filter(rule => rule.documentType === documentFilter)
+    .sort((a, b) => a.stepOrder - b.stepOrder || a.minAmount - b.minAmount);
+
+  const openCreateModal = () => {
+    setSelectedRule(null);
+    setFormData({ ...emptyForm, documentType: documentFilter });
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (rule: ApprovalRule) => {
+    setSelectedRule(rule);
+    setFormData({
+      name: rule.name,
+      documentType: rule.documentType,
+      stepOrder: rule.stepOrder,
+      minAmount: String(rule.minAmount),
+      maxAmount: rule.maxAmount == null ? '' : String(rule.maxAmount),
+      costCenter: rule.costCenter || '',
+      department: rule.department || '',
+      category: rule.category || '',
+      approverType: rule.approverType,
+      approverValue: rule.approverValue || '',
+      isActive: rule.isActive
+    });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setSelectedRule(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSaveRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const ruleData = {
+      name: formData.name,
+      documentType: formData.documentType,
+      stepOrder: formData.stepOrder,
+      minAmount: Number(formData.minAmount) || 0,
+      maxAmount: formData.maxAmount === '' ? null : Number(formData.maxAmount),
+      costCenter: formData.costCenter || null,
+      department: formData.department || null,
+      category: formData.category || null,
+      approverType: formData.approverType,
+      approverValue: isManagerApprover(formData.approverType) ? null : formData.approverValue,
+      isActive: formData.isActive
+    };
+
+    try {
+      if (selectedRule) {
+        const updatedRule = await approvalRuleService.update(selectedRule.id, ruleData);
+        setRules(rules.map(r => r.id === selectedRule.id ? updatedRule : r));
+        toast.success('Approval rule updated successfully');
+      } else {
+        const newRule = await approvalRuleService.create(ruleData);
+        setRules([...rules, newRule]);
+        toast.success('Approval rule created successfully');
+      }
+      closeModal();
+    } catch (error) {
+      console.error('Failed to save approval rule:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save approval rule'));
+    }
+  };
+
+  const handleToggleStatus = async (rule: ApprovalRule) => {
+    try {
+      const updatedRule = await approvalRuleService.update(rule.id, { isActive: !rule.isActive });
+      setRules(rules.map(r => r.id === rule.id ? updatedRule : r));
+      toast.success(`Approval rule ${updatedRule.isActive ? 'activated' : 'deactivated'}`);
+    } catch (error) {
+      console.error('Failed to update approval rule status:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to update approval rule status'));
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    if (!confirm('Are you sure you want to delete this approval rule?')) return;
+
+    try {
+      await approvalRuleService.delete(ruleId);
+      setRules(rules.filter(r => r.id !== ruleId));
+      toast.success('Approval rule deleted successfully');
+    } catch (error) {
+      console.error('Failed to delete approval rule:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to delete approval rule'));
+    }
+  };
+
+  const formatAmountRange = (rule: ApprovalRule) => {
+    const min = `$${rule.minAmount.toFixed(2)}`;
+    return rule.maxAmount == null ? `${min} and above` : `${min} to under $${rule.maxAmount.toFixed(2)}`;
+  };
+
+  const describeScope = (rule: ApprovalRule) => {
+    const scope = [
+      rule.costCenter && `Cost center ${rule.costCenter}`,
+      rule.department && `Department ${rule.department}`,
+      rule.category && `Category ${rule.category}`
+    ].filter(Boolean);
+    return scope.length > 0 ? scope.join(', ') : 'All';
+  };
+
+  const describeApprover = (rule: ApprovalRule) => {
+    switch (rule.approverType) {
+      case 'department_manager': return 'Department manager';
+      case 'cost_center_manager': return 'Cost center manager';
+      case 'role': return `${rule.approverValue} role`;
+      default: return rule.approverValue;
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!hasPermission('users.view')) {
+    return (
+      <div className="text-center py-12">
+        <ShieldCheck className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600">You don't have permission to manage approval rules.</p>
+      </div>
+    );
+  }
+
+  const isPurchaseOrderRule = formData.documentType === 'purchase_order';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Approval Rules</h2>
+          <p className="text-gray-600 mt-1">
+            Every active rule matching a submitted document adds an approval step, taken in step order.
+            With no matching rule a manager approves.
+          </p>
+        </div>
+        <button
+          onClick={openCreateModal}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Rule</span>
+        </button>
+      </div>
+
+      <div className="flex space-x-2">
+        {(Object.keys(documentTypeLabels) as ApprovalDocumentType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setDocumentFilter(type)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              documentFilter === type ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {documentTypeLabels[type]} ({rules.filter(r => r.documentType === type).length})
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Step</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approver</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredRules.map(rule => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rule.stepOrder}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rule.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatAmountRange(rule)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describeScope(rule)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{describeApprover(rule)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => handleToggleStatus(rule)}
+                      className={`inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full transition-colors ${
+                        rule.isActive
+                          ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                          : 'bg-red-100 text-red-800 hover:bg-red-200'
+                      }`}
+                    >
+                      {rule.isActive ? (
+                        <>
+                          <ToggleRight className="w-3 h-3 mr-1" />
+                          Active
+                        </>
+                      ) : (
+                        <>
+                          <ToggleLeft className="w-3 h-3 mr-1" />
+                          Inactive
+                        </>
+                      )}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => openEditModal(rule)}
+                        className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                        title="Edit Rule"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteRule(rule.id)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                        title="Delete Rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredRules.length === 0 && (
+          <div className="text-center py-12">
+            <ShieldCheck className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No approval rules</h3>
+            <p className="text-gray-600">Documents of this type are approved by a manager in a single step.</p>
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={selectedRule ? 'Edit Approval Rule' : 'Add Approval Rule'}
+        size="lg"
+      >
+        <form onSubmit={handleSaveRule} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Rule Name *</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g. Finance sign-off"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Step Order *</label>
+              <input
+                type="number"
+                required
+                min="1"
+                step="1"
+                value={formData.stepOrder}
+                onChange={(e) => setFormData({ ...formData, stepOrder: parseInt(e.target.value) || 1 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Document Type</label>
+              <select
+                value={formData.documentType}
+                onChange={(e) => {
+                  const documentType = e.target.value as ApprovalDocumentType;
+                  // Purchase orders have no department, so drop the department-only settings
+                  setFormData(documentType === 'purchase_order'
+                    ? {
+                        ...formData,
+                        documentType,
+                        costCenter: '',
+                        department: '',
+                        approverType: isManagerApprover(formData.approverType) ? 'role' : formData.approverType,
+                        approverValue: isManagerApprover(formData.approverType) ? 'manager' : formData.approverValue
+                      }
+                    : { ...formData, documentType });
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(documentTypeLabels) as ApprovalDocumentType[]).map(type => (
+                  <option key={type} value={type}>{documentTypeLabels[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From Amount ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.minAmount}
+                onChange={(e) => setFormData({ ...formData, minAmount: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Up To Amount ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.maxAmount}
+                onChange={(e) => setFormData({ ...formData, maxAmount: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Cost Center</label>
+              <select
+                value={formData.costCenter}
+                onChange={(e) => setFormData({ ...formData, costCenter: e.target.value })}
+                disabled={isPurchaseOrderRule}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+              >
+                <option value="">Any</option>
+                {costCenters.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Department</label>
+              <select
+                value={formData.department}
+                onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                disabled={isPurchaseOrderRule}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+              >
+                <option value="">Any</option>
+                {departments.map(department => (
+                  <option key={department.id} value={department.name}>{department.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Item Category</label>
+              <select
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Any</option>
+                {categories.filter(category => !category.parentId).map(category => (
+                  <option key={category.id} value={category.name}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Approver</label>
+              <select
+                value={formData.approverType}
+                onChange={(e) => {
+                  const approverType = e.target.value as ApproverType;
+                  setFormData({ ...formData, approverType, approverValue: approverType === 'role' ? 'manager' : '' });
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="role">Any user with a role</option>
+                <option value="user">A specific user</option>
+                {!isPurchaseOrderRule && <option value="department_manager">Department manager</option>}
+                {!isPurchaseOrderRule && <option value="cost_center_manager">Cost center manager</option>}
+              </select>
+            </div>
+            {formData.approverType === 'role' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+                <select
+                  value={formData.approverValue}
+                  onChange={(e) => setFormData({ ...formData, approverValue: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent capitalize"
+                >
+                  {roleOptions.map(role => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {formData.approverType === 'user' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Username or Email *</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.approverValue}
+                  onChange={(e) => setFormData({ ...formData, approverValue: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            )}
+            {formData.approverType === 'department_manager' && (
+              <p className="text-sm text-gray-500 self-end pb-2">
+                The user account set as the manager of the requisition's department approves this step; without one, the manager role does.
+              </p>
+            )}
+            {formData.approverType === 'cost_center_manager' && (
+              <p className="text-sm text-gray-500 self-end pb-2">
+                The user account set as the manager of the cost center of the requisition's department approves this step; without one, the manager role does.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="ruleIsActive"
+              checked={formData.isActive}
+              onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="ruleIsActive" className="ml-2 text-sm text-gray-700">
+              Active rule
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={closeModal}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              {selectedRule ? 'Update Rule' : 'Add Rule'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
+
+export default ApprovalRules;
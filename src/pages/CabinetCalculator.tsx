@@ -3,9 +3,10 @@ import { Calculator, Save, Download, FileText, Package, BarChart3, Plus, Trash2,
 import { useAuth } from '../context/AuthContext';
 import toast from 'react-hot-toast';
 import { cabinetTemplates } from '../data/cabinetTemplates';
-import { CabinetTemplate, CabinetConfiguration, CabinetProject, NestingResult } from '../types/cabinet';
+import { CabinetTemplate, CabinetConfiguration, CabinetProject, NestingResult, NestingOffcut } from '../types/cabinet';
 import { CabinetCalculatorService, CabinetStorageService } from '../services/cabinetCalculator';
 import { CutOptimizer } from '../services/cutOptimizer';
+import { remnantService, getApiErrorMessage } from '../services/api';
 import CabinetCatalog from '../components/CabinetCalculator/CabinetCatalog';
 import CabinetConfigurator from '../components/CabinetCalculator/CabinetConfigurator';
 import NestingViewer from '../components/CabinetCalculator/NestingViewer';
@@ -130,12 +131,16 @@ const CabinetCalculator: React.FC = () => {
 
       let results: NestingResult[] = [];
       
+      // Matching remnants in stock are filled before new sheets are used
+      const remnants = await remnantService.getAll({ status: 'available' });
+      
       // Use different optimization strategies based on selected technology
       results = CutOptimizer.optimizeNesting(
         currentConfiguration.cuttingList,
         sheetSize,
         selectedMaterial !== 'all' ? selectedMaterial : undefined,
-        selectedTechnology
+        selectedTechnology,
+        remnants
       );
       
       setNestingResults(results);
@@ -179,6 +184,47 @@ const CabinetCalculator: React.FC = () => {
     }
   };
 
+  const getNestingReference = (result: NestingResult) =>
+    `${currentConfiguration?.name || 'Nesting'} - ${result.materialType} ${result.thickness}mm`;
+
+  const handleRegisterRemnants = async (result: NestingResult, offcuts: NestingOffcut[]) => {
+    try {
+      const remnants = await remnantService.create({
+        remnants: offcuts.map(offcut => ({
+          materialType: result.materialType,
+          thickness: result.thickness,
+          length: offcut.length,
+          width: offcut.width
+        })),
+        sourceReference: getNestingReference(result),
+        createdBy: user?.username
+      });
+      toast.success(`Registered remnants ${remnants.map(remnant => remnant.code).join(', ')}`);
+      return true;
+    } catch (error) {
+      console.error('Error registering remnants:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to register remnants'));
+      return false;
+    }
+  };
+
+  const handleConsumeRemnants = async (result: NestingResult) => {
+    try {
+      for (const sheet of result.remnantSheets || []) {
+        await remnantService.update(sheet.remnantId, {
+          status: 'used',
+          usedReference: getNestingReference(result)
+        });
+      }
+      toast.success('Remnants marked as used');
+      return true;
+    } catch (error) {
+      console.error('Error updating remnants:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to mark remnants as used'));
+      return false;
+    }
+  };
+
   const handleCreateProject = async (project: CabinetProject) => {
     try {
       // Project is saved in the ProjectCreator component
@@ -343,6 +389,8 @@ const CabinetCalculator: React.FC = () => {
               nestingResults={nestingResults}
               onOptimize={handleOptimizeNesting}
               onExportNesting={handleExportNesting}
+              onRegisterRemnants={handleRegisterRemnants}
+              onConsumeRemnants={handleConsumeRemnants}
               isOptimizing={isOptimizing}
               selectedTechnology={selectedTechnology}
               onTechnologyChange={setSelectedTechnology}
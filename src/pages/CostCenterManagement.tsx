@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Search, DollarSign, TrendingUp, TrendingDown, AlertTriangle, User, Calendar, ToggleLeft, ToggleRight } from 'lucide-react';
-import { CostCenter, Department } from '../types';
-import { departmentService } from '../services/api';
+import { CostCenter, Department, User as UserAccount } from '../types';
+import { costCenterService, departmentService, getApiErrorMessage } from '../services/api';
+import { authService } from '../services/auth';
 import { useAuth } from '../context/AuthContext';
 import Modal from '../components/Common/Modal';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
@@ -14,6 +15,7 @@ interface CostCenterFormData {
   budget: number;
   budgetPeriod: 'monthly' | 'quarterly' | 'yearly';
   manager: string;
+  managerUsername: string;
   department: string;
   isActive: boolean;
 }
@@ -22,6 +24,7 @@ const CostCenterManagement: React.FC = () => {
   const { hasPermission } = useAuth();
   const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [users, setUsers] = useState<UserAccount[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -36,6 +39,7 @@ const CostCenterManagement: React.FC = () => {
     budget: 0,
     budgetPeriod: 'monthly',
     manager: '',
+    managerUsername: '',
     department: '',
     isActive: true
   });
@@ -49,98 +53,12 @@ const CostCenterManagement: React.FC = () => {
   useEffect(() => {
     fetchCostCenters();
     fetchDepartments();
+    fetchUsers();
   }, []);
 
   const fetchCostCenters = async () => {
     try {
-      // Mock cost centers data - in a real app, this would come from the backend
-      const mockCostCenters: CostCenter[] = [
-        {
-          id: '1',
-          code: 'CC-001',
-          name: 'Production Operations',
-          description: 'Manufacturing and production activities',
-          budget: 50000,
-          actualSpent: 42500,
-          budgetPeriod: 'monthly',
-          manager: 'John Smith',
-          department: 'Production',
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: '2',
-          code: 'CC-002',
-          name: 'Assembly Operations',
-          description: 'Cabinet assembly and finishing',
-          budget: 35000,
-          actualSpent: 38200,
-          budgetPeriod: 'monthly',
-          manager: 'Sarah Johnson',
-          department: 'Assembly',
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: '3',
-          code: 'CC-003',
-          name: 'Quality Control',
-          description: 'Quality assurance and testing',
-          budget: 15000,
-          actualSpent: 12800,
-          budgetPeriod: 'monthly',
-          manager: 'Mike Wilson',
-          department: 'Quality Control',
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: '4',
-          code: 'CC-004',
-          name: 'Maintenance',
-          description: 'Equipment maintenance and repair',
-          budget: 20000,
-          actualSpent: 18500,
-          budgetPeriod: 'monthly',
-          manager: 'Tom Brown',
-          department: 'Maintenance',
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: '5',
-          code: 'CC-005',
-          name: 'Warehouse Operations',
-          description: 'Inventory and logistics',
-          budget: 25000,
-          actualSpent: 23100,
-          budgetPeriod: 'monthly',
-          manager: 'Lisa Davis',
-          department: 'Warehouse',
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: '6',
-          code: 'CC-006',
-          name: 'R&D Projects',
-          description: 'Research and development activities',
-          budget: 100000,
-          actualSpent: 75000,
-          budgetPeriod: 'quarterly',
-          manager: 'Dr. Emily Chen',
-          department: '',
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-      ];
-      setCostCenters(mockCostCenters);
+      setCostCenters(await costCenterService.getAll());
     } catch (error) {
       console.error('Failed to fetch cost centers:', error);
       toast.error('Failed to load cost centers');
@@ -158,6 +76,14 @@ const CostCenterManagement: React.FC = () => {
     }
   };
 
+  const fetchUsers = async () => {
+    try {
+      setUsers(await authService.getAllUsers());
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+    }
+  };
+
   const filteredCostCenters = costCenters.filter(costCenter => {
     const matchesSearch = costCenter.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          costCenter.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -184,20 +110,14 @@ const CostCenterManagement: React.FC = () => {
     }
 
     try {
-      const newCostCenter: CostCenter = {
-        id: Date.now().toString(),
-        ...formData,
-        actualSpent: 0,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+      const newCostCenter = await costCenterService.create(formData);
       setCostCenters([...costCenters, newCostCenter]);
       setIsCreateModalOpen(false);
       resetForm();
       toast.success('Cost center created successfully');
     } catch (error) {
       console.error('Failed to create cost center:', error);
-      toast.error('Failed to create cost center');
+      toast.error(getApiErrorMessage(error, 'Failed to create cost center'));
     }
   };
 
@@ -215,11 +135,7 @@ const CostCenterManagement: React.FC = () => {
     }
 
     try {
-      const updatedCostCenter: CostCenter = {
-        ...selectedCostCenter,
-        ...formData,
-        updatedAt: new Date().toISOString()
-      };
+      const updatedCostCenter = await costCenterService.update(selectedCostCenter.id, formData);
       setCostCenters(costCenters.map(cc => cc.id === selectedCostCenter.id ? updatedCostCenter : cc));
       setIsEditModalOpen(false);
       setSelectedCostCenter(null);
@@ -227,7 +143,7 @@ const CostCenterManagement: React.FC = () => {
       toast.success('Cost center updated successfully');
     } catch (error) {
       console.error('Failed to update cost center:', error);
-      toast.error('Failed to update cost center');
+      toast.error(getApiErrorMessage(error, 'Failed to update cost center'));
     }
   };
 
@@ -235,21 +151,18 @@ const CostCenterManagement: React.FC = () => {
     if (!confirm('Are you sure you want to delete this cost center? This action cannot be undone.')) return;
 
     try {
+      await costCenterService.delete(costCenterId);
       setCostCenters(costCenters.filter(cc => cc.id !== costCenterId));
       toast.success('Cost center deleted successfully');
     } catch (error) {
       console.error('Failed to delete cost center:', error);
-      toast.error('Failed to delete cost center');
+      toast.error(getApiErrorMessage(error, 'Failed to delete cost center'));
     }
   };
 
   const handleToggleStatus = async (costCenter: CostCenter) => {
     try {
-      const updatedCostCenter: CostCenter = {
-        ...costCenter,
-        isActive: !costCenter.isActive,
-        updatedAt: new Date().toISOString()
-      };
+      const updatedCostCenter = await costCenterService.update(costCenter.id, { isActive: !costCenter.isActive });
       setCostCenters(costCenters.map(cc => cc.id === costCenter.id ? updatedCostCenter : cc));
       toast.success(`Cost center ${updatedCostCenter.isActive ? 'activated' : 'deactivated'} successfully`);
     } catch (error) {
@@ -266,6 +179,7 @@ const CostCenterManagement: React.FC = () => {
       budget: 0,
       budgetPeriod: 'monthly',
       manager: '',
+      managerUsername: '',
       department: '',
       isActive: true
     });
@@ -280,6 +194,7 @@ const CostCenterManagement: React.FC = () => {
       budget: costCenter.budget,
       budgetPeriod: costCenter.budgetPeriod,
       manager: costCenter.manager,
+      managerUsername: costCenter.managerUsername || '',
       department: costCenter.department || '',
       isActive: costCenter.isActive
     });
@@ -484,6 +399,9 @@ const CostCenterManagement: React.FC = () => {
                       <div className="flex items-center">
                         <User className="w-4 h-4 text-gray-400 mr-2" />
                         <span className="text-sm text-gray-900">{costCenter.manager}</span>
+                        {costCenter.managerUsername && (
+                          <span className="text-xs text-gray-500 ml-2">({costCenter.managerUsername})</span>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -698,6 +616,22 @@ const CostCenterManagement: React.FC = () => {
               </select>
             </div>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Manager User Account
+            </label>
+            <select
+              value={formData.managerUsername}
+              onChange={(e) => setFormData({ ...formData, managerUsername: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">None</option>
+              {users.map(user => (
+                <option key={user.id} value={user.username}>{user.username} ({user.email})</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Decides cost center manager approval steps</p>
+          </div>
           <div className="flex items-center">
             <input
               type="checkbox"
@@ -753,8 +687,8 @@ const CostCenterManagement: React.FC = () => {
                 type="text"
                 required
                 value={formData.code}
-                onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-500"
                 maxLength={10}
               />
             </div>
@@ -845,6 +779,22 @@ const CostCenterManagement: React.FC = () => {
               </select>
             </div>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Manager User Account
+            </label>
+            <select
+              value={formData.managerUsername}
+              onChange={(e) => setFormData({ ...formData, managerUsername: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">None</option>
+              {users.map(user => (
+                <option key={user.id} value={user.username}>{user.username} ({user.email})</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Decides cost center manager approval steps</p>
+          </div>
           <div className="flex items-center">
             <input
               type="checkbox"
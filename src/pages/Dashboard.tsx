@@ -1,14 +1,15 @@
 import React, { useEffect, useState } from 'react';
 import { Package, AlertTriangle, FileText, ShoppingCart, DollarSign, TrendingUp, ArrowRight } from 'lucide-react';
 import StatsCard from '../components/Dashboard/StatsCard';
-import { dashboardService } from '../services/api';
-import { DashboardStats } from '../types';
+import { dashboardService, inventoryService } from '../services/api';
+import { DashboardStats, ExpiringLot } from '../types';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 import { useNavigate } from 'react-router-dom';
 
 const Dashboard: React.FC = () => {
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [expiringLots, setExpiringLots] = useState<ExpiringLot[]>([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -58,7 +59,17 @@ const Dashboard: React.FC = () => {
       }
     };
 
+    // Glues, lacquers and finishes expiring in the next 30 days, plus any already expired
+    const fetchExpiringLots = async () => {
+      try {
+        setExpiringLots(await inventoryService.getExpiringLots(30));
+      } catch (error) {
+        console.error('Failed to fetch expiring stock:', error);
+      }
+    };
+
     fetchStats();
+    fetchExpiringLots();
   }, []);
 
   const handleNavigate = (path: string) => {
@@ -126,6 +137,42 @@ const Dashboard: React.FC = () => {
         />
       </div>
 
+      {/* Expiry Warning */}
+      {expiringLots.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="flex items-center text-lg font-semibold text-amber-900">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              Stock Expiring in the Next 30 Days
+            </h2>
+            <button
+              className="text-sm text-amber-800 hover:text-amber-900 font-medium flex items-center"
+              onClick={() => handleNavigate('/inventory')}
+            >
+              Inventory <ArrowRight className="w-4 h-4 ml-1" />
+            </button>
+          </div>
+          <div className="space-y-2">
+            {expiringLots.map((lot) => (
+              <div key={lot.id} className="flex items-center justify-between p-3 bg-white rounded-lg text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{lot.name}</span>
+                  <span className="text-gray-500"> · {lot.itemId} · Lot {lot.lotNumber} at {lot.locationCode}</span>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <span className="text-gray-700">{lot.quantity.toLocaleString()} {lot.unitMeasurement} (${lot.value.toLocaleString()})</span>
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${lot.isExpired ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}>
+                    {lot.isExpired
+                      ? `Expired ${new Date(lot.expiryDate).toLocaleDateString()}`
+                      : lot.daysUntilExpiry === 0 ? 'Expires today' : `Expires in ${lot.daysUntilExpiry} day(s)`}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Search, Building, User, DollarSign, ToggleLeft, ToggleRight } from 'lucide-react';
-import { Department } from '../types';
-import { departmentService } from '../services/api';
+import { Department, User as UserAccount } from '../types';
+import { departmentService, getApiErrorMessage } from '../services/api';
+import { authService } from '../services/auth';
 import { useAuth } from '../context/AuthContext';
 import Modal from '../components/Common/Modal';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
@@ -12,6 +13,7 @@ interface DepartmentFormData {
   code: string;
   description: string;
   manager: string;
+  managerUsername: string;
   costCenter: string;
   isActive: boolean;
 }
@@ -19,6 +21,7 @@ interface DepartmentFormData {
 const DepartmentManagement: React.FC = () => {
   const { hasPermission } = useAuth();
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [users, setUsers] = useState<UserAccount[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -30,12 +33,14 @@ const DepartmentManagement: React.FC = () => {
     code: '',
     description: '',
     manager: '',
+    managerUsername: '',
     costCenter: '',
     isActive: true
   });
 
   useEffect(() => {
     fetchDepartments();
+    fetchUsers();
   }, []);
 
   const fetchDepartments = async () => {
@@ -51,6 +56,14 @@ const DepartmentManagement: React.FC = () => {
     }
   };
 
+  const fetchUsers = async () => {
+    try {
+      setUsers(await authService.getAllUsers());
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+    }
+  };
+
   const filteredDepartments = departments.filter(department => {
     const matchesSearch = department.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          department.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -85,7 +98,7 @@ const DepartmentManagement: React.FC = () => {
       toast.success('Department created successfully');
     } catch (error) {
       console.error('Failed to create department:', error);
-      toast.error('Failed to create department');
+      toast.error(getApiErrorMessage(error, 'Failed to create department'));
     }
   };
 
@@ -113,7 +126,7 @@ const DepartmentManagement: React.FC = () => {
       toast.success('Department updated successfully');
     } catch (error) {
       console.error('Failed to update department:', error);
-      toast.error('Failed to update department');
+      toast.error(getApiErrorMessage(error, 'Failed to update department'));
     }
   };
 
@@ -153,6 +166,7 @@ const DepartmentManagement: React.FC = () => {
       code: '',
       description: '',
       manager: '',
+      managerUsername: '',
       costCenter: '',
       isActive: true
     });
@@ -165,6 +179,7 @@ const DepartmentManagement: React.FC = () => {
       code: department.code,
       description: department.description,
       manager: department.manager,
+      managerUsername: department.managerUsername || '',
       costCenter: department.costCenter,
       isActive: department.isActive
     });
@@ -325,6 +340,9 @@ const DepartmentManagement: React.FC = () => {
                       <div className="flex items-center">
                         <User className="w-4 h-4 text-gray-400 mr-2" />
                         <span className="text-sm text-gray-900">{department.manager}</span>
+                        {department.managerUsername && (
+                          <span className="text-xs text-gray-500 ml-2">({department.managerUsername})</span>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -470,6 +488,22 @@ const DepartmentManagement: React.FC = () => {
               />
             </div>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Manager User Account
+            </label>
+            <select
+              value={formData.managerUsername}
+              onChange={(e) => setFormData({ ...formData, managerUsername: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">None</option>
+              {users.map(user => (
+                <option key={user.id} value={user.username}>{user.username} ({user.email})</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Decides department manager approval steps</p>
+          </div>
           <div className="flex items-center">
             <input
               type="checkbox"
@@ -578,6 +612,22 @@ const DepartmentManagement: React.FC = () => {
               />
             </div>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Manager User Account
+            </label>
+            <select
+              value={formData.managerUsername}
+              onChange={(e) => setFormData({ ...formData, managerUsername: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">None</option>
+              {users.map(user => (
+                <option key={user.id} value={user.username}>{user.username} ({user.email})</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Decides department manager approval steps</p>
+          </div>
           <div className="flex items-center">
             <input
               type="checkbox"
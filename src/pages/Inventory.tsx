@@ -1,19 +1,79 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, Download, Upload, Edit, Trash2, Filter, Settings, User, Phone, Mail, MapPin, Building, Package } from 'lucide-react';
-import { InventoryItem, Supplier, Location } from '../types';
-import { inventoryService } from '../services/api';
+import { Plus, Search, Download, Upload, Edit, Trash2, Filter, Settings, User, Phone, Mail, MapPin, Building, Package, History, Tag, Paperclip, FileText, ArrowUp, ArrowDown, TrendingUp } from 'lucide-react';
+import { InventoryItem, InventoryCategory, InventoryLot, FefoSuggestion, StockReservation, InventoryAttachment, InventoryAttachmentType, SubstitutionGroup, ItemUnitConversion, InventoryTransaction, InventoryTransactionType, InventoryImportMode, InventoryImportResult, Supplier, Location } from '../types';
+import { inventoryService, categoryService, substitutionService, locationService, labelService, getApiErrorMessage } from '../services/api';
+import { UNIT_MEASUREMENTS, UnitConversion } from '../services/unitConversion';
+import { useAuth } from '../context/AuthContext';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
 import Modal from '../components/Common/Modal';
+import ScanInput from '../components/Common/ScanInput';
+import DemandForecastModal from '../components/Inventory/DemandForecastModal';
 import toast from 'react-hot-toast';
 
+const ATTACHMENT_TYPE_LABELS: Record<InventoryAttachmentType, string> = {
+  photo: 'Photo',
+  spec_sheet: 'Spec Sheet',
+  safety_data_sheet: 'Safety Data Sheet'
+};
+
 const Inventory: React.FC = () => {
+  const { user } = useAuth();
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
+  const [selectedAbcClass, setSelectedAbcClass] = useState('');
+  const [selectedXyzClass, setSelectedXyzClass] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [showManageModal, setShowManageModal] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [forecastItem, setForecastItem] = useState<InventoryItem | null>(null);
+  const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [reservations, setReservations] = useState<StockReservation[]>([]);
+  const [attachments, setAttachments] = useState<InventoryAttachment[]>([]);
+  const [attachmentType, setAttachmentType] = useState<InventoryAttachmentType>('photo');
+  const [uploadingAttachment, setUploadingAttachment] = useState(false);
+  const [movementForm, setMovementForm] = useState({
+    type: 'receipt' as InventoryTransactionType,
+    quantity: 0,
+    unit: '',
+    locationId: '',
+    lotNumber: '',
+    expiryDate: '',
+    referenceNumber: '',
+    projectId: '',
+    notes: ''
+  });
+  const [fefoSuggestion, setFefoSuggestion] = useState<FefoSuggestion | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importMode, setImportMode] = useState<InventoryImportMode>('insert');
+  const [importPreview, setImportPreview] = useState<InventoryImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [exportOptions, setExportOptions] = useState({
+    format: 'pdf' as 'pdf' | 'xlsx',
+    category: '',
+    location: '',
+    supplier: '',
+    lowStockOnly: false
+  });
+  const [showLabelModal, setShowLabelModal] = useState(false);
+  const [labelOptions, setLabelOptions] = useState({
+    type: 'item' as 'item' | 'location',
+    scope: 'filtered' as 'filtered' | 'all',
+    symbology: 'code128' as 'code128' | 'qrcode',
+    copies: 1,
+    startPosition: 1
+  });
+  const [transferForm, setTransferForm] = useState({
+    fromLocationId: '',
+    toLocationId: '',
+    quantity: 0,
+    lotNumber: '',
+    notes: ''
+  });
 
   const [formData, setFormData] = useState({
     itemId: '',
@@ -25,80 +85,21 @@ const Inventory: React.FC = () => {
     location: '',
     supplier: '',
     unitMeasurement: '',
+    purchaseUnit: '',
+    consumptionUnit: '',
+    unitConversions: [] as ItemUnitConversion[],
     minStockLevel: 0,
     maxStockLevel: 0,
+    isLotTracked: false,
+    shelfLifeDays: 0,
+    lotNumber: '',
+    expiryDate: '',
   });
 
   // Dynamic options state
-  const [categoryOptions, setCategoryOptions] = useState([
-    {
-      name: 'Panels',
-      subCategories: ['Cabinet Body', 'Door Panels', 'Drawer Fronts', 'Shelving', 'Back Panels']
-    },
-    {
-      name: 'Hardware',
-      subCategories: ['Door Hardware', 'Drawer Hardware', 'Cabinet Hardware', 'Mounting Hardware', 'Specialty Hardware']
-    },
-    {
-      name: 'Finishes',
-      subCategories: ['Stains', 'Paints', 'Lacquers', 'Primers', 'Sealers', 'Glazes']
-    },
-    {
-      name: 'Accessories',
-      subCategories: ['Lighting', 'Organization', 'Decorative', 'Functional', 'Safety']
-    },
-    {
-      name: 'Tools & Equipment',
-      subCategories: ['Hand Tools', 'Power Tools', 'Measuring Tools', 'Safety Equipment', 'Maintenance']
-    },
-    {
-      name: 'Fasteners',
-      subCategories: ['Screws', 'Nails', 'Bolts', 'Brackets', 'Adhesives']
-    }
-  ]);
+  const [categoryOptions, setCategoryOptions] = useState<InventoryCategory[]>([]);
 
-  const [locations, setLocations] = useState<Location[]>([
-    {
-      id: '1',
-      code: 'A-1-01',
-      storeName: 'Main Warehouse',
-      rack: 'A1',
-      shelf: '01',
-      description: 'Primary storage for panels',
-      isActive: true,
-      createdAt: new Date().toISOString()
-    },
-    {
-      id: '2',
-      code: 'B-2-05',
-      storeName: 'Hardware Storage',
-      rack: 'B2',
-      shelf: '05',
-      description: 'Small hardware items',
-      isActive: true,
-      createdAt: new Date().toISOString()
-    },
-    {
-      id: '3',
-      code: 'RECEIVING',
-      storeName: 'Receiving Area',
-      rack: 'RCV',
-      shelf: 'TEMP',
-      description: 'Temporary storage for incoming items',
-      isActive: true,
-      createdAt: new Date().toISOString()
-    },
-    {
-      id: '4',
-      code: 'SHIPPING',
-      storeName: 'Shipping Area',
-      rack: 'SHP',
-      shelf: 'OUT',
-      description: 'Items ready for shipment',
-      isActive: true,
-      createdAt: new Date().toISOString()
-    }
-  ]);
+  const [locations, setLocations] = useState<Location[]>([]);
 
   const [suppliers, setSuppliers] = useState<Supplier[]>([
     {
@@ -130,31 +131,13 @@ const Inventory: React.FC = () => {
     }
   ]);
 
-  const unitMeasurementOptions = [
-    'Each (ea)',
-    'Pieces (pcs)',
-    'Square Feet (sq ft)',
-    'Linear Feet (lin ft)',
-    'Board Feet (bd ft)',
-    'Pounds (lbs)',
-    'Kilograms (kg)',
-    'Gallons (gal)',
-    'Liters (L)',
-    'Boxes (box)',
-    'Packages (pkg)',
-    'Sets (set)',
-    'Pairs (pr)',
-    'Sheets (sht)',
-    'Rolls (roll)',
-    'Tubes (tube)',
-    'Bottles (btl)'
-  ];
-
   // Management modal states
-  const [manageTab, setManageTab] = useState<'categories' | 'locations' | 'suppliers'>('categories');
+  const [manageTab, setManageTab] = useState<'categories' | 'substitutes' | 'locations' | 'suppliers'>('categories');
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newSubCategoryName, setNewSubCategoryName] = useState('');
   const [selectedCategoryForSub, setSelectedCategoryForSub] = useState('');
+  const [mergeSourceId, setMergeSourceId] = useState('');
+  const [mergeTargetId, setMergeTargetId] = useState('');
   
   // Location form state
   const [locationForm, setLocationForm] = useState({
@@ -166,6 +149,16 @@ const Inventory: React.FC = () => {
   });
   const [editingLocation, setEditingLocation] = useState<Location | null>(null);
   
+  // Substitution group form state; members are inventory item ids, most preferred first
+  const [substitutionGroups, setSubstitutionGroups] = useState<SubstitutionGroup[]>([]);
+  const [groupForm, setGroupForm] = useState({
+    name: '',
+    notes: '',
+    members: [] as string[]
+  });
+  const [editingGroup, setEditingGroup] = useState<SubstitutionGroup | null>(null);
+  const [memberToAdd, setMemberToAdd] = useState('');
+  
   // Supplier form state
   const [supplierForm, setSupplierForm] = useState({
     name: '',
@@ -178,31 +171,67 @@ const Inventory: React.FC = () => {
 
   useEffect(() => {
     fetchItems();
+    fetchLocations();
+    fetchCategories();
+    fetchSubstitutionGroups();
     loadStoredOptions();
   }, []);
 
+  // Issues of lot-tracked items suggest lots first-expired-first-out for the entered quantity
+  useEffect(() => {
+    if (!historyItem?.isLotTracked || movementForm.type !== 'issue' || movementForm.quantity === 0) {
+      setFefoSuggestion(null);
+      return;
+    }
+    const quantity = UnitConversion.convert(historyItem, Math.abs(movementForm.quantity), movementForm.unit || undefined);
+    const locationId = movementForm.locationId || locations.find(location => location.code === historyItem.location)?.id;
+    inventoryService.getFefoPicks(historyItem.id, quantity, locationId)
+      .then(setFefoSuggestion)
+      .catch(() => setFefoSuggestion(null));
+  }, [historyItem, movementForm.type, movementForm.quantity, movementForm.unit, movementForm.locationId, locations]);
+
   const loadStoredOptions = () => {
-    const storedCategories = localStorage.getItem('categoryOptions');
-    const storedLocations = localStorage.getItem('locations');
     const storedSuppliers = localStorage.getItem('suppliers');
 
-    if (storedCategories) {
-      setCategoryOptions(JSON.parse(storedCategories));
-    }
-    if (storedLocations) {
-      setLocations(JSON.parse(storedLocations));
-    }
     if (storedSuppliers) {
       setSuppliers(JSON.parse(storedSuppliers));
     }
   };
 
   const saveOptionsToStorage = () => {
-    localStorage.setItem('categoryOptions', JSON.stringify(categoryOptions));
-    localStorage.setItem('locations', JSON.stringify(locations));
     localStorage.setItem('suppliers', JSON.stringify(suppliers));
   };
 
+  const fetchCategories = async () => {
+    try {
+      const data = await categoryService.getAll();
+      setCategoryOptions(data);
+    } catch (error) {
+      console.error('Failed to fetch categories:', error);
+      toast.error('Failed to load categories');
+    }
+  };
+
+  const fetchSubstitutionGroups = async () => {
+    try {
+      const data = await substitutionService.getAll();
+      setSubstitutionGroups(data);
+    } catch (error) {
+      console.error('Failed to fetch substitution groups:', error);
+      toast.error('Failed to load substitution groups');
+    }
+  };
+
+  const fetchLocations = async () => {
+    try {
+      const data = await locationService.getAll();
+      setLocations(data);
+    } catch (error) {
+      console.error('Failed to fetch locations:', error);
+      toast.error('Failed to load locations');
+    }
+  };
+
   const fetchItems = async () => {
     try {
       const data = await inventoryService.getAll();
@@ -253,16 +282,16 @@ const Inventory: React.FC = () => {
     e.preventDefault();
     try {
       if (editingItem) {
-        await inventoryService.update(editingItem.id, formData);
+        await inventoryService.update(editingItem.id, { ...formData, performedBy: user?.username });
         toast.success('Item updated successfully!');
       } else {
-        await inventoryService.create(formData);
+        await inventoryService.create({ ...formData, performedBy: user?.username });
         toast.success('Item added successfully!');
       }
       await fetchItems();
       resetForm();
     } catch (error) {
-      toast.error('Failed to save item');
+      toast.error(getApiErrorMessage(error, 'Failed to save item'));
     }
   };
 
@@ -273,7 +302,7 @@ const Inventory: React.FC = () => {
         toast.success('Item deleted successfully!');
         await fetchItems();
       } catch (error) {
-        toast.error('Failed to delete item');
+        toast.error(getApiErrorMessage(error, 'Failed to delete item'));
       }
     }
   };
@@ -290,12 +319,35 @@ const Inventory: React.FC = () => {
       location: item.location,
       supplier: item.supplier,
       unitMeasurement: item.unitMeasurement || 'Each (ea)',
+      purchaseUnit: item.purchaseUnit || '',
+      consumptionUnit: item.consumptionUnit || '',
+      unitConversions: item.unitConversions || [],
       minStockLevel: item.minStockLevel,
       maxStockLevel: item.maxStockLevel,
+      isLotTracked: !!item.isLotTracked,
+      shelfLifeDays: item.shelfLifeDays || 0,
+      lotNumber: '',
+      expiryDate: '',
     });
     setShowAddModal(true);
   };
 
+  const updateUnitConversion = (index: number, field: keyof ItemUnitConversion, value: string | number) => {
+    const unitConversions = [...formData.unitConversions];
+    unitConversions[index] = { ...unitConversions[index], [field]: value };
+    setFormData({ ...formData, unitConversions });
+  };
+
+  const removeUnitConversion = (index: number) => {
+    const removed = formData.unitConversions[index];
+    setFormData({
+      ...formData,
+      unitConversions: formData.unitConversions.filter((_, i) => i !== index),
+      purchaseUnit: formData.purchaseUnit === removed.unit ? '' : formData.purchaseUnit,
+      consumptionUnit: formData.consumptionUnit === removed.unit ? '' : formData.consumptionUnit
+    });
+  };
+
   const resetForm = () => {
     setFormData({
       itemId: '',
@@ -307,13 +359,155 @@ const Inventory: React.FC = () => {
       location: '',
       supplier: '',
       unitMeasurement: '',
+      purchaseUnit: '',
+      consumptionUnit: '',
+      unitConversions: [],
       minStockLevel: 0,
       maxStockLevel: 0,
+      isLotTracked: false,
+      shelfLifeDays: 0,
+      lotNumber: '',
+      expiryDate: '',
     });
     setEditingItem(null);
     setShowAddModal(false);
   };
 
+  const openHistory = async (item: InventoryItem) => {
+    setHistoryItem(item);
+    const [itemTransactions, itemLots, itemReservations, itemAttachments] = await Promise.all([
+      inventoryService.getTransactions(item.id),
+      item.isLotTracked ? inventoryService.getLots(item.id) : Promise.resolve([]),
+      inventoryService.getReservations(item.id),
+      inventoryService.getAttachments(item.id)
+    ]);
+    setTransactions(itemTransactions);
+    setLots(itemLots);
+    setReservations(itemReservations);
+    setAttachments(itemAttachments);
+  };
+
+  const closeHistory = () => {
+    setHistoryItem(null);
+    setTransactions([]);
+    setLots([]);
+    setReservations([]);
+    setAttachments([]);
+    setAttachmentType('photo');
+    setMovementForm({ type: 'receipt', quantity: 0, unit: '', locationId: '', lotNumber: '', expiryDate: '', referenceNumber: '', projectId: '', notes: '' });
+    setTransferForm({ fromLocationId: '', toLocationId: '', quantity: 0, lotNumber: '', notes: '' });
+  };
+
+  const refreshHistoryItem = async (id: string) => {
+    const [item, itemTransactions, itemLots, itemReservations] = await Promise.all([
+      inventoryService.getById(id),
+      inventoryService.getTransactions(id),
+      inventoryService.getLots(id),
+      inventoryService.getReservations(id)
+    ]);
+    setHistoryItem(item);
+    setTransactions(itemTransactions);
+    setLots(itemLots);
+    setReservations(itemReservations);
+    await Promise.all([fetchItems(), fetchLocations()]);
+  };
+
+  const handleMovementSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!historyItem || movementForm.quantity === 0) {
+      toast.error('Enter a non-zero quantity');
+      return;
+    }
+
+    // Receipts and returns add stock, issues remove it; adjustments and transfers keep the entered sign
+    const quantity = movementForm.type === 'issue' ? -Math.abs(movementForm.quantity) :
+                     movementForm.type === 'receipt' || movementForm.type === 'return' ? Math.abs(movementForm.quantity) :
+                     movementForm.quantity;
+
+    // Issues against a project draw down that project's reservation of the item
+    const projectId = movementForm.type === 'issue' ? movementForm.projectId : '';
+
+    try {
+      const transaction = await inventoryService.postTransaction(historyItem.id, {
+        type: movementForm.type,
+        quantity,
+        unit: movementForm.unit || undefined,
+        locationId: movementForm.locationId || undefined,
+        lotNumber: movementForm.lotNumber || undefined,
+        expiryDate: quantity > 0 ? movementForm.expiryDate || undefined : undefined,
+        referenceType: projectId ? 'cabinet_project' : 'manual',
+        referenceNumber: projectId || movementForm.referenceNumber || undefined,
+        notes: movementForm.notes || undefined,
+        performedBy: user?.username
+      });
+      toast.success(`Stock movement recorded at ${transaction.locationCode}!`);
+      setMovementForm({ ...movementForm, quantity: 0, lotNumber: '', expiryDate: '', referenceNumber: '', projectId: '', notes: '' });
+      await refreshHistoryItem(historyItem.id);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to record stock movement'));
+    }
+  };
+
+  const handleAttachmentUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!historyItem || !file) return;
+
+    setUploadingAttachment(true);
+    try {
+      const attachment = await inventoryService.uploadAttachment(historyItem.id, file, {
+        type: attachmentType,
+        uploadedBy: user?.username
+      });
+      setAttachments(await inventoryService.getAttachments(historyItem.id));
+      toast.success(`${attachment.originalName} attached`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to upload attachment'));
+    } finally {
+      setUploadingAttachment(false);
+    }
+  };
+
+  const handleAttachmentDelete = async (attachment: InventoryAttachment) => {
+    if (!historyItem || !window.confirm(`Remove ${attachment.originalName}?`)) return;
+
+    try {
+      await inventoryService.deleteAttachment(historyItem.id, attachment.id);
+      setAttachments(attachments.filter(existing => existing.id !== attachment.id));
+      toast.success('Attachment removed');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to remove attachment'));
+    }
+  };
+
+  const handleTransferSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!historyItem) return;
+    if (!transferForm.fromLocationId || !transferForm.toLocationId || transferForm.quantity <= 0) {
+      toast.error('Select both locations and enter a positive quantity');
+      return;
+    }
+    if (transferForm.fromLocationId === transferForm.toLocationId) {
+      toast.error('Source and destination locations must differ');
+      return;
+    }
+
+    try {
+      const result = await inventoryService.transfer({
+        inventoryItemId: historyItem.id,
+        ...transferForm,
+        lotNumber: transferForm.lotNumber || undefined,
+        notes: transferForm.notes || undefined,
+        performedBy: user?.username
+      });
+      toast.success(`Transfer ${result.referenceNumber} posted!`);
+      setTransferForm({ fromLocationId: '', toLocationId: '', quantity: 0, lotNumber: '', notes: '' });
+      await refreshHistoryItem(historyItem.id);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to transfer stock'));
+    }
+  };
+
   const resetLocationForm = () => {
     setLocationForm({
       code: '',
@@ -325,6 +519,16 @@ const Inventory: React.FC = () => {
     setEditingLocation(null);
   };
 
+  const resetGroupForm = () => {
+    setGroupForm({
+      name: '',
+      notes: '',
+      members: []
+    });
+    setEditingGroup(null);
+    setMemberToAdd('');
+  };
+
   const resetSupplierForm = () => {
     setSupplierForm({
       name: '',
@@ -336,117 +540,272 @@ const Inventory: React.FC = () => {
     setEditingSupplier(null);
   };
 
+  // Every import starts as a dry run; nothing is written until the preview is confirmed
+  const previewImport = async (file: File, mode: InventoryImportMode) => {
+    setImporting(true);
+    try {
+      const result = await inventoryService.importFromExcel(file, { mode, dryRun: true });
+      setImportFile(file);
+      setImportMode(mode);
+      setImportPreview(result);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to read import file'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset the input so choosing the same file again still triggers a preview
+    event.target.value = '';
     if (file) {
-      try {
-        const result = await inventoryService.importFromExcel(file);
-        toast.success(`Imported ${result.count} items successfully!`);
-        await fetchItems();
-      } catch (error) {
-        toast.error('Failed to import file');
+      await previewImport(file, importMode);
+    }
+  };
+
+  const closeImportPreview = () => {
+    setImportFile(null);
+    setImportPreview(null);
+  };
+
+  const handleImportCommit = async () => {
+    if (!importFile) return;
+    setImporting(true);
+    try {
+      const result = await inventoryService.importFromExcel(importFile, {
+        mode: importMode,
+        dryRun: false,
+        performedBy: user?.username
+      });
+      if (!result.committed) {
+        setImportPreview(result);
+        toast.error('Import rejected; fix the listed rows and try again');
+        return;
       }
+      toast.success(`Imported ${result.insertCount} new and ${result.updateCount} updated items!`);
+      closeImportPreview();
+      await Promise.all([fetchItems(), fetchLocations()]);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to import file'));
+    } finally {
+      setImporting(false);
     }
   };
 
   const handleExport = async () => {
     try {
-      const blob = await inventoryService.exportToPDF();
+      const blob = await inventoryService.exportReport({
+        format: exportOptions.format,
+        category: exportOptions.category || undefined,
+        location: exportOptions.location || undefined,
+        supplier: exportOptions.supplier || undefined,
+        lowStockOnly: exportOptions.lowStockOnly || undefined
+      });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'inventory-report.pdf';
+      a.download = `inventory-report-${new Date().toISOString().split('T')[0]}.${exportOptions.format}`;
       a.click();
       window.URL.revokeObjectURL(url);
       toast.success('Inventory report exported!');
+      setShowExportModal(false);
     } catch (error) {
       toast.error('Failed to export report');
     }
   };
 
+  const handlePrintLabels = async () => {
+    try {
+      const blob = await labelService.download({
+        type: labelOptions.type,
+        // Item labels follow the current search and category filter unless all items are requested
+        ids: labelOptions.type === 'item' && labelOptions.scope === 'filtered' ? filteredItems.map(item => item.id) : undefined,
+        symbology: labelOptions.symbology,
+        copies: labelOptions.copies,
+        startPosition: labelOptions.startPosition
+      });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${labelOptions.type}-labels.pdf`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+      toast.success('Labels generated!');
+      setShowLabelModal(false);
+    } catch (error) {
+      toast.error('Failed to generate labels');
+    }
+  };
+
+  // A scanned item code opens its movement history; a scanned location code filters to the items stored there
+  const handleScan = (code: string) => {
+    const scanned = code.toUpperCase();
+    const item = items.find(i => i.itemId.toUpperCase() === scanned);
+    if (item) {
+      openHistory(item);
+      return;
+    }
+    const location = locations.find(l => l.code.toUpperCase() === scanned);
+    if (location) {
+      setSearchTerm(location.code);
+      toast.success(`Showing items at ${location.code}`);
+      return;
+    }
+    toast.error(`No item or location matches ${code}`);
+  };
+
   const handleCategoryChange = (category: string) => {
     setFormData({ ...formData, category, subCategory: '' });
   };
 
   const getSubCategories = () => {
     const selectedCat = categoryOptions.find(cat => cat.name === formData.category);
-    return selectedCat ? selectedCat.subCategories : [];
+    return selectedCat ? (selectedCat.subCategories || []).map(sub => sub.name) : [];
   };
 
   // Management functions
-  const addNewCategory = () => {
-    if (newCategoryName.trim() && !categoryOptions.find(cat => cat.name === newCategoryName)) {
-      const newCategory = { name: newCategoryName.trim(), subCategories: [] };
-      const updatedCategories = [...categoryOptions, newCategory];
-      setCategoryOptions(updatedCategories);
+  const addNewCategory = async () => {
+    if (!newCategoryName.trim()) {
+      toast.error('Category name is required');
+      return;
+    }
+
+    try {
+      await categoryService.create({ name: newCategoryName.trim() });
       setNewCategoryName('');
       toast.success('Category added successfully!');
-      saveOptionsToStorage();
-    } else {
-      toast.error('Category name is empty or already exists');
+      await fetchCategories();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to add category'));
     }
   };
 
-  const addNewSubCategory = () => {
-    if (newSubCategoryName.trim() && selectedCategoryForSub) {
-      const updatedCategories = categoryOptions.map(cat => {
-        if (cat.name === selectedCategoryForSub) {
-          if (!cat.subCategories.includes(newSubCategoryName.trim())) {
-            return { ...cat, subCategories: [...cat.subCategories, newSubCategoryName.trim()] };
-          }
-        }
-        return cat;
-      });
-      setCategoryOptions(updatedCategories);
+  const addNewSubCategory = async () => {
+    if (!newSubCategoryName.trim() || !selectedCategoryForSub) {
+      toast.error('Please select a category and enter a sub-category name');
+      return;
+    }
+
+    try {
+      await categoryService.create({ name: newSubCategoryName.trim(), parentId: selectedCategoryForSub });
       setNewSubCategoryName('');
       toast.success('Sub-category added successfully!');
-      saveOptionsToStorage();
-    } else {
-      toast.error('Please select a category and enter a sub-category name');
+      await fetchCategories();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to add sub-category'));
+    }
+  };
+
+  // Renaming a category also renames it on every item that uses it
+  const renameCategory = async (category: InventoryCategory) => {
+    const name = prompt(`Rename "${category.name}" to:`, category.name);
+    if (!name || !name.trim() || name.trim() === category.name) return;
+
+    try {
+      await categoryService.update(category.id, { name: name.trim() });
+      toast.success('Category renamed successfully!');
+      await Promise.all([fetchCategories(), fetchItems()]);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to rename category'));
+    }
+  };
+
+  // Categories to merge into: the other categories, or for a sub-category every other sub-category
+  const getMergeTargets = (sourceId: string) => {
+    if (categoryOptions.some(cat => cat.id === sourceId)) {
+      return categoryOptions
+        .filter(cat => cat.id !== sourceId)
+        .map(cat => ({ id: cat.id, label: cat.name }));
+    }
+    return categoryOptions.flatMap(cat => (cat.subCategories || [])
+      .filter(sub => sub.id !== sourceId)
+      .map(sub => ({ id: sub.id, label: `${cat.name} / ${sub.name}` })));
+  };
+
+  const mergeCategories = async () => {
+    if (!mergeSourceId || !mergeTargetId) {
+      toast.error('Select the category to merge and the category to merge it into');
+      return;
+    }
+    if (!window.confirm('Move all items of the first category into the second and delete the first?')) return;
+
+    try {
+      const result = await categoryService.merge(mergeSourceId, mergeTargetId);
+      toast.success(`Categories merged; ${result.movedItems} item(s) moved`);
+      setMergeSourceId('');
+      setMergeTargetId('');
+      await Promise.all([fetchCategories(), fetchItems()]);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to merge categories'));
     }
   };
 
-  const handleLocationSubmit = () => {
+  const handleLocationSubmit = async () => {
     if (!locationForm.code.trim() || !locationForm.storeName.trim() || !locationForm.rack.trim() || !locationForm.shelf.trim()) {
       toast.error('Code, Store Name, Rack, and Shelf are required');
       return;
     }
 
-    if (editingLocation) {
-      // Update existing location
-      const updatedLocations = locations.map(location =>
-        location.id === editingLocation.id
-          ? { 
-              ...location, 
-              ...locationForm,
-              code: locationForm.code.toUpperCase()
-            }
-          : location
-      );
-      setLocations(updatedLocations);
-      toast.success('Location updated successfully!');
-    } else {
-      // Add new location
-      if (locations.find(l => l.code.toLowerCase() === locationForm.code.toLowerCase())) {
-        toast.error('Location code already exists');
-        return;
+    try {
+      if (editingLocation) {
+        await locationService.update(editingLocation.id, locationForm);
+        toast.success('Location updated successfully!');
+      } else {
+        await locationService.create(locationForm);
+        toast.success('Location added successfully!');
       }
+      resetLocationForm();
+      await Promise.all([fetchLocations(), fetchItems()]);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to save location'));
+    }
+  };
 
-      const newLocation: Location = {
-        id: Date.now().toString(),
-        ...locationForm,
-        code: locationForm.code.toUpperCase(),
-        isActive: true,
-        createdAt: new Date().toISOString()
-      };
-      
-      const updatedLocations = [...locations, newLocation].sort((a, b) => a.code.localeCompare(b.code));
-      setLocations(updatedLocations);
-      toast.success('Location added successfully!');
+  const handleGroupSubmit = async () => {
+    if (!groupForm.name.trim()) {
+      toast.error('Group name is required');
+      return;
+    }
+    if (groupForm.members.length < 2) {
+      toast.error('Add at least two items to the group');
+      return;
     }
 
-    resetLocationForm();
-    saveOptionsToStorage();
+    try {
+      if (editingGroup) {
+        await substitutionService.update(editingGroup.id, groupForm);
+        toast.success('Substitution group updated successfully!');
+      } else {
+        await substitutionService.create(groupForm);
+        toast.success('Substitution group added successfully!');
+      }
+      resetGroupForm();
+      await fetchSubstitutionGroups();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to save substitution group'));
+    }
+  };
+
+  // Members are swapped quantity for quantity, so only items in the group's stock unit can be added
+  const getGroupCandidates = () => {
+    const firstMember = items.find(item => item.id === groupForm.members[0]);
+    return items.filter(item =>
+      !groupForm.members.includes(item.id) &&
+      (!firstMember || item.unitMeasurement === firstMember.unitMeasurement)
+    );
+  };
+
+  const addGroupMember = () => {
+    if (!memberToAdd) return;
+    setGroupForm({ ...groupForm, members: [...groupForm.members, memberToAdd] });
+    setMemberToAdd('');
+  };
+
+  const moveGroupMember = (index: number, offset: number) => {
+    const members = [...groupForm.members];
+    [members[index], members[index + offset]] = [members[index + offset], members[index]];
+    setGroupForm({ ...groupForm, members });
   };
 
   const handleSupplierSubmit = () => {
@@ -497,6 +856,15 @@ const Inventory: React.FC = () => {
     });
   };
 
+  const editGroup = (group: SubstitutionGroup) => {
+    setEditingGroup(group);
+    setGroupForm({
+      name: group.name,
+      notes: group.notes || '',
+      members: group.members.map(member => member.inventoryItemId)
+    });
+  };
+
   const editSupplier = (supplier: Supplier) => {
     setEditingSupplier(supplier);
     setSupplierForm({
@@ -508,36 +876,43 @@ const Inventory: React.FC = () => {
     });
   };
 
-  const removeCategory = (categoryName: string) => {
-    if (window.confirm(`Are you sure you want to remove the category "${categoryName}"?`)) {
-      const updatedCategories = categoryOptions.filter(cat => cat.name !== categoryName);
-      setCategoryOptions(updatedCategories);
+  const removeCategory = async (category: InventoryCategory) => {
+    if (!window.confirm(`Are you sure you want to remove "${category.name}"?`)) return;
+
+    try {
+      await categoryService.delete(category.id);
       toast.success('Category removed successfully!');
-      saveOptionsToStorage();
+      await fetchCategories();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to remove category'));
     }
   };
 
-  const removeSubCategory = (categoryName: string, subCategoryName: string) => {
-    if (window.confirm(`Are you sure you want to remove the sub-category "${subCategoryName}"?`)) {
-      const updatedCategories = categoryOptions.map(cat => {
-        if (cat.name === categoryName) {
-          return { ...cat, subCategories: cat.subCategories.filter(sub => sub !== subCategoryName) };
-        }
-        return cat;
-      });
-      setCategoryOptions(updatedCategories);
-      toast.success('Sub-category removed successfully!');
-      saveOptionsToStorage();
+  const removeLocation = async (locationId: string) => {
+    const location = locations.find(l => l.id === locationId);
+    if (location && window.confirm(`Are you sure you want to remove the location "${location.code}"?`)) {
+      try {
+        await locationService.delete(locationId);
+        toast.success('Location removed successfully!');
+        await fetchLocations();
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, 'Failed to remove location'));
+      }
     }
   };
 
-  const removeLocation = (locationId: string) => {
-    const location = locations.find(l => l.id === locationId);
-    if (location && window.confirm(`Are you sure you want to remove the location "${location.code}"?`)) {
-      const updatedLocations = locations.filter(l => l.id !== locationId);
-      setLocations(updatedLocations);
-      toast.success('Location removed successfully!');
-      saveOptionsToStorage();
+  const removeGroup = async (group: SubstitutionGroup) => {
+    if (window.confirm(`Are you sure you want to remove the substitution group "${group.name}"?`)) {
+      try {
+        await substitutionService.delete(group.id);
+        toast.success('Substitution group removed successfully!');
+        if (editingGroup?.id === group.id) {
+          resetGroupForm();
+        }
+        await fetchSubstitutionGroups();
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, 'Failed to remove substitution group'));
+      }
     }
   };
 
@@ -558,9 +933,13 @@ const Inventory: React.FC = () => {
 
   const filteredItems = items.filter(item => {
     const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         item.itemId.toLowerCase().includes(searchTerm.toLowerCase());
+                         item.itemId.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (item.stockByLocation || []).some(stock => stock.locationCode.toLowerCase() === searchTerm.toLowerCase()) ||
+                         item.location?.toLowerCase() === searchTerm.toLowerCase();
     const matchesCategory = !selectedCategory || item.category === selectedCategory;
-    return matchesSearch && matchesCategory;
+    const matchesAbcClass = !selectedAbcClass || item.abcClass === selectedAbcClass;
+    const matchesXyzClass = !selectedXyzClass || item.xyzClass === selectedXyzClass;
+    return matchesSearch && matchesCategory && matchesAbcClass && matchesXyzClass;
   });
 
   const categories = [...new Set(items.map(item => item.category))];
@@ -586,17 +965,24 @@ const Inventory: React.FC = () => {
             Import Excel
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv"
               onChange={handleImport}
               className="hidden"
             />
           </label>
           <button
-            onClick={handleExport}
+            onClick={() => setShowExportModal(true)}
             className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
           >
             <Download className="w-4 h-4 mr-2" />
-            Export PDF
+            Export Report
+          </button>
+          <button
+            onClick={() => setShowLabelModal(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Tag className="w-4 h-4 mr-2" />
+            Print Labels
           </button>
           <button
             onClick={() => setShowAddModal(true)}
@@ -621,6 +1007,7 @@ const Inventory: React.FC = () => {
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
+          <ScanInput onScan={handleScan} placeholder="Scan item or location..." className="w-64" />
           <select
             value={selectedCategory}
             onChange={(e) => setSelectedCategory(e.target.value)}
@@ -633,6 +1020,26 @@ const Inventory: React.FC = () => {
               </option>
             ))}
           </select>
+          <select
+            value={selectedAbcClass}
+            onChange={(e) => setSelectedAbcClass(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All ABC Classes</option>
+            <option value="A">Class A</option>
+            <option value="B">Class B</option>
+            <option value="C">Class C</option>
+          </select>
+          <select
+            value={selectedXyzClass}
+            onChange={(e) => setSelectedXyzClass(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All XYZ Classes</option>
+            <option value="X">Class X</option>
+            <option value="Y">Class Y</option>
+            <option value="Z">Class Z</option>
+          </select>
         </div>
       </div>
 
@@ -678,7 +1085,17 @@ const Inventory: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div>
                         <div className="text-sm font-medium text-gray-900">{item.name}</div>
-                        <div className="text-sm text-gray-500">{item.itemId}</div>
+                        <div className="text-sm text-gray-500">
+                          {item.itemId}
+                          {item.abcClass && (
+                            <span
+                              className="ml-2 px-1.5 py-0.5 text-xs font-semibold rounded bg-blue-100 text-blue-800"
+                              title="ABC / XYZ class"
+                            >
+                              {item.abcClass}{item.xyzClass}
+                            </span>
+                          )}
+                        </div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -688,6 +1105,11 @@ const Inventory: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{item.quantity.toLocaleString()}</div>
                       <div className="text-sm text-gray-500">{item.unitMeasurement || 'Each'}</div>
+                      {!!item.reservedQuantity && (
+                        <div className="text-xs text-amber-700">
+                          {item.reservedQuantity.toLocaleString()} reserved · {(item.availableQuantity ?? item.quantity).toLocaleString()} available
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       ${item.unitCost.toFixed(2)}
@@ -696,7 +1118,12 @@ const Inventory: React.FC = () => {
                       ${item.totalCost.toLocaleString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {getLocationDisplay(item.location)}
+                      <div>{getLocationDisplay(item.location)}</div>
+                      {item.stockByLocation && item.stockByLocation.length > 1 && (
+                        <div className="text-xs text-gray-500">
+                          {item.stockByLocation.map(stock => `${stock.locationCode}: ${stock.quantity.toLocaleString()}`).join(' · ')}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
@@ -709,6 +1136,20 @@ const Inventory: React.FC = () => {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => openHistory(item)}
+                        className="text-gray-600 hover:text-gray-900 mr-3"
+                        title="Movement history"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setForecastItem(item)}
+                        className="text-gray-600 hover:text-gray-900 mr-3"
+                        title="Demand forecast"
+                      >
+                        <TrendingUp className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => handleEdit(item)}
                         className="text-blue-600 hover:text-blue-900 mr-3"
@@ -780,7 +1221,7 @@ const Inventory: React.FC = () => {
               >
                 <option value="">Select Category</option>
                 {categoryOptions.map((category) => (
-                  <option key={category.name} value={category.name}>
+                  <option key={category.id} value={category.name}>
                     {category.name}
                   </option>
                 ))}
@@ -846,7 +1287,7 @@ const Inventory: React.FC = () => {
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="">Select Unit</option>
-                {unitMeasurementOptions.map((unit) => (
+                {UNIT_MEASUREMENTS.map((unit) => (
                   <option key={unit} value={unit}>
                     {unit}
                   </option>
@@ -855,10 +1296,95 @@ const Inventory: React.FC = () => {
             </div>
           </div>
 
+          {formData.unitMeasurement && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-gray-900">Unit Conversions</h4>
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, unitConversions: [...formData.unitConversions, { unit: '', factor: 1 }] })}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Add Conversion
+                </button>
+              </div>
+              {formData.unitConversions.map((conversion, index) => (
+                <div key={index} className="flex items-center space-x-2 text-sm">
+                  <span className="text-gray-600">1</span>
+                  <select
+                    value={conversion.unit}
+                    onChange={(e) => updateUnitConversion(index, 'unit', e.target.value)}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="">Select Unit</option>
+                    {UNIT_MEASUREMENTS.filter(unit => unit !== formData.unitMeasurement).map((unit) => (
+                      <option key={unit} value={unit}>
+                        {unit}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-gray-600">=</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={conversion.factor}
+                    onChange={(e) => updateUnitConversion(index, 'factor', parseFloat(e.target.value) || 0)}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  />
+                  <span className="text-gray-600">{UnitConversion.abbreviation(formData.unitMeasurement)}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeUnitConversion(index)}
+                    className="text-red-600 hover:text-red-800 p-1"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Purchase Unit
+                  </label>
+                  <select
+                    value={formData.purchaseUnit}
+                    onChange={(e) => setFormData({ ...formData, purchaseUnit: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Stock unit ({formData.unitMeasurement})</option>
+                    {formData.unitConversions.filter(conversion => conversion.unit).map((conversion) => (
+                      <option key={conversion.unit} value={conversion.unit}>
+                        {conversion.unit}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Consumption Unit
+                  </label>
+                  <select
+                    value={formData.consumptionUnit}
+                    onChange={(e) => setFormData({ ...formData, consumptionUnit: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Stock unit ({formData.unitMeasurement})</option>
+                    {formData.unitConversions.filter(conversion => conversion.unit).map((conversion) => (
+                      <option key={conversion.unit} value={conversion.unit}>
+                        {conversion.unit}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Location *
+                Default Location *
               </label>
               <select
                 required
@@ -921,6 +1447,61 @@ const Inventory: React.FC = () => {
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.isLotTracked}
+                onChange={(e) => setFormData({ ...formData, isLotTracked: e.target.checked, shelfLifeDays: e.target.checked ? formData.shelfLifeDays : 0 })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Track lots / batches</span>
+            </label>
+            {formData.isLotTracked && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {editingItem ? 'Lot / Batch for Quantity Change' : 'Opening Lot / Batch'}
+                </label>
+                <input
+                  type="text"
+                  value={formData.lotNumber}
+                  onChange={(e) => setFormData({ ...formData, lotNumber: e.target.value })}
+                  placeholder="e.g., LOT-2024-031"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            )}
+          </div>
+
+          {formData.isLotTracked && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Shelf Life (days)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.shelfLifeDays || ''}
+                  onChange={(e) => setFormData({ ...formData, shelfLifeDays: parseInt(e.target.value) || 0 })}
+                  placeholder="No expiry"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {editingItem ? 'Expiry Date for Quantity Change' : 'Opening Lot Expiry Date'}
+                </label>
+                <input
+                  type="date"
+                  value={formData.expiryDate}
+                  onChange={(e) => setFormData({ ...formData, expiryDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3 pt-4">
             <button
               type="button"
@@ -939,6 +1520,666 @@ const Inventory: React.FC = () => {
         </form>
       </Modal>
 
+      {/* Export Report Modal */}
+      <Modal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        title="Export Stock Report"
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+              <select
+                value={exportOptions.format}
+                onChange={(e) => setExportOptions({ ...exportOptions, format: e.target.value as 'pdf' | 'xlsx' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="pdf">PDF</option>
+                <option value="xlsx">Excel (XLSX)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={exportOptions.category}
+                onChange={(e) => setExportOptions({ ...exportOptions, category: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All Categories</option>
+                {categories.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+              <select
+                value={exportOptions.location}
+                onChange={(e) => setExportOptions({ ...exportOptions, location: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All Locations</option>
+                {locations.map(location => (
+                  <option key={location.id} value={location.code}>{location.code} - {location.storeName}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+              <select
+                value={exportOptions.supplier}
+                onChange={(e) => setExportOptions({ ...exportOptions, supplier: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All Suppliers</option>
+                {[...new Set(items.map(item => item.supplier).filter(Boolean))].map(supplier => (
+                  <option key={supplier} value={supplier}>{supplier}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={exportOptions.lowStockOnly}
+              onChange={(e) => setExportOptions({ ...exportOptions, lowStockOnly: e.target.checked })}
+              className="mr-2"
+            />
+            Low stock items only
+          </label>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              onClick={() => setShowExportModal(false)}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Print Labels Modal */}
+      <Modal
+        isOpen={showLabelModal}
+        onClose={() => setShowLabelModal(false)}
+        title="Print Barcode Labels"
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Labels For</label>
+              <select
+                value={labelOptions.type}
+                onChange={(e) => setLabelOptions({ ...labelOptions, type: e.target.value as 'item' | 'location' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="item">Inventory Items</option>
+                <option value="location">Locations</option>
+              </select>
+            </div>
+            {labelOptions.type === 'item' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Items</label>
+                <select
+                  value={labelOptions.scope}
+                  onChange={(e) => setLabelOptions({ ...labelOptions, scope: e.target.value as 'filtered' | 'all' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="filtered">Current filter ({filteredItems.length} items)</option>
+                  <option value="all">All items ({items.length})</option>
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Barcode</label>
+              <select
+                value={labelOptions.symbology}
+                onChange={(e) => setLabelOptions({ ...labelOptions, symbology: e.target.value as 'code128' | 'qrcode' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="code128">Code 128</option>
+                <option value="qrcode">QR Code</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Copies Each</label>
+              <input
+                type="number"
+                min="1"
+                max="100"
+                value={labelOptions.copies}
+                onChange={(e) => setLabelOptions({ ...labelOptions, copies: parseInt(e.target.value) || 1 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start at Label</label>
+              <input
+                type="number"
+                min="1"
+                max="24"
+                value={labelOptions.startPosition}
+                onChange={(e) => setLabelOptions({ ...labelOptions, startPosition: parseInt(e.target.value) || 1 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-gray-500">
+            A4 sheets of 24 labels (3 × 8, 70 × 37mm). Set the start label to reuse a partly used sheet.
+          </p>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              onClick={() => setShowLabelModal(false)}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handlePrintLabels}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Import Preview Modal */}
+      <Modal
+        isOpen={!!importPreview}
+        onClose={closeImportPreview}
+        title={importPreview ? `Import Preview - ${importPreview.fileName}` : 'Import Preview'}
+        size="xl"
+      >
+        {importPreview && importFile && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between bg-gray-50 p-4 rounded-lg">
+              <div className="text-sm text-gray-700">
+                <div>{importPreview.totalRows} row(s): {importPreview.insertCount} new, {importPreview.updateCount} existing</div>
+                <div className={importPreview.errorCount > 0 ? 'text-red-600' : 'text-green-600'}>
+                  {importPreview.errorCount > 0
+                    ? `${importPreview.errorCount} error(s) must be fixed before importing`
+                    : 'No errors found'}
+                </div>
+              </div>
+              <select
+                value={importMode}
+                onChange={(e) => previewImport(importFile, e.target.value as InventoryImportMode)}
+                disabled={importing}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="insert">Insert new items only</option>
+                <option value="upsert">Insert new and update existing (by Item ID)</option>
+              </select>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Errors</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {importPreview.rows.map((row) => (
+                    <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{row.row}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        <div className="font-medium">{row.itemId || '-'}</div>
+                        <div className="text-xs text-gray-500">{row.name}</div>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 capitalize">{row.action}</td>
+                      <td className="px-4 py-2 text-sm text-red-600">
+                        {row.errors.map((error, index) => (
+                          <div key={index}>{error.message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={closeImportPreview}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImportCommit}
+                disabled={importing || importPreview.errorCount > 0 || importPreview.totalRows === 0}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {importing ? 'Working...' : `Import ${importPreview.totalRows} Item(s)`}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Movement History Modal */}
+      <Modal
+        isOpen={!!historyItem}
+        onClose={closeHistory}
+        title={historyItem ? `Movement History - ${historyItem.name} (${historyItem.itemId})` : 'Movement History'}
+        size="xl"
+      >
+        {historyItem && (
+          <div className="space-y-6">
+            <form onSubmit={handleMovementSubmit} className="bg-gray-50 p-4 rounded-lg">
+              <h3 className="text-lg font-medium text-gray-900 mb-3">Record Stock Movement</h3>
+              <div className="grid grid-cols-6 gap-3">
+                <select
+                  value={movementForm.type}
+                  onChange={(e) => setMovementForm({ ...movementForm, type: e.target.value as InventoryTransactionType })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="receipt">Receipt</option>
+                  <option value="issue">Issue</option>
+                  <option value="adjustment">Adjustment (+/-)</option>
+                  <option value="return">Return</option>
+                </select>
+                <select
+                  value={movementForm.locationId}
+                  onChange={(e) => setMovementForm({ ...movementForm, locationId: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Default ({historyItem.location})</option>
+                  {locations.filter(l => l.isActive).map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.code} - {location.storeName}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={movementForm.quantity}
+                  onChange={(e) => setMovementForm({ ...movementForm, quantity: parseFloat(e.target.value) || 0 })}
+                  placeholder="Quantity"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <select
+                  value={movementForm.unit}
+                  onChange={(e) => setMovementForm({ ...movementForm, unit: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {UnitConversion.getUnits(historyItem).map((unit, index) => (
+                    <option key={unit} value={index === 0 ? '' : unit}>
+                      {unit}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={movementForm.referenceNumber}
+                  onChange={(e) => setMovementForm({ ...movementForm, referenceNumber: e.target.value })}
+                  placeholder="Reference (e.g., PO / REQ no.)"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Post Movement
+                </button>
+              </div>
+              <div className={`mt-3 grid gap-3 ${historyItem.isLotTracked ? 'grid-cols-3' : 'grid-cols-1'}`}>
+                {historyItem.isLotTracked && (
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      list="lot-numbers"
+                      value={movementForm.lotNumber}
+                      onChange={(e) => setMovementForm({ ...movementForm, lotNumber: e.target.value })}
+                      placeholder="Lot / batch number *"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <datalist id="lot-numbers">
+                      {[...new Set(lots.map(lot => lot.lotNumber))].map(lotNumber => (
+                        <option key={lotNumber} value={lotNumber} />
+                      ))}
+                    </datalist>
+                    {movementForm.type !== 'issue' && (
+                      <input
+                        type="date"
+                        value={movementForm.expiryDate}
+                        onChange={(e) => setMovementForm({ ...movementForm, expiryDate: e.target.value })}
+                        title={historyItem.shelfLifeDays
+                          ? `Expiry date; defaults to ${historyItem.shelfLifeDays} days after receipt`
+                          : 'Expiry date'}
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    )}
+                  </div>
+                )}
+                <input
+                  type="text"
+                  value={movementForm.notes}
+                  onChange={(e) => setMovementForm({ ...movementForm, notes: e.target.value })}
+                  placeholder="Notes / reason"
+                  className={`${historyItem.isLotTracked ? 'col-span-2 ' : ''}px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                />
+              </div>
+              {fefoSuggestion && (
+                <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm">
+                  <div className="font-medium text-blue-900 mb-1">Issue first-expired-first-out</div>
+                  {fefoSuggestion.picks.length === 0 ? (
+                    <div className="text-blue-800">No unexpired batches in stock at this location</div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {fefoSuggestion.picks.map(pick => (
+                        <button
+                          key={pick.id}
+                          type="button"
+                          onClick={() => setMovementForm({ ...movementForm, lotNumber: pick.lotNumber })}
+                          className={`px-2 py-1 rounded border ${
+                            movementForm.lotNumber.toUpperCase() === pick.lotNumber
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-white text-blue-800 border-blue-300 hover:bg-blue-100'
+                          }`}
+                        >
+                          {pick.pickQuantity.toLocaleString()} from {pick.lotNumber}
+                          {pick.expiryDate ? ` (expires ${new Date(pick.expiryDate).toLocaleDateString()})` : ''}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {fefoSuggestion.shortQuantity > 0 && (
+                    <div className="mt-1 text-amber-700">
+                      {fefoSuggestion.shortQuantity.toLocaleString()} {historyItem.unitMeasurement || 'Each'} more than the unexpired stock here
+                    </div>
+                  )}
+                  {fefoSuggestion.expiredLots.length > 0 && (
+                    <div className="mt-1 text-red-700">
+                      Expired, do not issue: {fefoSuggestion.expiredLots.map(lot => `${lot.lotNumber} (${lot.quantity.toLocaleString()})`).join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+              {movementForm.type === 'issue' && reservations.length > 0 && (
+                <select
+                  value={movementForm.projectId}
+                  onChange={(e) => setMovementForm({ ...movementForm, projectId: e.target.value })}
+                  className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Not against a project reservation</option>
+                  {reservations.map(reservation => (
+                    <option key={reservation.id} value={reservation.projectId}>
+                      {reservation.projectName || reservation.projectId} ({(reservation.reservedQuantity - reservation.consumedQuantity).toLocaleString()} reserved)
+                    </option>
+                  ))}
+                </select>
+              )}
+              <p className="mt-2 text-sm text-gray-500">
+                Current balance: {historyItem.quantity.toLocaleString()} {historyItem.unitMeasurement || 'Each'}
+                {!!historyItem.reservedQuantity && (
+                  <span>
+                    {' '}· {historyItem.reservedQuantity.toLocaleString()} reserved, {(historyItem.availableQuantity ?? historyItem.quantity).toLocaleString()} available
+                  </span>
+                )}
+                {historyItem.stockByLocation && historyItem.stockByLocation.length > 0 && (
+                  <span>
+                    {' '}({historyItem.stockByLocation.map(stock => `${stock.locationCode}: ${stock.quantity.toLocaleString()}`).join(', ')})
+                  </span>
+                )}
+              </p>
+            </form>
+
+            <form onSubmit={handleTransferSubmit} className="bg-gray-50 p-4 rounded-lg">
+              <h3 className="text-lg font-medium text-gray-900 mb-3">Transfer Between Locations</h3>
+              <div className="grid grid-cols-4 gap-3">
+                <select
+                  value={transferForm.fromLocationId}
+                  onChange={(e) => setTransferForm({ ...transferForm, fromLocationId: e.target.value, lotNumber: '' })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">From location</option>
+                  {(historyItem.stockByLocation || []).filter(stock => stock.quantity > 0).map((stock) => (
+                    <option key={stock.locationId} value={stock.locationId}>
+                      {stock.locationCode} ({stock.quantity.toLocaleString()} on hand)
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={transferForm.toLocationId}
+                  onChange={(e) => setTransferForm({ ...transferForm, toLocationId: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">To location</option>
+                  {locations.filter(l => l.isActive && l.id !== transferForm.fromLocationId).map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.code} - {location.storeName}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={transferForm.quantity}
+                  onChange={(e) => setTransferForm({ ...transferForm, quantity: parseFloat(e.target.value) || 0 })}
+                  placeholder="Quantity"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Transfer
+                </button>
+              </div>
+              <div className={`mt-3 grid gap-3 ${historyItem.isLotTracked ? 'grid-cols-3' : 'grid-cols-1'}`}>
+                {historyItem.isLotTracked && (
+                  <select
+                    value={transferForm.lotNumber}
+                    onChange={(e) => setTransferForm({ ...transferForm, lotNumber: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Lot / batch</option>
+                    {lots.filter(lot => lot.locationId === transferForm.fromLocationId && lot.quantity > 0).map((lot) => (
+                      <option key={lot.id} value={lot.lotNumber}>
+                        {lot.lotNumber} ({lot.quantity.toLocaleString()} on hand)
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  type="text"
+                  value={transferForm.notes}
+                  onChange={(e) => setTransferForm({ ...transferForm, notes: e.target.value })}
+                  placeholder="Notes (e.g., moved to saw station)"
+                  className={`${historyItem.isLotTracked ? 'col-span-2 ' : ''}px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                />
+              </div>
+            </form>
+
+            {historyItem.isLotTracked && (
+              <div className="border border-gray-200 rounded-lg">
+                <h3 className="px-4 py-3 text-lg font-medium text-gray-900 border-b border-gray-200">Stock by Batch</h3>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lot / Batch</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Hand</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {lots.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                          No batches in stock
+                        </td>
+                      </tr>
+                    ) : lots.map((lot) => (
+                      <tr key={lot.id}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{lot.lotNumber}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{lot.locationCode}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{new Date(lot.receivedAt).toLocaleDateString()}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm">
+                          {lot.expiryDate ? (
+                            <span className={
+                              lot.expiryDate < new Date().toISOString().slice(0, 10) ? 'text-red-600 font-medium' :
+                              new Date(lot.expiryDate).getTime() - Date.now() <= 30 * 86400000 ? 'text-amber-600 font-medium' :
+                              'text-gray-500'
+                            }>
+                              {new Date(lot.expiryDate).toLocaleDateString()}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">
+                          {lot.quantity.toLocaleString()} {historyItem.unitMeasurement || 'Each'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="border border-gray-200 rounded-lg">
+              <div className="px-4 py-3 flex items-center justify-between border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Attachments</h3>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={attachmentType}
+                    onChange={(e) => setAttachmentType(e.target.value as InventoryAttachmentType)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {Object.entries(ATTACHMENT_TYPE_LABELS).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                  <label className={`flex items-center px-3 py-2 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-700 cursor-pointer ${uploadingAttachment ? 'opacity-50 pointer-events-none' : ''}`}>
+                    <Paperclip className="w-4 h-4 mr-2" />
+                    {uploadingAttachment ? 'Uploading...' : 'Attach File'}
+                    <input
+                      type="file"
+                      accept={attachmentType === 'photo' ? 'image/*' : 'image/*,application/pdf'}
+                      onChange={handleAttachmentUpload}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+              </div>
+              {attachments.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-gray-500">No photos or documents attached</p>
+              ) : (
+                <div className="p-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {attachments.map((attachment) => (
+                    <div key={attachment.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                      <a href={attachment.filePath} target="_blank" rel="noopener noreferrer" className="block h-28 bg-gray-50">
+                        {attachment.mimeType.startsWith('image/') ? (
+                          <img src={attachment.filePath} alt={attachment.originalName} className="h-full w-full object-cover" />
+                        ) : (
+                          <div className="h-full flex items-center justify-center">
+                            <FileText className="w-10 h-10 text-red-500" />
+                          </div>
+                        )}
+                      </a>
+                      <div className="px-2 py-2 flex items-start justify-between">
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-900 truncate" title={attachment.originalName}>{attachment.originalName}</p>
+                          <p className="text-xs text-gray-500">
+                            {ATTACHMENT_TYPE_LABELS[attachment.type]} · {Math.ceil(attachment.size / 1024).toLocaleString()} KB
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleAttachmentDelete(attachment)}
+                          className="ml-2 text-red-600 hover:text-red-900"
+                          title="Remove attachment"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lot</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {transactions.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-6 text-center text-sm text-gray-500">
+                        No movements recorded
+                      </td>
+                    </tr>
+                  ) : transactions.map((transaction) => (
+                    <tr key={transaction.id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(transaction.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900 capitalize">{transaction.type}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{transaction.locationCode || '-'}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{transaction.lotNumber || '-'}</td>
+                      <td className={`px-4 py-2 whitespace-nowrap text-sm text-right font-medium ${
+                        transaction.quantity < 0 ? 'text-red-600' : 'text-green-600'
+                      }`}>
+                        {transaction.quantity > 0 ? '+' : ''}{transaction.quantity.toLocaleString()}
+                        {transaction.enteredUnit && (
+                          <div className="text-xs font-normal text-gray-500">
+                            {transaction.enteredQuantity?.toLocaleString()} {UnitConversion.abbreviation(transaction.enteredUnit)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">
+                        {transaction.balanceAfter.toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        <div>{transaction.referenceNumber || '-'}</div>
+                        {transaction.notes && <div className="text-xs text-gray-500">{transaction.notes}</div>}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{transaction.performedBy}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <DemandForecastModal
+        item={forecastItem}
+        onClose={() => setForecastItem(null)}
+        onApplied={fetchItems}
+        performedBy={user?.username}
+      />
+
       {/* Manage Options Modal */}
       <Modal
         isOpen={showManageModal}
@@ -959,6 +2200,16 @@ const Inventory: React.FC = () => {
             >
               Categories
             </button>
+            <button
+              onClick={() => setManageTab('substitutes')}
+              className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                manageTab === 'substitutes'
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Substitutes
+            </button>
             <button
               onClick={() => setManageTab('locations')}
               className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
@@ -1015,7 +2266,7 @@ const Inventory: React.FC = () => {
                   >
                     <option value="">Select Category</option>
                     {categoryOptions.map((category) => (
-                      <option key={category.name} value={category.name}>
+                      <option key={category.id} value={category.id}>
                         {category.name}
                       </option>
                     ))}
@@ -1036,31 +2287,99 @@ const Inventory: React.FC = () => {
                 </button>
               </div>
 
+              {/* Merge Categories */}
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h3 className="text-lg font-medium text-gray-900 mb-3">Merge Categories</h3>
+                <div className="grid grid-cols-2 gap-3 mb-3">
+                  <select
+                    value={mergeSourceId}
+                    onChange={(e) => {
+                      setMergeSourceId(e.target.value);
+                      setMergeTargetId('');
+                    }}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Merge...</option>
+                    {categoryOptions.map((category) => (
+                      <optgroup key={category.id} label={category.name}>
+                        <option value={category.id}>{category.name} (whole category)</option>
+                        {(category.subCategories || []).map((subCategory) => (
+                          <option key={subCategory.id} value={subCategory.id}>
+                            {category.name} / {subCategory.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                  <select
+                    value={mergeTargetId}
+                    onChange={(e) => setMergeTargetId(e.target.value)}
+                    disabled={!mergeSourceId}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">...into</option>
+                    {mergeSourceId && getMergeTargets(mergeSourceId).map((target) => (
+                      <option key={target.id} value={target.id}>{target.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={mergeCategories}
+                  disabled={!mergeSourceId || !mergeTargetId}
+                  className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
+                >
+                  Merge
+                </button>
+              </div>
+
               {/* Existing Categories */}
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-3">Existing Categories</h3>
                 <div className="space-y-4 max-h-96 overflow-y-auto">
                   {categoryOptions.map((category) => (
-                    <div key={category.name} className="border border-gray-200 rounded-lg p-4">
+                    <div key={category.id} className="border border-gray-200 rounded-lg p-4">
                       <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium text-gray-900">{category.name}</h4>
-                        <button
-                          onClick={() => removeCategory(category.name)}
-                          className="text-red-600 hover:text-red-800 text-sm"
-                        >
-                          Remove
-                        </button>
+                        <h4 className="font-medium text-gray-900">
+                          {category.name}
+                          <span className="ml-2 text-xs font-normal text-gray-500">{category.itemCount} item(s)</span>
+                        </h4>
+                        <div className="flex items-center space-x-3">
+                          <button
+                            onClick={() => renameCategory(category)}
+                            className="text-blue-600 hover:text-blue-800 text-sm"
+                          >
+                            Rename
+                          </button>
+                          <button
+                            onClick={() => removeCategory(category)}
+                            className="text-red-600 hover:text-red-800 text-sm"
+                          >
+                            Remove
+                          </button>
+                        </div>
                       </div>
                       <div className="space-y-1">
-                        {category.subCategories.map((subCategory) => (
-                          <div key={subCategory} className="flex items-center justify-between text-sm text-gray-600 bg-gray-50 px-3 py-1 rounded">
-                            <span>{subCategory}</span>
-                            <button
-                              onClick={() => removeSubCategory(category.name, subCategory)}
-                              className="text-red-600 hover:text-red-800"
-                            >
-                              ×
-                            </button>
+                        {(category.subCategories || []).map((subCategory) => (
+                          <div key={subCategory.id} className="flex items-center justify-between text-sm text-gray-600 bg-gray-50 px-3 py-1 rounded">
+                            <span>
+                              {subCategory.name}
+                              <span className="ml-2 text-xs text-gray-400">{subCategory.itemCount}</span>
+                            </span>
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => renameCategory(subCategory)}
+                                className="text-blue-600 hover:text-blue-800"
+                                title="Rename"
+                              >
+                                <Edit className="w-3 h-3" />
+                              </button>
+                              <button
+                                onClick={() => removeCategory(subCategory)}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                ×
+                              </button>
+                            </div>
                           </div>
                         ))}
                       </div>
@@ -1072,6 +2391,175 @@ const Inventory: React.FC = () => {
           )}
 
           {/* Locations Tab */}
+          {/* Substitutes Tab */}
+          {manageTab === 'substitutes' && (
+            <div className="space-y-6">
+              {/* Add/Edit Substitution Group Form */}
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h3 className="text-lg font-medium text-gray-900 mb-3">
+                  {editingGroup ? 'Edit Substitution Group' : 'Add Substitution Group'}
+                </h3>
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Group Name *
+                      </label>
+                      <input
+                        type="text"
+                        value={groupForm.name}
+                        onChange={(e) => setGroupForm({ ...groupForm, name: e.target.value })}
+                        placeholder="e.g., 18mm Carcass Ply"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Notes
+                      </label>
+                      <input
+                        type="text"
+                        value={groupForm.notes}
+                        onChange={(e) => setGroupForm({ ...groupForm, notes: e.target.value })}
+                        placeholder="e.g., Carcasses only, not visible panels"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Items in order of preference *
+                    </label>
+                    {groupForm.members.length === 0 ? (
+                      <p className="text-sm text-gray-500 mb-2">No items added yet</p>
+                    ) : (
+                      <div className="space-y-2 mb-2">
+                        {groupForm.members.map((memberId, index) => {
+                          const member = items.find(item => item.id === memberId);
+                          return (
+                            <div key={memberId} className="flex items-center justify-between bg-white border border-gray-200 rounded-lg px-3 py-2">
+                              <span className="text-sm text-gray-900">
+                                {index + 1}. {member ? `${member.itemId} - ${member.name}` : memberId}
+                              </span>
+                              <div className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => moveGroupMember(index, -1)}
+                                  disabled={index === 0}
+                                  className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                                  title="Prefer this item"
+                                >
+                                  <ArrowUp className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => moveGroupMember(index, 1)}
+                                  disabled={index === groupForm.members.length - 1}
+                                  className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                                  title="Prefer this item less"
+                                >
+                                  <ArrowDown className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => setGroupForm({ ...groupForm, members: groupForm.members.filter(id => id !== memberId) })}
+                                  className="text-red-600 hover:text-red-800"
+                                  title="Remove from group"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <div className="flex space-x-2">
+                      <select
+                        value={memberToAdd}
+                        onChange={(e) => setMemberToAdd(e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">Select item to add</option>
+                        {getGroupCandidates().map((item) => (
+                          <option key={item.id} value={item.id}>
+                            {item.itemId} - {item.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={addGroupMember}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                      >
+                        Add
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={handleGroupSubmit}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      {editingGroup ? 'Update Group' : 'Add Group'}
+                    </button>
+                    {editingGroup && (
+                      <button
+                        onClick={resetGroupForm}
+                        className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                      >
+                        Cancel Edit
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Existing Substitution Groups */}
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 mb-3">Existing Substitution Groups</h3>
+                {substitutionGroups.length === 0 ? (
+                  <p className="text-sm text-gray-500">No substitution groups defined</p>
+                ) : (
+                  <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {substitutionGroups.map((group) => (
+                      <div key={group.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <h4 className="font-medium text-gray-900">{group.name}</h4>
+                            {group.notes && <p className="text-xs text-gray-500 mb-2">{group.notes}</p>}
+                            <ol className="text-sm text-gray-600 space-y-1">
+                              {group.members.map((member) => (
+                                <li key={member.inventoryItemId}>
+                                  {member.priority}. {member.itemId} - {member.name}
+                                  <span className="text-xs text-gray-500">
+                                    {' '}({member.quantity.toLocaleString()} {UnitConversion.abbreviation(member.unitMeasurement)} @ ${member.unitCost.toFixed(2)})
+                                  </span>
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                          <div className="flex space-x-2 ml-4">
+                            <button
+                              onClick={() => editGroup(group)}
+                              className="text-blue-600 hover:text-blue-800 text-sm"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => removeGroup(group)}
+                              className="text-red-600 hover:text-red-800 text-sm"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {manageTab === 'locations' && (
             <div className="space-y-6">
               {/* Add/Edit Location Form */}
@@ -1212,6 +2700,11 @@ const Inventory: React.FC = () => {
                                   {location.description}
                                 </div>
                               )}
+                              {location.itemCount !== undefined && (
+                                <div className="text-xs text-gray-500">
+                                  {location.itemCount} item(s) in stock
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, Save, PieChart } from 'lucide-react';
+import { InventoryAnalysis as InventoryAnalysisData, InventoryAnalysisParameters, AbcClass, XyzClass } from '../types';
+import { reportService, getApiErrorMessage } from '../services/api';
+import { UnitConversion } from '../services/unitConversion';
+import { useAuth } from '../context/AuthContext';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C'];
+const XYZ_CLASSES: XyzClass[] = ['X', 'Y', 'Z'];
+
+const ABC_CLASS_COLORS: Record<AbcClass, string> = {
+  A: 'bg-red-100 text-red-800',
+  B: 'bg-yellow-100 text-yellow-800',
+  C: 'bg-gray-100 text-gray-800'
+};
+
+const XYZ_CLASS_LABELS: Record<XyzClass, string> = {
+  X: 'Steady',
+  Y: 'Variable',
+  Z: 'Erratic'
+};
+
+const DEFAULT_PARAMETERS: InventoryAnalysisParameters = {
+  days: 365,
+  deadStockDays: 180,
+  aLimit: 80,
+  bLimit: 95
+};
+
+const InventoryAnalysis: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const [analysis, setAnalysis] = useState<InventoryAnalysisData | null>(null);
+  const [parameters, setParameters] = useState<InventoryAnalysisParameters>(DEFAULT_PARAMETERS);
+  const [loading, setLoading] = useState(true);
+  const [classifying, setClassifying] = useState(false);
+
+  const canClassify = hasPermission('inventory.update');
+
+  // Recalculation uses the parameters on screen; the first load uses the defaults
+  const fetchAnalysis = useCallback(async (requested: InventoryAnalysisParameters) => {
+    setLoading(true);
+    try {
+      setAnalysis(await reportService.getInventoryAnalysis(requested));
+    } catch (error) {
+      console.error('Failed to fetch inventory analysis:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load inventory analysis'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAnalysis(DEFAULT_PARAMETERS);
+  }, [fetchAnalysis]);
+
+  const handleClassify = async () => {
+    if (!window.confirm('Store these classes on the items? Count frequency and inventory filters will use them.')) {
+      return;
+    }
+
+    setClassifying(true);
+    try {
+      const data = await reportService.classifyInventory(parameters);
+      setAnalysis(data);
+      toast.success(`Stored classes for ${data.items.length} item(s)`);
+    } catch (error) {
+      console.error('Failed to classify inventory:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to store classification'));
+    } finally {
+      setClassifying(false);
+    }
+  };
+
+  const updateParameter = (field: keyof InventoryAnalysisParameters, value: string) => {
+    setParameters(prev => ({ ...prev, [field]: parseFloat(value) || 0 }));
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const formatDate = (date: string | null) => date ? new Date(date).toLocaleDateString() : '-';
+
+  if (!hasPermission('inventory.view')) {
+    return (
+      <div className="text-center py-12">
+        <PieChart className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600">You don't have permission to view the inventory analysis.</p>
+      </div>
+    );
+  }
+
+  if (loading && !analysis) {
+    return <LoadingSpinner />;
+  }
+
+  const changedCount = analysis?.items.filter(item =>
+    item.abcClass !== item.storedAbcClass || item.xyzClass !== item.storedXyzClass
+  ).length || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Inventory Analysis</h1>
+          <p className="text-sm text-gray-500">
+            ABC classes rank items by annual consumption value; XYZ classes rank how steady their monthly demand is
+          </p>
+        </div>
+        {canClassify && (
+          <button
+            onClick={handleClassify}
+            disabled={classifying || !analysis}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {classifying ? 'Storing...' : `Store Classification${changedCount > 0 ? ` (${changedCount} changed)` : ''}`}
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="grid grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">History (days)</label>
+            <input
+              type="number"
+              min="30"
+              value={parameters.days}
+              onChange={(e) => updateParameter('days', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">A up to (% of value)</label>
+            <input
+              type="number"
+              min="1"
+              max="99"
+              value={parameters.aLimit}
+              onChange={(e) => updateParameter('aLimit', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">B up to (% of value)</label>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={parameters.bLimit}
+              onChange={(e) => updateParameter('bLimit', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Dead Stock After (days)</label>
+            <input
+              type="number"
+              min="1"
+              value={parameters.deadStockDays}
+              onChange={(e) => updateParameter('deadStockDays', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            onClick={() => fetchAnalysis(parameters)}
+            disabled={loading}
+            className="flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Recalculate
+          </button>
+        </div>
+      </div>
+
+      {analysis && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Class Matrix</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Annual consumption value {formatCurrency(analysis.totalAnnualConsumptionValue)}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th></th>
+                    {XYZ_CLASSES.map(xyzClass => (
+                      <th key={xyzClass} className="px-3 py-2 text-center font-medium text-gray-700">
+                        {xyzClass} <span className="text-xs font-normal text-gray-500">{XYZ_CLASS_LABELS[xyzClass]}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {ABC_CLASSES.map(abcClass => (
+                    <tr key={abcClass}>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ABC_CLASS_COLORS[abcClass]}`}>{abcClass}</span>
+                      </td>
+                      {XYZ_CLASSES.map(xyzClass => {
+                        const cell = analysis.summary[`${abcClass}${xyzClass}`];
+                        return (
+                          <td key={xyzClass} className="px-3 py-2 text-center border border-gray-100">
+                            <div className="font-medium text-gray-900">{cell?.count || 0}</div>
+                            <div className="text-xs text-gray-500">{formatCurrency(cell?.annualConsumptionValue || 0)}</div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Count Frequency</h2>
+              <div className="space-y-3 text-sm">
+                {ABC_CLASSES.map(abcClass => {
+                  const classItems = analysis.items.filter(item => item.storedAbcClass === abcClass);
+                  return (
+                    <div key={abcClass} className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ABC_CLASS_COLORS[abcClass]}`}>{abcClass}</span>
+                        <span className="text-gray-700">Every {analysis.parameters.countFrequencyDays[abcClass]} days</span>
+                      </div>
+                      <span className="text-gray-500">
+                        {classItems.filter(item => item.isDueForCount).length} of {classItems.length} due
+                      </span>
+                    </div>
+                  );
+                })}
+                <p className="text-xs text-gray-500 pt-2">
+                  Uses the stored classes. Start a stock take scoped to ABC classes to count the items that are due.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+              <h2 className="text-lg font-semibold text-gray-900">Item Classification</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Annual Value</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cumulative</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">CV</th>
+                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Class</th>
+                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Stored</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Count</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {analysis.items.map(item => (
+                    <tr key={item.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                        <div className="text-xs text-gray-500">{item.itemId} · {item.category}</div>
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-900">
+                        {item.issuedQuantity.toLocaleString()} {UnitConversion.abbreviation(item.unitMeasurement)}
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-900">
+                        {formatCurrency(item.annualConsumptionValue)}
+                        <div className="text-xs text-gray-500">{item.valueShare}%</div>
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-500">{item.cumulativeShare}%</td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-500">
+                        {item.coefficientOfVariation === null ? '-' : item.coefficientOfVariation}
+                      </td>
+                      <td className="px-6 py-4 text-center">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ABC_CLASS_COLORS[item.abcClass]}`}>
+                          {item.abcClass}{item.xyzClass}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-center text-sm">
+                        {item.storedAbcClass ? (
+                          <span className={item.storedAbcClass !== item.abcClass || item.storedXyzClass !== item.xyzClass ? 'text-amber-600 font-medium' : 'text-gray-500'}>
+                            {item.storedAbcClass}{item.storedXyzClass}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">None</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {item.storedAbcClass ? (
+                          <span className={item.isDueForCount ? 'text-red-600 font-medium' : 'text-gray-700'}>
+                            {item.isDueForCount ? 'Due now' : formatDate(item.nextCountDue)}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                        <div className="text-xs text-gray-500">Last counted {formatDate(item.lastCountedAt)}</div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gray-50">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Dead Stock</h2>
+                <p className="text-sm text-gray-500">Items in stock with no movement for {analysis.parameters.deadStockDays} days</p>
+              </div>
+              <div className="text-sm text-gray-600">
+                {analysis.deadStock.length} item(s) · <span className="font-medium text-gray-900">{formatCurrency(analysis.deadStockValue)}</span> tied up
+              </div>
+            </div>
+            {analysis.deadStock.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No dead stock</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Hand</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tied-up Value</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Movement</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {analysis.deadStock.map(item => (
+                    <tr key={item.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                        <div className="text-xs text-gray-500">{item.itemId} · {item.category}</div>
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-gray-900">
+                        {item.quantity.toLocaleString()} {UnitConversion.abbreviation(item.unitMeasurement)}
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm font-medium text-gray-900">{formatCurrency(item.tiedUpValue)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {formatDate(item.lastMovementAt)}
+                        {item.daysSinceMovement !== null && (
+                          <div className="text-xs text-gray-500">{item.daysSinceMovement} days ago</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InventoryAnalysis;
@@ -0,0 +1,519 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Boxes, PackageMinus, X } from 'lucide-react';
+import { Kit, InventoryItem, Location } from '../types';
+import { CabinetTemplate } from '../types/cabinet';
+import { kitService, inventoryService, locationService, getApiErrorMessage } from '../services/api';
+import { CabinetStorageService } from '../services/cabinetCalculator';
+import { cabinetTemplates } from '../data/cabinetTemplates';
+import { UnitConversion } from '../services/unitConversion';
+import { useAuth } from '../context/AuthContext';
+import Modal from '../components/Common/Modal';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface KitFormComponent {
+  inventoryItemId: string;
+  quantity: number;
+}
+
+const emptyKitForm = {
+  kitCode: '',
+  name: '',
+  description: '',
+  templateId: '',
+  components: [] as KitFormComponent[]
+};
+
+const emptyIssueForm = {
+  quantity: 1,
+  locationId: '',
+  referenceNumber: '',
+  notes: ''
+};
+
+const Kits: React.FC = () => {
+  const { user, hasPermission } = useAuth();
+  const [kits, setKits] = useState<Kit[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  // Only templates with a hardware list can seed a kit
+  const [templates, setTemplates] = useState<CabinetTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showKitModal, setShowKitModal] = useState(false);
+  const [editingKit, setEditingKit] = useState<Kit | null>(null);
+  const [kitForm, setKitForm] = useState(emptyKitForm);
+  const [issuingKit, setIssuingKit] = useState<Kit | null>(null);
+  const [issueForm, setIssueForm] = useState(emptyIssueForm);
+  const [issuing, setIssuing] = useState(false);
+
+  const canManage = hasPermission('inventory.update');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [kitData, itemData, locationData, customTemplates] = await Promise.all([
+        kitService.getAll(),
+        inventoryService.getAll(),
+        locationService.getAll(),
+        CabinetStorageService.getCustomTemplates()
+      ]);
+      setKits(kitData);
+      setItems(itemData);
+      setLocations(locationData);
+      setTemplates([...cabinetTemplates, ...customTemplates].filter(template => template.hardwareItems?.length));
+    } catch (error) {
+      console.error('Failed to fetch kits:', error);
+      toast.error('Failed to load kits');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingKit(null);
+    setKitForm(emptyKitForm);
+    setShowKitModal(true);
+  };
+
+  const openEdit = (kit: Kit) => {
+    setEditingKit(kit);
+    setKitForm({
+      kitCode: kit.kitCode,
+      name: kit.name,
+      description: kit.description || '',
+      templateId: kit.templateId || '',
+      components: kit.components.map(component => ({ inventoryItemId: component.inventoryItemId, quantity: component.quantity }))
+    });
+    setShowKitModal(true);
+  };
+
+  const closeKitModal = () => {
+    setShowKitModal(false);
+    setEditingKit(null);
+    setKitForm(emptyKitForm);
+  };
+
+  const handleTemplateSelect = async (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    setKitForm(prev => ({ ...prev, templateId }));
+    if (!template?.hardwareItems) return;
+
+    try {
+      const match = await kitService.matchHardware(template.hardwareItems);
+      setKitForm(prev => ({
+        ...prev,
+        name: prev.name || `${template.name} hardware`,
+        components: match.components.map(component => ({ inventoryItemId: component.inventoryItemId, quantity: component.quantity }))
+      }));
+      if (match.unmatched.length > 0) {
+        toast.error(`Not in inventory: ${match.unmatched.map(line => line.name).join(', ')}`);
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to read template hardware'));
+    }
+  };
+
+  const updateComponent = (index: number, field: keyof KitFormComponent, value: string | number) => {
+    const components = [...kitForm.components];
+    components[index] = { ...components[index], [field]: value };
+    setKitForm({ ...kitForm, components });
+  };
+
+  const handleSaveKit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const components = kitForm.components.filter(component => component.inventoryItemId);
+    try {
+      if (editingKit) {
+        await kitService.update(editingKit.id, { ...kitForm, components });
+        toast.success('Kit updated');
+      } else {
+        await kitService.create({ ...kitForm, components });
+        toast.success('Kit created');
+      }
+      closeKitModal();
+      await fetchData();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to save kit'));
+    }
+  };
+
+  const handleDelete = async (kit: Kit) => {
+    if (!window.confirm(`Delete kit ${kit.kitCode}? Component stock is not affected.`)) {
+      return;
+    }
+    try {
+      await kitService.delete(kit.id);
+      toast.success('Kit deleted');
+      await fetchData();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to delete kit'));
+    }
+  };
+
+  const openIssue = (kit: Kit) => {
+    setIssuingKit(kit);
+    setIssueForm(emptyIssueForm);
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!issuingKit) return;
+
+    setIssuing(true);
+    try {
+      const { transactions } = await kitService.issue(issuingKit.id, {
+        quantity: issueForm.quantity,
+        locationId: issueForm.locationId || undefined,
+        referenceNumber: issueForm.referenceNumber || undefined,
+        notes: issueForm.notes || undefined,
+        performedBy: user?.username
+      });
+      toast.success(`Issued ${issueForm.quantity} x ${issuingKit.kitCode} (${transactions.length} movement(s))`);
+      setIssuingKit(null);
+      await fetchData();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to issue kit'));
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  if (!hasPermission('inventory.view')) {
+    return (
+      <div className="text-center py-12">
+        <Boxes className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600">You don't have permission to view kits.</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Kits</h1>
+          <p className="text-sm text-gray-500">
+            Pre-packed bundles issued in one step; availability follows the component with the least available stock
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={openCreate}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Kit
+          </button>
+        )}
+      </div>
+
+      {kits.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 text-center py-12 text-gray-500">
+          No kits defined yet
+        </div>
+      ) : kits.map(kit => (
+        <div key={kit.id} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gray-50">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{kit.name}</h2>
+              <p className="text-sm text-gray-500">
+                {kit.kitCode} · {formatCurrency(kit.unitCost)} per kit
+                {kit.description && ` · ${kit.description}`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <span className={`px-3 py-1 text-sm font-semibold rounded-full ${
+                kit.availableKits === 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+              }`}>
+                {kit.availableKits.toLocaleString()} available
+              </span>
+              {canManage && (
+                <>
+                  <button
+                    onClick={() => openIssue(kit)}
+                    disabled={kit.availableKits === 0}
+                    className="flex items-center px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <PackageMinus className="w-4 h-4 mr-1" />
+                    Issue
+                  </button>
+                  <button onClick={() => openEdit(kit)} className="text-blue-600 hover:text-blue-900">
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(kit)} className="text-red-600 hover:text-red-900">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Component</th>
+                <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Per Kit</th>
+                <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Available</th>
+                <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Enough For</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {kit.components.map(component => {
+                const unit = UnitConversion.abbreviation(component.unitMeasurement);
+                const isLimiting = component.availableKits === kit.availableKits;
+                return (
+                  <tr key={component.inventoryItemId}>
+                    <td className="px-6 py-2 text-sm">
+                      <span className="font-medium text-gray-900">{component.name}</span>
+                      <span className="text-gray-500"> · {component.itemId}</span>
+                    </td>
+                    <td className="px-6 py-2 text-sm text-right text-gray-900">{component.quantity.toLocaleString()} {unit}</td>
+                    <td className="px-6 py-2 text-sm text-right text-gray-900">
+                      {component.availableQuantity.toLocaleString()} {unit}
+                      {component.reservedQuantity > 0 && (
+                        <div className="text-xs text-amber-700">{component.reservedQuantity.toLocaleString()} reserved</div>
+                      )}
+                    </td>
+                    <td className={`px-6 py-2 text-sm text-right ${isLimiting ? 'font-semibold text-amber-700' : 'text-gray-500'}`}>
+                      {component.availableKits.toLocaleString()} kit(s)
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {/* Kit Definition Modal */}
+      <Modal
+        isOpen={showKitModal}
+        onClose={closeKitModal}
+        title={editingKit ? `Edit Kit - ${editingKit.kitCode}` : 'New Kit'}
+        size="lg"
+      >
+        <form onSubmit={handleSaveKit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Kit Code *</label>
+              <input
+                type="text"
+                value={kitForm.kitCode}
+                onChange={(e) => setKitForm({ ...kitForm, kitCode: e.target.value })}
+                placeholder="e.g., KIT-BASE-600"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={kitForm.name}
+                onChange={(e) => setKitForm({ ...kitForm, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={kitForm.description}
+              onChange={(e) => setKitForm({ ...kitForm, description: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Build From Cabinet Template</label>
+            <select
+              value={kitForm.templateId}
+              onChange={(e) => handleTemplateSelect(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">By hand</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>
+                  {template.name} ({template.hardwareItems?.length} hardware items)
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Replaces the components with the template's hardware, matched to inventory by item code or name
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">Components *</label>
+              <button
+                type="button"
+                onClick={() => setKitForm({ ...kitForm, components: [...kitForm.components, { inventoryItemId: '', quantity: 1 }] })}
+                className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Component
+              </button>
+            </div>
+            <div className="space-y-2">
+              {kitForm.components.length === 0 && (
+                <p className="text-sm text-gray-500">No components yet</p>
+              )}
+              {kitForm.components.map((component, index) => {
+                const item = items.find(i => i.id === component.inventoryItemId);
+                return (
+                  <div key={index} className="flex items-center space-x-2">
+                    <select
+                      value={component.inventoryItemId}
+                      onChange={(e) => updateComponent(index, 'inventoryItemId', e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Select item</option>
+                      {items.map(i => (
+                        <option
+                          key={i.id}
+                          value={i.id}
+                          disabled={i.id !== component.inventoryItemId && kitForm.components.some(c => c.inventoryItemId === i.id)}
+                        >
+                          {i.itemId} - {i.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={component.quantity}
+                      onChange={(e) => updateComponent(index, 'quantity', parseFloat(e.target.value) || 0)}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <span className="w-12 text-sm text-gray-500">{item ? UnitConversion.abbreviation(item.unitMeasurement) : ''}</span>
+                    <button
+                      type="button"
+                      onClick={() => setKitForm({ ...kitForm, components: kitForm.components.filter((_, i) => i !== index) })}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={closeKitModal}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              {editingKit ? 'Save Kit' : 'Create Kit'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Issue Modal */}
+      <Modal
+        isOpen={!!issuingKit}
+        onClose={() => setIssuingKit(null)}
+        title={issuingKit ? `Issue Kit - ${issuingKit.kitCode}` : 'Issue Kit'}
+      >
+        {issuingKit && (
+          <form onSubmit={handleIssue} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Kits *</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={issuingKit.availableKits}
+                  value={issueForm.quantity}
+                  onChange={(e) => setIssueForm({ ...issueForm, quantity: parseInt(e.target.value) || 1 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">From Location</label>
+                <select
+                  value={issueForm.locationId}
+                  onChange={(e) => setIssueForm({ ...issueForm, locationId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Each item's default location</option>
+                  {locations.filter(location => location.isActive).map(location => (
+                    <option key={location.id} value={location.id}>
+                      {location.code} - {location.storeName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <input
+              type="text"
+              value={issueForm.referenceNumber}
+              onChange={(e) => setIssueForm({ ...issueForm, referenceNumber: e.target.value })}
+              placeholder={`Reference (defaults to ${issuingKit.kitCode})`}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="text"
+              value={issueForm.notes}
+              onChange={(e) => setIssueForm({ ...issueForm, notes: e.target.value })}
+              placeholder="Notes"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="bg-gray-50 p-3 rounded-lg text-sm text-gray-700 space-y-1">
+              {issuingKit.components.map(component => (
+                <div key={component.inventoryItemId} className="flex justify-between">
+                  <span>{component.itemId} - {component.name}{component.isLotTracked ? ' (earliest expiry lots first)' : ''}</span>
+                  <span className="font-medium">
+                    {(component.quantity * issueForm.quantity).toLocaleString()} {UnitConversion.abbreviation(component.unitMeasurement)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setIssuingKit(null)}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={issuing}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                {issuing ? 'Issuing...' : 'Issue Kits'}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default Kits;
@@ -0,0 +1,529 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Eye, Undo2 } from 'lucide-react';
+import {
+  MaterialReturn,
+  MaterialReturnReferenceType,
+  ReturnableMaterials,
+  ReturnCondition,
+  CostCenterCredit,
+  Requisition,
+  Department,
+  Location
+} from '../types';
+import { CabinetProject } from '../types/cabinet';
+import { materialReturnService, requisitionService, cabinetService, departmentService, locationService, getApiErrorMessage } from '../services/api';
+import { UnitConversion } from '../services/unitConversion';
+import { useAuth } from '../context/AuthContext';
+import Modal from '../components/Common/Modal';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface ReturnLineForm {
+  quantity: string;
+  condition: ReturnCondition;
+  locationId: string;
+  lotNumber: string;
+}
+
+const emptyReturnForm = {
+  referenceType: 'requisition' as MaterialReturnReferenceType,
+  referenceId: '',
+  department: '',
+  returnedBy: '',
+  notes: ''
+};
+
+const conditionLabels: Record<ReturnCondition, string> = {
+  new: 'New / unopened',
+  used: 'Part used',
+  damaged: 'Damaged'
+};
+
+const MaterialReturns: React.FC = () => {
+  const { user, hasPermission } = useAuth();
+  const [returns, setReturns] = useState<MaterialReturn[]>([]);
+  const [credits, setCredits] = useState<CostCenterCredit[]>([]);
+  // Only requisitions with something issued can have material returned against them
+  const [requisitions, setRequisitions] = useState<Requisition[]>([]);
+  const [projects, setProjects] = useState<CabinetProject[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [returnForm, setReturnForm] = useState(emptyReturnForm);
+  const [returnable, setReturnable] = useState<ReturnableMaterials | null>(null);
+  const [lineForms, setLineForms] = useState<Record<string, ReturnLineForm>>({});
+  const [saving, setSaving] = useState(false);
+  const [viewingReturn, setViewingReturn] = useState<MaterialReturn | null>(null);
+
+  const canManage = hasPermission('inventory.update');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [returnData, creditData, requisitionData, projectData, departmentData, locationData] = await Promise.all([
+        materialReturnService.getAll(),
+        materialReturnService.getCostCenterCredits(),
+        requisitionService.getAll(),
+        cabinetService.getProjects(),
+        departmentService.getAll(),
+        locationService.getAll()
+      ]);
+      setReturns(returnData);
+      setCredits(creditData);
+      setRequisitions(requisitionData.filter(req => req.status === 'partially_issued' || req.status === 'fulfilled'));
+      setProjects(projectData);
+      setDepartments(departmentData.filter(department => department.isActive));
+      setLocations(locationData.filter(location => location.isActive));
+    } catch (error) {
+      console.error('Failed to fetch material returns:', error);
+      toast.error('Failed to load material returns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openReturnModal = () => {
+    setReturnForm(emptyReturnForm);
+    setReturnable(null);
+    setLineForms({});
+    setShowReturnModal(true);
+  };
+
+  const closeReturnModal = () => {
+    setShowReturnModal(false);
+    setReturnable(null);
+    setLineForms({});
+  };
+
+  const handleReferenceSelect = async (referenceType: MaterialReturnReferenceType, referenceId: string) => {
+    setReturnForm({ ...returnForm, referenceType, referenceId });
+    setReturnable(null);
+    setLineForms({});
+    if (!referenceId) return;
+
+    try {
+      const data = await materialReturnService.getReturnable(referenceType, referenceId);
+      setReturnable(data);
+      setLineForms(Object.fromEntries(data.items.map(item => [item.itemId, {
+        quantity: '',
+        condition: 'new' as ReturnCondition,
+        locationId: '',
+        lotNumber: item.lotNumbers[0] || ''
+      }])));
+    } catch (error) {
+      console.error('Failed to load returnable materials:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load returnable materials'));
+    }
+  };
+
+  const updateLineForm = (itemId: string, changes: Partial<ReturnLineForm>) => {
+    setLineForms({ ...lineForms, [itemId]: { ...lineForms[itemId], ...changes } });
+  };
+
+  const handleSaveReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!returnable) return;
+
+    const items = returnable.items
+      .filter(item => Number(lineForms[item.itemId]?.quantity) > 0)
+      .map(item => {
+        const line = lineForms[item.itemId];
+        return {
+          itemId: item.itemId,
+          quantity: Number(line.quantity),
+          condition: line.condition,
+          locationId: line.locationId || undefined,
+          lotNumber: item.isLotTracked ? line.lotNumber || undefined : undefined
+        };
+      });
+    if (items.length === 0) {
+      toast.error('Enter a quantity to return');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const materialReturn = await materialReturnService.create({
+        referenceType: returnForm.referenceType,
+        referenceId: returnForm.referenceId,
+        department: returnForm.department || undefined,
+        returnedBy: returnForm.returnedBy || undefined,
+        receivedBy: user?.username,
+        notes: returnForm.notes || undefined,
+        items
+      });
+      toast.success(`${materialReturn.returnNumber} posted; ${formatCurrency(materialReturn.creditAmount)} credited to ${materialReturn.costCenter || materialReturn.department}`);
+      closeReturnModal();
+      await fetchData();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to post material return'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  if (!hasPermission('inventory.view')) {
+    return (
+      <div className="text-center py-12">
+        <Undo2 className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600">You don't have permission to view material returns.</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Material Returns</h1>
+          <p className="text-sm text-gray-500">
+            Unused issued material back into stock, credited to the cost center of the department that had it
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={openReturnModal}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Return
+          </button>
+        )}
+      </div>
+
+      {/* Cost Center Credits */}
+      {credits.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {credits.map(credit => (
+            <div key={`${credit.costCenter}-${credit.department}`} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <p className="text-sm font-medium text-gray-600">
+                {credit.costCenter || 'No cost center'} · {credit.department || '-'}
+              </p>
+              <p className="text-2xl font-bold text-green-700 mt-1">{formatCurrency(credit.creditAmount)}</p>
+              <p className="text-xs text-gray-500">credited from {credit.returnCount} return(s)</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {returns.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No material returns yet</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Return</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Returned From</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Credited To</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Lines</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Credit</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {returns.map(materialReturn => (
+                <tr key={materialReturn.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 text-sm">
+                    <div className="font-medium text-gray-900">{materialReturn.returnNumber}</div>
+                    <div className="text-gray-500">{new Date(materialReturn.createdAt).toLocaleDateString()}</div>
+                  </td>
+                  <td className="px-6 py-3 text-sm">
+                    <div className="text-gray-900">{materialReturn.referenceNumber}</div>
+                    <div className="text-gray-500">
+                      {materialReturn.referenceType === 'requisition' ? 'Requisition' : 'Project'}
+                      {materialReturn.returnedBy && ` · by ${materialReturn.returnedBy}`}
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 text-sm">
+                    <div className="text-gray-900">{materialReturn.costCenter || '-'}</div>
+                    <div className="text-gray-500">{materialReturn.department}</div>
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{materialReturn.items.length}</td>
+                  <td className="px-6 py-3 text-sm text-right font-medium text-green-700">{formatCurrency(materialReturn.creditAmount)}</td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => setViewingReturn(materialReturn)}
+                      className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                      title="View Details"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* New Return Modal */}
+      <Modal isOpen={showReturnModal} onClose={closeReturnModal} title="New Material Return" size="xl">
+        <form onSubmit={handleSaveReturn} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Returned From</label>
+              <select
+                value={returnForm.referenceType}
+                onChange={(e) => handleReferenceSelect(e.target.value as MaterialReturnReferenceType, '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="requisition">Requisition</option>
+                <option value="project">Cabinet project</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {returnForm.referenceType === 'requisition' ? 'Requisition *' : 'Project *'}
+              </label>
+              <select
+                value={returnForm.referenceId}
+                onChange={(e) => handleReferenceSelect(returnForm.referenceType, e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Select...</option>
+                {returnForm.referenceType === 'requisition'
+                  ? requisitions.map(requisition => (
+                      <option key={requisition.id} value={requisition.id}>
+                        {requisition.requestNumber} · {requisition.department}
+                      </option>
+                    ))
+                  : projects.map(project => (
+                      <option key={project.id} value={project.id}>
+                        {project.name} · {project.customerName}
+                      </option>
+                    ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Department to Credit</label>
+              {returnForm.referenceType === 'requisition' ? (
+                <p className="px-3 py-2 text-gray-900">{returnable?.department || '-'}</p>
+              ) : (
+                <select
+                  value={returnForm.department}
+                  onChange={(e) => setReturnForm({ ...returnForm, department: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select department</option>
+                  {departments.map(department => (
+                    <option key={department.id} value={department.name}>
+                      {department.name}{department.costCenter ? ` (${department.costCenter})` : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+
+          {returnable && (
+            returnable.items.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing has been issued on {returnable.referenceNumber}.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border border-gray-200 rounded-lg">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Item</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Returnable</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Return Qty</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Condition</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">To Location</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Lot</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {returnable.items.map(item => {
+                      const line = lineForms[item.itemId];
+                      const unit = UnitConversion.abbreviation(item.unitMeasurement);
+                      return (
+                        <tr key={item.itemId}>
+                          <td className="px-3 py-2 text-sm">
+                            <div className="font-medium text-gray-900">{item.itemName}</div>
+                            <div className="text-gray-500">{item.itemId} · {formatCurrency(item.unitCost)}/{unit}</div>
+                          </td>
+                          <td className="px-3 py-2 text-sm text-right text-gray-900">
+                            {item.returnableQuantity.toLocaleString()} {unit}
+                            {item.returnedQuantity > 0 && (
+                              <div className="text-xs text-gray-500">{item.returnedQuantity.toLocaleString()} already returned</div>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-sm">
+                            <input
+                              type="number"
+                              min="0"
+                              max={item.returnableQuantity}
+                              step="any"
+                              value={line.quantity}
+                              disabled={item.returnableQuantity === 0}
+                              onChange={(e) => updateLineForm(item.itemId, { quantity: e.target.value })}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-sm">
+                            <select
+                              value={line.condition}
+                              onChange={(e) => updateLineForm(item.itemId, { condition: e.target.value as ReturnCondition })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                              {(Object.keys(conditionLabels) as ReturnCondition[]).map(condition => (
+                                <option key={condition} value={condition}>{conditionLabels[condition]}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2 text-sm">
+                            <select
+                              value={line.locationId}
+                              onChange={(e) => updateLineForm(item.itemId, { locationId: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                              <option value="">Item's default location</option>
+                              {locations.map(location => (
+                                <option key={location.id} value={location.id}>{location.code}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2 text-sm">
+                            {item.isLotTracked ? (
+                              <select
+                                value={line.lotNumber}
+                                onChange={(e) => updateLineForm(item.itemId, { lotNumber: e.target.value })}
+                                className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              >
+                                {item.lotNumbers.map(lotNumber => (
+                                  <option key={lotNumber} value={lotNumber}>{lotNumber}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Returned By</label>
+              <input
+                type="text"
+                value={returnForm.returnedBy}
+                onChange={(e) => setReturnForm({ ...returnForm, returnedBy: e.target.value })}
+                placeholder="Who brought the material back"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={returnForm.notes}
+                onChange={(e) => setReturnForm({ ...returnForm, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={closeReturnModal}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !returnable || returnable.items.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Posting...' : 'Post Return'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Return Details Modal */}
+      <Modal
+        isOpen={!!viewingReturn}
+        onClose={() => setViewingReturn(null)}
+        title={viewingReturn ? `Material Return ${viewingReturn.returnNumber}` : 'Material Return'}
+        size="lg"
+      >
+        {viewingReturn && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <span className="text-gray-500">Returned from:</span> {viewingReturn.referenceNumber}
+              </div>
+              <div>
+                <span className="text-gray-500">Credited to:</span> {viewingReturn.costCenter || '-'} ({viewingReturn.department})
+              </div>
+              <div>
+                <span className="text-gray-500">Returned by:</span> {viewingReturn.returnedBy || '-'}
+              </div>
+              <div>
+                <span className="text-gray-500">Received by:</span> {viewingReturn.receivedBy || '-'}
+              </div>
+            </div>
+            <table className="w-full border border-gray-200 rounded-lg">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Item</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Quantity</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Condition</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Location / Lot</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">Credit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {viewingReturn.items.map(line => (
+                  <tr key={line.id}>
+                    <td className="px-3 py-2 text-sm">
+                      <div className="text-gray-900">{line.itemName}</div>
+                      <div className="text-gray-500">{line.itemId}</div>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-gray-900">
+                      {line.quantity.toLocaleString()} {UnitConversion.abbreviation(line.unitMeasurement)}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{conditionLabels[line.condition]}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {line.locationCode || '-'}
+                      {line.lotNumber && <span className="text-gray-500"> · lot {line.lotNumber}</span>}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-gray-900">{formatCurrency(line.creditAmount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {viewingReturn.notes && <p className="text-sm text-gray-700 whitespace-pre-wrap">{viewingReturn.notes}</p>}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default MaterialReturns;
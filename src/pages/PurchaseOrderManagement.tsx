@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Search, Eye, ShoppingCart, User, Building, DollarSign, Calendar, CheckCircle, XCircle, Clock, AlertCircle, Package, FileText, Send, Truck } from 'lucide-react';
 import { PurchaseOrder, PurchaseOrderItem, InventoryItem, Supplier } from '../types';
-import { purchaseOrderService, inventoryService, supplierService } from '../services/api';
+import { purchaseOrderService, inventoryService, supplierService, getApiErrorMessage } from '../services/api';
+import { UnitConversion } from '../services/unitConversion';
 import { useAuth } from '../context/AuthContext';
 import Modal from '../components/Common/Modal';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
+import ScanInput from '../components/Common/ScanInput';
+import ApprovalSteps from '../components/Common/ApprovalSteps';
 import toast from 'react-hot-toast';
 
 interface PurchaseOrderFormData {
@@ -16,6 +19,17 @@ interface PurchaseOrderFormData {
   items: PurchaseOrderItem[];
 }
 
+// Status changes the server accepts from each status; approval only happens through the approval steps
+const STATUS_TRANSITIONS: Record<PurchaseOrder['status'], PurchaseOrder['status'][]> = {
+  draft: ['pending', 'cancelled'],
+  pending: ['draft', 'cancelled'],
+  approved: ['draft', 'ordered', 'cancelled'],
+  ordered: ['received', 'cancelled'],
+  received: ['completed'],
+  completed: [],
+  cancelled: []
+};
+
 const PurchaseOrderManagement: React.FC = () => {
   const { user, hasPermission } = useAuth();
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
@@ -178,7 +192,7 @@ const PurchaseOrderManagement: React.FC = () => {
       toast.success('Purchase order deleted successfully');
     } catch (error) {
       console.error('Failed to delete purchase order:', error);
-      toast.error('Failed to delete purchase order');
+      toast.error(getApiErrorMessage(error, 'Failed to delete purchase order'));
     }
   };
 
@@ -195,18 +209,32 @@ const PurchaseOrderManagement: React.FC = () => {
       toast.success(`Purchase order status updated to ${newStatus}`);
     } catch (error) {
       console.error('Failed to update purchase order status:', error);
-      toast.error('Failed to update purchase order status');
+      toast.error(getApiErrorMessage(error, 'Failed to update purchase order status'));
     }
   };
 
   const handleApprovePO = async (poId: string) => {
     try {
-      const updatedPO = await purchaseOrderService.approve(poId);
+      const updatedPO = await purchaseOrderService.approve(poId, user?.username);
       setPurchaseOrders(purchaseOrders.map(po => po.id === poId ? updatedPO : po));
-      toast.success('Purchase order approved successfully');
+      toast.success(updatedPO.status === 'approved' ? 'Purchase order approved successfully' : 'Approval step completed');
     } catch (error) {
       console.error('Failed to approve purchase order:', error);
-      toast.error('Failed to approve purchase order');
+      toast.error(getApiErrorMessage(error, 'Failed to approve purchase order'));
+    }
+  };
+
+  const handleRejectPO = async (poId: string) => {
+    const reason = prompt('Please provide a reason for rejection:');
+    if (!reason) return;
+
+    try {
+      const updatedPO = await purchaseOrderService.reject(poId, reason, user?.username);
+      setPurchaseOrders(purchaseOrders.map(po => po.id === poId ? updatedPO : po));
+      toast.success('Purchase order rejected and returned to draft');
+    } catch (error) {
+      console.error('Failed to reject purchase order:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to reject purchase order'));
     }
   };
 
@@ -231,19 +259,57 @@ const PurchaseOrderManagement: React.FC = () => {
       updatedItems[index].totalCost = updatedItems[index].quantity * updatedItems[index].unitCost;
     }
     
-    // Auto-fill item name when item ID is selected
+    // Auto-fill item name when item ID is selected; items are ordered in their purchase unit
     if (field === 'itemId') {
-      const inventoryItem = inventoryItems.find(item => item.itemId === value);
+      const inventoryItem = getInventoryItem(value);
       if (inventoryItem) {
         updatedItems[index].itemName = inventoryItem.name;
-        updatedItems[index].unitCost = inventoryItem.unitCost;
-        updatedItems[index].totalCost = updatedItems[index].quantity * inventoryItem.unitCost;
+        updatedItems[index].unit = UnitConversion.getPurchaseUnit(inventoryItem);
+      }
+    }
+    
+    // Unit cost follows the selected unit, priced from the item's cost per stock unit
+    if (field === 'itemId' || field === 'unit') {
+      const inventoryItem = getInventoryItem(updatedItems[index].itemId);
+      if (inventoryItem) {
+        updatedItems[index].unitCost = UnitConversion.convertUnitCost(inventoryItem, inventoryItem.unitCost, updatedItems[index].unit);
+        updatedItems[index].totalCost = updatedItems[index].quantity * updatedItems[index].unitCost;
       }
     }
     
     setFormData({ ...formData, items: updatedItems });
   };
 
+  const getInventoryItem = (itemId: string) => inventoryItems.find(item => item.itemId === itemId);
+
+  // A scanned item code adds a line in the item's purchase unit, or adds one more to an existing line
+  const handleScanItem = (code: string) => {
+    const inventoryItem = inventoryItems.find(item => item.itemId.toUpperCase() === code.toUpperCase());
+    if (!inventoryItem) {
+      toast.error(`No item matches ${code}`);
+      return;
+    }
+
+    const index = formData.items.findIndex(item => item.itemId === inventoryItem.itemId);
+    if (index >= 0) {
+      updateItem(index, 'quantity', formData.items[index].quantity + 1);
+      return;
+    }
+
+    const unit = UnitConversion.getPurchaseUnit(inventoryItem);
+    const unitCost = UnitConversion.convertUnitCost(inventoryItem, inventoryItem.unitCost, unit);
+    const newItem: PurchaseOrderItem = {
+      id: Date.now().toString(),
+      itemId: inventoryItem.itemId,
+      itemName: inventoryItem.name,
+      quantity: 1,
+      unit,
+      unitCost,
+      totalCost: unitCost
+    };
+    setFormData({ ...formData, items: [...formData.items, newItem] });
+  };
+
   const removeItem = (index: number) => {
     const updatedItems = formData.items.filter((_, i) => i !== index);
     setFormData({ ...formData, items: updatedItems });
@@ -479,11 +545,20 @@ const PurchaseOrderManagement: React.FC = () => {
                       disabled={!hasPermission('purchase_orders.update')}
                     >
                       {statusOptions.map((status) => (
-                        <option key={status.value} value={status.value}>
+                        <option
+                          key={status.value}
+                          value={status.value}
+                          disabled={status.value !== po.status && !STATUS_TRANSITIONS[po.status].includes(status.value as PurchaseOrder['status'])}
+                        >
                           {status.label}
                         </option>
                       ))}
                     </select>
+                    {po.status === 'pending' && po.approvalSteps && po.approvalSteps.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Step {po.approvalSteps.filter(step => step.status === 'approved').length + 1} of {po.approvalSteps.length}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
@@ -518,7 +593,16 @@ const PurchaseOrderManagement: React.FC = () => {
                           <CheckCircle className="w-4 h-4" />
                         </button>
                       )}
-                      {hasPermission('purchase_orders.delete') && (
+                      {hasPermission('purchase_orders.approve') && po.status === 'pending' && (
+                        <button
+                          onClick={() => handleRejectPO(po.id)}
+                          className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                          title="Reject Purchase Order"
+                        >
+                          <XCircle className="w-4 h-4" />
+                        </button>
+                      )}
+                      {hasPermission('purchase_orders.delete') && ['draft', 'pending'].includes(po.status) && (
                         <button
                           onClick={() => handleDeletePO(po.id)}
                           className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
@@ -628,14 +712,17 @@ const PurchaseOrderManagement: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700">
                 Items *
               </label>
-              <button
-                type="button"
-                onClick={addItem}
-                className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700 transition-colors"
-                disabled={inventoryLoading}
-              >
-                Add Item
-              </button>
+              <div className="flex items-center space-x-2">
+                <ScanInput onScan={handleScanItem} placeholder="Scan item..." className="w-56" />
+                <button
+                  type="button"
+                  onClick={addItem}
+                  className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700 transition-colors"
+                  disabled={inventoryLoading}
+                >
+                  Add Item
+                </button>
+              </div>
             </div>
             
             {formData.items.length === 0 ? (
@@ -648,7 +735,7 @@ const PurchaseOrderManagement: React.FC = () => {
               <div className="space-y-3 max-h-64 overflow-y-auto">
                 {formData.items.map((item, index) => (
                   <div key={item.id} className="grid grid-cols-12 gap-2 items-end p-3 bg-gray-50 rounded-lg">
-                    <div className="col-span-4">
+                    <div className="col-span-3">
                       <label className="block text-xs font-medium text-gray-700 mb-1">Item</label>
                       {inventoryLoading ? (
                         <div className="w-full px-2 py-1 text-sm bg-gray-100 border border-gray-300 rounded">
@@ -679,6 +766,21 @@ const PurchaseOrderManagement: React.FC = () => {
                         className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
                       />
                     </div>
+                    <div className="col-span-2">
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Unit</label>
+                      <select
+                        value={item.unit || ''}
+                        onChange={(e) => updateItem(index, 'unit', e.target.value)}
+                        disabled={!getInventoryItem(item.itemId)}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                      >
+                        {(getInventoryItem(item.itemId) ? UnitConversion.getUnits(getInventoryItem(item.itemId)!) : [item.unit || '']).map((unit) => (
+                          <option key={unit} value={unit}>
+                            {UnitConversion.abbreviation(unit) || '-'}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                     <div className="col-span-2">
                       <label className="block text-xs font-medium text-gray-700 mb-1">Unit Cost</label>
                       <input
@@ -699,13 +801,14 @@ const PurchaseOrderManagement: React.FC = () => {
                         className="w-full px-2 py-1 text-sm bg-gray-100 border border-gray-300 rounded"
                       />
                     </div>
-                    <div className="col-span-2">
+                    <div className="col-span-1">
                       <button
                         type="button"
                         onClick={() => removeItem(index)}
-                        className="w-full bg-red-600 text-white px-2 py-1 rounded text-sm hover:bg-red-700 transition-colors"
+                        title="Remove"
+                        className="w-full flex justify-center bg-red-600 text-white px-2 py-1 rounded text-sm hover:bg-red-700 transition-colors"
                       >
-                        Remove
+                        <Trash2 className="w-4 h-4" />
                       </button>
                     </div>
                   </div>
@@ -845,13 +948,16 @@ const PurchaseOrderManagement: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700">
                 Items *
               </label>
-              <button
-                type="button"
-                onClick={addItem}
-                className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700 transition-colors"
-              >
-                Add Item
-              </button>
+              <div className="flex items-center space-x-2">
+                <ScanInput onScan={handleScanItem} placeholder="Scan item..." className="w-56" />
+                <button
+                  type="button"
+                  onClick={addItem}
+                  className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700 transition-colors"
+                >
+                  Add Item
+                </button>
+              </div>
             </div>
             
             {formData.items.length === 0 ? (
@@ -863,7 +969,7 @@ const PurchaseOrderManagement: React.FC = () => {
               <div className="space-y-3 max-h-64 overflow-y-auto">
                 {formData.items.map((item, index) => (
                   <div key={item.id} className="grid grid-cols-12 gap-2 items-end p-3 bg-gray-50 rounded-lg">
-                    <div className="col-span-4">
+                    <div className="col-span-3">
                       <label className="block text-xs font-medium text-gray-700 mb-1">Item</label>
                       <select
                         value={item.itemId}
@@ -888,6 +994,21 @@ const PurchaseOrderManagement: React.FC = () => {
                         className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
                       />
                     </div>
+                    <div className="col-span-2">
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Unit</label>
+                      <select
+                        value={item.unit || ''}
+                        onChange={(e) => updateItem(index, 'unit', e.target.value)}
+                        disabled={!getInventoryItem(item.itemId)}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                      >
+                        {(getInventoryItem(item.itemId) ? UnitConversion.getUnits(getInventoryItem(item.itemId)!) : [item.unit || '']).map((unit) => (
+                          <option key={unit} value={unit}>
+                            {UnitConversion.abbreviation(unit) || '-'}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                     <div className="col-span-2">
                       <label className="block text-xs font-medium text-gray-700 mb-1">Unit Cost</label>
                       <input
@@ -908,13 +1029,14 @@ const PurchaseOrderManagement: React.FC = () => {
                         className="w-full px-2 py-1 text-sm bg-gray-100 border border-gray-300 rounded"
                       />
                     </div>
-                    <div className="col-span-2">
+                    <div className="col-span-1">
                       <button
                         type="button"
                         onClick={() => removeItem(index)}
-                        className="w-full bg-red-600 text-white px-2 py-1 rounded text-sm hover:bg-red-700 transition-colors"
+                        title="Remove"
+                        className="w-full flex justify-center bg-red-600 text-white px-2 py-1 rounded text-sm hover:bg-red-700 transition-colors"
                       >
-                        Remove
+                        <Trash2 className="w-4 h-4" />
                       </button>
                     </div>
                   </div>
@@ -1044,7 +1166,7 @@ const PurchaseOrderManagement: React.FC = () => {
                       <tr key={item.id} className="hover:bg-gray-50">
                         <td className="px-3 py-2 font-medium text-gray-900">{item.itemId}</td>
                         <td className="px-3 py-2 text-gray-900">{item.itemName}</td>
-                        <td className="px-3 py-2 text-gray-900">{item.quantity}</td>
+                        <td className="px-3 py-2 text-gray-900">{item.quantity} {UnitConversion.abbreviation(item.unit)}</td>
                         <td className="px-3 py-2 text-gray-900">{formatCurrency(item.unitCost)}</td>
                         <td className="px-3 py-2 font-medium text-gray-900">{formatCurrency(item.totalCost)}</td>
                       </tr>
@@ -1072,6 +1194,11 @@ const PurchaseOrderManagement: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-3">Approval Chain</h4>
+              <ApprovalSteps steps={selectedPO.approvalSteps || []} />
+            </div>
+
             {selectedPO.notes && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
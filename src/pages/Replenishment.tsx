@@ -0,0 +1,432 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, ShoppingCart, AlertTriangle, FileText } from 'lucide-react';
+import { ReplenishmentSuggestion, PurchaseOrderItem, RequisitionPurchaseCandidate } from '../types';
+import { replenishmentService, purchaseOrderService, requisitionService, getApiErrorMessage } from '../services/api';
+import { UnitConversion } from '../services/unitConversion';
+import { useAuth } from '../context/AuthContext';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const Replenishment: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const [suggestions, setSuggestions] = useState<ReplenishmentSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  // Order quantities (in purchase units) edited before the draft POs are created, keyed by inventory item id
+  const [orderQuantities, setOrderQuantities] = useState<Record<string, number>>({});
+  const [excluded, setExcluded] = useState<string[]>([]);
+  // Requisition lines stock cannot cover, selected by line id and ordered in the line's unit
+  const [shortages, setShortages] = useState<RequisitionPurchaseCandidate[]>([]);
+  const [selectedShortages, setSelectedShortages] = useState<string[]>([]);
+  const [shortageQuantities, setShortageQuantities] = useState<Record<string, number>>({});
+  const [orderingShortages, setOrderingShortages] = useState(false);
+
+  const canCreate = hasPermission('purchase_orders.create');
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, []);
+
+  const fetchSuggestions = async () => {
+    setLoading(true);
+    try {
+      const [data, shortageData] = await Promise.all([
+        replenishmentService.getSuggestions(),
+        requisitionService.getPurchaseCandidates()
+      ]);
+      setSuggestions(data);
+      setOrderQuantities(Object.fromEntries(data.map(suggestion => [suggestion.inventoryItemId, suggestion.orderQuantity])));
+      setExcluded([]);
+      setShortages(shortageData);
+      setShortageQuantities(Object.fromEntries(shortageData.map(line => [line.lineId, line.shortQuantity])));
+      setSelectedShortages([]);
+    } catch (error) {
+      console.error('Failed to fetch replenishment suggestions:', error);
+      toast.error('Failed to load reorder suggestions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2
+    }).format(amount);
+  };
+
+  const getOrderQuantity = (suggestion: ReplenishmentSuggestion) =>
+    orderQuantities[suggestion.inventoryItemId] ?? suggestion.orderQuantity;
+
+  const isIncluded = (suggestion: ReplenishmentSuggestion) =>
+    !excluded.includes(suggestion.inventoryItemId) && getOrderQuantity(suggestion) > 0;
+
+  const toggleIncluded = (inventoryItemId: string) => {
+    setExcluded(prev => prev.includes(inventoryItemId)
+      ? prev.filter(id => id !== inventoryItemId)
+      : [...prev, inventoryItemId]);
+  };
+
+  const suppliers = [...new Set(suggestions.map(suggestion => suggestion.supplier))].sort((a, b) => {
+    // Items without a supplier cannot be ordered, so they are listed last
+    if (!a) return 1;
+    if (!b) return -1;
+    return a.localeCompare(b);
+  });
+
+  const orderableSuppliers = suppliers.filter(supplier =>
+    supplier && suggestions.some(suggestion => suggestion.supplier === supplier && isIncluded(suggestion))
+  );
+
+  const handleCreateDraftOrders = async () => {
+    if (orderableSuppliers.length === 0) {
+      toast.error('Select at least one line with a supplier to order');
+      return;
+    }
+    if (!window.confirm(`Create ${orderableSuppliers.length} draft purchase order(s)?`)) {
+      return;
+    }
+
+    setCreating(true);
+    const created: string[] = [];
+    try {
+      // PO numbers follow the same sequence as the Purchase Orders page
+      const existingCount = (await purchaseOrderService.getAll()).length;
+      const year = new Date().getFullYear();
+
+      for (const [index, supplier] of orderableSuppliers.entries()) {
+        const items: PurchaseOrderItem[] = suggestions
+          .filter(suggestion => suggestion.supplier === supplier && isIncluded(suggestion))
+          .map((suggestion, lineIndex) => {
+            const quantity = getOrderQuantity(suggestion);
+            return {
+              id: `${Date.now()}-${index}-${lineIndex}`,
+              itemId: suggestion.itemId,
+              itemName: suggestion.name,
+              quantity,
+              unit: suggestion.purchaseUnit,
+              unitCost: suggestion.unitCost,
+              totalCost: quantity * suggestion.unitCost
+            };
+          });
+        const subtotal = items.reduce((sum, item) => sum + item.totalCost, 0);
+        const tax = subtotal * 0.1; // 10% tax
+
+        const po = await purchaseOrderService.create({
+          poNumber: `PO-${year}-${(existingCount + index + 1).toString().padStart(4, '0')}`,
+          supplier,
+          status: 'draft',
+          items,
+          subtotal,
+          tax,
+          total: subtotal + tax,
+          orderDate: new Date().toISOString(),
+          notes: 'Generated from reorder suggestions'
+        });
+        created.push(po.poNumber);
+      }
+
+      toast.success(`Created draft purchase orders ${created.join(', ')}`);
+    } catch (error) {
+      console.error('Failed to create draft purchase orders:', error);
+      toast.error(created.length > 0
+        ? `Created ${created.join(', ')} before an error: ${getApiErrorMessage(error, 'failed to create purchase order')}`
+        : getApiErrorMessage(error, 'Failed to create draft purchase orders'));
+    } finally {
+      setCreating(false);
+      await fetchSuggestions();
+    }
+  };
+
+  const toggleShortage = (lineId: string) => {
+    setSelectedShortages(prev => prev.includes(lineId)
+      ? prev.filter(id => id !== lineId)
+      : [...prev, lineId]);
+  };
+
+  // The server groups the selected lines into one draft PO per supplier and keeps each line's link to its PO
+  const handleOrderShortages = async () => {
+    if (selectedShortages.length === 0) {
+      toast.error('Select at least one requisition line to order');
+      return;
+    }
+
+    setOrderingShortages(true);
+    try {
+      const orders = await requisitionService.createPurchaseOrders(
+        selectedShortages.map(id => ({ id, quantity: shortageQuantities[id] }))
+      );
+      toast.success(`Created draft purchase orders ${orders.map(order => order.poNumber).join(', ')}`);
+      await fetchSuggestions();
+    } catch (error) {
+      console.error('Failed to order requisition lines:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to create purchase orders'));
+    } finally {
+      setOrderingShortages(false);
+    }
+  };
+
+  if (!hasPermission('purchase_orders.view')) {
+    return (
+      <div className="text-center py-12">
+        <ShoppingCart className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600">You don't have permission to view reorder suggestions.</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Replenishment</h1>
+          <p className="text-sm text-gray-500">
+            Items whose available stock is at or below their minimum level, counting quantities already on open purchase orders
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={fetchSuggestions}
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </button>
+          {canCreate && (
+            <button
+              onClick={handleCreateDraftOrders}
+              disabled={creating || orderableSuppliers.length === 0}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <ShoppingCart className="w-4 h-4 mr-2" />
+              {creating ? 'Creating...' : `Create Draft POs (${orderableSuppliers.length})`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Requisition Shortages */}
+      {shortages.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gray-50">
+            <div>
+              <h2 className="flex items-center text-lg font-semibold text-gray-900">
+                <FileText className="w-5 h-5 mr-2 text-gray-500" />
+                Requisition Shortages
+              </h2>
+              <p className="text-sm text-gray-500">
+                Approved requisition lines that stock cannot cover, oldest first; receiving their PO sets the stock aside and notifies the requester
+              </p>
+            </div>
+            {canCreate && (
+              <button
+                onClick={handleOrderShortages}
+                disabled={orderingShortages || selectedShortages.length === 0}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <ShoppingCart className="w-4 h-4 mr-2" />
+                {orderingShortages ? 'Ordering...' : `Order Selected (${selectedShortages.length})`}
+              </button>
+            )}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requisition</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Order</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Short</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order Qty</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {shortages.map(line => {
+                  const unit = UnitConversion.abbreviation(line.unitMeasurement);
+                  return (
+                    <tr key={line.lineId}>
+                      <td className="px-4 py-3 whitespace-nowrap text-center">
+                        <input
+                          type="checkbox"
+                          checked={selectedShortages.includes(line.lineId)}
+                          disabled={!line.supplier || !canCreate}
+                          onChange={() => toggleShortage(line.lineId)}
+                          className="w-4 h-4"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{line.requestNumber}</div>
+                        <div className="text-gray-500">{line.requester} · {line.department}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{line.itemName}</div>
+                        <div className="text-gray-500">{line.itemId}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {line.supplier || (
+                          <span className="flex items-center text-amber-700">
+                            <AlertTriangle className="w-4 h-4 mr-1" />
+                            No supplier
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.outstandingQuantity.toLocaleString()} {unit}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.onOrderQuantity.toLocaleString()} {unit}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium text-red-600">
+                        {line.shortQuantity.toLocaleString()} {unit}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={shortageQuantities[line.lineId] ?? line.shortQuantity}
+                            disabled={!line.supplier || !canCreate}
+                            onChange={(e) => setShortageQuantities({
+                              ...shortageQuantities,
+                              [line.lineId]: Math.max(0, parseFloat(e.target.value) || 0)
+                            })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                          />
+                          <span className="text-gray-500">{unit}</span>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {suggestions.length === 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 text-center py-12 text-gray-500">
+          No items need reordering
+        </div>
+      )}
+
+      {suppliers.map(supplier => {
+        const lines = suggestions.filter(suggestion => suggestion.supplier === supplier);
+        const groupTotal = lines
+          .filter(isIncluded)
+          .reduce((sum, suggestion) => sum + getOrderQuantity(suggestion) * suggestion.unitCost, 0);
+
+        return (
+          <div key={supplier || 'none'} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gray-50">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{supplier || 'No supplier'}</h2>
+                {!supplier && (
+                  <p className="flex items-center text-sm text-amber-700">
+                    <AlertTriangle className="w-4 h-4 mr-1" />
+                    Set a supplier on these items to include them in a purchase order
+                  </p>
+                )}
+              </div>
+              <div className="text-sm text-gray-600">
+                {lines.length} item(s) · <span className="font-medium text-gray-900">{formatCurrency(groupTotal)}</span>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Hand</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Min / Max</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Open POs</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Suggested</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order Qty</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {lines.map(suggestion => {
+                    const stockUnit = UnitConversion.abbreviation(suggestion.unitMeasurement);
+                    const orderQuantity = getOrderQuantity(suggestion);
+                    return (
+                      <tr key={suggestion.inventoryItemId} className={isIncluded(suggestion) ? '' : 'opacity-60'}>
+                        <td className="px-4 py-3 whitespace-nowrap text-center">
+                          <input
+                            type="checkbox"
+                            checked={!excluded.includes(suggestion.inventoryItemId)}
+                            disabled={!supplier}
+                            onChange={() => toggleIncluded(suggestion.inventoryItemId)}
+                            className="w-4 h-4"
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="font-medium text-gray-900">{suggestion.name}</div>
+                          <div className="text-gray-500">{suggestion.itemId}</div>
+                        </td>
+                        <td className={`px-4 py-3 whitespace-nowrap text-sm text-right ${suggestion.quantity <= suggestion.minStockLevel ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                          {suggestion.quantity.toLocaleString()} {stockUnit}
+                          {suggestion.reservedQuantity > 0 && (
+                            <div className="text-xs font-normal text-amber-700">
+                              {suggestion.reservedQuantity.toLocaleString()} reserved
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                          {suggestion.minStockLevel.toLocaleString()} / {suggestion.maxStockLevel ? suggestion.maxStockLevel.toLocaleString() : '-'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                          {suggestion.openQuantity.toLocaleString()} {stockUnit}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                          {suggestion.suggestedQuantity.toLocaleString()} {stockUnit}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          <div className="flex items-center space-x-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              value={orderQuantity}
+                              disabled={!supplier || !canCreate}
+                              onChange={(e) => setOrderQuantities({
+                                ...orderQuantities,
+                                [suggestion.inventoryItemId]: Math.max(0, parseInt(e.target.value) || 0)
+                              })}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                            />
+                            <span className="text-gray-500">{UnitConversion.abbreviation(suggestion.purchaseUnit)}</span>
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                          {formatCurrency(suggestion.unitCost)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                          {formatCurrency(orderQuantity * suggestion.unitCost)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Replenishment;
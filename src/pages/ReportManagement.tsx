@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { FileText, Download, Calendar, Filter, Search, BarChart3, TrendingUp, DollarSign, Package, Eye, Trash2, RefreshCw, AlertCircle, CheckCircle, Clock } from 'lucide-react';
-import { Report, InventoryValuation, Department, CostCenter } from '../types';
+import { Report, InventoryValuation, ValuationMethod, Department, CostCenter } from '../types';
+import { reportService } from '../services/api';
 import { useAuth } from '../context/AuthContext';
 import Modal from '../components/Common/Modal';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
@@ -14,8 +15,15 @@ interface ReportFilters {
   costCenter?: string;
   supplier?: string;
   location?: string;
+  valuationMethod?: ValuationMethod;
 }
 
+const valuationMethodLabels: Record<ValuationMethod, string> = {
+  fifo: 'FIFO',
+  weighted_average: 'Weighted Average',
+  last_price: 'Last Purchase Price'
+};
+
 const ReportManagement: React.FC = () => {
   const { user, hasPermission } = useAuth();
   const [reports, setReports] = useState<Report[]>([]);
@@ -32,14 +40,15 @@ const ReportManagement: React.FC = () => {
   const [selectedReportType, setSelectedReportType] = useState<string>('');
   const [reportFilters, setReportFilters] = useState<ReportFilters>({
     dateFrom: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    dateTo: new Date().toISOString().split('T')[0]
+    dateTo: new Date().toISOString().split('T')[0],
+    valuationMethod: 'weighted_average'
   });
 
   const reportTypes = [
     {
       id: 'inventory_valuation',
       name: 'Inventory Valuation Report',
-      description: 'Detailed inventory valuation with last and average purchase prices',
+      description: 'Stock value from received purchase orders by FIFO, weighted average or last purchase price',
       icon: Package,
       color: 'bg-blue-100 text-blue-800'
     },
@@ -82,7 +91,7 @@ const ReportManagement: React.FC = () => {
 
   useEffect(() => {
     fetchReports();
-    fetchInventoryValuation();
+    fetchInventoryValuation().catch(() => toast.error('Failed to load inventory valuation'));
     fetchDepartments();
     fetchCostCenters();
   }, []);
@@ -136,94 +145,15 @@ const ReportManagement: React.FC = () => {
     }
   };
 
-  const fetchInventoryValuation = async () => {
+  // Values stock as of the end of `asOf`, or today, from purchase history recorded on received POs
+  const fetchInventoryValuation = async (method: ValuationMethod = 'weighted_average', asOf?: string, category?: string) => {
     try {
-      // Mock inventory valuation data with purchase history
-      const mockValuation: InventoryValuation[] = [
-        {
-          id: '1',
-          itemId: 'PLY-18-4X8',
-          itemName: 'Plywood 18mm 4x8ft',
-          category: 'Panels',
-          currentQuantity: 45,
-          unitMeasurement: 'Sheets (sht)',
-          lastPurchasePrice: 54.25,
-          averagePurchasePrice: 52.75,
-          totalPurchases: 3,
-          valuationAtLastPrice: 2441.25,
-          valuationAtAveragePrice: 2373.75,
-          lastPurchaseDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-          supplier: 'Wood Supply Co.',
-          location: 'A-1-01'
-        },
-        {
-          id: '2',
-          itemId: 'HNG-CONC-35',
-          itemName: 'Concealed Hinges 35mm',
-          category: 'Hardware',
-          currentQuantity: 485,
-          unitMeasurement: 'Pieces (pcs)',
-          lastPurchasePrice: 3.45,
-          averagePurchasePrice: 3.25,
-          totalPurchases: 5,
-          valuationAtLastPrice: 1673.25,
-          valuationAtAveragePrice: 1576.25,
-          lastPurchaseDate: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
-          supplier: 'Hardware Plus',
-          location: 'B-1-01'
-        },
-        {
-          id: '3',
-          itemId: 'SLD-18-FULL',
-          itemName: 'Full Extension Slides 18"',
-          category: 'Hardware',
-          currentQuantity: 124,
-          unitMeasurement: 'Pairs (pr)',
-          lastPurchasePrice: 13.25,
-          averagePurchasePrice: 12.50,
-          totalPurchases: 4,
-          valuationAtLastPrice: 1643.00,
-          valuationAtAveragePrice: 1550.00,
-          lastPurchaseDate: new Date(Date.now() - 21 * 24 * 60 * 60 * 1000).toISOString(),
-          supplier: 'Slide Systems Inc.',
-          location: 'B-2-01'
-        },
-        {
-          id: '4',
-          itemId: 'MEL-WHT-4X8',
-          itemName: 'White Melamine 4x8ft',
-          category: 'Panels',
-          currentQuantity: 22,
-          unitMeasurement: 'Sheets (sht)',
-          lastPurchasePrice: 70.00,
-          averagePurchasePrice: 68.50,
-          totalPurchases: 2,
-          valuationAtLastPrice: 1540.00,
-          valuationAtAveragePrice: 1507.00,
-          lastPurchaseDate: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-          supplier: 'Laminate Plus',
-          location: 'A-2-01'
-        },
-        {
-          id: '5',
-          itemId: 'ADH-PVA-5L',
-          itemName: 'PVA Wood Glue 5L',
-          category: 'Adhesives',
-          currentQuantity: 24,
-          unitMeasurement: 'Bottles (btl)',
-          lastPurchasePrice: 29.50,
-          averagePurchasePrice: 28.50,
-          totalPurchases: 6,
-          valuationAtLastPrice: 708.00,
-          valuationAtAveragePrice: 684.00,
-          lastPurchaseDate: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-          supplier: 'Chemical Solutions',
-          location: 'E-1-01'
-        }
-      ];
-      setInventoryValuation(mockValuation);
+      const valuation = await reportService.getInventoryValuation({ method, asOf, category: category || undefined });
+      setInventoryValuation(valuation);
+      return valuation;
     } catch (error) {
       console.error('Failed to fetch inventory valuation:', error);
+      throw error;
     }
   };
 
@@ -273,18 +203,25 @@ const ReportManagement: React.FC = () => {
 
     if (report.type === 'inventory_valuation') {
       // Inventory Valuation CSV
-      csvContent += 'Item ID,Item Name,Category,Current Qty,Unit,Last Price,Avg Price,Valuation (Last),Valuation (Avg),Purchases,Last Purchase Date,Supplier,Location\n';
+      csvContent += 'Item ID,Item Name,Category,Current Qty,Unit,Last Price,Avg Price,FIFO Cost,Valuation (Last),Valuation (Avg),Valuation (FIFO),Purchases,Last Purchase Date,Supplier,Location\n';
       inventoryValuation.forEach(item => {
-        csvContent += `"${item.itemId}","${item.itemName}","${item.category}",${item.currentQuantity},"${item.unitMeasurement}",${item.lastPurchasePrice},${item.averagePurchasePrice},${item.valuationAtLastPrice},${item.valuationAtAveragePrice},${item.totalPurchases},"${new Date(item.lastPurchaseDate).toLocaleDateString()}","${item.supplier}","${item.location}"\n`;
+        csvContent += `"${item.itemId}","${item.itemName}","${item.category}",${item.currentQuantity},"${item.unitMeasurement}",${item.lastPurchasePrice},${item.averagePurchasePrice},${item.fifoUnitCost},${item.valuationAtLastPrice},${item.valuationAtAveragePrice},${item.valuationAtFifo},${item.totalPurchases},"${item.lastPurchaseDate ? new Date(item.lastPurchaseDate).toLocaleDateString() : ''}","${item.supplier}","${item.location}"\n`;
       });
       
       // Add summary
       const totalLastPrice = inventoryValuation.reduce((sum, item) => sum + item.valuationAtLastPrice, 0);
       const totalAvgPrice = inventoryValuation.reduce((sum, item) => sum + item.valuationAtAveragePrice, 0);
+      const totalFifo = inventoryValuation.reduce((sum, item) => sum + item.valuationAtFifo, 0);
+      const totalValuation = inventoryValuation.reduce((sum, item) => sum + item.valuation, 0);
+      const method = inventoryValuation[0]?.method;
       csvContent += `\nSummary\n`;
       csvContent += `Total Items,${inventoryValuation.length}\n`;
       csvContent += `Total Valuation (Last Price),${totalLastPrice.toFixed(2)}\n`;
       csvContent += `Total Valuation (Average Price),${totalAvgPrice.toFixed(2)}\n`;
+      csvContent += `Total Valuation (FIFO),${totalFifo.toFixed(2)}\n`;
+      if (method) {
+        csvContent += `Stock Value (${valuationMethodLabels[method]}),${totalValuation.toFixed(2)}\n`;
+      }
     } else {
       // Generic report format
       csvContent += 'Report Type,Description,Status\n';
@@ -338,6 +275,7 @@ const ReportManagement: React.FC = () => {
                         <th>Avg Price</th>
                         <th>Valuation (Last)</th>
                         <th>Valuation (Avg)</th>
+                        <th>Valuation (FIFO)</th>
                     </tr>
                 </thead>
                 <tbody>
@@ -351,6 +289,7 @@ const ReportManagement: React.FC = () => {
                             <td>$${item.averagePurchasePrice.toFixed(2)}</td>
                             <td>$${item.valuationAtLastPrice.toFixed(2)}</td>
                             <td>$${item.valuationAtAveragePrice.toFixed(2)}</td>
+                            <td>$${item.valuationAtFifo.toFixed(2)}</td>
                         </tr>
                     `).join('')}
                 </tbody>
@@ -361,6 +300,7 @@ const ReportManagement: React.FC = () => {
                 <p><strong>Total Items:</strong> ${inventoryValuation.length}</p>
                 <p><strong>Total Valuation (Last Price):</strong> $${inventoryValuation.reduce((sum, item) => sum + item.valuationAtLastPrice, 0).toFixed(2)}</p>
                 <p><strong>Total Valuation (Average Price):</strong> $${inventoryValuation.reduce((sum, item) => sum + item.valuationAtAveragePrice, 0).toFixed(2)}</p>
+                <p><strong>Total Valuation (FIFO):</strong> $${inventoryValuation.reduce((sum, item) => sum + item.valuationAtFifo, 0).toFixed(2)}</p>
             </div>
         ` : `
             <p>This is a ${report.type} report.</p>
@@ -397,8 +337,12 @@ const ReportManagement: React.FC = () => {
     setGenerating(selectedReportType);
     
     try {
-      // Simulate report generation
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      if (selectedReportType === 'inventory_valuation') {
+        await fetchInventoryValuation(reportFilters.valuationMethod, reportFilters.dateTo, reportFilters.category);
+      } else {
+        // Simulate report generation
+        await new Promise(resolve => setTimeout(resolve, 3000));
+      }
       
       const newReport: Report = {
         id: Date.now().toString(),
@@ -807,6 +751,24 @@ const ReportManagement: React.FC = () => {
             </div>
           )}
 
+          {selectedReportType === 'inventory_valuation' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Valuation Method
+              </label>
+              <select
+                value={reportFilters.valuationMethod}
+                onChange={(e) => setReportFilters({ ...reportFilters, valuationMethod: e.target.value as ValuationMethod })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(valuationMethodLabels) as ValuationMethod[]).map(method => (
+                  <option key={method} value={method}>{valuationMethodLabels[method]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Stock is valued as of the end of the Date To day</p>
+            </div>
+          )}
+
           {selectedReportType === 'inventory_valuation' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -931,10 +893,10 @@ const ReportManagement: React.FC = () => {
               </div>
             </div>
 
-            {/* Sample Inventory Valuation Data */}
+            {/* Inventory Valuation Data */}
             {selectedReport.type === 'inventory_valuation' && (
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-3">Sample Inventory Valuation Data</label>
+                <label className="block text-sm font-medium text-gray-700 mb-3">Inventory Valuation Data</label>
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm">
                     <thead className="bg-gray-100">
@@ -945,6 +907,7 @@ const ReportManagement: React.FC = () => {
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Avg Price</th>
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Valuation (Last)</th>
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Valuation (Avg)</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Valuation (FIFO)</th>
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Purchases</th>
                       </tr>
                     </thead>
@@ -972,6 +935,9 @@ const ReportManagement: React.FC = () => {
                           <td className="px-3 py-2 font-medium text-gray-900">
                             {formatCurrency(item.valuationAtAveragePrice)}
                           </td>
+                          <td className="px-3 py-2 font-medium text-gray-900">
+                            {formatCurrency(item.valuationAtFifo)}
+                          </td>
                           <td className="px-3 py-2 text-center">
                             <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
                               {item.totalPurchases}
@@ -984,7 +950,7 @@ const ReportManagement: React.FC = () => {
                 </div>
                 <div className="mt-4 p-4 bg-blue-50 rounded-lg">
                   <h4 className="font-medium text-blue-900 mb-2">Valuation Summary</h4>
-                  <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div className="grid grid-cols-3 gap-4 text-sm">
                     <div>
                       <span className="text-blue-700">Total Valuation (Last Price):</span>
                       <span className="font-semibold text-blue-900 ml-2">
@@ -997,9 +963,23 @@ const ReportManagement: React.FC = () => {
                         {formatCurrency(inventoryValuation.reduce((sum, item) => sum + item.valuationAtAveragePrice, 0))}
                       </span>
                     </div>
+                    <div>
+                      <span className="text-blue-700">Total Valuation (FIFO):</span>
+                      <span className="font-semibold text-blue-900 ml-2">
+                        {formatCurrency(inventoryValuation.reduce((sum, item) => sum + item.valuationAtFifo, 0))}
+                      </span>
+                    </div>
                   </div>
+                  {inventoryValuation.length > 0 && (
+                    <div className="mt-3 text-sm">
+                      <span className="text-blue-700">Stock Value ({valuationMethodLabels[inventoryValuation[0].method]}):</span>
+                      <span className="font-bold text-blue-900 ml-2">
+                        {formatCurrency(inventoryValuation.reduce((sum, item) => sum + item.valuation, 0))}
+                      </span>
+                    </div>
+                  )}
                   <div className="mt-2 text-xs text-blue-600">
-                    * This report shows both last purchase price and average purchase price for accurate inventory valuation
+                    * Costs come from received purchase orders; stock older than the recorded purchases is valued at the item's unit cost
                   </div>
                 </div>
               </div>
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Search, Filter, Eye, Edit, Trash2, Check, X, Clock, FileText, Package, User, Calendar, AlertCircle, CheckCircle, XCircle, Settings, AlertTriangle, TrendingUp } from 'lucide-react';
-import { Requisition, RequisitionItem, InventoryItem, Requester, Department } from '../types';
+import { Requisition, RequisitionItem, RequisitionPickList, RequisitionBackorder, InventoryItem, InventoryLot, ItemSubstitute, Requester, Department } from '../types';
 import { useAuth } from '../context/AuthContext';
 import Modal from '../components/Common/Modal';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
-import { inventoryService, requesterService, departmentService } from '../services/api';
+import ScanInput from '../components/Common/ScanInput';
+import ApprovalSteps from '../components/Common/ApprovalSteps';
+import { inventoryService, requesterService, departmentService, requisitionService, getApiErrorMessage } from '../services/api';
+import { UnitConversion } from '../services/unitConversion';
 import toast from 'react-hot-toast';
 
 interface RequisitionFormData {
@@ -12,6 +15,7 @@ interface RequisitionFormData {
   department: string;
   orderNumber: string;
   bomNumber: string;
+  requireSingleLot: boolean;
   notes: string;
   items: RequisitionItem[];
 }
@@ -20,6 +24,8 @@ const Requisitions: React.FC = () => {
   const { user, hasPermission } = useAuth();
   const [requisitions, setRequisitions] = useState<Requisition[]>([]);
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
+  const [itemLots, setItemLots] = useState<Record<string, InventoryLot[]>>({});
+  const [itemSubstitutes, setItemSubstitutes] = useState<Record<string, ItemSubstitute[]>>({});
   const [requesters, setRequesters] = useState<Requester[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [loading, setLoading] = useState(true);
@@ -31,11 +37,16 @@ const Requisitions: React.FC = () => {
   const [isRequesterModalOpen, setIsRequesterModalOpen] = useState(false);
   const [isDepartmentModalOpen, setIsDepartmentModalOpen] = useState(false);
   const [selectedRequisition, setSelectedRequisition] = useState<Requisition | null>(null);
+  const [backorders, setBackorders] = useState<RequisitionBackorder[]>([]);
+  const [pickList, setPickList] = useState<RequisitionPickList | null>(null);
+  const [pickForm, setPickForm] = useState<Record<string, { quantity: string; locationId: string; lotNumber: string }>>({});
+  const [issuing, setIssuing] = useState(false);
   const [formData, setFormData] = useState<RequisitionFormData>({
     requester: '',
     department: '',
     orderNumber: '',
     bomNumber: '',
+    requireSingleLot: false,
     notes: '',
     items: []
   });
@@ -61,76 +72,39 @@ const Requisitions: React.FC = () => {
     { value: 'draft', label: 'Draft', color: 'bg-gray-100 text-gray-800' },
     { value: 'pending', label: 'Pending Approval', color: 'bg-yellow-100 text-yellow-800' },
     { value: 'approved', label: 'Approved', color: 'bg-green-100 text-green-800' },
-    { value: 'rejected', label: 'Rejected', color: 'bg-red-100 text-red-800' },
-    { value: 'issued', label: 'Items Issued', color: 'bg-blue-100 text-blue-800' },
-    { value: 'completed', label: 'Completed', color: 'bg-purple-100 text-purple-800' }
+    { value: 'partially_issued', label: 'Partially Issued', color: 'bg-blue-100 text-blue-800' },
+    { value: 'fulfilled', label: 'Fulfilled', color: 'bg-purple-100 text-purple-800' },
+    { value: 'rejected', label: 'Rejected', color: 'bg-red-100 text-red-800' }
   ];
 
   useEffect(() => {
     fetchRequisitions();
+    fetchBackorders();
     fetchInventoryItems();
     fetchRequesters();
     fetchDepartments();
   }, []);
 
+  // Look up substitutes once for every item that a line requests more of than is in stock; the empty
+  // entry marks the lookup as started so it is not repeated while the request is in flight
+  useEffect(() => {
+    formData.items
+      .filter(item => item.isOverStock && item.itemId && !itemSubstitutes[item.itemId])
+      .forEach(item => {
+        const inventoryItem = inventoryItems.find(invItem => invItem.itemId === item.itemId);
+        if (inventoryItem) {
+          setItemSubstitutes(prev => ({ ...prev, [inventoryItem.itemId]: [] }));
+          inventoryService.getSubstitutes(inventoryItem.id)
+            .then(substitutes => setItemSubstitutes(prev => ({ ...prev, [inventoryItem.itemId]: substitutes })))
+            .catch(error => console.error('Failed to fetch item substitutes:', error));
+        }
+      });
+  }, [formData.items, inventoryItems, itemSubstitutes]);
+
   const fetchRequisitions = async () => {
     try {
-      // Mock data for now - in real app this would call requisitionService.getAll()
-      const mockRequisitions: Requisition[] = [
-        {
-          id: '1',
-          requestNumber: 'REQ-2024-001',
-          requester: 'John Smith',
-          department: 'Production',
-          orderNumber: 'ORD-2024-001',
-          bomNumber: 'BOM-CAB-001',
-          status: 'pending',
-          items: [
-            {
-              id: '1',
-              itemId: 'PLY-18-4X8',
-              itemName: 'Plywood 18mm 4x8ft',
-              requestedQuantity: 10,
-              approvedQuantity: 8,
-              unitCost: 52.75,
-              totalCost: 527.50,
-              stockOnHand: 45,
-              unitMeasurement: 'Sheets (sht)',
-              isOverStock: false
-            }
-          ],
-          requestDate: new Date().toISOString(),
-          notes: 'Urgent requirement for cabinet production'
-        },
-        {
-          id: '2',
-          requestNumber: 'REQ-2024-002',
-          requester: 'Sarah Johnson',
-          department: 'Assembly',
-          orderNumber: 'ORD-2024-002',
-          bomNumber: 'BOM-CAB-002',
-          status: 'approved',
-          items: [
-            {
-              id: '2',
-              itemId: 'HNG-CONC-35',
-              itemName: 'Concealed Hinges 35mm',
-              requestedQuantity: 50,
-              approvedQuantity: 50,
-              unitCost: 3.25,
-              totalCost: 162.50,
-              stockOnHand: 485,
-              unitMeasurement: 'Pieces (pcs)',
-              isOverStock: false
-            }
-          ],
-          requestDate: new Date(Date.now() - 86400000).toISOString(),
-          approvedBy: 'Manager',
-          approvalDate: new Date().toISOString(),
-          notes: 'Standard hardware request'
-        }
-      ];
-      setRequisitions(mockRequisitions);
+      const data = await requisitionService.getAll();
+      setRequisitions(data);
     } catch (error) {
       console.error('Failed to fetch requisitions:', error);
       toast.error('Failed to load requisitions');
@@ -139,6 +113,14 @@ const Requisitions: React.FC = () => {
     }
   };
 
+  const fetchBackorders = async () => {
+    try {
+      setBackorders(await requisitionService.getBackorders());
+    } catch (error) {
+      console.error('Failed to fetch backorders:', error);
+    }
+  };
+
   const fetchInventoryItems = async () => {
     try {
       const items = await inventoryService.getAll();
@@ -176,12 +158,6 @@ const Requisitions: React.FC = () => {
     return matchesSearch && matchesStatus;
   });
 
-  const generateRequestNumber = () => {
-    const year = new Date().getFullYear();
-    const count = requisitions.length + 1;
-    return `REQ-${year}-${count.toString().padStart(3, '0')}`;
-  };
-
   const addItemToRequisition = () => {
     const newItem: RequisitionItem = {
       id: Date.now().toString(),
@@ -201,18 +177,26 @@ const Requisitions: React.FC = () => {
   };
 
   const updateRequisitionItem = (index: number, field: keyof RequisitionItem, value: any) => {
+    if (field === 'itemId') {
+      const selectedItem = inventoryItems.find(item => item.itemId === value);
+      if (selectedItem?.isLotTracked && !itemLots[selectedItem.itemId]) {
+        fetchItemLots(selectedItem);
+      }
+    }
+
     setFormData(prev => {
       const updatedItems = [...prev.items];
       updatedItems[index] = { ...updatedItems[index], [field]: value };
       
-      // Auto-populate item details when item is selected
+      // Auto-populate item details when item is selected; items are requested in their consumption unit
       if (field === 'itemId') {
         const selectedItem = inventoryItems.find(item => item.itemId === value);
         if (selectedItem) {
+          const consumptionUnit = UnitConversion.getConsumptionUnit(selectedItem);
           updatedItems[index].itemName = selectedItem.name;
-          updatedItems[index].unitCost = selectedItem.unitCost;
-          updatedItems[index].stockOnHand = selectedItem.quantity;
-          updatedItems[index].unitMeasurement = selectedItem.unitMeasurement;
+          updatedItems[index].unitCost = UnitConversion.convertUnitCost(selectedItem, selectedItem.unitCost, consumptionUnit);
+          updatedItems[index].stockOnHand = UnitConversion.convert(selectedItem, selectedItem.quantity, undefined, consumptionUnit);
+          updatedItems[index].unitMeasurement = consumptionUnit;
         }
       }
       
@@ -229,6 +213,95 @@ const Requisitions: React.FC = () => {
     });
   };
 
+  // A scanned item code adds a line for it, or adds one more to an existing line
+  const handleScanItem = (code: string) => {
+    const scanned = inventoryItems.find(item => item.itemId.toUpperCase() === code.toUpperCase());
+    if (!scanned) {
+      toast.error(`No item matches ${code}`);
+      return;
+    }
+
+    const index = formData.items.findIndex(item => item.itemId === scanned.itemId);
+    if (index >= 0) {
+      updateRequisitionItem(index, 'requestedQuantity', formData.items[index].requestedQuantity + 1);
+    } else {
+      // Both updates are queued, so the new line is at the current length when the item is filled in
+      addItemToRequisition();
+      updateRequisitionItem(formData.items.length, 'itemId', scanned.itemId);
+    }
+  };
+
+  const fetchItemLots = async (item: InventoryItem) => {
+    try {
+      const lots = await inventoryService.getLots(item.id);
+      setItemLots(prev => ({ ...prev, [item.itemId]: lots }));
+    } catch (error) {
+      console.error('Failed to fetch item lots:', error);
+    }
+  };
+
+  // Substitutes for the part of a line that is not in stock, with how much of the shortfall each
+  // can cover and its cost against the original item. Substitutes share the item's stock unit.
+  const getSubstituteProposals = (line: RequisitionItem) => {
+    const inventoryItem = inventoryItems.find(item => item.itemId === line.itemId);
+    if (!inventoryItem || !line.isOverStock) return [];
+    const shortQuantity = UnitConversion.convert(inventoryItem, line.requestedQuantity - (line.stockOnHand || 0), line.unitMeasurement);
+    return (itemSubstitutes[line.itemId] || []).map(substitute => {
+      const coveredQuantity = Math.min(shortQuantity, substitute.availableQuantity);
+      return { substitute, coveredQuantity, costDifference: coveredQuantity * substitute.unitCostDifference };
+    });
+  };
+
+  // Keep what is in stock on the original line and move the shortfall to a new line for the substitute
+  const applySubstitute = (index: number, substitute: ItemSubstitute, coveredQuantity: number) => {
+    const substituteItem = inventoryItems.find(item => item.id === substitute.id);
+    if (!substituteItem) return;
+    if (substituteItem.isLotTracked && !itemLots[substituteItem.itemId]) {
+      fetchItemLots(substituteItem);
+    }
+
+    const consumptionUnit = UnitConversion.getConsumptionUnit(substituteItem);
+    const unitCost = UnitConversion.convertUnitCost(substituteItem, substituteItem.unitCost, consumptionUnit);
+    const stockOnHand = UnitConversion.convert(substituteItem, substituteItem.quantity, undefined, consumptionUnit);
+    const requestedQuantity = Math.ceil(UnitConversion.convert(substituteItem, coveredQuantity, undefined, consumptionUnit));
+    const substituteLine: RequisitionItem = {
+      id: Date.now().toString(),
+      itemId: substituteItem.itemId,
+      itemName: substituteItem.name,
+      requestedQuantity,
+      unitCost,
+      totalCost: requestedQuantity * unitCost,
+      stockOnHand,
+      unitMeasurement: consumptionUnit,
+      isOverStock: requestedQuantity > stockOnHand
+    };
+
+    setFormData(prev => {
+      const original = prev.items[index];
+      const keptQuantity = Math.floor(original.stockOnHand || 0);
+      const updatedItems = prev.items.flatMap((item, i) => {
+        if (i !== index) return [item];
+        if (keptQuantity <= 0) return [substituteLine];
+        return [
+          { ...original, requestedQuantity: keptQuantity, totalCost: keptQuantity * original.unitCost, isOverStock: false },
+          substituteLine
+        ];
+      });
+      return { ...prev, items: updatedItems };
+    });
+    toast.success(`${substituteItem.itemId} added for the shortfall`);
+  };
+
+  // Largest quantity that can be issued from one batch in the item's consumption unit,
+  // or undefined when the item is not lot-tracked
+  const getLargestLotQuantity = (itemId: string) => {
+    const lots = itemLots[itemId];
+    const inventoryItem = inventoryItems.find(item => item.itemId === itemId);
+    if (!lots || !inventoryItem) return undefined;
+    const largest = lots.reduce((max, lot) => Math.max(max, lot.quantity), 0);
+    return UnitConversion.convert(inventoryItem, largest, undefined, UnitConversion.getConsumptionUnit(inventoryItem));
+  };
+
   const removeRequisitionItem = (index: number) => {
     setFormData(prev => ({
       ...prev,
@@ -284,7 +357,19 @@ const Requisitions: React.FC = () => {
     }
   };
 
-  const handleCreateRequisition = async (e: React.FormEvent) => {
+  // Replace a requisition in the list with the server's copy after a change
+  const replaceRequisition = (updated: Requisition) => {
+    setRequisitions(prev => prev.map(req => req.id === updated.id ? updated : req));
+  };
+
+  const closeFormModal = () => {
+    setIsCreateModalOpen(false);
+    setIsEditModalOpen(false);
+    setSelectedRequisition(null);
+    resetForm();
+  };
+
+  const handleSaveRequisition = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (formData.items.length === 0) {
@@ -297,60 +382,60 @@ const Requisitions: React.FC = () => {
       return;
     }
 
+    if (formData.items.some(item => !item.itemId)) {
+      toast.error('Please select an item for every line');
+      return;
+    }
+
+    const requisitionData = {
+      requester: formData.requester,
+      department: formData.department,
+      orderNumber: formData.orderNumber,
+      bomNumber: formData.bomNumber,
+      requireSingleLot: formData.requireSingleLot,
+      notes: formData.notes,
+      createdBy: user?.username,
+      items: formData.items.map(item => ({
+        itemId: item.itemId,
+        requestedQuantity: item.requestedQuantity,
+        unitMeasurement: item.unitMeasurement
+      }))
+    };
+
     try {
-      const newRequisition: Requisition = {
-        id: Date.now().toString(),
-        requestNumber: generateRequestNumber(),
-        requester: formData.requester,
-        department: formData.department,
-        orderNumber: formData.orderNumber,
-        bomNumber: formData.bomNumber,
-        status: 'draft',
-        items: formData.items,
-        requestDate: new Date().toISOString(),
-        notes: formData.notes
-      };
-
-      setRequisitions(prev => [newRequisition, ...prev]);
-      setIsCreateModalOpen(false);
-      resetForm();
-      toast.success('Requisition created successfully');
+      if (isEditModalOpen && selectedRequisition) {
+        replaceRequisition(await requisitionService.update(selectedRequisition.id, requisitionData));
+        toast.success('Requisition updated successfully');
+      } else {
+        const newRequisition = await requisitionService.create(requisitionData);
+        setRequisitions(prev => [newRequisition, ...prev]);
+        toast.success(`Requisition ${newRequisition.requestNumber} created`);
+      }
+      closeFormModal();
     } catch (error) {
-      console.error('Failed to create requisition:', error);
-      toast.error('Failed to create requisition');
+      console.error('Failed to save requisition:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save requisition'));
     }
   };
 
   const handleSubmitForApproval = async (requisitionId: string) => {
     try {
-      setRequisitions(prev => prev.map(req => 
-        req.id === requisitionId 
-          ? { ...req, status: 'pending' as const }
-          : req
-      ));
+      replaceRequisition(await requisitionService.submit(requisitionId));
       toast.success('Requisition submitted for approval');
     } catch (error) {
       console.error('Failed to submit requisition:', error);
-      toast.error('Failed to submit requisition');
+      toast.error(getApiErrorMessage(error, 'Failed to submit requisition'));
     }
   };
 
   const handleApproveRequisition = async (requisitionId: string) => {
     try {
-      setRequisitions(prev => prev.map(req => 
-        req.id === requisitionId 
-          ? { 
-              ...req, 
-              status: 'approved' as const,
-              approvedBy: user?.username || 'Manager',
-              approvalDate: new Date().toISOString()
-            }
-          : req
-      ));
-      toast.success('Requisition approved successfully');
+      const updated = await requisitionService.approve(requisitionId, user?.username);
+      replaceRequisition(updated);
+      toast.success(updated.status === 'approved' ? 'Requisition approved successfully' : 'Approval step completed');
     } catch (error) {
       console.error('Failed to approve requisition:', error);
-      toast.error('Failed to approve requisition');
+      toast.error(getApiErrorMessage(error, 'Failed to approve requisition'));
     }
   };
 
@@ -359,21 +444,71 @@ const Requisitions: React.FC = () => {
     if (!reason) return;
 
     try {
-      setRequisitions(prev => prev.map(req => 
-        req.id === requisitionId 
-          ? { 
-              ...req, 
-              status: 'rejected' as const,
-              approvedBy: user?.username || 'Manager',
-              approvalDate: new Date().toISOString(),
-              notes: `${req.notes}\n\nRejection Reason: ${reason}`
-            }
-          : req
-      ));
+      replaceRequisition(await requisitionService.reject(requisitionId, reason, user?.username));
       toast.success('Requisition rejected');
     } catch (error) {
       console.error('Failed to reject requisition:', error);
-      toast.error('Failed to reject requisition');
+      toast.error(getApiErrorMessage(error, 'Failed to reject requisition'));
+    }
+  };
+
+  // The pick form starts at the full outstanding quantity, taken from the first location that holds stock
+  const openPickModal = async (requisition: Requisition) => {
+    try {
+      const data = await requisitionService.getPickList(requisition.id);
+      setPickList(data);
+      setPickForm(Object.fromEntries(data.lines.map(line => {
+        const location = line.locations[0];
+        return [line.lineId, {
+          quantity: String(Math.min(line.outstandingQuantity, location?.quantity || 0)),
+          locationId: location?.locationId || '',
+          lotNumber: ''
+        }];
+      })));
+    } catch (error) {
+      console.error('Failed to load pick list:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to load pick list'));
+    }
+  };
+
+  const closePickModal = () => {
+    setPickList(null);
+    setPickForm({});
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pickList) return;
+
+    const items = pickList.lines
+      .map(line => ({ line, pick: pickForm[line.lineId] }))
+      .filter(({ pick }) => Number(pick.quantity) > 0)
+      .map(({ line, pick }) => ({
+        id: line.lineId,
+        quantity: Number(pick.quantity),
+        locationId: pick.locationId || undefined,
+        lotNumber: line.isLotTracked && pick.lotNumber ? pick.lotNumber : undefined
+      }));
+    if (items.length === 0) {
+      toast.error('Enter a quantity to issue');
+      return;
+    }
+
+    setIssuing(true);
+    try {
+      const { requisition } = await requisitionService.issue(pickList.requisitionId, items, user?.username);
+      replaceRequisition(requisition);
+      fetchBackorders();
+      fetchInventoryItems();
+      closePickModal();
+      toast.success(requisition.status === 'fulfilled'
+        ? `Requisition ${requisition.requestNumber} fulfilled`
+        : `Issued; the rest of ${requisition.requestNumber} is on backorder`);
+    } catch (error) {
+      console.error('Failed to issue requisition:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to issue requisition'));
+    } finally {
+      setIssuing(false);
     }
   };
 
@@ -381,11 +516,12 @@ const Requisitions: React.FC = () => {
     if (!confirm('Are you sure you want to delete this requisition?')) return;
 
     try {
+      await requisitionService.delete(requisitionId);
       setRequisitions(prev => prev.filter(req => req.id !== requisitionId));
       toast.success('Requisition deleted successfully');
     } catch (error) {
       console.error('Failed to delete requisition:', error);
-      toast.error('Failed to delete requisition');
+      toast.error(getApiErrorMessage(error, 'Failed to delete requisition'));
     }
   };
 
@@ -395,6 +531,7 @@ const Requisitions: React.FC = () => {
       department: '',
       orderNumber: '',
       bomNumber: '',
+      requireSingleLot: false,
       notes: '',
       items: []
     });
@@ -412,6 +549,7 @@ const Requisitions: React.FC = () => {
       department: requisition.department,
       orderNumber: requisition.orderNumber || '',
       bomNumber: requisition.bomNumber || '',
+      requireSingleLot: !!requisition.requireSingleLot,
       notes: requisition.notes || '',
       items: requisition.items
     });
@@ -424,8 +562,8 @@ const Requisitions: React.FC = () => {
       case 'pending': return <Clock className="w-4 h-4" />;
       case 'approved': return <CheckCircle className="w-4 h-4" />;
       case 'rejected': return <XCircle className="w-4 h-4" />;
-      case 'issued': return <Package className="w-4 h-4" />;
-      case 'completed': return <Check className="w-4 h-4" />;
+      case 'partially_issued': return <Package className="w-4 h-4" />;
+      case 'fulfilled': return <Check className="w-4 h-4" />;
       default: return <AlertCircle className="w-4 h-4" />;
     }
   };
@@ -535,6 +673,72 @@ const Requisitions: React.FC = () => {
         </div>
       </div>
 
+      {/* Backorders */}
+      {backorders.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Backorders</h3>
+              <p className="text-sm text-gray-600">Approved quantities still to issue on partly issued requisitions</p>
+            </div>
+            <span className="text-sm text-gray-600">
+              {backorders.filter(line => line.canIssue).length} of {backorders.length} ready to issue
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requisition</th>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Hand</th>
+                  <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {backorders.map(line => {
+                  const requisition = requisitions.find(req => req.id === line.requisitionId);
+                  return (
+                    <tr key={line.lineId}>
+                      <td className="px-6 py-2 text-sm">
+                        <div className="font-medium text-gray-900">{line.requestNumber}</div>
+                        <div className="text-gray-500">{line.requester} · {line.department}</div>
+                      </td>
+                      <td className="px-6 py-2 text-sm">
+                        <div className="text-gray-900">{line.itemName}</div>
+                        <div className="text-gray-500">{line.itemId}</div>
+                      </td>
+                      <td className="px-6 py-2 text-sm text-gray-900">
+                        {line.outstandingQuantity} {line.unitMeasurement}
+                        <div className="text-xs text-gray-500">{line.issuedQuantity} of {line.approvedQuantity} issued</div>
+                      </td>
+                      <td className="px-6 py-2 text-sm">
+                        <span className={line.canIssue ? 'text-green-600' : 'text-red-600'}>
+                          {line.stockOnHand ?? '-'}
+                        </span>
+                        <div className="text-xs text-gray-500">{line.canIssue ? 'Ready to issue' : 'Waiting for stock'}</div>
+                      </td>
+                      <td className="px-6 py-2 text-right">
+                        {requisition && line.canIssue && hasPermission('requisitions.issue') && (
+                          <button
+                            onClick={() => openPickModal(requisition)}
+                            className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                            title="Pick & Issue"
+                          >
+                            <Package className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Requisitions Table */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
         <div className="overflow-x-auto">
@@ -626,6 +830,11 @@ const Requisitions: React.FC = () => {
                       {getStatusIcon(requisition.status)}
                       <span className="ml-1">{statusOptions.find(s => s.value === requisition.status)?.label}</span>
                     </span>
+                    {requisition.status === 'pending' && requisition.approvalSteps && requisition.approvalSteps.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Step {requisition.approvalSteps.filter(step => step.status === 'approved').length + 1} of {requisition.approvalSteps.length}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {new Date(requisition.requestDate).toLocaleDateString()}
@@ -678,6 +887,16 @@ const Requisitions: React.FC = () => {
                         </>
                       )}
                       
+                      {(requisition.status === 'approved' || requisition.status === 'partially_issued') && hasPermission('requisitions.issue') && (
+                        <button
+                          onClick={() => openPickModal(requisition)}
+                          className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                          title="Pick & Issue"
+                        >
+                          <Package className="w-4 h-4" />
+                        </button>
+                      )}
+                      
                       {(requisition.status === 'draft' || requisition.status === 'rejected') && hasPermission('requisitions.delete') && (
                         <button
                           onClick={() => handleDeleteRequisition(requisition.id)}
@@ -704,17 +923,14 @@ const Requisitions: React.FC = () => {
         )}
       </div>
 
-      {/* Create Requisition Modal */}
+      {/* Create / Edit Requisition Modal */}
       <Modal
-        isOpen={isCreateModalOpen}
-        onClose={() => {
-          setIsCreateModalOpen(false);
-          resetForm();
-        }}
-        title="Create New Requisition"
+        isOpen={isCreateModalOpen || isEditModalOpen}
+        onClose={closeFormModal}
+        title={isEditModalOpen && selectedRequisition ? `Edit Requisition ${selectedRequisition.requestNumber}` : 'Create New Requisition'}
         size="xl"
       >
-        <form onSubmit={handleCreateRequisition} className="space-y-6">
+        <form onSubmit={handleSaveRequisition} className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <div className="flex items-center justify-between mb-2">
@@ -801,16 +1017,29 @@ const Requisitions: React.FC = () => {
             </div>
           </div>
 
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.requireSingleLot}
+              onChange={(e) => setFormData({ ...formData, requireSingleLot: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Single batch required (issue each lot-tracked item from one lot so panels and finishes match)</span>
+          </label>
+
           <div>
             <div className="flex items-center justify-between mb-4">
               <h4 className="text-sm font-medium text-gray-900">Requested Items</h4>
-              <button
-                type="button"
-                onClick={addItemToRequisition}
-                className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700 transition-colors"
-              >
-                Add Item
-              </button>
+              <div className="flex items-center space-x-2">
+                <ScanInput onScan={handleScanItem} placeholder="Scan item..." className="w-56" />
+                <button
+                  type="button"
+                  onClick={addItemToRequisition}
+                  className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700 transition-colors"
+                >
+                  Add Item
+                </button>
+              </div>
             </div>
             
             {formData.items.length === 0 ? (
@@ -857,7 +1086,7 @@ const Requisitions: React.FC = () => {
                         <div className="flex items-center space-x-1">
                           {getStockStatusIcon(item)}
                           <span className={`text-sm font-medium ${getStockStatusColor(item)}`}>
-                            {item.stockOnHand || 0}
+                            {(item.stockOnHand || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}
                           </span>
                           <span className="text-xs text-gray-500">{item.unitMeasurement}</span>
                         </div>
@@ -867,6 +1096,12 @@ const Requisitions: React.FC = () => {
                             Over stock
                           </div>
                         )}
+                        {formData.requireSingleLot && !item.isOverStock && (getLargestLotQuantity(item.itemId) ?? Infinity) < item.requestedQuantity && (
+                          <div className="text-xs text-yellow-600 mt-1 flex items-center">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            Largest batch: {getLargestLotQuantity(item.itemId)}
+                          </div>
+                        )}
                       </div>
                       <div>
                         <label className="block text-xs font-medium text-gray-700 mb-1">Unit Cost</label>
@@ -898,6 +1133,29 @@ const Requisitions: React.FC = () => {
                         </button>
                       </div>
                     </div>
+                    {getSubstituteProposals(item).length > 0 && (
+                      <div className="mt-3 bg-yellow-50 border border-yellow-200 rounded p-2">
+                        <div className="text-xs font-medium text-yellow-800 mb-1">Substitutes in stock for the shortfall</div>
+                        {getSubstituteProposals(item).map(({ substitute, coveredQuantity, costDifference }) => (
+                          <div key={substitute.id} className="flex items-center justify-between text-xs text-gray-700 py-1">
+                            <span>
+                              {substitute.itemId} - {substitute.name}: {substitute.availableQuantity.toLocaleString()} {UnitConversion.abbreviation(substitute.unitMeasurement)} available,
+                              covers {coveredQuantity.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                              <span className={costDifference > 0 ? 'text-red-600' : 'text-green-600'}>
+                                {' '}({costDifference >= 0 ? '+' : '-'}${Math.abs(costDifference).toFixed(2)})
+                              </span>
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => applySubstitute(index, substitute, coveredQuantity)}
+                              className="ml-2 text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                              Use
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -920,10 +1178,7 @@ const Requisitions: React.FC = () => {
           <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
             <button
               type="button"
-              onClick={() => {
-                setIsCreateModalOpen(false);
-                resetForm();
-              }}
+              onClick={closeFormModal}
               className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
             >
               Cancel
@@ -932,7 +1187,7 @@ const Requisitions: React.FC = () => {
               type="submit"
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
             >
-              Create Requisition
+              {isEditModalOpen ? 'Save Changes' : 'Create Requisition'}
             </button>
           </div>
         </form>
@@ -1182,6 +1437,12 @@ const Requisitions: React.FC = () => {
                     <p className="text-gray-900 font-mono">{selectedRequisition.bomNumber}</p>
                   </div>
                 )}
+                {selectedRequisition.requireSingleLot && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Batch</label>
+                    <p className="text-gray-900">Single batch required</p>
+                  </div>
+                )}
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Status</label>
                   <span className={`inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(selectedRequisition.status)}`}>
@@ -1195,15 +1456,36 @@ const Requisitions: React.FC = () => {
                   <label className="block text-sm font-medium text-gray-700">Request Date</label>
                   <p className="text-gray-900">{new Date(selectedRequisition.requestDate).toLocaleDateString()}</p>
                 </div>
-                {selectedRequisition.approvedBy && (
+                {selectedRequisition.approvalDate && (
                   <>
                     <div>
                       <label className="block text-sm font-medium text-gray-700">Approved By</label>
-                      <p className="text-gray-900">{selectedRequisition.approvedBy}</p>
+                      <p className="text-gray-900">{selectedRequisition.approvedBy || '-'}</p>
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700">Approval Date</label>
-                      <p className="text-gray-900">{selectedRequisition.approvalDate ? new Date(selectedRequisition.approvalDate).toLocaleDateString() : '-'}</p>
+                      <p className="text-gray-900">{new Date(selectedRequisition.approvalDate).toLocaleDateString()}</p>
+                    </div>
+                  </>
+                )}
+                {selectedRequisition.fulfilledAt && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Fulfilled</label>
+                    <p className="text-gray-900">{new Date(selectedRequisition.fulfilledAt).toLocaleDateString()}</p>
+                  </div>
+                )}
+                {selectedRequisition.rejectedAt && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Rejected</label>
+                      <p className="text-gray-900">
+                        {new Date(selectedRequisition.rejectedAt).toLocaleDateString()}
+                        {selectedRequisition.rejectedBy && ` by ${selectedRequisition.rejectedBy}`}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Rejection Reason</label>
+                      <p className="text-red-700 whitespace-pre-wrap">{selectedRequisition.rejectionReason}</p>
                     </div>
                   </>
                 )}
@@ -1224,6 +1506,7 @@ const Requisitions: React.FC = () => {
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Requested Qty</th>
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Stock</th>
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Approved Qty</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Issued</th>
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Unit Cost</th>
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Total</th>
                     </tr>
@@ -1254,7 +1537,21 @@ const Requisitions: React.FC = () => {
                             <span className="text-gray-500">{item.unitMeasurement}</span>
                           </div>
                         </td>
-                        <td className="px-4 py-2 text-sm text-gray-900">{item.approvedQuantity || '-'}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{item.approvedQuantity ?? '-'}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {item.issuedQuantity || 0}
+                          {selectedRequisition.status === 'partially_issued' && !!item.outstandingQuantity && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                              {item.outstandingQuantity} on backorder
+                            </span>
+                          )}
+                          {(item.purchaseOrders || []).map(order => (
+                            <div key={order.poId} className="text-xs text-gray-500">
+                              {order.quantity} on {order.poNumber} ({order.status})
+                              {order.allocatedAt && `, ${order.allocatedQuantity} set aside`}
+                            </div>
+                          ))}
+                        </td>
                         <td className="px-4 py-2 text-sm text-gray-900">${item.unitCost.toFixed(2)}</td>
                         <td className="px-4 py-2 text-sm font-medium text-gray-900">${item.totalCost.toFixed(2)}</td>
                       </tr>
@@ -1264,6 +1561,11 @@ const Requisitions: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-3">Approval Chain</h4>
+              <ApprovalSteps steps={selectedRequisition.approvalSteps || []} />
+            </div>
+
             {selectedRequisition.notes && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
@@ -1275,6 +1577,123 @@ const Requisitions: React.FC = () => {
           </div>
         )}
       </Modal>
+
+      {/* Pick & Issue Modal */}
+      <Modal
+        isOpen={!!pickList}
+        onClose={closePickModal}
+        title={pickList ? `Pick & Issue ${pickList.requestNumber}` : 'Pick & Issue'}
+        size="xl"
+      >
+        {pickList && (
+          <form onSubmit={handleIssue} className="space-y-6">
+            <p className="text-sm text-gray-600">
+              Issue what is on the shelf now; anything left stays open as a backorder.
+              {pickList.requireSingleLot && ' Each item must come from a single lot.'}
+            </p>
+            {pickList.lines.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing is left to issue.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border border-gray-200 rounded-lg">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Item</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Outstanding</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Pick From</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Lot</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Issue Qty</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {pickList.lines.map(line => {
+                      const pick = pickForm[line.lineId];
+                      const lots = line.lots.filter(lot => !pick.locationId || lot.locationId === pick.locationId);
+                      return (
+                        <tr key={line.lineId}>
+                          <td className="px-4 py-2 text-sm">
+                            <div className="font-medium text-gray-900">{line.itemName}</div>
+                            <div className="text-gray-500">{line.itemId}</div>
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            {line.outstandingQuantity} {line.unitMeasurement}
+                            <div className={`text-xs ${line.availableQuantity >= line.outstandingQuantity ? 'text-gray-500' : 'text-red-600'}`}>
+                              {line.availableQuantity} on hand
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {line.locations.length === 0 ? (
+                              <span className="text-red-600">No stock</span>
+                            ) : (
+                              <select
+                                value={pick.locationId}
+                                onChange={(e) => setPickForm({ ...pickForm, [line.lineId]: { ...pick, locationId: e.target.value, lotNumber: '' } })}
+                                className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              >
+                                {line.locations.map(location => (
+                                  <option key={location.locationId} value={location.locationId}>
+                                    {location.locationCode} ({location.quantity})
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            {line.isLotTracked ? (
+                              <select
+                                value={pick.lotNumber}
+                                onChange={(e) => setPickForm({ ...pickForm, [line.lineId]: { ...pick, lotNumber: e.target.value } })}
+                                className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              >
+                                <option value="">First expired first out</option>
+                                {lots.map(lot => (
+                                  <option key={`${lot.locationId}-${lot.lotNumber}`} value={lot.lotNumber}>
+                                    {lot.lotNumber}{lot.expiryDate ? ` (expires ${new Date(lot.expiryDate).toLocaleDateString()})` : ''}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            <input
+                              type="number"
+                              min="0"
+                              max={line.outstandingQuantity}
+                              step="any"
+                              value={pick.quantity}
+                              onChange={(e) => setPickForm({ ...pickForm, [line.lineId]: { ...pick, quantity: e.target.value } })}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={closePickModal}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={issuing || pickList.lines.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {issuing ? 'Issuing...' : 'Issue'}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
     </div>
   );
 };
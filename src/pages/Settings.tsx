@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
-import { Settings as SettingsIcon, Users, User, Building, Activity, DollarSign } from 'lucide-react';
+import { Settings as SettingsIcon, Users, User, Building, Activity, DollarSign, ShieldCheck } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import UserManagement from './UserManagement';
 import RequesterManagement from './RequesterManagement';
 import DepartmentManagement from './DepartmentManagement';
 import CostCenterManagement from './CostCenterManagement';
+import ApprovalRules from './ApprovalRules';
 import AuditTrail from './AuditTrail';
 
 const Settings: React.FC = () => {
@@ -40,6 +41,13 @@ const Settings: React.FC = () => {
       component: CostCenterManagement,
       permission: 'users.view'
     },
+    {
+      id: 'approvals',
+      label: 'Approval Rules',
+      icon: ShieldCheck,
+      component: ApprovalRules,
+      permission: 'users.view'
+    },
     {
       id: 'audit',
       label: 'Audit Trail',
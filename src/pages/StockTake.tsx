@@ -0,0 +1,533 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, ClipboardCheck, ArrowLeft, CheckCircle, XCircle, Search } from 'lucide-react';
+import { StockTake as StockTakeSession, StockTakeLine, StockTakeReasonCode, Location } from '../types';
+import { stockTakeService, inventoryService, locationService, getApiErrorMessage } from '../services/api';
+import { useAuth } from '../context/AuthContext';
+import Modal from '../components/Common/Modal';
+import LoadingSpinner from '../components/Common/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const reasonCodeOptions: { value: StockTakeReasonCode; label: string }[] = [
+  { value: 'miscount', label: 'Previous miscount' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'lost', label: 'Lost / missing' },
+  { value: 'theft', label: 'Theft' },
+  { value: 'found', label: 'Found stock' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'unrecorded_issue', label: 'Unrecorded issue' },
+  { value: 'unrecorded_receipt', label: 'Unrecorded receipt' },
+  { value: 'other', label: 'Other' }
+];
+
+const scopeLabels: Record<StockTakeSession['scopeType'], string> = {
+  location: 'Locations',
+  category: 'Categories',
+  abc_class: 'ABC Classes'
+};
+
+const abcClassOptions = [
+  { value: 'A', label: 'Class A (monthly)' },
+  { value: 'B', label: 'Class B (quarterly)' },
+  { value: 'C', label: 'Class C (yearly)' }
+];
+
+const statusStyles = {
+  counting: 'bg-yellow-100 text-yellow-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+const StockTake: React.FC = () => {
+  const { user, hasPermission } = useAuth();
+  const [sessions, setSessions] = useState<StockTakeSession[]>([]);
+  const [activeSession, setActiveSession] = useState<StockTakeSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  // Counted quantities being typed, saved to the server when the field loses focus
+  const [countDrafts, setCountDrafts] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState({
+    name: '',
+    scopeType: 'location' as StockTakeSession['scopeType'],
+    scopeValues: [] as string[],
+    notes: ''
+  });
+
+  const canManage = hasPermission('inventory.stocktake');
+
+  useEffect(() => {
+    fetchSessions();
+    fetchScopeOptions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const data = await stockTakeService.getAll();
+      setSessions(data);
+    } catch (error) {
+      console.error('Failed to fetch stock takes:', error);
+      toast.error('Failed to load stock takes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchScopeOptions = async () => {
+    try {
+      const [locationData, items] = await Promise.all([locationService.getAll(), inventoryService.getAll()]);
+      setLocations(locationData.filter(location => location.isActive));
+      setCategories([...new Set(items.map(item => item.category))].sort());
+    } catch (error) {
+      console.error('Failed to fetch stock take scope options:', error);
+    }
+  };
+
+  const openSession = async (id: string) => {
+    try {
+      setActiveSession(await stockTakeService.getById(id));
+      setCountDrafts({});
+      setSearchTerm('');
+    } catch (error) {
+      console.error('Failed to load stock take:', error);
+      toast.error('Failed to load stock take');
+    }
+  };
+
+  const closeSession = async () => {
+    setActiveSession(null);
+    await fetchSessions();
+  };
+
+  const resetForm = () => {
+    setFormData({ name: '', scopeType: 'location', scopeValues: [], notes: '' });
+    setShowCreateModal(false);
+  };
+
+  const toggleScopeValue = (value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      scopeValues: prev.scopeValues.includes(value)
+        ? prev.scopeValues.filter(v => v !== value)
+        : [...prev.scopeValues, value]
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || formData.scopeValues.length === 0) {
+      toast.error('Enter a name and select at least one location or category');
+      return;
+    }
+
+    try {
+      const session = await stockTakeService.create({
+        ...formData,
+        notes: formData.notes || undefined,
+        createdBy: user?.username
+      });
+      toast.success(`Stock take ${session.sessionNumber} opened with ${session.lines?.length || 0} lines`);
+      resetForm();
+      setActiveSession(session);
+      setCountDrafts({});
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to open stock take'));
+    }
+  };
+
+  const replaceLine = (line: StockTakeLine) => {
+    setActiveSession(prev => prev && {
+      ...prev,
+      lines: prev.lines?.map(existing => existing.id === line.id ? { ...existing, ...line } : existing)
+    });
+  };
+
+  const updateLine = async (line: StockTakeLine, changes: Partial<Pick<StockTakeLine, 'countedQuantity' | 'reasonCode' | 'approved'>>) => {
+    if (!activeSession) return;
+    try {
+      const updated = await stockTakeService.updateLine(activeSession.id, line.id, { ...changes, countedBy: user?.username });
+      replaceLine(updated);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to update count'));
+    }
+  };
+
+  const saveCount = async (line: StockTakeLine) => {
+    const draft = countDrafts[line.id];
+    if (draft === undefined) return;
+
+    const countedQuantity = draft.trim() === '' ? null : parseFloat(draft);
+    if (countedQuantity !== null && (isNaN(countedQuantity) || countedQuantity < 0)) {
+      toast.error('Counted quantity must be a non-negative number');
+      return;
+    }
+    if (countedQuantity !== line.countedQuantity) {
+      await updateLine(line, { countedQuantity, ...(countedQuantity === null ? { approved: false } : {}) });
+    }
+    setCountDrafts(prev => {
+      const rest = { ...prev };
+      delete rest[line.id];
+      return rest;
+    });
+  };
+
+  const approveAllCounted = async () => {
+    if (!activeSession?.lines) return;
+    for (const line of activeSession.lines.filter(l => l.countedQuantity !== null && !l.approved)) {
+      await updateLine(line, { approved: true });
+    }
+  };
+
+  const handlePost = async () => {
+    if (!activeSession) return;
+    const approvedCount = activeSession.lines?.filter(line => line.approved).length || 0;
+    if (!window.confirm(`Post variances for ${approvedCount} approved line(s) and close ${activeSession.sessionNumber}? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const posted = await stockTakeService.post(activeSession.id, user?.username);
+      setActiveSession(posted);
+      toast.success(`Stock take ${posted.sessionNumber} posted!`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to post stock take'));
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!activeSession || !window.confirm(`Cancel ${activeSession.sessionNumber}? Counts will be kept but nothing will be posted.`)) {
+      return;
+    }
+
+    try {
+      await stockTakeService.cancel(activeSession.id);
+      toast.success('Stock take cancelled');
+      await closeSession();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Failed to cancel stock take'));
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (activeSession) {
+    const lines = activeSession.lines || [];
+    const isCounting = activeSession.status === 'counting';
+    const filteredLines = lines.filter(line =>
+      line.itemId.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      line.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      line.locationCode.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (line.lotNumber || '').toLowerCase().includes(searchTerm.toLowerCase())
+    );
+    const countedLines = lines.filter(line => line.countedQuantity !== null);
+    const varianceValue = countedLines.reduce((sum, line) => sum + (line.varianceValue || 0), 0);
+    const approvedValue = lines.filter(line => line.approved).reduce((sum, line) => sum + (line.varianceValue || 0), 0);
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <button onClick={closeSession} className="mr-3 text-gray-500 hover:text-gray-700">
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{activeSession.sessionNumber} - {activeSession.name}</h1>
+              <p className="text-sm text-gray-500">
+                {scopeLabels[activeSession.scopeType]}: {activeSession.scopeValues.join(', ')}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${statusStyles[activeSession.status]}`}>
+              {activeSession.status}
+            </span>
+            {isCounting && canManage && (
+              <>
+                <button
+                  onClick={approveAllCounted}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Approve Counted
+                </button>
+                <button
+                  onClick={handlePost}
+                  className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <ClipboardCheck className="w-4 h-4 mr-2" />
+                  Post Adjustments
+                </button>
+                <button
+                  onClick={handleCancel}
+                  className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Cancel Session
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+            <div className="text-sm text-gray-500">Counted</div>
+            <div className="text-2xl font-bold text-gray-900">{countedLines.length} / {lines.length}</div>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+            <div className="text-sm text-gray-500">Lines with Variance</div>
+            <div className="text-2xl font-bold text-gray-900">{countedLines.filter(line => line.variance !== 0).length}</div>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+            <div className="text-sm text-gray-500">Variance Value (counted)</div>
+            <div className={`text-2xl font-bold ${varianceValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>${varianceValue.toFixed(2)}</div>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+            <div className="text-sm text-gray-500">Variance Value (approved)</div>
+            <div className={`text-2xl font-bold ${approvedValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>${approvedValue.toFixed(2)}</div>
+          </div>
+        </div>
+
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by item or location..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Approved</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredLines.map((line) => (
+                  <tr key={line.id} className={line.variance ? 'bg-yellow-50' : ''}>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{line.locationCode}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{line.name}</div>
+                      <div className="text-gray-500">{line.itemId} · {line.unitMeasurement || 'Each'}</div>
+                      {line.lotNumber && <div className="text-xs text-gray-500">Lot {line.lotNumber}</div>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{line.expectedQuantity.toLocaleString()}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        step="any"
+                        min="0"
+                        disabled={!isCounting}
+                        value={countDrafts[line.id] ?? (line.countedQuantity ?? '')}
+                        onChange={(e) => setCountDrafts({ ...countDrafts, [line.id]: e.target.value })}
+                        onBlur={() => saveCount(line)}
+                        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                        className="w-28 px-3 py-2 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                      />
+                    </td>
+                    <td className={`px-4 py-3 whitespace-nowrap text-sm text-right font-medium ${
+                      line.variance === null ? 'text-gray-400' : line.variance < 0 ? 'text-red-600' : line.variance > 0 ? 'text-green-600' : 'text-gray-900'
+                    }`}>
+                      {line.variance === null ? '-' : `${line.variance > 0 ? '+' : ''}${line.variance.toLocaleString()}`}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                      {line.varianceValue === null ? '-' : `$${line.varianceValue.toFixed(2)}`}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <select
+                        value={line.reasonCode || ''}
+                        disabled={!isCounting || !line.variance}
+                        onChange={(e) => updateLine(line, { reasonCode: (e.target.value || null) as StockTakeReasonCode | null })}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                      >
+                        <option value="">Select reason</option>
+                        {reasonCodeOptions.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-center">
+                      <input
+                        type="checkbox"
+                        checked={line.approved}
+                        disabled={!isCounting || !canManage || line.countedQuantity === null}
+                        onChange={(e) => updateLine(line, { approved: e.target.checked })}
+                        className="w-5 h-5"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {filteredLines.length === 0 && (
+            <div className="text-center py-12 text-gray-500">No lines match your search</div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Stock Take</h1>
+        {canManage && (
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Count Session
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Session</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scope</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance Value</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sessions.map((session) => (
+              <tr key={session.id} onClick={() => openSession(session.id)} className="hover:bg-gray-50 cursor-pointer">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">{session.sessionNumber}</div>
+                  <div className="text-sm text-gray-500">{session.name}</div>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  <span>{scopeLabels[session.scopeType]}</span>: {session.scopeValues.join(', ')}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {session.countedCount} / {session.lineCount} counted
+                </td>
+                <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${(session.varianceValue || 0) < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  ${(session.varianceValue || 0).toFixed(2)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${statusStyles[session.status]}`}>
+                    {session.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <div>{new Date(session.createdAt).toLocaleDateString()}</div>
+                  <div>{session.createdBy}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {sessions.length === 0 && (
+          <div className="text-center py-12">
+            <ClipboardCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No stock take sessions yet</p>
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={showCreateModal} onClose={resetForm} title="New Count Session" size="lg">
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Session Name *</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g., Year-end count 2024"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Count By</label>
+            <select
+              value={formData.scopeType}
+              onChange={(e) => setFormData({ ...formData, scopeType: e.target.value as StockTakeSession['scopeType'], scopeValues: [] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="location">Location</option>
+              <option value="category">Category</option>
+              <option value="abc_class">ABC Class (items due for counting)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {scopeLabels[formData.scopeType]} *
+            </label>
+            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto border border-gray-200 rounded-lg p-3">
+              {(formData.scopeType === 'location'
+                ? locations.map(location => ({ value: location.code, label: `${location.code} - ${location.storeName}` }))
+                : formData.scopeType === 'category'
+                  ? categories.map(category => ({ value: category, label: category }))
+                  : abcClassOptions
+              ).map(option => (
+                <label key={option.value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.scopeValues.includes(option.value)}
+                    onChange={() => toggleScopeValue(option.value)}
+                    className="mr-2"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            Expected quantities are frozen when the session opens. Variances are posted against those quantities.
+          </p>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Open Session
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
+
+export default StockTake;
@@ -57,7 +57,7 @@ const UserManagement: React.FC = () => {
   const defaultRoles = {
     admin: { name: 'admin', displayName: 'Administrator', permissions: ['*'], isCustom: false },
     manager: { name: 'manager', displayName: 'Manager', permissions: ['dashboard.view', 'inventory.*', 'requisitions.*', 'purchase_orders.*', 'users.view'], isCustom: false },
-    storekeeper: { name: 'storekeeper', displayName: 'Storekeeper', permissions: ['dashboard.view', 'inventory.view', 'inventory.update', 'requisitions.view', 'requisitions.create'], isCustom: false },
+    storekeeper: { name: 'storekeeper', displayName: 'Storekeeper', permissions: ['dashboard.view', 'inventory.view', 'inventory.update', 'requisitions.view', 'requisitions.create', 'requisitions.issue'], isCustom: false },
     purchaser: { name: 'purchaser', displayName: 'Purchaser', permissions: ['dashboard.view', 'inventory.view', 'purchase_orders.*', 'requisitions.view'], isCustom: false }
   };
 
@@ -89,7 +89,8 @@ const UserManagement: React.FC = () => {
         { key: 'inventory.update', label: 'Update Inventory Items' },
         { key: 'inventory.delete', label: 'Delete Inventory Items' },
         { key: 'inventory.import', label: 'Import Inventory' },
-        { key: 'inventory.export', label: 'Export Inventory' }
+        { key: 'inventory.export', label: 'Export Inventory' },
+        { key: 'inventory.stocktake', label: 'Manage Stock Takes' }
       ]
     },
     {
@@ -98,6 +99,7 @@ const UserManagement: React.FC = () => {
         { key: 'requisitions.view', label: 'View Requisitions' },
         { key: 'requisitions.create', label: 'Create Requisitions' },
         { key: 'requisitions.approve', label: 'Approve Requisitions' },
+        { key: 'requisitions.issue', label: 'Pick & Issue Requisitions' },
         { key: 'requisitions.delete', label: 'Delete Requisitions' }
       ]
     },
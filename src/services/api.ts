@@ -1,6 +1,6 @@
-import axios from 'axios';
-import { InventoryItem, Requisition, DashboardStats, Requester, Department, CostCenter, Report, InventoryValuation, PurchaseHistory, Supplier, PurchaseOrder, PurchaseOrderItem } from '../types';
-import { CabinetConfiguration, CabinetProject } from '../types/cabinet';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { InventoryItem, InventoryLot, FefoSuggestion, ExpiringLot, Kit, KitHardwareMatch, InventoryTransaction, StockReservation, InventoryAttachment, InventoryAttachmentType, DemandForecast, ForecastPeriod, ItemSubstitute, SubstitutionGroup, InventoryImportMode, InventoryImportResult, InventoryCategory, Location, StockTake, StockTakeLine, Requisition, RequisitionInput, RequisitionStatus, RequisitionPickList, RequisitionIssueLine, RequisitionBackorder, RequisitionPurchaseCandidate, MaterialReturn, MaterialReturnInput, MaterialReturnReferenceType, ReturnableMaterials, CostCenterCredit, ApprovalRule, UserNotification, DashboardStats, Requester, Department, CostCenter, Report, InventoryValuation, PurchaseHistory, Supplier, PurchaseOrder, PurchaseOrderItem, ReplenishmentSuggestion, InventoryAnalysis, InventoryAnalysisParameters } from '../types';
+import { CabinetConfiguration, CabinetProject, ProjectRequisitionPreview, ProjectRequisitionResult, HardwareItem, Remnant } from '../types/cabinet';
 
 // Simplified API URL resolution using Vite's environment detection
 const getApiUrl = () => {
@@ -39,6 +39,23 @@ const isServerUnavailable = (error: any) => {
      (error.response && (error.response.status >= 500 || error.response.status === 404)));
 };
 
+// The response interceptor passes unavailable-server errors on as plain copies, which are no longer AxiosErrors
+const getErrorResponse = (error: unknown): AxiosResponse<{ error?: string }> | undefined => {
+  if (axios.isAxiosError<{ error?: string }>(error)) {
+    return error.response;
+  }
+  if (typeof error === 'object' && error !== null && 'isServerUnavailable' in error) {
+    return (error as Pick<AxiosError<{ error?: string }>, 'response'>).response;
+  }
+  return undefined;
+};
+
+// HTTP status of a failed request, if the server answered
+export const getApiErrorStatus = (error: unknown) => getErrorResponse(error)?.status;
+
+// Message the server sent back with a failed request, or the fallback when there is none
+export const getApiErrorMessage = (error: unknown, fallback: string) => getErrorResponse(error)?.data?.error || fallback;
+
 // Add response interceptor for better error handling
 api.interceptors.response.use(
   (response) => response,
@@ -81,6 +98,91 @@ export const cabinetService = {
     }
   },
 
+  // Create the project on the server or update it there; status changes reserve or release stock
+  async saveProject(project: CabinetProject): Promise<CabinetProject> {
+    try {
+      const response = await api.put(`/cabinet-calculator/projects/${project.id}`, project);
+      return response.data;
+    } catch (error) {
+      if (getApiErrorStatus(error) === 404) {
+        const response = await api.post('/cabinet-calculator/projects', project);
+        return response.data;
+      }
+      console.error('Failed to save project:', error);
+      throw error;
+    }
+  },
+
+  async deleteProject(projectId: string): Promise<void> {
+    try {
+      await api.delete(`/cabinet-calculator/projects/${projectId}`);
+    } catch (error) {
+      // Projects never saved to the server have nothing to release
+      if (getApiErrorStatus(error) === 404 || isServerUnavailable(error)) {
+        return;
+      }
+      console.error('Failed to delete project:', error);
+      throw error;
+    }
+  },
+
+  // Projects saved on the server; the calculator keeps its working copies locally
+  async getProjects(): Promise<CabinetProject[]> {
+    try {
+      const response = await api.get('/cabinet-calculator/projects');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch projects:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getProjectReservations(projectId: string): Promise<StockReservation[]> {
+    try {
+      const response = await api.get(`/cabinet-calculator/projects/${projectId}/reservations`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch project reservations:', error);
+      
+      // Return no reservations if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getRequisitionPreview(projectId: string): Promise<ProjectRequisitionPreview> {
+    try {
+      const response = await api.get(`/cabinet-calculator/projects/${projectId}/requisition`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch project requisition preview:', error);
+      throw error;
+    }
+  },
+
+  // Raise a draft requisition for the project's materials not yet requested
+  async requestMaterials(
+    projectId: string,
+    header: Pick<RequisitionInput, 'requester' | 'department' | 'orderNumber' | 'bomNumber' | 'notes' | 'createdBy'>
+  ): Promise<ProjectRequisitionResult> {
+    try {
+      const response = await api.post(`/cabinet-calculator/projects/${projectId}/requisition`, header);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to request project materials:', error);
+      throw error;
+    }
+  },
+
   async optimizeNesting(cuttingList: any[]): Promise<any[]> {
     try {
       const response = await api.post('/cabinet-calculator/nesting', { cuttingList });
@@ -98,6 +200,58 @@ export const cabinetService = {
   }
 };
 
+export const remnantService = {
+  async getAll(params?: { status?: string; materialType?: string; thickness?: number }): Promise<Remnant[]> {
+    try {
+      const response = await api.get('/remnants', { params });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch remnants:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async create(data: {
+    remnants: Array<Pick<Remnant, 'materialType' | 'thickness' | 'length' | 'width'> & { location?: string; notes?: string }>;
+    sourceReference?: string;
+    location?: string;
+    createdBy?: string;
+  }): Promise<Remnant[]> {
+    try {
+      const response = await api.post('/remnants', data);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to register remnants:', error);
+      throw error;
+    }
+  },
+
+  async update(id: string, data: Partial<Pick<Remnant, 'status' | 'location' | 'notes' | 'usedReference'>>): Promise<Remnant> {
+    try {
+      const response = await api.put(`/remnants/${id}`, data);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update remnant:', error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await api.delete(`/remnants/${id}`);
+    } catch (error) {
+      console.error('Failed to delete remnant:', error);
+      throw error;
+    }
+  }
+};
+
 export const inventoryService = {
   async getAll(): Promise<InventoryItem[]> {
     try {
@@ -228,7 +382,7 @@ export const inventoryService = {
     }
   },
 
-  async create(item: Partial<InventoryItem>): Promise<InventoryItem> {
+  async create(item: Partial<InventoryItem> & { performedBy?: string }): Promise<InventoryItem> {
     try {
       const response = await api.post('/inventory/products', item);
       return response.data;
@@ -249,7 +403,7 @@ export const inventoryService = {
     }
   },
 
-  async update(id: string, item: Partial<InventoryItem>): Promise<InventoryItem> {
+  async update(id: string, item: Partial<InventoryItem> & { performedBy?: string; adjustmentReason?: string }): Promise<InventoryItem> {
     try {
       const response = await api.put(`/inventory/products/${id}`, item);
       return response.data;
@@ -286,10 +440,203 @@ export const inventoryService = {
     }
   },
 
-  async importFromExcel(file: File): Promise<{ success: boolean; count: number }> {
+  async getTransactions(id: string): Promise<InventoryTransaction[]> {
+    try {
+      const response = await api.get(`/inventory/products/${id}/transactions`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch inventory transactions:', error);
+      
+      // Return empty history if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getLots(id: string): Promise<InventoryLot[]> {
+    try {
+      const response = await api.get(`/inventory/products/${id}/lots`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch inventory lots:', error);
+      
+      // Return no lots if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getFefoPicks(id: string, quantity: number, locationId?: string): Promise<FefoSuggestion> {
+    try {
+      const response = await api.get(`/inventory/products/${id}/fefo`, { params: { quantity, locationId } });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch FEFO suggestion:', error);
+      throw error;
+    }
+  },
+
+  async getExpiringLots(days = 30): Promise<ExpiringLot[]> {
+    try {
+      const response = await api.get('/inventory/expiring', { params: { days } });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch expiring stock:', error);
+      
+      // Return no lots if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getReservations(id: string): Promise<StockReservation[]> {
+    try {
+      const response = await api.get(`/inventory/products/${id}/reservations`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch stock reservations:', error);
+      
+      // Return no reservations if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getForecast(id: string, params: { period: ForecastPeriod; horizon?: number; window?: number; leadTimeDays?: number }): Promise<DemandForecast> {
+    try {
+      const response = await api.get(`/inventory/products/${id}/forecast`, { params });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch demand forecast:', error);
+      throw error;
+    }
+  },
+
+  async getSubstitutes(id: string, quantity?: number): Promise<ItemSubstitute[]> {
+    try {
+      const response = await api.get(`/inventory/products/${id}/substitutes`, {
+        params: quantity ? { quantity } : undefined,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch substitutes:', error);
+      
+      // Return no substitutes if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getAttachments(id: string): Promise<InventoryAttachment[]> {
+    try {
+      const response = await api.get(`/inventory/products/${id}/attachments`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch item attachments:', error);
+      
+      // Return no attachments if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async uploadAttachment(id: string, file: File, options: {
+    type: InventoryAttachmentType;
+    description?: string;
+    uploadedBy?: string;
+  }): Promise<InventoryAttachment> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('type', options.type);
+      if (options.description) {
+        formData.append('description', options.description);
+      }
+      if (options.uploadedBy) {
+        formData.append('uploadedBy', options.uploadedBy);
+      }
+      const response = await api.post(`/inventory/products/${id}/attachments`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to upload attachment:', error);
+      throw error;
+    }
+  },
+
+  async deleteAttachment(id: string, attachmentId: string): Promise<void> {
+    try {
+      await api.delete(`/inventory/products/${id}/attachments/${attachmentId}`);
+    } catch (error) {
+      console.error('Failed to delete attachment:', error);
+      throw error;
+    }
+  },
+
+  async postTransaction(id: string, movement: Partial<InventoryTransaction> & { expiryDate?: string }): Promise<InventoryTransaction> {
+    try {
+      const response = await api.post(`/inventory/products/${id}/transactions`, movement);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to post inventory transaction:', error);
+      
+      // Stock movements are never mocked; the caller must surface the failure
+      throw error;
+    }
+  },
+
+  async transfer(transfer: {
+    inventoryItemId: string;
+    fromLocationId: string;
+    toLocationId: string;
+    quantity: number;
+    lotNumber?: string;
+    notes?: string;
+    performedBy?: string;
+  }): Promise<{ referenceNumber: string; transactions: InventoryTransaction[] }> {
+    try {
+      const response = await api.post('/inventory/transfers', transfer);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to transfer stock:', error);
+      
+      // Stock movements are never mocked; the caller must surface the failure
+      throw error;
+    }
+  },
+
+  async importFromExcel(file: File, options: {
+    mode: InventoryImportMode;
+    dryRun: boolean;
+    performedBy?: string;
+  }): Promise<InventoryImportResult> {
     try {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('mode', options.mode);
+      formData.append('dryRun', String(options.dryRun));
+      if (options.performedBy) {
+        formData.append('performedBy', options.performedBy);
+      }
       const response = await api.post('/inventory/import', formData, {
         headers: { 'Content-Type': 'multipart/form-data' },
       });
@@ -297,27 +644,50 @@ export const inventoryService = {
     } catch (error) {
       console.error('Failed to import from Excel:', error);
       
+      // A rejected commit still carries the row-level errors to show in the preview
+      if (axios.isAxiosError<InventoryImportResult>(error) && error.response?.status === 422) {
+        return error.response.data;
+      }
+      
       // Return mock data if server is unavailable
       if (isServerUnavailable(error)) {
-        return { success: true, count: 0 };
+        return {
+          fileName: file.name,
+          mode: options.mode,
+          dryRun: options.dryRun,
+          committed: false,
+          columns: [],
+          totalRows: 0,
+          insertCount: 0,
+          updateCount: 0,
+          errorCount: 0,
+          rows: []
+        };
       }
       
       throw error;
     }
   },
 
-  async exportToPDF(): Promise<Blob> {
+  async exportReport(options: {
+    format: 'pdf' | 'xlsx';
+    category?: string;
+    location?: string;
+    supplier?: string;
+    lowStockOnly?: boolean;
+  }): Promise<Blob> {
     try {
       const response = await api.get('/inventory/export', {
+        params: options,
         responseType: 'blob',
       });
       return response.data;
     } catch (error) {
-      console.error('Failed to export to PDF:', error);
+      console.error('Failed to export inventory report:', error);
       
       // Return empty blob if server is unavailable
       if (isServerUnavailable(error)) {
-        return new Blob([''], { type: 'application/pdf' });
+        return new Blob([''], { type: options.format === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
       }
       
       throw error;
@@ -516,9 +886,10 @@ export const purchaseOrderService = {
     }
   },
 
-  async approve(id: string): Promise<PurchaseOrder> {
+  // Approves the order's current approval step; the order is approved once its last step is
+  async approve(id: string, approvedBy?: string, comments?: string): Promise<PurchaseOrder> {
     try {
-      const response = await api.patch(`/purchase-orders/${id}/approve`);
+      const response = await api.patch(`/purchase-orders/${id}/approve`, { approvedBy, comments });
       return response.data;
     } catch (error) {
       console.error('Failed to approve purchase order:', error);
@@ -535,6 +906,35 @@ export const purchaseOrderService = {
       throw error;
     }
   },
+
+  // A rejected order returns to draft
+  async reject(id: string, reason: string, rejectedBy?: string): Promise<PurchaseOrder> {
+    try {
+      const response = await api.patch(`/purchase-orders/${id}/reject`, { reason, rejectedBy });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to reject purchase order:', error);
+      throw error;
+    }
+  },
+};
+
+export const replenishmentService = {
+  async getSuggestions(): Promise<ReplenishmentSuggestion[]> {
+    try {
+      const response = await api.get('/replenishment/suggestions');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch replenishment suggestions:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
 };
 
 export const supplierService = {
@@ -664,26 +1064,674 @@ export const supplierService = {
   },
 };
 
-export const dashboardService = {
-  async getStats(): Promise<DashboardStats> {
+export const categoryService = {
+  async getAll(): Promise<InventoryCategory[]> {
     try {
-      const response = await api.get('/dashboard/stats');
+      const response = await api.get('/categories');
       return response.data;
     } catch (error) {
-      console.error('Failed to fetch dashboard stats:', error);
+      console.error('Failed to fetch categories:', error);
       
       // Return mock data if server is unavailable
       if (isServerUnavailable(error)) {
-        const recentActivity = [
-          { id: 1, action: 'Product Added', item: 'Kitchen Cabinet Set A', timestamp: new Date().toISOString() },
-          { id: 2, action: 'Stock Updated', item: 'Bathroom Vanity B', timestamp: new Date(Date.now() - 3600000).toISOString() },
-          { id: 3, action: 'Order Completed', item: 'Living Room Cabinet C', timestamp: new Date(Date.now() - 7200000).toISOString() },
-          { id: 4, action: 'Requisition Approved', item: 'Hardware Supplies', timestamp: new Date(Date.now() - 10800000).toISOString() },
-          { id: 5, action: 'Purchase Order Created', item: 'Plywood 18mm', timestamp: new Date(Date.now() - 14400000).toISOString() },
-        ];
-        
-        return {
-          totalItems: 1247,
+        console.log('Using mock categories data - server unavailable');
+        const createdAt = new Date().toISOString();
+        return [
+          { name: 'Panels', subCategories: ['Cabinet Body', 'Door Panels', 'Drawer Fronts', 'Shelving', 'Back Panels'] },
+          { name: 'Hardware', subCategories: ['Door Hardware', 'Drawer Hardware', 'Cabinet Hardware', 'Mounting Hardware', 'Specialty Hardware'] }
+        ].map((category, index) => ({
+          id: String(index + 1),
+          name: category.name,
+          parentId: null,
+          itemCount: 0,
+          createdAt,
+          subCategories: category.subCategories.map((name, subIndex) => ({
+            id: `${index + 1}-${subIndex + 1}`,
+            name,
+            parentId: String(index + 1),
+            itemCount: 0,
+            createdAt
+          }))
+        }));
+      }
+      
+      throw error;
+    }
+  },
+
+  async create(category: { name: string; parentId?: string | null; description?: string }): Promise<InventoryCategory> {
+    try {
+      const response = await api.post('/categories', category);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create category:', error);
+      throw error;
+    }
+  },
+
+  async update(id: string, category: { name?: string; description?: string }): Promise<InventoryCategory> {
+    try {
+      const response = await api.put(`/categories/${id}`, category);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update category:', error);
+      throw error;
+    }
+  },
+
+  // Move the category's items (and sub-categories) into the target, then delete it
+  async merge(id: string, targetId: string): Promise<{ movedItems: number; category: InventoryCategory }> {
+    try {
+      const response = await api.post(`/categories/${id}/merge`, { targetId });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to merge categories:', error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await api.delete(`/categories/${id}`);
+    } catch (error) {
+      console.error('Failed to delete category:', error);
+      throw error;
+    }
+  },
+};
+
+export const substitutionService = {
+  async getAll(): Promise<SubstitutionGroup[]> {
+    try {
+      const response = await api.get('/substitution-groups');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch substitution groups:', error);
+      
+      // Return no groups if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async create(group: { name: string; notes?: string; members: string[] }): Promise<SubstitutionGroup> {
+    try {
+      const response = await api.post('/substitution-groups', group);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create substitution group:', error);
+      throw error;
+    }
+  },
+
+  async update(id: string, group: { name?: string; notes?: string; members?: string[] }): Promise<SubstitutionGroup> {
+    try {
+      const response = await api.put(`/substitution-groups/${id}`, group);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update substitution group:', error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await api.delete(`/substitution-groups/${id}`);
+    } catch (error) {
+      console.error('Failed to delete substitution group:', error);
+      throw error;
+    }
+  }
+};
+
+export const kitService = {
+  async getAll(): Promise<Kit[]> {
+    try {
+      const response = await api.get('/kits');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch kits:', error);
+      
+      // Return no kits if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async create(kit: { kitCode: string; name: string; description?: string; templateId?: string; components: { inventoryItemId: string; quantity: number }[] }): Promise<Kit> {
+    try {
+      const response = await api.post('/kits', kit);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create kit:', error);
+      throw error;
+    }
+  },
+
+  async update(id: string, kit: { kitCode?: string; name?: string; description?: string; templateId?: string; components?: { inventoryItemId: string; quantity: number }[] }): Promise<Kit> {
+    try {
+      const response = await api.put(`/kits/${id}`, kit);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update kit:', error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await api.delete(`/kits/${id}`);
+    } catch (error) {
+      console.error('Failed to delete kit:', error);
+      throw error;
+    }
+  },
+
+  async issue(id: string, issue: {
+    quantity: number;
+    locationId?: string;
+    projectId?: string;
+    referenceNumber?: string;
+    notes?: string;
+    performedBy?: string;
+  }): Promise<{ kit: Kit; transactions: InventoryTransaction[] }> {
+    try {
+      const response = await api.post(`/kits/${id}/issue`, issue);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to issue kit:', error);
+      
+      // Stock movements are never mocked; the caller must surface the failure
+      throw error;
+    }
+  },
+
+  async matchHardware(hardwareItems: HardwareItem[]): Promise<KitHardwareMatch> {
+    try {
+      const response = await api.post('/kits/match-hardware', { hardwareItems });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to match template hardware:', error);
+      throw error;
+    }
+  }
+};
+
+export const locationService = {
+  async getAll(): Promise<Location[]> {
+    try {
+      const response = await api.get('/locations');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch locations:', error);
+      
+      // Return mock data if server is unavailable
+      if (isServerUnavailable(error)) {
+        console.log('Using mock locations data - server unavailable');
+        return [
+          {
+            id: '1',
+            code: 'A-1-01',
+            storeName: 'Main Warehouse',
+            rack: 'A',
+            shelf: '1',
+            description: 'Main storage area for wood materials',
+            isActive: true,
+            createdAt: new Date().toISOString()
+          },
+          {
+            id: '2',
+            code: 'B-2-05',
+            storeName: 'Hardware Storage',
+            rack: 'B',
+            shelf: '2',
+            description: 'Hardware and accessories storage',
+            isActive: true,
+            createdAt: new Date().toISOString()
+          }
+        ];
+      }
+      
+      throw error;
+    }
+  },
+
+  async create(location: Partial<Location>): Promise<Location> {
+    try {
+      const response = await api.post('/locations', location);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create location:', error);
+      
+      // Return mock data if server is unavailable
+      if (isServerUnavailable(error)) {
+        return {
+          id: Date.now().toString(),
+          ...location,
+          isActive: true,
+          createdAt: new Date().toISOString()
+        } as Location;
+      }
+      
+      throw error;
+    }
+  },
+
+  async update(id: string, location: Partial<Location>): Promise<Location> {
+    try {
+      const response = await api.put(`/locations/${id}`, location);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update location:', error);
+      
+      // Return mock data if server is unavailable
+      if (isServerUnavailable(error)) {
+        return {
+          id,
+          ...location,
+          updatedAt: new Date().toISOString()
+        } as Location;
+      }
+      
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await api.delete(`/locations/${id}`);
+    } catch (error) {
+      console.error('Failed to delete location:', error);
+      
+      // Just log if server is unavailable
+      if (isServerUnavailable(error)) {
+        console.log('Location deleted (mock)');
+        return;
+      }
+      
+      throw error;
+    }
+  },
+};
+
+export const labelService = {
+  async download(options: {
+    type: 'item' | 'location';
+    ids?: string[];
+    symbology: 'code128' | 'qrcode';
+    copies?: number;
+    startPosition?: number;
+  }): Promise<Blob> {
+    try {
+      const response = await api.get('/labels', {
+        params: { ...options, ids: options.ids && options.ids.length > 0 ? options.ids.join(',') : undefined },
+        responseType: 'blob',
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to generate labels:', error);
+      
+      // Return empty blob if server is unavailable
+      if (isServerUnavailable(error)) {
+        return new Blob([''], { type: 'application/pdf' });
+      }
+      
+      throw error;
+    }
+  },
+};
+
+export const stockTakeService = {
+  async getAll(): Promise<StockTake[]> {
+    try {
+      const response = await api.get('/stock-takes');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch stock takes:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getById(id: string): Promise<StockTake> {
+    try {
+      const response = await api.get(`/stock-takes/${id}`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch stock take:', error);
+      throw error;
+    }
+  },
+
+  async create(stockTake: Pick<StockTake, 'name' | 'scopeType' | 'scopeValues' | 'notes' | 'createdBy'>): Promise<StockTake> {
+    try {
+      const response = await api.post('/stock-takes', stockTake);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create stock take:', error);
+      throw error;
+    }
+  },
+
+  async updateLine(id: string, lineId: string, line: Partial<Pick<StockTakeLine, 'countedQuantity' | 'reasonCode' | 'approved' | 'countedBy'>>): Promise<StockTakeLine> {
+    try {
+      const response = await api.put(`/stock-takes/${id}/lines/${lineId}`, line);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update stock take line:', error);
+      throw error;
+    }
+  },
+
+  async post(id: string, performedBy?: string): Promise<StockTake> {
+    try {
+      const response = await api.post(`/stock-takes/${id}/post`, { performedBy });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to post stock take:', error);
+      
+      // Stock movements are never mocked; the caller must surface the failure
+      throw error;
+    }
+  },
+
+  async cancel(id: string): Promise<void> {
+    try {
+      await api.post(`/stock-takes/${id}/cancel`);
+    } catch (error) {
+      console.error('Failed to cancel stock take:', error);
+      throw error;
+    }
+  },
+};
+
+export const requisitionService = {
+  async getAll(status?: RequisitionStatus): Promise<Requisition[]> {
+    try {
+      const response = await api.get('/requisitions', { params: { status } });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch requisitions:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getById(id: string): Promise<Requisition> {
+    try {
+      const response = await api.get(`/requisitions/${id}`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch requisition:', error);
+      throw error;
+    }
+  },
+
+  async create(requisition: RequisitionInput): Promise<Requisition> {
+    try {
+      const response = await api.post('/requisitions', requisition);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create requisition:', error);
+      throw error;
+    }
+  },
+
+  async update(id: string, requisition: RequisitionInput): Promise<Requisition> {
+    try {
+      const response = await api.put(`/requisitions/${id}`, requisition);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update requisition:', error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await api.delete(`/requisitions/${id}`);
+    } catch (error) {
+      console.error('Failed to delete requisition:', error);
+      throw error;
+    }
+  },
+
+  async submit(id: string): Promise<Requisition> {
+    try {
+      const response = await api.post(`/requisitions/${id}/submit`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to submit requisition:', error);
+      throw error;
+    }
+  },
+
+  // Approves the current approval step; lines left out of `items` keep their quantity
+  async approve(id: string, approvedBy?: string, items?: { id: string; approvedQuantity: number }[], comments?: string): Promise<Requisition> {
+    try {
+      const response = await api.post(`/requisitions/${id}/approve`, { approvedBy, items, comments });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to approve requisition:', error);
+      throw error;
+    }
+  },
+
+  async reject(id: string, reason: string, rejectedBy?: string): Promise<Requisition> {
+    try {
+      const response = await api.post(`/requisitions/${id}/reject`, { reason, rejectedBy });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to reject requisition:', error);
+      throw error;
+    }
+  },
+
+  async getPickList(id: string): Promise<RequisitionPickList> {
+    try {
+      const response = await api.get(`/requisitions/${id}/pick-list`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch requisition pick list:', error);
+      throw error;
+    }
+  },
+
+  async issue(id: string, items: RequisitionIssueLine[], issuedBy?: string): Promise<{ requisition: Requisition; transactions: InventoryTransaction[] }> {
+    try {
+      const response = await api.post(`/requisitions/${id}/issue`, { items, issuedBy });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to issue requisition:', error);
+      
+      // Stock movements are never mocked; the caller must surface the failure
+      throw error;
+    }
+  },
+
+  async getBackorders(): Promise<RequisitionBackorder[]> {
+    try {
+      const response = await api.get('/requisitions/backorders');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch requisition backorders:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getPurchaseCandidates(): Promise<RequisitionPurchaseCandidate[]> {
+    try {
+      const response = await api.get('/requisitions/purchase-candidates');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch requisition lines to purchase:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  // One draft purchase order per supplier; quantities are in the line's unit and default to its shortage
+  async createPurchaseOrders(lines: { id: string; quantity?: number }[]): Promise<PurchaseOrder[]> {
+    try {
+      const response = await api.post('/requisitions/purchase-orders', { lines });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create purchase orders from requisitions:', error);
+      throw error;
+    }
+  },
+};
+
+export const materialReturnService = {
+  async getAll(filters?: { referenceType?: MaterialReturnReferenceType; referenceId?: string; costCenter?: string }): Promise<MaterialReturn[]> {
+    try {
+      const response = await api.get('/material-returns', { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch material returns:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async getReturnable(referenceType: MaterialReturnReferenceType, referenceId: string): Promise<ReturnableMaterials> {
+    try {
+      const response = await api.get('/material-returns/returnable', { params: { referenceType, referenceId } });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch returnable materials:', error);
+      throw error;
+    }
+  },
+
+  async create(materialReturn: MaterialReturnInput): Promise<MaterialReturn> {
+    try {
+      const response = await api.post('/material-returns', materialReturn);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to post material return:', error);
+      
+      // Stock movements are never mocked; the caller must surface the failure
+      throw error;
+    }
+  },
+
+  async getCostCenterCredits(from?: string, to?: string): Promise<CostCenterCredit[]> {
+    try {
+      const response = await api.get('/material-returns/credits', { params: { from, to } });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch cost center credits:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+};
+
+export const approvalRuleService = {
+  async getAll(): Promise<ApprovalRule[]> {
+    try {
+      const response = await api.get('/approval-rules');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch approval rules:', error);
+      
+      // Return empty list if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async create(rule: Omit<ApprovalRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApprovalRule> {
+    try {
+      const response = await api.post('/approval-rules', rule);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create approval rule:', error);
+      throw error;
+    }
+  },
+
+  async update(id: string, rule: Partial<ApprovalRule>): Promise<ApprovalRule> {
+    try {
+      const response = await api.put(`/approval-rules/${id}`, rule);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to update approval rule:', error);
+      throw error;
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    try {
+      await api.delete(`/approval-rules/${id}`);
+    } catch (error) {
+      console.error('Failed to delete approval rule:', error);
+      throw error;
+    }
+  },
+};
+
+export const dashboardService = {
+  async getStats(): Promise<DashboardStats> {
+    try {
+      const response = await api.get('/dashboard/stats');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch dashboard stats:', error);
+      
+      // Return mock data if server is unavailable
+      if (isServerUnavailable(error)) {
+        const recentActivity = [
+          { id: 1, action: 'Product Added', item: 'Kitchen Cabinet Set A', timestamp: new Date().toISOString() },
+          { id: 2, action: 'Stock Updated', item: 'Bathroom Vanity B', timestamp: new Date(Date.now() - 3600000).toISOString() },
+          { id: 3, action: 'Order Completed', item: 'Living Room Cabinet C', timestamp: new Date(Date.now() - 7200000).toISOString() },
+          { id: 4, action: 'Requisition Approved', item: 'Hardware Supplies', timestamp: new Date(Date.now() - 10800000).toISOString() },
+          { id: 5, action: 'Purchase Order Created', item: 'Plywood 18mm', timestamp: new Date(Date.now() - 14400000).toISOString() },
+        ];
+        
+        return {
+          totalItems: 1247,
           lowStockItems: 23,
           pendingRequisitions: 8,
           openPurchaseOrders: 12,
@@ -698,6 +1746,43 @@ export const dashboardService = {
   },
 };
 
+export const notificationService = {
+  async getAll(email: string, unreadOnly = false): Promise<UserNotification[]> {
+    try {
+      const response = await api.get('/notifications', { params: { email, unreadOnly } });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+      
+      // Return no notifications if server is unavailable
+      if (isServerUnavailable(error)) {
+        return [];
+      }
+      
+      throw error;
+    }
+  },
+
+  async markRead(id: string): Promise<UserNotification> {
+    try {
+      const response = await api.patch(`/notifications/${id}/read`);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+      throw error;
+    }
+  },
+
+  async markAllRead(email: string): Promise<void> {
+    try {
+      await api.patch('/notifications/read-all', { email });
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+      throw error;
+    }
+  },
+};
+
 export const requesterService = {
   async getAll(): Promise<Requester[]> {
     try {
@@ -1092,6 +2177,26 @@ export const reportService = {
     }
   },
 
+  async getInventoryAnalysis(parameters: InventoryAnalysisParameters): Promise<InventoryAnalysis> {
+    try {
+      const response = await api.get('/reports/inventory-analysis', { params: parameters });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch inventory analysis:', error);
+      throw error;
+    }
+  },
+
+  async classifyInventory(parameters: InventoryAnalysisParameters): Promise<InventoryAnalysis> {
+    try {
+      const response = await api.post('/reports/inventory-analysis/classify', parameters);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to classify inventory:', error);
+      throw error;
+    }
+  },
+
   async getPurchaseHistory(itemId: string): Promise<PurchaseHistory[]> {
     try {
       const response = await api.get(`/reports/purchase-history/${itemId}`);
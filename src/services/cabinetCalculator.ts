@@ -1,5 +1,5 @@
 import { CabinetTemplate, CabinetConfiguration, CabinetProject, NestingResult, CuttingListItem, CabinetMaterial, CabinetHardware, PartDefinition } from '../types/cabinet';
-import { cabinetTemplates, materialSheets, laborRates } from '../data/cabinetTemplates';
+import { cabinetTemplates, materialSheets, edgebandRolls, laborRates } from '../data/cabinetTemplates';
 
 // Cabinet Calculator Service
 export class CabinetCalculatorService {
@@ -415,12 +415,44 @@ export class CabinetCalculatorService {
           width: sheet.width
         },
         quantity: sheetsNeeded,
+        unit: 'Sheets (sht)',
         unitCost: sheet.costPerSheet,
         totalCost: sheetsNeeded * sheet.costPerSheet,
         supplier: sheet.supplier
       });
     });
     
+    // Edgeband is consumed in millimetres: front/back edges run along the part length, left/right along its width
+    const edgeLength = cuttingList.reduce((sum, item) => {
+      const { front, back, left, right } = item.edgeBanding;
+      const perPart = (Number(front) + Number(back)) * item.length + (Number(left) + Number(right)) * item.width;
+      return sum + perPart * item.quantity;
+    }, 0);
+    
+    if (edgeLength > 0) {
+      const edgeband = edgebandRolls[0];
+      // Add 10% for trimming overhang at each end
+      const edgebandNeeded = Math.ceil(edgeLength * 1.1);
+      const costPerMillimetre = edgeband.costPerMetre / 1000;
+      
+      materials.push({
+        id: `material-${Date.now()}-${materials.length}`,
+        materialId: edgeband.id,
+        materialName: edgeband.name,
+        type: 'edgeband',
+        thickness: edgeband.thickness,
+        dimensions: {
+          length: edgeband.rollLength * 1000,
+          width: edgeband.width
+        },
+        quantity: edgebandNeeded,
+        unit: 'Millimetres (mm)',
+        unitCost: costPerMillimetre,
+        totalCost: edgebandNeeded * costPerMillimetre,
+        supplier: edgeband.supplier
+      });
+    }
+    
     return materials;
   }
   
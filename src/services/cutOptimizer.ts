@@ -1,4 +1,6 @@
-import { CuttingListItem, NestingResult, NestingPart } from '../types/cabinet';
+import { CuttingListItem, NestingResult, NestingPart, NestingOffcut, Remnant, RemnantSheet } from '../types/cabinet';
+
+type Area = { x: number; y: number; length: number; width: number };
 
 /**
  * CutOptimizer - A service that provides multiple optimization algorithms
@@ -12,13 +14,15 @@ export class CutOptimizer {
    * @param sheetSize - Size of the sheet to cut from
    * @param materialTypeFilter - Optional material type filter
    * @param technology - The optimization technology to use
+   * @param remnants - Available remnants, filled before new sheets are opened
    * @returns Array of nesting results
    */
   static optimizeNesting(
     cuttingList: CuttingListItem[],
     sheetSize?: { length: number; width: number },
     materialTypeFilter?: string,
-    technology: string = 'rectpack2d'
+    technology: string = 'rectpack2d',
+    remnants: Remnant[] = []
   ): NestingResult[] {
     // Default sheet size if not provided
     const defaultSheetSize = { length: 2440, width: 1220 };
@@ -43,12 +47,38 @@ export class CutOptimizer {
     // Generate nesting results for each group
     const results: NestingResult[] = [];
     
-    groupedItems.forEach((items, key) => {
+    groupedItems.forEach((groupItems, key) => {
       const [materialType, thickness] = key.split('-');
       
+      // Use up matching remnants first; only the parts that did not fit go on new sheets
+      const { remnantSheets, remainingItems: items } = this.placeOnRemnants(
+        groupItems,
+        remnants.filter(remnant =>
+          remnant.status === 'available' &&
+          remnant.materialType === materialType &&
+          remnant.thickness === parseInt(thickness)
+        )
+      );
+      
       // Choose the appropriate algorithm based on the selected technology
       let nestingResult: NestingResult;
       
+      if (items.length === 0) {
+        results.push({
+          id: `nesting-remnants-${Date.now()}`,
+          sheetSize: size,
+          materialType,
+          thickness: parseInt(thickness),
+          parts: [],
+          efficiency: 0,
+          wasteArea: 0,
+          totalArea: 0,
+          sheetCount: 0,
+          remnantSheets
+        });
+        return;
+      }
+      
       switch (technology) {
         case 'rectpack2d':
           nestingResult = this.rectPack2DOptimize(items, size, materialType, parseInt(thickness));
@@ -94,7 +124,7 @@ export class CutOptimizer {
           nestingResult = this.rectPack2DOptimize(items, size, materialType, parseInt(thickness));
       }
       
-      results.push(nestingResult);
+      results.push({ ...nestingResult, remnantSheets });
     });
     
     return results;
@@ -176,6 +206,7 @@ export class CutOptimizer {
       nestedParts.push({
         id: part.id,
         partId: part.partId,
+        sheetIndex: sheetCount - 1,
         x: placed.x,
         y: placed.y,
         length: placed.rotated ? part.width : part.length,
@@ -306,6 +337,7 @@ export class CutOptimizer {
       nestedParts.push({
         id: part.id,
         partId: part.partId,
+        sheetIndex: sheetCount - 1,
         x: placed.x,
         y: placed.y,
         length: placed.rotated ? part.width : part.length,
@@ -419,6 +451,7 @@ export class CutOptimizer {
         nestedParts.push({
           id: part.id,
           partId: part.partId,
+          sheetIndex: sheetCount - 1,
           x: Math.max(0, newX),
           y: Math.max(0, newY),
           length: part.length,
@@ -430,6 +463,7 @@ export class CutOptimizer {
         nestedParts.push({
           id: part.id,
           partId: part.partId,
+          sheetIndex: sheetCount - 1,
           x: Math.max(0, x),
           y: Math.max(0, y),
           length: part.length,
@@ -589,6 +623,7 @@ export class CutOptimizer {
       nestedParts.push({
         id: part.id,
         partId: part.partId,
+        sheetIndex: sheetCount - 1,
         x: placed.x,
         y: placed.y,
         length: placed.rotated ? part.width : part.length,
@@ -695,6 +730,7 @@ export class CutOptimizer {
       nestedParts.push({
         id: part.id,
         partId: part.partId,
+        sheetIndex: sheetCount - 1,
         x,
         y,
         length: part.length,
@@ -829,6 +865,7 @@ export class CutOptimizer {
       nestedParts.push({
         id: part.id,
         partId: part.partId,
+        sheetIndex: sheetCount - 1,
         x,
         y,
         length: part.length,
@@ -889,6 +926,166 @@ export class CutOptimizer {
     return this.rectPack2DOptimize(items, sheetSize, materialType, thickness);
   }
   
+  /**
+   * Place parts on remnants of the group's material and thickness. Remnants are filled
+   * smallest first so small pieces get used up, parts largest first, and grain is respected.
+   *
+   * @param items - Cutting list items of one material and thickness
+   * @param remnants - Matching available remnants
+   * @returns The remnants that received parts, and the cutting list left for new sheets
+   */
+  private static placeOnRemnants(
+    items: CuttingListItem[],
+    remnants: Remnant[]
+  ): { remnantSheets: RemnantSheet[]; remainingItems: CuttingListItem[] } {
+    if (remnants.length === 0) {
+      return { remnantSheets: [], remainingItems: items };
+    }
+    
+    const parts = items.flatMap(item =>
+      Array.from({ length: item.quantity }, (_, i) => ({ ...item, id: `${item.id}-${i}`, partId: item.id }))
+    );
+    parts.sort((a, b) => (b.length * b.width) - (a.length * a.width));
+    
+    const placedCount = new Map<string, number>();
+    const remnantSheets: RemnantSheet[] = [];
+    const sortedRemnants = [...remnants].sort((a, b) => (a.length * a.width) - (b.length * b.width));
+    
+    for (const remnant of sortedRemnants) {
+      const sheet = { freeRects: [{ x: 0, y: 0, length: remnant.length, width: remnant.width }] };
+      const nestedParts: NestingPart[] = [];
+      let usedArea = 0;
+      
+      for (const part of parts) {
+        if (placedCount.get(part.id)) continue;
+        
+        // The grain check in findPositionForPart rejects whichever orientation is not allowed
+        const placed = this.findPositionForPart(sheet, part.length, part.width, part.grain)
+          || this.findPositionForPart(sheet, part.width, part.length, part.grain, true);
+        if (!placed) continue;
+        
+        placedCount.set(part.id, 1);
+        nestedParts.push({
+          id: part.id,
+          partId: part.partId,
+          x: placed.x,
+          y: placed.y,
+          length: placed.rotated ? part.width : part.length,
+          width: placed.rotated ? part.length : part.width,
+          rotation: placed.rotated ? 90 : 0,
+          grain: part.grain
+        });
+        usedArea += part.length * part.width;
+      }
+      
+      if (nestedParts.length > 0) {
+        remnantSheets.push({
+          remnantId: remnant.id,
+          code: remnant.code,
+          length: remnant.length,
+          width: remnant.width,
+          parts: nestedParts,
+          efficiency: (usedArea / (remnant.length * remnant.width)) * 100
+        });
+      }
+    }
+    
+    const remainingItems = items
+      .map(item => ({
+        ...item,
+        quantity: item.quantity - parts.filter(part => part.partId === item.id && placedCount.get(part.id)).length
+      }))
+      .filter(item => item.quantity > 0);
+    
+    return { remnantSheets, remainingItems };
+  }
+  
+  /**
+   * Leftover rectangles of a nesting result that are big enough to keep as remnants,
+   * on the new sheets and on the remnants that were cut
+   *
+   * @param result - Nesting result to inspect
+   * @param minLength - Minimum size of the longer side, in mm
+   * @param minWidth - Minimum size of the shorter side, in mm
+   * @returns Non-overlapping offcuts, largest first on each board
+   */
+  static findOffcuts(result: NestingResult, minLength: number, minWidth: number): NestingOffcut[] {
+    const offcuts: NestingOffcut[] = [];
+    
+    for (let sheetIndex = 0; sheetIndex < result.sheetCount; sheetIndex++) {
+      const parts = result.parts.filter(part => (part.sheetIndex ?? 0) === sheetIndex);
+      this.findFreeAreas(result.sheetSize, parts, minLength, minWidth)
+        .forEach(area => offcuts.push({ ...area, sheetIndex }));
+    }
+    
+    (result.remnantSheets || []).forEach(remnant => {
+      this.findFreeAreas(remnant, remnant.parts, minLength, minWidth)
+        .forEach(area => offcuts.push({ ...area, remnantCode: remnant.code }));
+    });
+    
+    return offcuts;
+  }
+  
+  /**
+   * Free areas of one board: the maximal empty rectangles around the placed parts, then
+   * the largest of them that do not overlap each other, rounded down to whole mm
+   */
+  private static findFreeAreas(
+    board: { length: number; width: number },
+    parts: NestingPart[],
+    minLength: number,
+    minWidth: number
+  ): Area[] {
+    const overlaps = (a: Area, b: Area) =>
+      a.x < b.x + b.length && b.x < a.x + a.length && a.y < b.y + b.width && b.y < a.y + a.width;
+    const contains = (outer: Area, inner: Area) =>
+      inner.x >= outer.x && inner.y >= outer.y &&
+      inner.x + inner.length <= outer.x + outer.length && inner.y + inner.width <= outer.y + outer.width;
+    
+    let free: Area[] = [{ x: 0, y: 0, length: board.length, width: board.width }];
+    for (const part of parts) {
+      const next: Area[] = [];
+      for (const rect of free) {
+        if (!overlaps(rect, part)) {
+          next.push(rect);
+          continue;
+        }
+        // Split the free rectangle into the strips left, right, above and below the part
+        if (part.x > rect.x) {
+          next.push({ x: rect.x, y: rect.y, length: part.x - rect.x, width: rect.width });
+        }
+        if (part.x + part.length < rect.x + rect.length) {
+          next.push({ x: part.x + part.length, y: rect.y, length: rect.x + rect.length - (part.x + part.length), width: rect.width });
+        }
+        if (part.y > rect.y) {
+          next.push({ x: rect.x, y: rect.y, length: rect.length, width: part.y - rect.y });
+        }
+        if (part.y + part.width < rect.y + rect.width) {
+          next.push({ x: rect.x, y: part.y + part.width, length: rect.length, width: rect.y + rect.width - (part.y + part.width) });
+        }
+      }
+      // Drop rectangles inside another one (keeping the first of any duplicates)
+      free = next.filter((rect, i) =>
+        !next.some((other, j) => j !== i && contains(other, rect) && (!contains(rect, other) || j < i))
+      );
+    }
+    
+    const usable = free
+      .map(rect => ({ x: rect.x, y: rect.y, length: Math.floor(rect.length), width: Math.floor(rect.width) }))
+      .filter(rect =>
+        Math.max(rect.length, rect.width) >= minLength && Math.min(rect.length, rect.width) >= minWidth
+      )
+      .sort((a, b) => (b.length * b.width) - (a.length * a.width));
+    
+    const chosen: Area[] = [];
+    for (const rect of usable) {
+      if (!chosen.some(other => overlaps(other, rect))) {
+        chosen.push(rect);
+      }
+    }
+    return chosen;
+  }
+  
   /**
    * Find a position for a part within the sheet
    * 
@@ -0,0 +1,86 @@
+import { InventoryItem } from '../types';
+
+export const UNIT_MEASUREMENTS = [
+  'Each (ea)',
+  'Pieces (pcs)',
+  'Square Feet (sq ft)',
+  'Square Metres (m²)',
+  'Linear Feet (lin ft)',
+  'Metres (m)',
+  'Millimetres (mm)',
+  'Board Feet (bd ft)',
+  'Pounds (lbs)',
+  'Kilograms (kg)',
+  'Gallons (gal)',
+  'Liters (L)',
+  'Boxes (box)',
+  'Packages (pkg)',
+  'Sets (set)',
+  'Pairs (pr)',
+  'Sheets (sht)',
+  'Rolls (roll)',
+  'Tubes (tube)',
+  'Bottles (btl)'
+];
+
+/**
+ * UnitConversion - converts quantities and costs between an item's stock unit
+ * and the other units it is bought or consumed in
+ */
+export class UnitConversion {
+  /**
+   * Number of stock units in one of the given unit
+   *
+   * @param item - Inventory item with its conversion factors
+   * @param unit - Unit to convert from; empty means the stock unit
+   * @returns The factor, or undefined when the item has no conversion for the unit
+   */
+  static getFactor(item: InventoryItem, unit?: string): number | undefined {
+    if (!unit || unit === item.unitMeasurement) {
+      return 1;
+    }
+    return item.unitConversions?.find(conversion => conversion.unit === unit)?.factor;
+  }
+
+  /**
+   * Units an item can be counted in: the stock unit first, then every converted unit
+   */
+  static getUnits(item: InventoryItem): string[] {
+    return [item.unitMeasurement, ...(item.unitConversions || []).map(conversion => conversion.unit)].filter(Boolean);
+  }
+
+  static getPurchaseUnit(item: InventoryItem): string {
+    return item.purchaseUnit || item.unitMeasurement;
+  }
+
+  static getConsumptionUnit(item: InventoryItem): string {
+    return item.consumptionUnit || item.unitMeasurement;
+  }
+
+  /**
+   * Convert a quantity between two units of the same item
+   */
+  static convert(item: InventoryItem, quantity: number, fromUnit?: string, toUnit?: string): number {
+    const fromFactor = this.getFactor(item, fromUnit);
+    const toFactor = this.getFactor(item, toUnit);
+    if (fromFactor === undefined || toFactor === undefined) {
+      throw new Error(`No conversion between ${fromUnit} and ${toUnit} for ${item.itemId}`);
+    }
+    return quantity * fromFactor / toFactor;
+  }
+
+  /**
+   * Cost of one of the given unit, from the item's cost per stock unit
+   */
+  static convertUnitCost(item: InventoryItem, unitCost: number, toUnit?: string): number {
+    return unitCost * (this.getFactor(item, toUnit) ?? 1);
+  }
+
+  /**
+   * Short label for a unit, e.g. "sht" for "Sheets (sht)"
+   */
+  static abbreviation(unit?: string): string {
+    const match = unit?.match(/\(([^)]+)\)$/);
+    return match ? match[1] : unit || '';
+  }
+}
@@ -1,3 +1,5 @@
+import { StockReservation, Requisition } from './index';
+
 export interface CabinetTemplate {
   id: string;
   name: string;
@@ -147,6 +149,7 @@ export interface CabinetMaterial {
     width: number;
   };
   quantity: number;
+  unit?: string;
   unitCost: number;
   totalCost: number;
   supplier: string;
@@ -178,6 +181,45 @@ export interface NestingResult {
   wasteArea: number;
   totalArea: number;
   sheetCount: number;
+  // Remnants filled before any new sheet was opened; not counted in the sheet totals above
+  remnantSheets?: RemnantSheet[];
+}
+
+export interface RemnantSheet {
+  remnantId: string;
+  code: string;
+  length: number;
+  width: number;
+  parts: NestingPart[];
+  efficiency: number;
+}
+
+// Usable leftover rectangle on a new sheet (sheetIndex) or on a remnant (remnantCode), in mm
+export interface NestingOffcut {
+  sheetIndex?: number;
+  remnantCode?: string;
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+}
+
+// Offcut kept in stock for later nesting runs; length runs along the grain
+export interface Remnant {
+  id: string;
+  code: string;
+  materialType: string;
+  thickness: number;
+  length: number;
+  width: number;
+  status: 'available' | 'used' | 'scrapped';
+  location?: string | null;
+  sourceReference?: string | null;
+  notes?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+  usedAt?: string | null;
+  usedReference?: string | null;
 }
 
 export interface NestingPart {
@@ -190,6 +232,8 @@ export interface NestingPart {
   width: number;
   grain?: 'length' | 'width' | 'none';
   grainViolated?: boolean;
+  // Which new sheet of the result the part is cut from, counting from 0
+  sheetIndex?: number;
 }
 
 export interface CabinetProject {
@@ -206,10 +250,42 @@ export interface CabinetProject {
   tax: number;
   total: number;
   estimatedDays: number;
-  status: 'draft' | 'quoted' | 'approved' | 'in_production' | 'completed';
+  status: 'draft' | 'quoted' | 'approved' | 'in_production' | 'completed' | 'cancelled';
   createdAt: string;
   updatedAt: string;
   notes?: string;
+  // Returned by the server when a status change reserved stock
+  reservationSummary?: ProjectReservationSummary;
+}
+
+// Outcome of reserving a project's materials and hardware on approval
+export interface ProjectReservationSummary {
+  reservations: StockReservation[];
+  shortages: Array<{ itemId: string; name: string; required: number; reserved: number; unitMeasurement: string }>;
+  unmatched: Array<{ code?: string; name?: string; quantity: number; unit?: string | null; reason: string }>;
+}
+
+// One inventory item of a project's bill of materials, aggregated across its cabinets in the stock unit
+export interface ProjectRequisitionLine {
+  itemId: string;
+  itemName: string;
+  unitMeasurement: string;
+  requiredQuantity: number;
+  // Asked for on the project's earlier requisitions that were not rejected
+  alreadyRequested: number;
+  requestedQuantity: number;
+}
+
+// What "Request materials" would put on a requisition for a project
+export interface ProjectRequisitionPreview {
+  bomNumber: string;
+  lines: ProjectRequisitionLine[];
+  unmatched: ProjectReservationSummary['unmatched'];
+}
+
+export interface ProjectRequisitionResult {
+  requisition: Requisition;
+  unmatched: ProjectReservationSummary['unmatched'];
 }
 
 export interface MaterialSheet {
@@ -225,6 +301,17 @@ export interface MaterialSheet {
   isStandard: boolean;
 }
 
+export interface EdgebandRoll {
+  id: string;
+  name: string;
+  thickness: number;
+  width: number;
+  rollLength: number;
+  costPerRoll: number;
+  costPerMetre: number;
+  supplier: string;
+}
+
 export interface LaborRate {
   id: string;
   operation: string;
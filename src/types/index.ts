@@ -24,6 +24,8 @@ export interface Department {
   code: string;
   description: string;
   manager: string;
+  // User account that decides the department's manager approval steps
+  managerUsername?: string | null;
   costCenter: string;
   isActive: boolean;
   createdAt: string;
@@ -38,6 +40,8 @@ export interface CostCenter {
   actualSpent: number;
   budgetPeriod: 'monthly' | 'quarterly' | 'yearly';
   manager: string;
+  // User account that decides the cost center's manager approval steps
+  managerUsername?: string | null;
   department?: string;
   isActive: boolean;
   createdAt: string;
@@ -63,7 +67,35 @@ export interface Location {
   shelf: string;
   description?: string;
   isActive: boolean;
+  totalQuantity?: number;
+  itemCount?: number;
   createdAt: string;
+  updatedAt?: string;
+}
+
+// Item category master data; sub-categories have a parentId and no sub-categories of their own
+export interface InventoryCategory {
+  id: string;
+  name: string;
+  parentId: string | null;
+  description?: string | null;
+  itemCount: number;
+  subCategories?: InventoryCategory[];
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export interface LocationStock {
+  locationId: string;
+  locationCode: string;
+  storeName: string;
+  quantity: number;
+}
+
+// One unit of `unit` equals `factor` of the item's stock unit (unitMeasurement)
+export interface ItemUnitConversion {
+  unit: string;
+  factor: number;
 }
 
 export interface InventoryItem {
@@ -78,9 +110,665 @@ export interface InventoryItem {
   location: string;
   supplier: string;
   unitMeasurement: string;
+  purchaseUnit?: string | null;
+  consumptionUnit?: string | null;
+  unitConversions?: ItemUnitConversion[];
   minStockLevel: number;
   maxStockLevel: number;
   lastUpdated: string;
+  isLotTracked?: boolean;
+  // Days from receipt to expiry, used when a receipt has no expiry date; lot-tracked items only
+  shelfLifeDays?: number | null;
+  stockByLocation?: LocationStock[];
+  // Held for approved cabinet projects; available = quantity (on hand) - reserved
+  reservedQuantity?: number;
+  availableQuantity?: number;
+  // Stored by the last ABC / XYZ classification
+  abcClass?: AbcClass | null;
+  xyzClass?: XyzClass | null;
+  classifiedAt?: string | null;
+}
+
+export type AbcClass = 'A' | 'B' | 'C';
+
+export type XyzClass = 'X' | 'Y' | 'Z';
+
+export interface InventoryAnalysisItem {
+  id: string;
+  itemId: string;
+  name: string;
+  category: string;
+  unitMeasurement: string;
+  quantity: number;
+  unitCost: number;
+  issuedQuantity: number;
+  annualConsumptionValue: number;
+  valueShare: number;
+  cumulativeShare: number;
+  abcClass: AbcClass;
+  // Null when nothing was issued in the window
+  coefficientOfVariation: number | null;
+  xyzClass: XyzClass;
+  storedAbcClass: AbcClass | null;
+  storedXyzClass: XyzClass | null;
+  classifiedAt: string | null;
+  lastMovementAt: string | null;
+  lastCountedAt: string | null;
+  nextCountDue: string | null;
+  isDueForCount: boolean;
+}
+
+export interface DeadStockItem {
+  id: string;
+  itemId: string;
+  name: string;
+  category: string;
+  unitMeasurement: string;
+  quantity: number;
+  unitCost: number;
+  tiedUpValue: number;
+  lastMovementAt: string | null;
+  daysSinceMovement: number | null;
+}
+
+export interface InventoryAnalysisParameters {
+  days: number;
+  deadStockDays: number;
+  aLimit: number;
+  bLimit: number;
+}
+
+// ABC / XYZ classification of every item plus the stock that has not moved
+export interface InventoryAnalysis {
+  generatedAt: string;
+  parameters: InventoryAnalysisParameters & {
+    xyzLimits: { X: number; Y: number };
+    countFrequencyDays: Record<AbcClass, number>;
+  };
+  totalAnnualConsumptionValue: number;
+  items: InventoryAnalysisItem[];
+  summary: Record<string, { count: number; annualConsumptionValue: number }>;
+  deadStock: DeadStockItem[];
+  deadStockValue: number;
+}
+
+export type StockReservationStatus = 'active' | 'released' | 'consumed';
+
+export type ForecastPeriod = 'month' | 'week';
+
+export type ForecastMethod = 'moving_average' | 'seasonal_smoothing';
+
+export interface ForecastPoint {
+  period: string;
+  quantity: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastMethodResult {
+  method: ForecastMethod;
+  available: boolean;
+  note?: string | null;
+  // One-step-ahead fit error over the history, in stock units per period
+  rmse: number | null;
+  smoothing?: { alpha: number; beta: number; gamma: number };
+  forecast: ForecastPoint[];
+}
+
+// Issued quantities per period and their forecast, with a min/max derived from the better-fitting method
+export interface DemandForecast {
+  inventoryItemId: string;
+  itemId: string;
+  name: string;
+  unitMeasurement: string;
+  period: ForecastPeriod;
+  history: Array<{ period: string; quantity: number }>;
+  methods: ForecastMethodResult[];
+  leadTimeDays: number;
+  leadTimeSource: 'request' | 'purchase_orders' | 'default';
+  currentMinStockLevel: number;
+  currentMaxStockLevel: number;
+  recommendation: {
+    method: ForecastMethod;
+    leadTimeDemand: number;
+    safetyStock: number;
+    minStockLevel: number;
+    maxStockLevel: number;
+  } | null;
+}
+
+export type InventoryAttachmentType = 'photo' | 'spec_sheet' | 'safety_data_sheet';
+
+// File stored against an item; filePath is served from /uploads
+export interface InventoryAttachment {
+  id: string;
+  inventoryItemId: string;
+  type: InventoryAttachmentType;
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  description?: string | null;
+  uploadedBy?: string | null;
+  filePath: string;
+  createdAt: string;
+}
+
+// Stock set aside for a cabinet project, in the item's stock unit
+export interface StockReservation {
+  id: string;
+  inventoryItemId: string;
+  // Id of the project, or of the requisition allocated stock from a received purchase order
+  projectId: string;
+  projectName?: string | null;
+  referenceType?: 'cabinet_project' | 'requisition';
+  requiredQuantity: number;
+  reservedQuantity: number;
+  consumedQuantity: number;
+  status: StockReservationStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Joined from the item when listed per project
+  itemId?: string;
+  name?: string;
+  unitMeasurement?: string;
+  // In-stock alternatives when an active reservation is short
+  substitutes?: ItemSubstitute[];
+}
+
+export interface SubstitutionGroupMember {
+  groupId: string;
+  inventoryItemId: string;
+  priority: number;
+  itemId: string;
+  name: string;
+  unitMeasurement: string;
+  quantity: number;
+  unitCost: number;
+}
+
+// Items that can stand in for one another, quantity for quantity; priority 1 is preferred
+export interface SubstitutionGroup {
+  id: string;
+  name: string;
+  notes?: string | null;
+  members: SubstitutionGroupMember[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One item in a kit; quantity is per kit, in the item's stock unit
+export interface KitComponent {
+  inventoryItemId: string;
+  itemId: string;
+  name: string;
+  unitMeasurement: string;
+  quantity: number;
+  unitCost: number;
+  isLotTracked: boolean;
+  onHandQuantity: number;
+  reservedQuantity: number;
+  availableQuantity: number;
+  // Kits this component alone has stock for
+  availableKits: number;
+}
+
+// A pre-packed bundle of items issued together; kits are not stocked, so availability
+// comes from the component with the least available stock
+export interface Kit {
+  id: string;
+  kitCode: string;
+  name: string;
+  description?: string | null;
+  templateId?: string | null;
+  components: KitComponent[];
+  unitCost: number;
+  availableKits: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KitHardwareMatch {
+  components: Pick<KitComponent, 'inventoryItemId' | 'itemId' | 'name' | 'unitMeasurement' | 'quantity'>[];
+  unmatched: { name: string; quantity: number; reason: string }[];
+}
+
+// An in-stock substitute for a short item; quantities and costs are per stock unit
+export interface ItemSubstitute {
+  groupId: string;
+  groupName: string;
+  priority: number;
+  id: string;
+  itemId: string;
+  name: string;
+  unitMeasurement: string;
+  quantity: number;
+  reservedQuantity: number;
+  availableQuantity: number;
+  unitCost: number;
+  unitCostDifference: number;
+  // Only when asked for a short quantity
+  coveredQuantity?: number;
+  costDifference?: number;
+}
+
+export interface InventoryLot {
+  id: string;
+  inventoryItemId: string;
+  locationId: string;
+  locationCode: string;
+  lotNumber: string;
+  quantity: number;
+  receivedAt: string;
+  expiryDate: string | null;
+}
+
+export interface FefoPick extends InventoryLot {
+  pickQuantity: number;
+}
+
+// Lots to issue a quantity from, earliest expiry first; expired lots are listed but not picked
+export interface FefoSuggestion {
+  inventoryItemId: string;
+  itemId: string;
+  quantity: number;
+  picks: FefoPick[];
+  shortQuantity: number;
+  expiredLots: InventoryLot[];
+}
+
+export interface ExpiringLot {
+  id: string;
+  inventoryItemId: string;
+  locationId: string;
+  locationCode: string;
+  lotNumber: string;
+  quantity: number;
+  receivedAt: string;
+  expiryDate: string;
+  itemId: string;
+  name: string;
+  unitMeasurement: string;
+  unitCost: number;
+  value: number;
+  // Negative once the lot has expired
+  daysUntilExpiry: number;
+  isExpired: boolean;
+}
+
+export type InventoryTransactionType = 'receipt' | 'issue' | 'adjustment' | 'transfer' | 'return';
+
+export interface InventoryTransaction {
+  id: string;
+  inventoryItemId: string;
+  type: InventoryTransactionType;
+  quantity: number;
+  balanceAfter: number;
+  unitCost?: number;
+  locationId?: string;
+  locationCode?: string;
+  lotNumber?: string | null;
+  unit?: string;
+  enteredQuantity?: number | null;
+  enteredUnit?: string | null;
+  referenceType?: string;
+  referenceNumber?: string;
+  notes?: string;
+  performedBy: string;
+  createdAt: string;
+}
+
+export type StockTakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export type StockTakeReasonCode = 'miscount' | 'damaged' | 'lost' | 'theft' | 'found' | 'expired' | 'unrecorded_issue' | 'unrecorded_receipt' | 'other';
+
+export interface StockTakeLine {
+  id: string;
+  stockTakeId: string;
+  inventoryItemId: string;
+  itemId: string;
+  name: string;
+  category: string;
+  unitMeasurement: string;
+  locationId: string;
+  locationCode: string;
+  lotNumber?: string | null;
+  expectedQuantity: number;
+  unitCost: number;
+  countedQuantity: number | null;
+  variance: number | null;
+  varianceValue: number | null;
+  reasonCode?: StockTakeReasonCode | null;
+  approved: boolean;
+  countedBy?: string | null;
+  countedAt?: string | null;
+}
+
+export interface StockTake {
+  id: string;
+  sessionNumber: string;
+  name: string;
+  scopeType: 'location' | 'category' | 'abc_class';
+  scopeValues: string[];
+  status: StockTakeStatus;
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+  postedBy?: string;
+  postedAt?: string;
+  lineCount?: number;
+  countedCount?: number;
+  varianceValue?: number;
+  lines?: StockTakeLine[];
+}
+
+export type ApprovalDocumentType = 'requisition' | 'purchase_order';
+
+// department_manager and cost_center_manager resolve to the user account managing the document's
+// department or its cost center, again each time the step is decided
+export type ApproverType = 'department_manager' | 'cost_center_manager' | 'role' | 'user';
+
+export type ApprovalStepStatus = 'pending' | 'approved' | 'rejected' | 'skipped';
+
+// Adds a step to every submitted document of its type that matches all of its conditions.
+// The amount range includes minAmount and excludes maxAmount; empty conditions match anything.
+export interface ApprovalRule {
+  id: string;
+  name: string;
+  documentType: ApprovalDocumentType;
+  stepOrder: number;
+  minAmount: number;
+  maxAmount?: number | null;
+  costCenter?: string | null;
+  department?: string | null;
+  category?: string | null;
+  approverType: ApproverType;
+  // Role or username; the resolved manager name on a department or cost center manager step
+  approverValue?: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApprovalStep {
+  id: string;
+  documentType: ApprovalDocumentType;
+  documentId: string;
+  stepOrder: number;
+  ruleId?: string | null;
+  name: string;
+  approverType: ApproverType;
+  approverValue?: string | null;
+  // Department name or cost center code a manager step was assigned from
+  approverScope?: string | null;
+  status: ApprovalStepStatus;
+  decidedBy?: string | null;
+  decidedAt?: string | null;
+  comments?: string | null;
+}
+
+export type RequisitionStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'partially_issued' | 'fulfilled';
+
+// Quantities and unit cost are per unitMeasurement, the stock unit or one of the item's converted units
+export interface RequisitionItem {
+  id: string;
+  inventoryItemId?: string | null;
+  itemId: string;
+  itemName: string;
+  requestedQuantity: number;
+  approvedQuantity?: number | null;
+  issuedQuantity?: number;
+  // Approved quantity not issued yet; open as a backorder once the requisition is partly issued
+  outstandingQuantity?: number;
+  unitCost: number;
+  totalCost: number;
+  stockOnHand?: number | null;
+  unitMeasurement: string;
+  isOverStock: boolean;
+  purchaseOrders?: RequisitionLinePurchaseOrder[];
+}
+
+// A purchase order a requisition line was ordered on; quantities are in the line's unit
+export interface RequisitionLinePurchaseOrder {
+  poId: string;
+  poNumber: string;
+  status: PurchaseOrder['status'];
+  quantity: number;
+  // Set aside for the line when the order was received
+  allocatedQuantity: number;
+  allocatedAt?: string | null;
+}
+
+export interface Requisition {
+  id: string;
+  requestNumber: string;
+  requester: string;
+  department: string;
+  orderNumber?: string | null;
+  bomNumber?: string | null;
+  // Cabinet project the requisition was raised from; its issues draw down the project's reservation
+  projectId?: string | null;
+  requireSingleLot?: boolean;
+  status: RequisitionStatus;
+  items: RequisitionItem[];
+  requestDate: string;
+  submittedAt?: string | null;
+  approvedBy?: string | null;
+  approvalDate?: string | null;
+  rejectedBy?: string | null;
+  rejectedAt?: string | null;
+  rejectionReason?: string | null;
+  fulfilledAt?: string | null;
+  approvalSteps?: ApprovalStep[];
+  notes?: string | null;
+  createdBy?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Lines are sent by item code; the server fills in the name and unit cost
+export interface RequisitionInput {
+  requester: string;
+  department: string;
+  orderNumber?: string;
+  bomNumber?: string;
+  requireSingleLot?: boolean;
+  notes?: string;
+  createdBy?: string;
+  items: Pick<RequisitionItem, 'itemId' | 'requestedQuantity' | 'unitMeasurement'>[];
+}
+
+// One outstanding line of a requisition's pick task; quantities are in the line's unit
+export interface RequisitionPickLine {
+  lineId: string;
+  lineNumber: number;
+  itemId: string;
+  itemName: string;
+  unitMeasurement: string;
+  outstandingQuantity: number;
+  availableQuantity: number;
+  isLotTracked: boolean;
+  // Default location first
+  locations: LocationStock[];
+  // Lots to take first-expired-first-out
+  lots: {
+    lotNumber: string;
+    locationId: string;
+    locationCode: string;
+    expiryDate?: string | null;
+    quantity: number;
+  }[];
+}
+
+export interface RequisitionPickList {
+  requisitionId: string;
+  requestNumber: string;
+  requireSingleLot: boolean;
+  lines: RequisitionPickLine[];
+}
+
+// Quantity picked for a line; without a lot number lot-tracked items are issued first-expired-first-out
+export interface RequisitionIssueLine {
+  id: string;
+  quantity: number;
+  locationId?: string;
+  lotNumber?: string;
+}
+
+export interface RequisitionBackorder {
+  requisitionId: string;
+  requestNumber: string;
+  requester: string;
+  department: string;
+  lineId: string;
+  itemId: string;
+  itemName: string;
+  unitMeasurement: string;
+  approvedQuantity: number;
+  issuedQuantity: number;
+  outstandingQuantity: number;
+  stockOnHand: number | null;
+  // Stock is on hand to issue at least part of the line
+  canIssue: boolean;
+}
+
+// Requisition line that stock cannot cover, to be ordered; quantities are in the line's unit
+export interface RequisitionPurchaseCandidate {
+  requisitionId: string;
+  requestNumber: string;
+  requester: string;
+  department: string;
+  requestDate: string;
+  lineId: string;
+  itemId: string;
+  itemName: string;
+  supplier: string;
+  unitMeasurement: string;
+  outstandingQuantity: number;
+  onOrderQuantity: number;
+  shortQuantity: number;
+}
+
+export interface UserNotification {
+  id: string;
+  recipientName?: string | null;
+  recipientEmail?: string | null;
+  title: string;
+  message: string;
+  referenceType?: string | null;
+  referenceId?: string | null;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export type MaterialReturnReferenceType = 'requisition' | 'project';
+
+export type ReturnCondition = 'new' | 'used' | 'damaged';
+
+// quantity is in unitMeasurement, stockQuantity in the item's stock unit
+export interface MaterialReturnItem {
+  id: string;
+  inventoryItemId?: string | null;
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  unitMeasurement: string;
+  stockQuantity: number;
+  condition: ReturnCondition;
+  locationId?: string | null;
+  locationCode?: string | null;
+  lotNumber?: string | null;
+  unitCost: number;
+  creditAmount: number;
+  lineNumber: number;
+}
+
+// Unused material brought back to stock, credited to the cost center of the returning department
+export interface MaterialReturn {
+  id: string;
+  returnNumber: string;
+  referenceType: MaterialReturnReferenceType;
+  referenceId: string;
+  referenceNumber: string;
+  department?: string | null;
+  costCenter?: string | null;
+  creditAmount: number;
+  returnedBy?: string | null;
+  receivedBy?: string | null;
+  notes?: string | null;
+  items: MaterialReturnItem[];
+  createdAt: string;
+}
+
+// An item issued against a requisition or project; quantities and unit cost are per stock unit
+export interface ReturnableItem {
+  inventoryItemId: string;
+  itemId: string;
+  itemName: string;
+  unitMeasurement: string;
+  isLotTracked: boolean;
+  issuedQuantity: number;
+  returnedQuantity: number;
+  returnableQuantity: number;
+  unitCost: number;
+  lotNumbers: string[];
+}
+
+export interface ReturnableMaterials {
+  referenceType: MaterialReturnReferenceType;
+  referenceId: string;
+  referenceNumber: string;
+  // Set for requisitions; project returns name the department to credit
+  department?: string | null;
+  items: ReturnableItem[];
+}
+
+export interface MaterialReturnInput {
+  referenceType: MaterialReturnReferenceType;
+  referenceId: string;
+  department?: string;
+  returnedBy?: string;
+  receivedBy?: string;
+  notes?: string;
+  items: {
+    itemId: string;
+    quantity: number;
+    unitMeasurement?: string;
+    condition: ReturnCondition;
+    locationId?: string;
+    lotNumber?: string;
+  }[];
+}
+
+export interface CostCenterCredit {
+  costCenter: string | null;
+  department: string | null;
+  returnCount: number;
+  creditAmount: number;
+}
+
+export type InventoryImportMode = 'insert' | 'upsert';
+
+export interface InventoryImportRow {
+  row: number;
+  itemId: string;
+  name: string;
+  action: 'insert' | 'update';
+  errors: Array<{ field: string; message: string }>;
+}
+
+export interface InventoryImportResult {
+  fileName: string;
+  mode: InventoryImportMode;
+  dryRun: boolean;
+  committed: boolean;
+  columns: string[];
+  totalRows: number;
+  insertCount: number;
+  updateCount: number;
+  errorCount: number;
+  rows: InventoryImportRow[];
+  referenceNumber?: string;
 }
 
 export interface PurchaseHistory {
@@ -95,6 +783,8 @@ export interface PurchaseHistory {
   invoiceNumber?: string;
 }
 
+export type ValuationMethod = 'fifo' | 'weighted_average' | 'last_price';
+
 export interface InventoryValuation {
   id: string;
   itemId: string;
@@ -104,12 +794,17 @@ export interface InventoryValuation {
   unitMeasurement: string;
   lastPurchasePrice: number;
   averagePurchasePrice: number;
+  fifoUnitCost: number;
   totalPurchases: number;
   valuationAtLastPrice: number;
   valuationAtAveragePrice: number;
-  lastPurchaseDate: string;
+  valuationAtFifo: number;
+  lastPurchaseDate: string | null;
   supplier: string;
   location: string;
+  method: ValuationMethod;
+  // Value under the requested method
+  valuation: number;
 }
 
 export interface Report {
@@ -159,6 +854,7 @@ export interface PurchaseOrder {
   orderDate: string;
   expectedDelivery?: string;
   notes?: string;
+  approvalSteps?: ApprovalStep[];
   createdAt?: string;
   updatedAt?: string;
 }
@@ -168,10 +864,29 @@ export interface PurchaseOrderItem {
   itemId: string;
   itemName: string;
   quantity: number;
+  unit?: string;
   unitCost: number;
   totalCost: number;
 }
 
+// Quantities are in stock units except orderQuantity and unitCost, which are per purchase unit
+export interface ReplenishmentSuggestion {
+  inventoryItemId: string;
+  itemId: string;
+  name: string;
+  supplier: string;
+  unitMeasurement: string;
+  quantity: number;
+  reservedQuantity: number;
+  minStockLevel: number;
+  maxStockLevel?: number;
+  openQuantity: number;
+  suggestedQuantity: number;
+  orderQuantity: number;
+  purchaseUnit: string;
+  unitCost: number;
+}
+
 export interface Cabinet {
   id: string;
   type: 'base' | 'wall' | 'tall' | 'drawer';
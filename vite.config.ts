@@ -28,6 +28,11 @@ export default defineConfig({
           });
         },
       },
+      '/uploads': {
+        target: 'http://127.0.0.1:3001',
+        changeOrigin: true,
+        secure: false,
+      },
     },
   },
   optimizeDeps: {